@@ -1,6 +1,10 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuth } from './hooks/useAuth';
+import { useMfaStatus } from './hooks/useMfa';
+import { getMfaRequirement } from './lib/mfa';
 import Login from './pages/Login';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
 import Dashboard from './pages/Dashboard';
 import Organization from './pages/Organization';
 import Theme from './pages/Theme';
@@ -9,10 +13,22 @@ import Documents from './pages/Documents';
 import Integrations from './pages/Integrations';
 import Users from './pages/Users';
 import Applications from './pages/Applications';
+import Approvals from './pages/Approvals';
+import AuditLog from './pages/AuditLog';
+import Team from './pages/Team';
+import Organizations from './pages/Organizations';
+import Profile from './pages/Profile';
 import Layout from './components/layout/Layout';
+import { RequirePermission } from './components/RequirePermission';
+import { RequireMfa } from './components/RequireMfa';
 
 function App() {
-  const { isAdmin, loading } = useAuth();
+  const { isAdmin, adminUser, loading } = useAuth();
+  const mfa = useMfaStatus(isAdmin);
+  const mfaRequirement = getMfaRequirement(adminUser?.role, mfa.status);
+  // The login page also asks for the authenticator code, so it stays up
+  // until the session has been verified
+  const showLogin = !isAdmin || mfaRequirement === 'challenge' || (mfaRequirement === 'pending' && !mfa.error);
 
   if (loading) {
     return (
@@ -28,21 +44,56 @@ function App() {
   return (
     <Router>
       <Routes>
-        <Route path="/login" element={!isAdmin ? <Login /> : <Navigate to="/" />} />
+        <Route
+          path="/login"
+          element={showLogin ? <Login mfaChallenge={isAdmin && mfaRequirement === 'challenge'} /> : <Navigate to="/" />}
+        />
+        <Route path="/forgot-password" element={!isAdmin ? <ForgotPassword /> : <Navigate to="/" />} />
+        {/* The recovery link signs the user in, so this is open to any session */}
+        <Route path="/reset-password" element={<ResetPassword />} />
         
         {/* Protected Routes */}
         <Route
           path="/"
-          element={isAdmin ? <Layout /> : <Navigate to="/login" />}
+          element={isAdmin ? (
+            <RequireMfa requirement={mfaRequirement} error={mfa.error} onRetry={mfa.refetch}>
+              <Layout />
+            </RequireMfa>
+          ) : (
+            <Navigate to="/login" />
+          )}
         >
           <Route index element={<Dashboard />} />
           <Route path="organization" element={<Organization />} />
           <Route path="theme" element={<Theme />} />
           <Route path="products" element={<Products />} />
           <Route path="documents" element={<Documents />} />
-          <Route path="applications" element={<Applications />} />
-          <Route path="integrations" element={<Integrations />} />
-          <Route path="users" element={<Users />} />
+          <Route
+            path="applications"
+            element={<RequirePermission permission="applications.view"><Applications /></RequirePermission>}
+          />
+          <Route
+            path="integrations"
+            element={<RequirePermission permission="integrations.view"><Integrations /></RequirePermission>}
+          />
+          <Route
+            path="users"
+            element={<RequirePermission permission="users.view"><Users /></RequirePermission>}
+          />
+          <Route path="approvals" element={<Approvals />} />
+          <Route path="profile" element={<Profile />} />
+          <Route
+            path="audit-log"
+            element={<RequirePermission permission="audit.view"><AuditLog /></RequirePermission>}
+          />
+          <Route
+            path="team"
+            element={<RequirePermission permission="team.manage"><Team /></RequirePermission>}
+          />
+          <Route
+            path="organizations"
+            element={<RequirePermission permission="organizations.manage"><Organizations /></RequirePermission>}
+          />
         </Route>
       </Routes>
     </Router>
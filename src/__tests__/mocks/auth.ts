@@ -0,0 +1,20 @@
+import type { AdminUser } from '@/hooks/useAuth'
+
+// Replaces @/hooks/useAuth for page tests, which render as a super admin;
+// role checks are covered in permissions.test.ts. Use it with
+//   vi.mock('@/hooks/useAuth', () => import('@/__tests__/mocks/auth'))
+export const mockSuperAdmin: AdminUser = {
+  id: 'admin-1',
+  email: 'admin@test.com',
+  full_name: 'Test Admin',
+  role: 'super_admin',
+  organization_id: null,
+  created_at: '2024-01-01T00:00:00Z',
+}
+
+export const useAuth = () => ({
+  user: null,
+  adminUser: mockSuperAdmin,
+  loading: false,
+  isAdmin: true,
+})
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle } from 'lucide-react';
+import { describeTier, resolvePricing } from '@/lib/pricing';
+import type { LoanApplication } from '@/hooks/useApplications';
+import type { LoanProduct, LoanProductVersion } from '@/types';
+
+type PricedProduct = Pick<LoanProduct, 'id' | 'name' | 'interest_rate' | 'processing_fee' | 'pricing_tiers'>;
+type AppliedVersion = Pick<LoanProductVersion, 'id' | 'version_number' | 'snapshot'>;
+
+interface ApplicationPricingProps {
+  application: LoanApplication;
+}
+
+export function ApplicationPricing({ application }: ApplicationPricingProps) {
+  const [product, setProduct] = useState<PricedProduct | null>(null);
+  const [version, setVersion] = useState<AppliedVersion | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!application.loan_product_id) {
+      setProduct(null);
+      setVersion(null);
+      return;
+    }
+    fetchProduct(application.loan_product_id, application.loan_product_version_id);
+  }, [application.loan_product_id, application.loan_product_version_id]);
+
+  const fetchProduct = async (productId: string, versionId?: string | null) => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data, error } = await supabase
+        .from('loan_products')
+        .select('id, name, interest_rate, processing_fee, pricing_tiers')
+        .eq('id', productId)
+        .single();
+
+      if (error) throw error;
+      setProduct(data);
+
+      // Price against the terms the applicant was offered, not today's
+      if (versionId) {
+        const { data: versionData, error: versionError } = await supabase
+          .from('loan_product_versions')
+          .select('id, version_number, snapshot')
+          .eq('id', versionId)
+          .single();
+
+        if (versionError) throw versionError;
+        setVersion(versionData);
+      } else {
+        setVersion(null);
+      }
+    } catch (err) {
+      console.error('Error fetching product pricing:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load product pricing');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!application.loan_product_id) {
+    return <p className="text-sm text-muted-foreground">Not linked to a loan product</p>;
+  }
+
+  if (loading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+
+  if (error || !product) {
+    return <p className="text-sm text-destructive">{error || 'Product not found'}</p>;
+  }
+
+  const pricing = resolvePricing(version?.snapshot || product, {
+    amount: application.amount,
+    termMonths: application.term_months,
+    riskGrade: application.risk_grade,
+  });
+  const rateDiffers = pricing.interest_rate !== application.interest_rate;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{product.name}</span>
+        <Badge variant="outline">
+          {version ? `Version ${version.version_number}` : 'Version not recorded'}
+        </Badge>
+        <Badge variant={pricing.tier ? 'default' : 'secondary'}>
+          {pricing.tier ? pricing.tier.name : 'Base price'}
+        </Badge>
+        <Badge variant="outline">
+          Risk grade {application.risk_grade || 'not set'}
+        </Badge>
+      </div>
+      <p className="text-muted-foreground">
+        {pricing.tier ? `Matches ${describeTier(pricing.tier)}` : 'No pricing tier matches this application'}
+        {' · '}
+        {pricing.interest_rate}% p.a., {pricing.processing_fee}% processing fee
+      </p>
+      {rateDiffers && (
+        <p className="flex items-center gap-2 text-amber-600">
+          <AlertTriangle className="h-3 w-3" />
+          The application was quoted {application.interest_rate}% p.a.; {version ? `version ${version.version_number}` : 'current'} pricing resolves to {pricing.interest_rate}%.
+        </p>
+      )}
+    </div>
+  );
+}
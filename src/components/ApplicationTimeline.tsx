@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { hasPermission } from '@/lib/permissions';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ArrowRight,
+  FilePlus,
+  Loader2,
+  MessageSquare,
+  Webhook,
+} from 'lucide-react';
+import { useApplicationEvents } from '@/hooks/useApplicationEvents';
+import { formatReasonCode, getStateLabel } from '@/lib/applicationWorkflow';
+import { cn } from '@/lib/utils';
+import type { AdminUser } from '@/hooks/useAuth';
+import type { ApplicationWorkflow, LoanApplicationEvent } from '@/types';
+
+interface ApplicationTimelineProps {
+  applicationId: string;
+  workflow: Pick<ApplicationWorkflow, 'states' | 'transitions'>;
+  adminUser: AdminUser | null;
+}
+
+const EVENT_KINDS: { value: LoanApplicationEvent['kind']; label: string }[] = [
+  { value: 'created', label: 'Submitted' },
+  { value: 'status_changed', label: 'Status changes' },
+  { value: 'note', label: 'Notes' },
+  { value: 'webhook_delivery', label: 'Webhook deliveries' },
+];
+
+const getEventIcon = (kind: LoanApplicationEvent['kind']) => {
+  switch (kind) {
+    case 'created':
+      return FilePlus;
+    case 'note':
+      return MessageSquare;
+    case 'webhook_delivery':
+      return Webhook;
+    default:
+      return ArrowRight;
+  }
+};
+
+export function ApplicationTimeline({
+  applicationId,
+  workflow,
+  adminUser,
+}: ApplicationTimelineProps) {
+  const { events, loading, error, addNote } = useApplicationEvents(applicationId);
+  const [kindFilter, setKindFilter] = useState<'all' | LoanApplicationEvent['kind']>('all');
+  const [note, setNote] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+
+  const filteredEvents = kindFilter === 'all'
+    ? events
+    : events.filter(event => event.kind === kindFilter);
+
+  const handleAddNote = async () => {
+    if (!note.trim()) return;
+
+    setSavingNote(true);
+    const { error } = await addNote(note.trim(), adminUser);
+    if (!error) {
+      setNote('');
+    }
+    setSavingNote(false);
+  };
+
+  const renderEventTitle = (event: LoanApplicationEvent) => {
+    switch (event.kind) {
+      case 'created':
+        return 'Application submitted';
+      case 'status_changed':
+        return (
+          <span className="flex items-center gap-1 flex-wrap">
+            {event.old_status ? getStateLabel(workflow, event.old_status) : 'Unknown'}
+            <ArrowRight className="h-3 w-3" />
+            {event.new_status ? getStateLabel(workflow, event.new_status) : 'Unknown'}
+          </span>
+        );
+      case 'webhook_delivery': {
+        const status = event.metadata?.status as string | undefined;
+        const integrationName = event.metadata?.integration_name as string | undefined;
+        return (
+          <span className="flex items-center gap-2">
+            Webhook {integrationName ? `to ${integrationName}` : 'delivery'}
+            {status && (
+              <Badge variant={status === 'failed' ? 'destructive' : 'outline'}>{status}</Badge>
+            )}
+          </span>
+        );
+      }
+      default:
+        return 'Note added';
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {events.length} {events.length === 1 ? 'event' : 'events'}
+        </p>
+        <Select
+          value={kindFilter}
+          onValueChange={(value) => setKindFilter(value as typeof kindFilter)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            {EVENT_KINDS.map((kind) => (
+              <SelectItem key={kind.value} value={kind.value}>
+                {kind.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {loading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-full" />
+        </div>
+      ) : filteredEvents.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No events to show
+        </p>
+      ) : (
+        <ol className="relative border-l ml-3 space-y-4">
+          {filteredEvents.map((event) => {
+            const Icon = getEventIcon(event.kind);
+            return (
+              <li key={event.id} className="ml-6">
+                <span className={cn(
+                  "absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted ring-4 ring-background",
+                  event.kind === 'status_changed' && "bg-primary text-primary-foreground"
+                )}>
+                  <Icon className="h-3 w-3" />
+                </span>
+                <div className="text-sm font-medium">{renderEventTitle(event)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(event.created_at).toLocaleString()} ({formatDistanceToNow(new Date(event.created_at), { addSuffix: true })})
+                  {event.actor_email && ` · ${event.actor_email}`}
+                </p>
+                {event.reason_code && (
+                  <Badge variant="outline" className="mt-1">
+                    {formatReasonCode(event.reason_code)}
+                  </Badge>
+                )}
+                {event.note && (
+                  <p className="mt-1 text-sm bg-muted rounded-md p-2 whitespace-pre-wrap">
+                    {event.note}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasPermission(adminUser?.role, 'applications.decide') && (
+        <div className="space-y-2">
+          <Textarea
+            className="resize-none"
+            placeholder="Add an internal note..."
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleAddNote}
+              disabled={savingNote || !note.trim()}
+            >
+              {savingNote ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <MessageSquare className="mr-2 h-4 w-4" />
+              )}
+              Add Note
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
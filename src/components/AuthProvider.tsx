@@ -0,0 +1,8 @@
+import type { ReactNode } from 'react';
+import { AuthContext, useAuthState } from '@/hooks/useAuth';
+
+// One session listener and admin profile fetch for the whole app
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const auth = useAuthState();
+  return <AuthContext.Provider value={auth}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,274 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, FolderPlus, X } from 'lucide-react';
+import {
+  ELIGIBILITY_FIELDS,
+  EMPLOYMENT_STATUSES,
+  OPERATORS_BY_KIND,
+  createCondition,
+  createGroup,
+  getFieldKind,
+} from '@/lib/eligibility';
+import { cn } from '@/lib/utils';
+import type {
+  EligibilityCondition,
+  EligibilityCriteria,
+  EligibilityField,
+  EligibilityGroup,
+  EligibilityRule,
+} from '@/types';
+
+interface EligibilityRuleBuilderProps {
+  value: EligibilityCriteria;
+  onChange: (criteria: EligibilityCriteria) => void;
+}
+
+const MAX_DEPTH = 3;
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
+function ConditionEditor({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: EligibilityCondition;
+  onChange: (condition: EligibilityCondition) => void;
+  onRemove: () => void;
+}) {
+  const kind = getFieldKind(condition.field);
+  const selectedStatuses = Array.isArray(condition.value) ? condition.value : [];
+
+  const changeField = (field: EligibilityField) => {
+    onChange({ ...createCondition(field), id: condition.id });
+  };
+
+  const changeOperator = (operator: EligibilityCondition['operator']) => {
+    if (kind !== 'string') {
+      onChange({ ...condition, operator });
+      return;
+    }
+    // String operators switch between a single value and a list
+    const isList = operator === 'in' || operator === 'not_in';
+    const value = isList
+      ? (Array.isArray(condition.value) ? condition.value : [String(condition.value || '')].filter(Boolean))
+      : (Array.isArray(condition.value) ? condition.value[0] || EMPLOYMENT_STATUSES[0] : condition.value);
+    onChange({ ...condition, operator, value });
+  };
+
+  const toggleStatus = (status: string) => {
+    const value = selectedStatuses.includes(status)
+      ? selectedStatuses.filter(s => s !== status)
+      : [...selectedStatuses, status];
+    onChange({ ...condition, value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border bg-background p-2">
+      <Select value={condition.field} onValueChange={(value) => changeField(value as EligibilityField)}>
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ELIGIBILITY_FIELDS.map((field) => (
+            <SelectItem key={field.value} value={field.value}>
+              {field.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={condition.operator}
+        onValueChange={(value) => changeOperator(value as EligibilityCondition['operator'])}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {OPERATORS_BY_KIND[kind].map((operator) => (
+            <SelectItem key={operator.value} value={operator.value}>
+              {operator.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {kind === 'number' && (
+        <Input
+          type="number"
+          className="w-32"
+          value={String(condition.value)}
+          onChange={(e) => onChange({ ...condition, value: parseFloat(e.target.value) || 0 })}
+        />
+      )}
+
+      {kind === 'boolean' && (
+        <Select
+          value={condition.value ? 'true' : 'false'}
+          onValueChange={(value) => onChange({ ...condition, value: value === 'true' })}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Yes</SelectItem>
+            <SelectItem value="false">No</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {kind === 'string' && Array.isArray(condition.value) && (
+        <div className="flex flex-wrap gap-1">
+          {EMPLOYMENT_STATUSES.map((status) => (
+            <Badge
+              key={status}
+              variant={selectedStatuses.includes(status) ? 'default' : 'outline'}
+              className="cursor-pointer capitalize"
+              onClick={() => toggleStatus(status)}
+            >
+              {formatStatus(status)}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {kind === 'string' && !Array.isArray(condition.value) && (
+        <Select
+          value={String(condition.value)}
+          onValueChange={(value) => onChange({ ...condition, value })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EMPLOYMENT_STATUSES.map((status) => (
+              <SelectItem key={status} value={status} className="capitalize">
+                {formatStatus(status)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Button type="button" variant="ghost" size="icon" className="ml-auto" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function GroupEditor({
+  group,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  group: EligibilityGroup;
+  depth: number;
+  onChange: (group: EligibilityGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateRule = (index: number, rule: EligibilityRule) => {
+    const rules = [...group.rules];
+    rules[index] = rule;
+    onChange({ ...group, rules });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={cn("space-y-2 rounded-lg border p-3", depth > 0 && "bg-muted/50")}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.combinator}
+          onValueChange={(value) => onChange({ ...group, combinator: value as EligibilityGroup['combinator'] })}
+        >
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">All conditions must pass</SelectItem>
+            <SelectItem value="or">Any condition may pass</SelectItem>
+          </SelectContent>
+        </Select>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" className="ml-auto" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No conditions. {depth === 0 ? 'Every applicant is eligible.' : 'This group always passes.'}
+        </p>
+      )}
+
+      {group.rules.map((rule, index) =>
+        rule.type === 'group' ? (
+          <GroupEditor
+            key={rule.id}
+            group={rule}
+            depth={depth + 1}
+            onChange={(updated) => updateRule(index, updated)}
+            onRemove={() => removeRule(index)}
+          />
+        ) : (
+          <ConditionEditor
+            key={rule.id}
+            condition={rule}
+            onChange={(updated) => updateRule(index, updated)}
+            onRemove={() => removeRule(index)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, rules: [...group.rules, createCondition()] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Condition
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({
+              ...group,
+              rules: [...group.rules, createGroup(group.combinator === 'and' ? 'or' : 'and')],
+            })}
+          >
+            <FolderPlus className="mr-2 h-4 w-4" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function EligibilityRuleBuilder({ value, onChange }: EligibilityRuleBuilderProps) {
+  return (
+    <GroupEditor
+      group={value.root}
+      depth={0}
+      onChange={(root) => onChange({ ...value, root })}
+    />
+  );
+}
@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CheckCircle2, XCircle, Loader2, PlayCircle, Search } from 'lucide-react';
+import {
+  buildEligibilityContext,
+  describeCondition,
+  evaluateEligibility,
+  type EligibilityResult,
+} from '@/lib/eligibility';
+import { useCurrentOrganization } from '@/hooks/useCurrentOrganization';
+import type { LoanApplication } from '@/hooks/useApplications';
+import type { EligibilityCriteria } from '@/types';
+
+const APPLICATION_SELECT = `
+  *,
+  profiles!user_id (
+    id,
+    full_name,
+    phone_number,
+    date_of_birth,
+    kyc_verified
+  )
+`;
+
+const RESULT_LIMIT = 50;
+
+/**
+ * The uuid range covering every ID that starts with the given characters.
+ * IDs are shown by their first 8 characters, and a uuid column can't be
+ * searched with ilike.
+ */
+function idPrefixRange(search: string): [string, string] | null {
+  const hex = search.toLowerCase().replace(/-/g, '');
+  if (!/^[0-9a-f]{1,32}$/.test(hex)) return null;
+
+  const pad = (fill: string) => {
+    const id = hex.padEnd(32, fill);
+    return [id.slice(0, 8), id.slice(8, 12), id.slice(12, 16), id.slice(16, 20), id.slice(20)].join('-');
+  };
+  return [pad('0'), pad('f')];
+}
+
+interface EligibilityTesterProps {
+  criteria: EligibilityCriteria;
+}
+
+export function EligibilityTester({ criteria }: EligibilityTesterProps) {
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+  const [applications, setApplications] = useState<LoanApplication[]>([]);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [selected, setSelected] = useState<LoanApplication | null>(null);
+  const [result, setResult] = useState<EligibilityResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Switching organization must not leave another organization's application picked
+  useEffect(() => {
+    setSelected(null);
+  }, [organizationId]);
+
+  // A stale result would describe rules that no longer exist
+  useEffect(() => {
+    setResult(null);
+  }, [criteria, selected]);
+
+  const fetchApplications = useCallback(async () => {
+    if (organizationLoading) return;
+
+    setSearching(true);
+    try {
+      const query = (select: string) => {
+        const builder = supabase.from('loan_applications').select(select);
+        return organizationId ? builder.eq('organization_id', organizationId) : builder;
+      };
+
+      const searches = [];
+      if (!debouncedSearch) {
+        searches.push(query(APPLICATION_SELECT));
+      } else {
+        // Hex text could be either an ID or a name, so look for both
+        searches.push(
+          query(APPLICATION_SELECT.replace('profiles!user_id', 'profiles!user_id!inner'))
+            .ilike('profiles.full_name', `%${debouncedSearch}%`)
+        );
+        const range = idPrefixRange(debouncedSearch);
+        if (range) {
+          searches.push(query(APPLICATION_SELECT).gte('id', range[0]).lte('id', range[1]));
+        }
+      }
+
+      const results = await Promise.all(searches.map(builder => builder
+        .order('created_at', { ascending: false })
+        .limit(RESULT_LIMIT)
+        .returns<LoanApplication[]>()
+      ));
+
+      const matches = new Map<string, LoanApplication>();
+      for (const { data, error } of results) {
+        if (error) throw error;
+        for (const application of data || []) {
+          matches.set(application.id, application);
+        }
+      }
+      setApplications(
+        [...matches.values()]
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .slice(0, RESULT_LIMIT)
+      );
+    } catch (err) {
+      console.error('Error fetching applications for eligibility test:', err);
+    } finally {
+      setSearching(false);
+    }
+  }, [debouncedSearch, organizationId, organizationLoading]);
+
+  useEffect(() => {
+    fetchApplications();
+  }, [fetchApplications]);
+
+  // Keep the picked application listed while searching for another
+  const options = selected && !applications.some(a => a.id === selected.id)
+    ? [selected, ...applications]
+    : applications;
+
+  const runCheck = async () => {
+    const application = selected;
+    if (!application) return;
+
+    setRunning(true);
+    setError('');
+    try {
+      const { count, error } = await supabase
+        .from('loan_applications')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', application.user_id)
+        .lt('created_at', application.created_at);
+
+      if (error) throw error;
+      const context = buildEligibilityContext(application, count || 0);
+      setResult(evaluateEligibility(criteria, context));
+    } catch (err) {
+      console.error('Error running eligibility check:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run eligibility check');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+        <Input
+          placeholder="Search by application ID or applicant name..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-8"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Select
+          value={selected?.id ?? ''}
+          onValueChange={(id) => setSelected(options.find(a => a.id === id) ?? null)}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={searching ? 'Searching...' : 'Pick an existing application'} />
+          </SelectTrigger>
+          <SelectContent>
+            {options.length === 0 && (
+              <div className="px-2 py-1.5 text-sm text-muted-foreground">No matching applications</div>
+            )}
+            {options.map((application) => (
+              <SelectItem key={application.id} value={application.id}>
+                {application.profiles?.full_name || 'Unknown'} · {application.id.substring(0, 8)} ·{' '}
+                {new Date(application.created_at).toLocaleDateString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" onClick={runCheck} disabled={!selected || running}>
+          {running ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <PlayCircle className="mr-2 h-4 w-4" />
+          )}
+          Check
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            {result.eligible ? (
+              <>
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                Would have been eligible
+              </>
+            ) : (
+              <>
+                <XCircle className="h-4 w-4 text-red-600" />
+                Would not have been eligible
+              </>
+            )}
+          </div>
+          <ul className="space-y-1 text-sm">
+            {result.conditions.map(({ condition, actual, passed }) => (
+              <li key={condition.id} className="flex items-center gap-2">
+                {passed ? (
+                  <CheckCircle2 className="h-3 w-3 text-green-600" />
+                ) : (
+                  <XCircle className="h-3 w-3 text-red-600" />
+                )}
+                <span>{describeCondition(condition)}</span>
+                <span className="text-muted-foreground">
+                  (actual: {actual === undefined ? 'unknown' : String(actual)})
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
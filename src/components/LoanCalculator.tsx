@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  calculateLoan,
+  formatMoney,
+  getFrequencyLabel,
+  isValidLoanTerms,
+} from '@/lib/loanCalculator';
+import { RISK_GRADES, resolvePricing } from '@/lib/pricing';
+import { cn } from '@/lib/utils';
+import type { LoanProduct, RiskGrade } from '@/types';
+
+type CalculatorProduct = Pick<
+  LoanProduct,
+  | 'min_amount'
+  | 'max_amount'
+  | 'min_term_months'
+  | 'max_term_months'
+  | 'interest_rate'
+  | 'processing_fee'
+  | 'late_payment_fee'
+  | 'grace_period_months'
+  | 'interest_method'
+  | 'repayment_frequency'
+  | 'pricing_tiers'
+>;
+
+interface LoanCalculatorProps {
+  product: CalculatorProduct;
+  currencySymbol: string;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export function LoanCalculator({ product, currencySymbol }: LoanCalculatorProps) {
+  const [amount, setAmount] = useState(product.min_amount);
+  const [termMonths, setTermMonths] = useState(product.min_term_months);
+  const [riskGrade, setRiskGrade] = useState<RiskGrade | 'ungraded'>('ungraded');
+  const [showSchedule, setShowSchedule] = useState(false);
+
+  const boundsValid =
+    [product.min_amount, product.max_amount, product.min_term_months, product.max_term_months].every(Number.isFinite) &&
+    product.min_amount > 0 &&
+    product.min_amount <= product.max_amount &&
+    product.min_term_months >= 1 &&
+    product.min_term_months <= product.max_term_months;
+
+  // Keep the chosen scenario inside the product bounds as they are edited
+  useEffect(() => {
+    if (!boundsValid) return;
+    setAmount(current => clamp(current, product.min_amount, product.max_amount));
+    setTermMonths(current => clamp(current, product.min_term_months, product.max_term_months));
+  }, [boundsValid, product.min_amount, product.max_amount, product.min_term_months, product.max_term_months]);
+
+  const pricing = resolvePricing(product, {
+    amount,
+    termMonths,
+    riskGrade: riskGrade === 'ungraded' ? null : riskGrade,
+  });
+
+  const terms = {
+    principal: amount,
+    annualRate: pricing.interest_rate,
+    termMonths,
+    gracePeriodMonths: product.grace_period_months || 0,
+    processingFeePercent: pricing.processing_fee || 0,
+    interestMethod: product.interest_method || 'reducing_balance',
+    frequency: product.repayment_frequency || 'monthly',
+  };
+
+  const calculation = boundsValid && isValidLoanTerms(terms) ? calculateLoan(terms) : null;
+
+  if (!boundsValid) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border p-3 text-sm text-muted-foreground">
+        <AlertCircle className="h-4 w-4" />
+        Enter valid amount and term ranges to preview repayments.
+      </div>
+    );
+  }
+
+  const money = (value: number) => formatMoney(value, currencySymbol);
+  const frequencyLabel = getFrequencyLabel(terms.frequency);
+  const gracePeriods = calculation?.schedule.filter(row => row.isGrace).length || 0;
+  const amountStep = Math.max(Math.round((product.max_amount - product.min_amount) / 100), 1);
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="calculator-amount">Amount ({currencySymbol})</Label>
+            <Input
+              id="calculator-amount"
+              type="number"
+              className="h-8 w-32"
+              value={amount}
+              min={product.min_amount}
+              max={product.max_amount}
+              onChange={(e) => setAmount(clamp(parseFloat(e.target.value) || product.min_amount, product.min_amount, product.max_amount))}
+            />
+          </div>
+          <Slider
+            value={[amount]}
+            min={product.min_amount}
+            max={product.max_amount}
+            step={amountStep}
+            onValueChange={([value]) => setAmount(value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="calculator-term">Term (months)</Label>
+            <Input
+              id="calculator-term"
+              type="number"
+              className="h-8 w-32"
+              value={termMonths}
+              min={product.min_term_months}
+              max={product.max_term_months}
+              onChange={(e) => setTermMonths(clamp(parseInt(e.target.value) || product.min_term_months, product.min_term_months, product.max_term_months))}
+            />
+          </div>
+          <Slider
+            value={[termMonths]}
+            min={product.min_term_months}
+            max={product.max_term_months}
+            step={1}
+            onValueChange={([value]) => setTermMonths(value)}
+          />
+        </div>
+      </div>
+
+      {(product.pricing_tiers?.length || 0) > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Label>Risk grade</Label>
+          <Select value={riskGrade} onValueChange={(value) => setRiskGrade(value as RiskGrade | 'ungraded')}>
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ungraded">Ungraded</SelectItem>
+              {RISK_GRADES.map((grade) => (
+                <SelectItem key={grade} value={grade}>Grade {grade}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Badge variant="outline">
+            {pricing.tier ? pricing.tier.name || 'Unnamed tier' : 'Base price'}
+          </Badge>
+          <span className="text-muted-foreground">
+            {pricing.interest_rate}% p.a., {pricing.processing_fee}% fee
+          </span>
+        </div>
+      )}
+
+      {calculation ? (
+        <>
+          <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-3">
+            <div>
+              <p className="text-muted-foreground">{frequencyLabel} payment</p>
+              <p className="text-lg font-semibold">{money(calculation.installment)}</p>
+              <p className="text-xs text-muted-foreground">
+                {calculation.periods} payments
+                {gracePeriods > 0 && `, first ${gracePeriods} interest-only`}
+              </p>
+              {calculation.balloonPayment > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  final payment {money(calculation.balloonPayment)}
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-muted-foreground">Total interest</p>
+              <p className="text-lg font-semibold">{money(calculation.totalInterest)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">APR</p>
+              <p className="text-lg font-semibold">{calculation.apr.toFixed(2)}%</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Processing fee</p>
+              <p className="font-medium">{money(calculation.processingFee)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Total repayment</p>
+              <p className="font-medium">{money(calculation.totalRepayment)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Late fee per missed payment</p>
+              <p className="font-medium">
+                {money(calculation.installment * (product.late_payment_fee || 0) / 100)}
+              </p>
+            </div>
+          </div>
+
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowSchedule(!showSchedule)}
+          >
+            {showSchedule ? <ChevronUp className="mr-2 h-4 w-4" /> : <ChevronDown className="mr-2 h-4 w-4" />}
+            {showSchedule ? 'Hide' : 'Show'} amortization schedule
+          </Button>
+
+          {showSchedule && (
+            <div className="max-h-72 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Payment</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {calculation.schedule.map((row) => (
+                    <TableRow key={row.period} className={cn(row.isGrace && "bg-muted/50")}>
+                      <TableCell>
+                        {row.period}
+                        {row.isGrace && <span className="ml-2 text-xs text-muted-foreground">grace</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{money(row.payment)}</TableCell>
+                      <TableCell className="text-right">{money(row.principal)}</TableCell>
+                      <TableCell className="text-right">{money(row.interest)}</TableCell>
+                      <TableCell className="text-right">{money(row.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">Enter a valid interest rate to preview repayments.</p>
+      )}
+    </div>
+  );
+}
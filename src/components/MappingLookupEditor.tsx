@@ -0,0 +1,55 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowRight, Plus, X } from 'lucide-react';
+
+export interface LookupRow {
+  from: string;
+  to: string;
+}
+
+interface MappingLookupEditorProps {
+  value: LookupRow[];
+  onChange: (rows: LookupRow[]) => void;
+}
+
+export function MappingLookupEditor({ value, onChange }: MappingLookupEditorProps) {
+  const updateRow = (index: number, changes: Partial<LookupRow>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder="Source value, e.g. approved"
+            className="font-mono text-xs"
+            value={row.from}
+            onChange={(e) => updateRow(index, { from: e.target.value })}
+          />
+          <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <Input
+            placeholder="Sent as, e.g. APPROVED"
+            className="font-mono text-xs"
+            value={row.to}
+            onChange={(e) => updateRow(index, { to: e.target.value })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            title="Remove row"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...value, { from: '', to: '' }])}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add value
+      </Button>
+    </div>
+  );
+}
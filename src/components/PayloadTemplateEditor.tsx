@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { format as formatDate } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Braces, Loader2, RotateCcw, Save } from 'lucide-react';
+import { usePayloadPreview } from '@/hooks/usePayloadPreview';
+import {
+  PAYLOAD_FORMATS,
+  STARTER_TEMPLATES,
+  buildPayloadContext,
+  renderPayload,
+  type PayloadFormat,
+} from '@/lib/payloadTemplate';
+
+export interface PayloadTemplateSettings {
+  payload_format: PayloadFormat;
+  payload_template: string;
+}
+
+interface PayloadTemplateEditorProps {
+  integrationName: string;
+  format?: PayloadFormat | null;
+  template?: string | null;
+  canManage: boolean;
+  onSave: (settings: PayloadTemplateSettings) => Promise<boolean>;
+}
+
+const NO_APPLICATION = 'none';
+
+// Used until an application is picked so syntax errors still show
+const EMPTY_CONTEXT = buildPayloadContext({ application: {} });
+
+export function PayloadTemplateEditor({
+  integrationName,
+  format: savedFormat,
+  template: savedTemplate,
+  canManage,
+  onSave,
+}: PayloadTemplateEditorProps) {
+  const [format, setFormat] = useState<PayloadFormat>(savedFormat || 'json');
+  const [template, setTemplate] = useState(savedTemplate || STARTER_TEMPLATES[savedFormat || 'json']);
+  const [applicationId, setApplicationId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { applications, context, loading, error } = usePayloadPreview(applicationId);
+
+  const preview = renderPayload(template, context || EMPTY_CONTEXT, format);
+  const contentType = PAYLOAD_FORMATS.find(f => f.value === format)?.contentType;
+  const parseFailed = preview.body === null;
+
+  const changeFormat = (value: PayloadFormat) => {
+    // Swap in the matching starter unless the template has been edited
+    if (template === STARTER_TEMPLATES[format]) {
+      setTemplate(STARTER_TEMPLATES[value]);
+    }
+    setFormat(value);
+  };
+
+  const resetTemplate = () => {
+    if (template !== STARTER_TEMPLATES[format] && !window.confirm('Replace the template with the starter template?')) return;
+    setTemplate(STARTER_TEMPLATES[format]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    await onSave({ payload_format: format, payload_template: template });
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Braces className="h-5 w-5" />
+              Payload Template
+            </CardTitle>
+            <CardDescription>
+              Write the body {integrationName} receives. Placeholders are filled in for each delivery
+            </CardDescription>
+          </div>
+          {canManage && (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={resetTemplate}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Starter template
+              </Button>
+              <Button onClick={handleSave} disabled={saving || parseFailed}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save and use template
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="payload-format">Body format</Label>
+            <Select value={format} onValueChange={(value) => changeFormat(value as PayloadFormat)} disabled={!canManage}>
+              <SelectTrigger id="payload-format" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYLOAD_FORMATS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="preview-application">Preview with application</Label>
+            <Select
+              value={applicationId || NO_APPLICATION}
+              onValueChange={(value) => setApplicationId(value === NO_APPLICATION ? null : value)}
+            >
+              <SelectTrigger id="preview-application" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_APPLICATION}>No application (empty values)</SelectItem>
+                {applications.map((application) => (
+                  <SelectItem key={application.id} value={application.id}>
+                    {application.profiles?.full_name || 'Unknown applicant'} · {application.amount.toLocaleString()} ·{' '}
+                    {formatDate(new Date(application.created_at), 'MMM d')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="payload-template">Template</Label>
+            <Textarea
+              id="payload-template"
+              className="min-h-[420px] font-mono text-xs"
+              spellCheck={false}
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              readOnly={!canManage}
+            />
+            <p className="text-xs text-muted-foreground">
+              <code className="font-mono">{'{{application.amount}}'}</code> inserts a value, escaped for the body format.
+              Blocks: <code className="font-mono">{'{{#each documents}}…{{/each}}'}</code>,{' '}
+              <code className="font-mono">{'{{#if profile.email}}…{{else}}…{{/if}}'}</code> and{' '}
+              <code className="font-mono">#unless</code>. Inside a loop use{' '}
+              <code className="font-mono">this</code>, <code className="font-mono">@index</code>,{' '}
+              <code className="font-mono">@first</code> and <code className="font-mono">@last</code>.
+              Values available: application, profile, product, documents, event and timestamp.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Label>Preview</Label>
+              {contentType && <Badge variant="outline" className="font-mono">{contentType}</Badge>}
+              {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+            {preview.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{preview.error}</AlertDescription>
+              </Alert>
+            )}
+            <pre className="min-h-[420px] bg-muted p-3 rounded-lg text-xs overflow-auto whitespace-pre-wrap break-all">
+              {preview.body ?? ''}
+            </pre>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { RISK_GRADES, createPricingTier, validatePricingTiers } from '@/lib/pricing';
+import type { LoanProduct, PricingTier, RiskGrade } from '@/types';
+
+interface PricingTierEditorProps {
+  value: PricingTier[];
+  onChange: (tiers: PricingTier[]) => void;
+  // Base price copied into new tiers as a starting point
+  base: Pick<LoanProduct, 'interest_rate' | 'processing_fee'>;
+  currencySymbol: string;
+}
+
+type BoundKey = 'min_amount' | 'max_amount' | 'min_term_months' | 'max_term_months';
+
+const parseBound = (value: string) => (value === '' ? null : parseFloat(value));
+
+function TierEditor({
+  tier,
+  index,
+  count,
+  currencySymbol,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  tier: PricingTier;
+  index: number;
+  count: number;
+  currencySymbol: string;
+  onChange: (tier: PricingTier) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}) {
+  const boundInput = (key: BoundKey, placeholder: string) => (
+    <Input
+      type="number"
+      className="h-8"
+      placeholder={placeholder}
+      value={tier[key] ?? ''}
+      onChange={(e) => onChange({ ...tier, [key]: parseBound(e.target.value) })}
+    />
+  );
+
+  const toggleGrade = (grade: RiskGrade) => {
+    const risk_grades = tier.risk_grades.includes(grade)
+      ? tier.risk_grades.filter(g => g !== grade)
+      : [...tier.risk_grades, grade].sort();
+    onChange({ ...tier, risk_grades });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border bg-background p-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">{index + 1}.</span>
+        <Input
+          className="h-8 flex-1"
+          placeholder="Tier name, e.g. Prime borrowers"
+          value={tier.name}
+          onChange={(e) => onChange({ ...tier, name: e.target.value })}
+        />
+        <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => onMove(-1)}>
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="icon" disabled={index === count - 1} onClick={() => onMove(1)}>
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="icon" onClick={onRemove}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Amount band ({currencySymbol})</Label>
+          <div className="flex items-center gap-2">
+            {boundInput('min_amount', 'Any')}
+            <span className="text-muted-foreground">to</span>
+            {boundInput('max_amount', 'Any')}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Term band (months)</Label>
+          <div className="flex items-center gap-2">
+            {boundInput('min_term_months', 'Any')}
+            <span className="text-muted-foreground">to</span>
+            {boundInput('max_term_months', 'Any')}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Risk grades</Label>
+          <div className="flex flex-wrap gap-1">
+            {RISK_GRADES.map((grade) => (
+              <Badge
+                key={grade}
+                variant={tier.risk_grades.includes(grade) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleGrade(grade)}
+              >
+                {grade}
+              </Badge>
+            ))}
+            {tier.risk_grades.length === 0 && (
+              <span className="text-xs text-muted-foreground">Any grade</span>
+            )}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Interest rate (% p.a.)</Label>
+            <Input
+              type="number"
+              step="0.1"
+              className="h-8"
+              value={tier.interest_rate}
+              onChange={(e) => onChange({ ...tier, interest_rate: parseFloat(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Processing fee (%)</Label>
+            <Input
+              type="number"
+              step="0.1"
+              className="h-8"
+              value={tier.processing_fee}
+              onChange={(e) => onChange({ ...tier, processing_fee: parseFloat(e.target.value) })}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function PricingTierEditor({ value, onChange, base, currencySymbol }: PricingTierEditorProps) {
+  const errors = validatePricingTiers(value);
+
+  const updateTier = (index: number, tier: PricingTier) => {
+    onChange(value.map((t, i) => (i === index ? tier : t)));
+  };
+
+  const moveTier = (index: number, offset: number) => {
+    const next = [...value];
+    const [tier] = next.splice(index, 1);
+    next.splice(index + offset, 0, tier);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No tiers. Every borrower gets the base interest rate and processing fee.
+        </p>
+      ) : (
+        value.map((tier, index) => (
+          <TierEditor
+            key={tier.id}
+            tier={tier}
+            index={index}
+            count={value.length}
+            currencySymbol={currencySymbol}
+            onChange={(updated) => updateTier(index, updated)}
+            onMove={(offset) => moveTier(index, offset)}
+            onRemove={() => onChange(value.filter((_, i) => i !== index))}
+          />
+        ))
+      )}
+
+      {errors.length > 0 && (
+        <div className="space-y-1 text-sm text-destructive">
+          {errors.map((error) => (
+            <p key={error} className="flex items-center gap-2">
+              <AlertCircle className="h-3 w-3" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, createPricingTier(base)])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add tier
+      </Button>
+    </div>
+  );
+}
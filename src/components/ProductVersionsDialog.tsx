@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Rocket, Trash2 } from 'lucide-react';
+import { LoanCalculator } from '@/components/LoanCalculator';
+import { useProductVersions } from '@/hooks/useProductVersions';
+import { useDualControl } from '@/hooks/useDualControl';
+import { usePermission } from '@/hooks/usePermission';
+import {
+  diffSnapshots,
+  formatTermValue,
+  getVersionInEffect,
+  getVersionState,
+  type VersionState,
+} from '@/lib/productVersions';
+import { cn } from '@/lib/utils';
+import type { LoanProduct, LoanProductVersion } from '@/types';
+
+interface ProductVersionsDialogProps {
+  product: LoanProduct | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currencySymbol: string;
+  onPublished: () => void;
+}
+
+const STATE_VARIANTS: Record<VersionState, 'default' | 'secondary' | 'outline'> = {
+  draft: 'outline',
+  scheduled: 'secondary',
+  live: 'default',
+  superseded: 'outline',
+};
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString() : '—';
+
+export function ProductVersionsDialog({
+  product,
+  open,
+  onOpenChange,
+  currencySymbol,
+  onPublished,
+}: ProductVersionsDialogProps) {
+  const { versions, loading, error, publishVersion, discardDraft } = useProductVersions(
+    open ? product?.id : null
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<{ error?: string; success?: string }>({});
+  const { enabled: dualControl, submitChange } = useDualControl();
+  const canWrite = usePermission('products.write');
+
+  // Default to the draft if there is one, otherwise the newest version
+  useEffect(() => {
+    if (versions.length === 0) {
+      setSelectedId(null);
+    } else if (!versions.some(v => v.id === selectedId)) {
+      setSelectedId((versions.find(v => v.status === 'draft') || versions[0]).id);
+    }
+  }, [versions, selectedId]);
+
+  useEffect(() => {
+    setEffectiveFrom('');
+    setNotice({});
+  }, [selectedId]);
+
+  const selected = versions.find(v => v.id === selectedId) || null;
+  const inEffect = getVersionInEffect(versions);
+
+  // Compare against what borrowers see now; the live version against its predecessor
+  const baseline: LoanProductVersion | null = selected && selected.id === inEffect?.id
+    ? versions.find(v => v.status === 'published' && v.version_number < selected.version_number) || null
+    : inEffect;
+  const changes = selected ? diffSnapshots(baseline?.snapshot || null, selected.snapshot) : [];
+
+  const handlePublish = async () => {
+    if (!selected || !product) return;
+    setBusy(true);
+
+    if (dualControl) {
+      // The approver publishes the draft; it must not change in the meantime
+      const { error } = await submitChange({
+        table: 'loan_products',
+        action: 'UPDATE',
+        recordId: product.id,
+        current: inEffect?.snapshot || {},
+        proposed: selected.snapshot,
+        summary: `Publish version ${selected.version_number} of "${product.name}"`,
+        metadata: {
+          publish_version_id: selected.id,
+          draft_updated_at: selected.updated_at,
+          effective_from: effectiveFrom ? new Date(effectiveFrom).toISOString() : null,
+        },
+      });
+      setBusy(false);
+      setNotice(error ? { error } : { success: 'Publication submitted for approval.' });
+      return;
+    }
+
+    const { error } = await publishVersion(
+      selected.id,
+      effectiveFrom ? new Date(effectiveFrom).toISOString() : null
+    );
+    setBusy(false);
+    if (!error) onPublished();
+  };
+
+  const handleDiscard = async () => {
+    if (!selected || !confirm(`Discard draft v${selected.version_number}?`)) return;
+    setBusy(true);
+    await discardDraft(selected.id);
+    setBusy(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Versions · {product?.name}</DialogTitle>
+          <DialogDescription>
+            Edits are saved as a draft. Publishing makes a draft the terms borrowers see, now or from a future date.
+          </DialogDescription>
+        </DialogHeader>
+
+        {(error || notice.error) && (
+          <Alert variant="destructive">
+            <AlertDescription>{error || notice.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {notice.success && (
+          <Alert variant="default">
+            <AlertDescription>{notice.success}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && versions.length === 0 ? (
+          <Skeleton className="h-40 w-full" />
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            This product has no recorded versions yet. Saving an edit creates the first draft.
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+            <ul className="space-y-1">
+              {versions.map((version) => {
+                const state = getVersionState(version, versions);
+                return (
+                  <li key={version.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(version.id)}
+                      className={cn(
+                        'w-full rounded-md border p-2 text-left text-sm hover:bg-muted',
+                        version.id === selectedId && 'border-primary bg-muted'
+                      )}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">v{version.version_number}</span>
+                        <Badge variant={STATE_VARIANTS[state]} className="capitalize">{state}</Badge>
+                      </div>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {version.change_note || formatDateTime(version.created_at)}
+                      </p>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {selected && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Created</p>
+                    <p>{formatDateTime(selected.created_at)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Effective from</p>
+                    <p>{selected.status === 'draft' ? 'Not published' : formatDateTime(selected.effective_from)}</p>
+                  </div>
+                  {selected.change_note && (
+                    <div className="col-span-2">
+                      <p className="text-muted-foreground">Change note</p>
+                      <p>{selected.change_note}</p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">
+                    {baseline ? `Changes from v${baseline.version_number}` : 'Initial terms'}
+                  </h4>
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No changes to customer-facing terms.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {changes.map((change) => (
+                          <tr key={change.field} className="border-b last:border-0">
+                            <td className="py-1 pr-2 text-muted-foreground">{change.label}</td>
+                            <td className="py-1 pr-2 text-red-600 line-through">{formatTermValue(change.before)}</td>
+                            <td className="py-1 text-green-700">{formatTermValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Preview</h4>
+                  <LoanCalculator key={selected.id} product={selected.snapshot} currencySymbol={currencySymbol} />
+                </div>
+
+                {selected.status === 'draft' && canWrite && (
+                  <div className="flex flex-wrap items-end gap-2 border-t pt-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="version-effective-from">Effective from (optional)</Label>
+                      <Input
+                        id="version-effective-from"
+                        type="datetime-local"
+                        value={effectiveFrom}
+                        onChange={(e) => setEffectiveFrom(e.target.value)}
+                      />
+                    </div>
+                    <Button type="button" onClick={handlePublish} disabled={busy}>
+                      {busy ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Rocket className="mr-2 h-4 w-4" />
+                      )}
+                      {dualControl ? 'Request publication' : effectiveFrom ? 'Schedule' : 'Publish now'}
+                    </Button>
+                    <Button type="button" variant="ghost" onClick={handleDiscard} disabled={busy}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Discard draft
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import type { MfaRequirement } from '@/lib/mfa';
+
+// Admins set up their authenticator here, so it stays open during enrollment
+export const MFA_SETUP_PATH = '/profile';
+
+interface RequireMfaProps {
+  requirement: MfaRequirement;
+  error: string | null;
+  onRetry: () => void;
+  children: ReactNode;
+}
+
+export function RequireMfa({ requirement, error, onRetry, children }: RequireMfaProps) {
+  const location = useLocation();
+
+  // Without a status we cannot tell whether MFA applies, so nothing is shown
+  if (requirement === 'pending' && error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="text-center py-12">
+            <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium">Could not check two-factor authentication</h3>
+            <p className="text-muted-foreground mt-2">{error}</p>
+            <Button className="mt-4" onClick={onRetry}>Try again</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (requirement === 'pending') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (requirement === 'challenge') {
+    return <Navigate to="/login" />;
+  }
+
+  if (requirement === 'enroll' && location.pathname !== MFA_SETUP_PATH) {
+    return <Navigate to={MFA_SETUP_PATH} />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,34 @@
+import type { ReactNode } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { usePermissions } from '@/hooks/usePermission';
+import type { Permission } from '@/lib/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+export function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const { can, loading } = usePermissions();
+
+  // Auth state is shared through AuthProvider, so this is only true before
+  // the first session check, while App shows its loading screen
+  if (loading) return null;
+
+  if (!can(permission)) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-medium">Access denied</h3>
+          <p className="text-muted-foreground mt-2">
+            Your role does not have access to this page. Ask a super admin if you need it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <>{children}</>;
+}
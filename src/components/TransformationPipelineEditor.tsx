@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { MappingLookupEditor } from '@/components/MappingLookupEditor';
+import { cn } from '@/lib/utils';
+import {
+  CALLING_CODES,
+  MAX_STEPS,
+  TRANSFORMATIONS,
+  applyTransformations,
+  getTransformation,
+  type TransformationStep,
+} from '@/lib/transformations';
+
+interface TransformationPipelineEditorProps {
+  value: TransformationStep[];
+  onChange: (steps: TransformationStep[]) => void;
+}
+
+export function TransformationPipelineEditor({ value, onChange }: TransformationPipelineEditorProps) {
+  const [sample, setSample] = useState('');
+  const result = sample ? applyTransformations(sample, value) : null;
+
+  const updateStep = (index: number, changes: Partial<TransformationStep>) => {
+    onChange(value.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...value];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    onChange(steps);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((step, index) => {
+        const definition = getTransformation(step.name);
+        return (
+          <div key={index} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{index + 1}</Badge>
+              <Select
+                value={step.name}
+                onValueChange={(name) => updateStep(index, { name, params: {}, values: undefined })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRANSFORMATIONS.map((transform) => (
+                    <SelectItem key={transform.name} value={transform.name}>
+                      {transform.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={index === 0}
+                onClick={() => moveStep(index, -1)}
+                title="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={index === value.length - 1}
+                onClick={() => moveStep(index, 1)}
+                title="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                title="Remove step"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {definition && <p className="text-xs text-muted-foreground">{definition.description}</p>}
+
+            {definition?.params.map((param) => (
+              <div key={param.key} className="grid grid-cols-3 items-center gap-2">
+                <Label className="text-xs">{param.label}</Label>
+                {param.kind === 'country' ? (
+                  <Select
+                    value={step.params?.[param.key] || undefined}
+                    onValueChange={(country) => updateStep(index, { params: { ...step.params, [param.key]: country } })}
+                  >
+                    <SelectTrigger className="col-span-2">
+                      <SelectValue placeholder="Select country" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CALLING_CODES.map((code) => (
+                        <SelectItem key={code.country} value={code.country}>
+                          {code.label} (+{code.code})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    className="col-span-2 font-mono text-xs"
+                    type={param.kind === 'number' ? 'number' : 'text'}
+                    placeholder={param.placeholder}
+                    value={step.params?.[param.key] ?? ''}
+                    onChange={(e) => updateStep(index, { params: { ...step.params, [param.key]: e.target.value } })}
+                  />
+                )}
+              </div>
+            ))}
+
+            {step.name === 'map_values' && (
+              <MappingLookupEditor value={step.values || []} onChange={(values) => updateStep(index, { values })} />
+            )}
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={value.length >= MAX_STEPS}
+        onClick={() => onChange([...value, { name: 'uppercase' }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add transformation
+      </Button>
+
+      {value.length > 0 && (
+        <div className="grid grid-cols-3 items-center gap-2 pt-2">
+          <Label htmlFor="transformation-sample" className="text-xs">Try a value</Label>
+          <Input
+            id="transformation-sample"
+            className="col-span-2 font-mono text-xs"
+            placeholder="e.g. Jane Wanjiku Doe"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+          />
+          {result && (
+            <p className={cn('col-span-3 font-mono text-xs', result.error ? 'text-destructive' : 'text-muted-foreground')}>
+              {result.error ?? `→ ${JSON.stringify(result.value)}`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
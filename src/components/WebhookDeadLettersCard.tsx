@@ -0,0 +1,349 @@
+import { Fragment, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CheckCheck, Inbox, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { useWebhookDeadLetters } from '@/hooks/useWebhookDeadLetters';
+import { getEventDefinition } from '@/lib/webhookEvents';
+import type { WebhookDeadLetter } from '@/types';
+
+interface WebhookDeadLettersCardProps {
+  canManage: boolean;
+}
+
+type PendingAction = { kind: 'replay' | 'resolve'; items: WebhookDeadLetter[] };
+
+const MAX_NOTE_LENGTH = 1000;
+
+export function WebhookDeadLettersCard({ canManage }: WebhookDeadLettersCardProps) {
+  const [showClosed, setShowClosed] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [action, setAction] = useState<PendingAction | null>(null);
+  const [useOriginalPayload, setUseOriginalPayload] = useState(true);
+  const [note, setNote] = useState('');
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState('');
+  const { deadLetters, loading, error, replayDeliveries, resolveDeliveries, refetch } = useWebhookDeadLetters(showClosed);
+
+  const selectable = canManage && !showClosed;
+  const selectedItems = deadLetters.filter(d => selected.includes(d.id));
+  const allSelected = deadLetters.length > 0 && selectedItems.length === deadLetters.length;
+
+  const toggle = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+  };
+
+  const changeView = (value: string) => {
+    setSelected([]);
+    setMessage('');
+    setShowClosed(value === 'closed');
+  };
+
+  const openAction = (kind: PendingAction['kind'], items: WebhookDeadLetter[]) => {
+    setUseOriginalPayload(true);
+    setNote('');
+    setAction({ kind, items });
+  };
+
+  const runAction = async () => {
+    if (!action) return;
+    setWorking(true);
+    setMessage('');
+    const ids = action.items.map(item => item.id);
+    const result = action.kind === 'replay'
+      ? await replayDeliveries(ids, useOriginalPayload, note.trim())
+      : await resolveDeliveries(ids, note.trim());
+    setWorking(false);
+    if (result.error) return;
+
+    const verb = action.kind === 'replay' ? 'Queued' : 'Resolved';
+    const skipped = ids.length - result.count;
+    setMessage(
+      `${verb} ${result.count} ${result.count === 1 ? 'delivery' : 'deliveries'}.`
+      + (skipped > 0 ? ` ${skipped} skipped because they were already closed or their integration is inactive.` : '')
+    );
+    setSelected(selected.filter(id => !ids.includes(id)));
+    setAction(null);
+  };
+
+  const hasStoredBody = action?.items.every(item => item.request_body !== null && item.request_body !== undefined) ?? false;
+  const noteRequired = action?.kind === 'resolve';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="h-5 w-5" />
+              Failed Deliveries
+            </CardTitle>
+            <CardDescription>
+              Deliveries that failed after their last retry. Replay them once the partner is back, or resolve them with a note
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={showClosed ? 'closed' : 'open'} onValueChange={changeView}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="closed">Closed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={refetch}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {selectable && selectedItems.length > 0 && (
+          <div className="flex items-center gap-2 rounded-lg border bg-muted/50 p-2">
+            <span className="text-sm font-medium px-2">{selectedItems.length} selected</span>
+            <Button size="sm" onClick={() => openAction('replay', selectedItems)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Replay
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => openAction('resolve', selectedItems)}>
+              <CheckCheck className="mr-2 h-4 w-4" />
+              Mark resolved
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelected([])}>
+              Clear
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : deadLetters.length === 0 ? (
+          <div className="text-center py-8">
+            <Inbox className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium">{showClosed ? 'No closed deliveries' : 'No failed deliveries'}</h3>
+            <p className="text-muted-foreground mt-2">
+              {showClosed
+                ? 'Replayed and resolved deliveries are listed here.'
+                : 'Deliveries that fail after every retry will appear here.'}
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {selectable && (
+                  <TableHead className="w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all"
+                      checked={allSelected}
+                      onChange={() => setSelected(allSelected ? [] : deadLetters.map(d => d.id))}
+                      className="rounded border-gray-300"
+                    />
+                  </TableHead>
+                )}
+                <TableHead>Failed</TableHead>
+                <TableHead>Integration</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Error</TableHead>
+                {showClosed ? <TableHead>Outcome</TableHead> : <TableHead>Retries</TableHead>}
+                {selectable && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deadLetters.map((item) => (
+                <Fragment key={item.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpanded(expanded === item.id ? null : item.id)}
+                  >
+                    {selectable && (
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          aria-label="Select delivery"
+                          checked={selected.includes(item.id)}
+                          onChange={() => toggle(item.id)}
+                          className="rounded border-gray-300"
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(new Date(item.created_at), 'MMM d, HH:mm')}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{item.integration_name}</div>
+                      {!item.integration_active && <Badge variant="outline">Inactive</Badge>}
+                      {item.replay_of && <Badge variant="outline" className="ml-1">Replay</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.event_type ? getEventDefinition(item.event_type).label : 'Manual'}
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      {item.response_status && <Badge variant="destructive" className="mr-1">{item.response_status}</Badge>}
+                      <span className="text-sm text-muted-foreground line-clamp-2">{item.error_message}</span>
+                    </TableCell>
+                    {showClosed ? (
+                      <TableCell className="text-sm">
+                        <Badge variant={item.resolution === 'replayed' ? 'secondary' : 'outline'}>
+                          {item.resolution === 'replayed' ? 'Replayed' : 'Resolved'}
+                        </Badge>
+                        {item.resolved_at && (
+                          <span className="ml-2 text-muted-foreground">{format(new Date(item.resolved_at), 'MMM d, HH:mm')}</span>
+                        )}
+                        {item.resolution_note && <p className="mt-1 text-muted-foreground">{item.resolution_note}</p>}
+                      </TableCell>
+                    ) : (
+                      <TableCell className="text-sm">{item.retry_count}</TableCell>
+                    )}
+                    {selectable && (
+                      <TableCell className="text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                        <Button variant="ghost" size="sm" onClick={() => openAction('replay', [item])}>
+                          <RotateCcw className="mr-1 h-4 w-4" />
+                          Replay
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openAction('resolve', [item])}>
+                          <CheckCheck className="mr-1 h-4 w-4" />
+                          Resolve
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                  {expanded === item.id && (
+                    <TableRow>
+                      <TableCell colSpan={selectable ? 7 : 5} className="bg-muted/30">
+                        <div className="space-y-2 text-xs">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">{item.request_method}</Badge>
+                            <span className="font-mono break-all">{item.request_url}</span>
+                          </div>
+                          {item.loan_application_id && (
+                            <p>
+                              Application: <span className="font-mono">{item.loan_application_id}</span>
+                            </p>
+                          )}
+                          <pre className="bg-muted p-3 rounded-lg overflow-auto max-h-60">
+                            {item.request_body === null || item.request_body === undefined
+                              ? 'No request body was stored'
+                              : typeof item.request_body === 'string'
+                                ? item.request_body
+                                : JSON.stringify(item.request_body, null, 2)}
+                          </pre>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {action?.kind === 'replay' ? 'Replay' : 'Resolve'} {action?.items.length}{' '}
+              {action?.items.length === 1 ? 'delivery' : 'deliveries'}
+            </DialogTitle>
+            <DialogDescription>
+              {action?.kind === 'replay'
+                ? 'Each delivery is queued again and sent with fresh headers and signature. Replays that fail are listed here again.'
+                : 'Close the deliveries without sending them, for example when the partner received the data another way.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {action?.kind === 'replay' && (
+              <div>
+                <Label htmlFor="replay-payload">Payload</Label>
+                <Select
+                  value={useOriginalPayload ? 'original' : 'rerender'}
+                  onValueChange={(value) => setUseOriginalPayload(value === 'original')}
+                >
+                  <SelectTrigger id="replay-payload" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="original">Original payload, as first sent</SelectItem>
+                    <SelectItem value="rerender">Re-render with the current mappings or template</SelectItem>
+                  </SelectContent>
+                </Select>
+                {useOriginalPayload && !hasStoredBody && (
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Some deliveries have no stored body. Those are re-rendered instead.
+                  </p>
+                )}
+              </div>
+            )}
+            <div>
+              <Label htmlFor="dead-letter-note">Note{noteRequired ? '' : ' (optional)'}</Label>
+              <Textarea
+                id="dead-letter-note"
+                className="mt-1"
+                placeholder={noteRequired ? 'What happened and how it was handled' : 'e.g. Partner API was down 09:00-11:30'}
+                maxLength={MAX_NOTE_LENGTH}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>
+              Cancel
+            </Button>
+            <Button onClick={runAction} disabled={working || (noteRequired && !note.trim())}>
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {action?.kind === 'replay' ? 'Queue replay' : 'Mark resolved'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Eye, EyeOff, Lock, LockOpen, Plus, X } from 'lucide-react';
+import { HEADER_TEMPLATE_VARIABLES, type WebhookHeaderRow } from '@/lib/webhookHeaders';
+
+interface WebhookHeadersEditorProps {
+  value: WebhookHeaderRow[];
+  onChange: (rows: WebhookHeaderRow[]) => void;
+}
+
+export function WebhookHeadersEditor({ value, onChange }: WebhookHeadersEditorProps) {
+  const [revealed, setRevealed] = useState<number | null>(null);
+
+  const updateRow = (index: number, changes: Partial<WebhookHeaderRow>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    setRevealed(null);
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder="X-Header-Name"
+            className="w-48 font-mono text-xs"
+            value={row.name}
+            onChange={(e) => updateRow(index, { name: e.target.value })}
+          />
+          <Input
+            type={row.secret && revealed !== index ? 'password' : 'text'}
+            placeholder="value or {{application.id}}"
+            className="font-mono text-xs"
+            value={row.value}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+          />
+          {row.secret && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setRevealed(revealed === index ? null : index)}
+              title={revealed === index ? 'Hide value' : 'Show value'}
+            >
+              {revealed === index ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => updateRow(index, { secret: !row.secret })}
+            title={row.secret ? 'Secret value, masked in the panel' : 'Mark value as secret'}
+          >
+            {row.secret ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4 text-muted-foreground" />}
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => removeRow(index)} title="Remove header">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { name: '', value: '', secret: false }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add header
+      </Button>
+
+      <p className="text-xs text-muted-foreground">
+        Placeholders filled in when each delivery is sent:{' '}
+        {HEADER_TEMPLATE_VARIABLES.map((variable, index) => (
+          <span key={variable.name} title={variable.description}>
+            {index > 0 && ', '}
+            <code className="font-mono">{`{{${variable.name}}}`}</code>
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+}
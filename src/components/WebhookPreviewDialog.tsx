@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { format as formatDate } from 'date-fns';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CheckCircle2, Loader2, Send, XCircle } from 'lucide-react';
+import { usePayloadPreview } from '@/hooks/usePayloadPreview';
+import { maskHeaders } from '@/lib/webhookHeaders';
+import {
+  DRY_RUN_HEADER,
+  buildWebhookRequest,
+  type RequestIntegration,
+  type RequestMapping,
+} from '@/lib/webhookRequest';
+
+export interface PreviewIntegration extends RequestIntegration {
+  name: string;
+  secret_headers?: string[];
+}
+
+interface DryRunResult {
+  success: boolean;
+  status?: number;
+  statusText?: string;
+  response?: unknown;
+  error?: string;
+  executionTime?: number;
+}
+
+interface WebhookPreviewDialogProps {
+  integration: PreviewIntegration | null;
+  mappings: RequestMapping[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canSend: boolean;
+}
+
+function formatValue(value: unknown) {
+  return value === undefined ? '—' : JSON.stringify(value);
+}
+
+function formatBody(body: string) {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+export function WebhookPreviewDialog({ integration, mappings, open, onOpenChange, canSend }: WebhookPreviewDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Preview Request{integration ? ` · ${integration.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            See exactly what would be sent for an application, then optionally send it as a dry run
+          </DialogDescription>
+        </DialogHeader>
+        {integration && <WebhookPreview integration={integration} mappings={mappings} canSend={canSend} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function WebhookPreview({
+  integration,
+  mappings,
+  canSend,
+}: {
+  integration: PreviewIntegration;
+  mappings: RequestMapping[];
+  canSend: boolean;
+}) {
+  const [applicationId, setApplicationId] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<DryRunResult | null>(null);
+  const { applications, context, loading, error } = usePayloadPreview(applicationId);
+
+  const request = context ? buildWebhookRequest(integration, mappings, context, { dryRun: true }) : null;
+  const missing = request?.fields.filter(f => f.missing) ?? [];
+
+  const chooseApplication = (id: string) => {
+    setResult(null);
+    setApplicationId(id);
+  };
+
+  const sendDryRun = async () => {
+    if (!request || !applicationId) return;
+    setSending(true);
+    setResult(null);
+    try {
+      // The edge function adds the API key and signature headers (bypasses CORS)
+      const { data, error } = await supabase.functions.invoke('test-webhook', {
+        body: {
+          integrationId: integration.id,
+          applicationId,
+          dryRun: true,
+          headers: request.headers,
+          body: request.body,
+        },
+      });
+
+      if (error) throw error;
+      setResult(data as DryRunResult);
+    } catch (err) {
+      console.error('Error sending dry run:', err);
+      setResult({ success: false, error: err instanceof Error ? err.message : 'Failed to send dry run' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-4">
+        <div className="flex-1">
+          <Label htmlFor="preview-request-application">Application</Label>
+          <Select value={applicationId ?? undefined} onValueChange={chooseApplication}>
+            <SelectTrigger id="preview-request-application" className="mt-1">
+              <SelectValue placeholder="Select an application" />
+            </SelectTrigger>
+            <SelectContent>
+              {applications.map((application) => (
+                <SelectItem key={application.id} value={application.id}>
+                  {application.profiles?.full_name || 'Unknown applicant'} · {application.amount.toLocaleString()} ·{' '}
+                  {application.status} · {formatDate(new Date(application.created_at), 'MMM d')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {canSend && (
+          <Button
+            onClick={sendDryRun}
+            disabled={!request || request.errors.length > 0 || sending}
+            title={request && request.errors.length > 0 ? 'Fix the errors below before sending' : undefined}
+          >
+            {sending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Send dry run
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading application...
+        </div>
+      )}
+
+      {!applicationId && (
+        <p className="text-sm text-muted-foreground">
+          Pick one of the 20 most recent applications. Nothing is sent until you click Send dry run.
+        </p>
+      )}
+
+      {request && !loading && (
+        <>
+          {request.errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                This delivery would fail:
+                <ul className="mt-1 list-disc pl-5">
+                  {request.errors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{request.method}</Badge>
+            <span className="font-mono text-xs break-all">{request.url}</span>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Headers</p>
+            <div className="bg-muted p-3 rounded-lg font-mono text-xs space-y-1">
+              {Object.entries(maskHeaders(request.headers, integration.secret_headers)).map(([name, value]) => (
+                <div key={name} className="break-all">
+                  {name}: {value}
+                  {name === DRY_RUN_HEADER && <span className="text-muted-foreground"> (dry runs only)</span>}
+                </div>
+              ))}
+              {request.senderHeaders.map((name) => (
+                <div key={name} className="text-muted-foreground">
+                  {name}: added when sent
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {request.fields.length > 0 && (
+            <div>
+              <p className="text-sm font-medium mb-2">
+                Fields
+                {missing.length > 0 && (
+                  <Badge variant="destructive" className="ml-2">
+                    {missing.length} required missing
+                  </Badge>
+                )}
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Target Field</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {request.fields.map((field, index) => (
+                    <TableRow key={index} className={field.missing || field.error ? 'bg-destructive/5' : undefined}>
+                      <TableCell className="font-mono text-xs">{field.target_field}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        <div className="text-muted-foreground">{field.source_field}</div>
+                        {formatValue(field.source)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{field.error ? '—' : formatValue(field.value)}</TableCell>
+                      <TableCell className="text-xs">
+                        {field.missing && <Badge variant="destructive">Required, missing</Badge>}
+                        {field.defaultApplied && <Badge variant="secondary">Default applied</Badge>}
+                        {field.error && <span className="text-destructive">{field.error}</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div>
+            <p className="text-sm font-medium mb-2">Body</p>
+            <pre className="bg-muted p-3 rounded-lg text-xs overflow-auto max-h-80 whitespace-pre-wrap break-all">
+              {request.body !== null ? formatBody(request.body) : ''}
+            </pre>
+          </div>
+        </>
+      )}
+
+      {result && (
+        <div className="rounded-lg border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            {result.success ? (
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+            ) : (
+              <XCircle className="h-5 w-5 text-red-600" />
+            )}
+            <span className="font-medium">Dry run {result.success ? 'delivered' : 'failed'}</span>
+            {!!result.status && (
+              <Badge variant="outline">
+                {result.status} {result.statusText}
+              </Badge>
+            )}
+            {result.executionTime !== undefined && (
+              <span className="text-xs text-muted-foreground">{result.executionTime}ms</span>
+            )}
+          </div>
+          {result.response !== undefined && (
+            <pre className="bg-muted p-3 rounded-lg text-xs overflow-auto max-h-60">
+              {typeof result.response === 'string' ? result.response : JSON.stringify(result.response, null, 2)}
+            </pre>
+          )}
+          {result.error && (
+            <Alert variant="destructive">
+              <AlertDescription>{result.error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
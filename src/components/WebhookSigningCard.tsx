@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Copy, Eye, EyeOff, KeyRound, Loader2, RotateCw, ShieldCheck } from 'lucide-react';
+import { useWebhookSecrets } from '@/hooks/useWebhookSecrets';
+import {
+  DEFAULT_REPLAY_WINDOW_SECONDS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  getActiveSecrets,
+} from '@/lib/webhookSigning';
+import type { WebhookSigningSecret } from '@/types';
+
+interface WebhookSigningCardProps {
+  integrationId: string;
+  integrationName: string;
+  canManage: boolean;
+}
+
+const GRACE_PERIOD_OPTIONS = [
+  { hours: 0, label: 'No grace period' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+];
+
+const VERIFY_SNIPPET = `import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// rawBody must be the exact bytes received, before JSON parsing
+function verify(rawBody, header, secret, toleranceSeconds = ${DEFAULT_REPLAY_WINDOW_SECONDS}) {
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  if (!(Math.abs(Date.now() / 1000 - timestamp) <= toleranceSeconds)) return false;
+
+  const expected = createHmac('sha256', secret)
+    .update(\`\${timestamp}.\${rawBody}\`)
+    .digest();
+
+  return parts
+    .filter(([key]) => key === 'v1')
+    .some(([, value]) => {
+      const signature = Buffer.from(value, 'hex');
+      return signature.length === expected.length && timingSafeEqual(signature, expected);
+    });
+}`;
+
+function maskSecret(secret: string) {
+  return `${secret.slice(0, 10)}${'•'.repeat(16)}${secret.slice(-4)}`;
+}
+
+export function WebhookSigningCard({ integrationId, integrationName, canManage }: WebhookSigningCardProps) {
+  const { secrets, loading, error, rotateSecret, expireSecret } = useWebhookSecrets(integrationId);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [graceHours, setGraceHours] = useState('24');
+  const [rotating, setRotating] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const activeIds = new Set(getActiveSecrets(secrets).map(secret => secret.id));
+
+  const handleRotate = async () => {
+    const hours = Number(graceHours);
+    const warning = hours === 0
+      ? 'The current secret stops working immediately. Deliveries fail verification until the receiver has the new secret. Continue?'
+      : `Issue a new secret? The current one keeps signing for ${GRACE_PERIOD_OPTIONS.find(o => o.hours === hours)?.label}.`;
+    if (!window.confirm(warning)) return;
+
+    setRotating(true);
+    setMessage('');
+    const { error } = await rotateSecret(hours);
+    setRotating(false);
+    if (!error) setMessage('New signing secret issued. Share it with the receiver before the grace period ends.');
+  };
+
+  const handleExpire = async (secret: WebhookSigningSecret) => {
+    if (!window.confirm('Stop signing with this previous secret now?')) return;
+    setMessage('');
+    const { error } = await expireSecret(secret.id);
+    if (!error) setMessage('Previous secret expired.');
+  };
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      setMessage('Secret copied to clipboard.');
+    } catch (err) {
+      console.error('Error copying secret:', err);
+    }
+  };
+
+  const getSecretBadge = (secret: WebhookSigningSecret) => {
+    if (!secret.expires_at) return <Badge variant="default">Current</Badge>;
+    if (activeIds.has(secret.id)) {
+      return (
+        <Badge variant="secondary">
+          Expires {formatDistanceToNow(new Date(secret.expires_at), { addSuffix: true })}
+        </Badge>
+      );
+    }
+    return <Badge variant="outline">Expired</Badge>;
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Signing Secrets
+              </CardTitle>
+              <CardDescription>
+                Every delivery to {integrationName} is signed so the receiver can check it came from this panel
+              </CardDescription>
+            </div>
+            {canManage && (
+              <div className="flex items-end gap-2">
+                <div>
+                  <Label htmlFor="grace-period" className="text-xs text-muted-foreground">Keep old secret for</Label>
+                  <Select value={graceHours} onValueChange={setGraceHours}>
+                    <SelectTrigger id="grace-period" className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GRACE_PERIOD_OPTIONS.map((option) => (
+                        <SelectItem key={option.hours} value={String(option.hours)}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleRotate} disabled={rotating}>
+                  {rotating ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCw className="mr-2 h-4 w-4" />
+                  )}
+                  Rotate
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {message && (
+            <Alert variant="default">
+              <AlertDescription>{message}</AlertDescription>
+            </Alert>
+          )}
+
+          {loading && secrets.length === 0 ? (
+            <Skeleton className="h-12 w-full" />
+          ) : secrets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No signing secret yet. Rotate to issue one.
+            </p>
+          ) : (
+            secrets.map((secret) => (
+              <div key={secret.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    {getSecretBadge(secret)}
+                    <span className="text-xs text-muted-foreground">
+                      Issued {format(new Date(secret.created_at), 'MMM d, yyyy HH:mm')}
+                    </span>
+                  </div>
+                  <p className="font-mono text-xs break-all">
+                    {revealedId === secret.id ? secret.secret : maskSecret(secret.secret)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRevealedId(revealedId === secret.id ? null : secret.id)}
+                    title={revealedId === secret.id ? 'Hide secret' : 'Show secret'}
+                  >
+                    {revealedId === secret.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => copySecret(secret.secret)} title="Copy secret">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  {canManage && secret.expires_at && activeIds.has(secret.id) && (
+                    <Button variant="outline" size="sm" onClick={() => handleExpire(secret)}>
+                      Expire now
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Verifying deliveries
+          </CardTitle>
+          <CardDescription>
+            Share these steps with the team that runs the receiving endpoint
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <ol className="list-decimal space-y-2 pl-5">
+            <li>
+              Read the <code className="font-mono">{WEBHOOK_SIGNATURE_HEADER}</code> header, for example{' '}
+              <code className="font-mono break-all">t=1700000000,v1=5257a869…</code>. It may hold more than one{' '}
+              <code className="font-mono">v1</code> signature while a secret is being rotated.{' '}
+              <code className="font-mono">{WEBHOOK_TIMESTAMP_HEADER}</code> repeats the timestamp.
+            </li>
+            <li>
+              Build the signed content: the timestamp, a full stop, then the raw request body exactly as received.
+            </li>
+            <li>
+              Compute HMAC-SHA256 of that content with the signing secret and hex-encode it.
+            </li>
+            <li>
+              Accept the request if any <code className="font-mono">v1</code> value matches, using a constant-time comparison.
+            </li>
+            <li>
+              Reject requests whose timestamp is more than {DEFAULT_REPLAY_WINDOW_SECONDS / 60} minutes from your clock
+              so captured requests cannot be replayed later. Retries are signed again with a fresh timestamp.
+            </li>
+          </ol>
+          <pre className="bg-muted p-3 rounded-lg text-xs overflow-auto">{VERIFY_SNIPPET}</pre>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Filter, Loader2, Plus, Radio, X } from 'lucide-react';
+import { useWebhookSubscriptions } from '@/hooks/useWebhookSubscriptions';
+import { useApplicationWorkflow } from '@/hooks/useApplicationWorkflow';
+import { useCurrentOrganization } from '@/hooks/useCurrentOrganization';
+import {
+  WEBHOOK_EVENT_TYPES,
+  createEventCondition,
+  describeEventCondition,
+  getConditionIssues,
+  getEventDefinition,
+  getEventField,
+  getEventOperators,
+  isListOperator,
+  parseListValue,
+} from '@/lib/webhookEvents';
+import type { WebhookEventCondition, WebhookEventType, WorkflowState } from '@/types';
+
+interface WebhookSubscriptionsCardProps {
+  integrationId: string;
+  integrationName: string;
+  canManage: boolean;
+}
+
+function ConditionEditor({
+  eventType,
+  condition,
+  states,
+  onChange,
+  onRemove,
+}: {
+  eventType: WebhookEventType;
+  condition: WebhookEventCondition;
+  states: WorkflowState[];
+  onChange: (condition: WebhookEventCondition) => void;
+  onRemove: () => void;
+}) {
+  const field = getEventField(eventType, condition.field);
+  const isList = isListOperator(condition.operator);
+  const listValue = Array.isArray(condition.value) ? condition.value : [];
+
+  // Switching between a single value and a list keeps what was entered
+  const changeOperator = (operator: WebhookEventCondition['operator']) => {
+    if (field?.kind === 'number' || isListOperator(operator) === isList) {
+      onChange({ ...condition, operator });
+      return;
+    }
+    const value = isListOperator(operator)
+      ? [String(condition.value || '')].filter(Boolean)
+      : listValue[0] || '';
+    onChange({ ...condition, operator, value });
+  };
+
+  const toggleState = (key: string) => {
+    const value = listValue.includes(key)
+      ? listValue.filter(k => k !== key)
+      : [...listValue, key];
+    onChange({ ...condition, value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border bg-background p-2">
+      <Select
+        value={condition.field}
+        onValueChange={(value) => onChange(createEventCondition(eventType, value))}
+      >
+        <SelectTrigger className="w-44">
+          <SelectValue placeholder="Field" />
+        </SelectTrigger>
+        <SelectContent>
+          {getEventDefinition(eventType).fields.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={condition.operator}
+        onValueChange={(value) => changeOperator(value as WebhookEventCondition['operator'])}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {getEventOperators(field).map((operator) => (
+            <SelectItem key={operator.value} value={operator.value}>
+              {operator.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {field?.kind === 'number' && (
+        <Input
+          type="number"
+          className="w-32"
+          value={typeof condition.value === 'number' && Number.isFinite(condition.value) ? String(condition.value) : ''}
+          onChange={(e) => onChange({ ...condition, value: parseFloat(e.target.value) })}
+        />
+      )}
+
+      {field?.isStatus && isList && (
+        <div className="flex flex-wrap gap-1">
+          {states.map((state) => (
+            <Badge
+              key={state.key}
+              variant={listValue.includes(state.key) ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => toggleState(state.key)}
+            >
+              {state.label}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {field?.isStatus && !isList && (
+        <Select
+          value={String(condition.value) || undefined}
+          onValueChange={(value) => onChange({ ...condition, value })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            {states.map((state) => (
+              <SelectItem key={state.key} value={state.key}>
+                {state.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {field?.kind === 'string' && !field.isStatus && isList && (
+        // Parsed on blur so commas can be typed
+        <Input
+          key={`${condition.field}-${condition.operator}`}
+          className="w-56"
+          placeholder="car, school, business"
+          defaultValue={listValue.join(', ')}
+          onBlur={(e) => onChange({ ...condition, value: parseListValue(e.target.value) })}
+        />
+      )}
+
+      {field?.kind === 'string' && !field.isStatus && !isList && (
+        <Input
+          className="w-56"
+          value={String(condition.value)}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+        />
+      )}
+
+      <Button type="button" variant="ghost" size="icon" className="ml-auto" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function WebhookSubscriptionsCard({ integrationId, integrationName, canManage }: WebhookSubscriptionsCardProps) {
+  const { subscriptions, loading, error, saveSubscription } = useWebhookSubscriptions(integrationId);
+  const { organizationId } = useCurrentOrganization();
+  const { workflow } = useApplicationWorkflow(organizationId);
+  const [editingEvent, setEditingEvent] = useState<WebhookEventType | null>(null);
+  const [draft, setDraft] = useState<WebhookEventCondition[]>([]);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const findSubscription = (eventType: WebhookEventType) =>
+    subscriptions.find(s => s.event_type === eventType);
+
+  const toggleEvent = async (eventType: WebhookEventType, subscribed: boolean) => {
+    setMessage('');
+    const { error } = await saveSubscription({
+      event_type: eventType,
+      conditions: findSubscription(eventType)?.conditions || [],
+      is_active: subscribed,
+    });
+    if (!error) {
+      setMessage(subscribed
+        ? `${integrationName} now receives ${getEventDefinition(eventType).label.toLowerCase()} events.`
+        : `${integrationName} no longer receives ${getEventDefinition(eventType).label.toLowerCase()} events.`);
+    }
+  };
+
+  const openFilters = (eventType: WebhookEventType) => {
+    setDraft(findSubscription(eventType)?.conditions || []);
+    setIssues([]);
+    setEditingEvent(eventType);
+  };
+
+  const updateCondition = (index: number, condition: WebhookEventCondition) => {
+    setDraft(draft.map((c, i) => (i === index ? condition : c)));
+  };
+
+  const handleSaveFilters = async () => {
+    if (!editingEvent) return;
+    const conditionIssues = getConditionIssues(editingEvent, draft);
+    setIssues(conditionIssues);
+    if (conditionIssues.length > 0) return;
+
+    setSaving(true);
+    setMessage('');
+    const { error } = await saveSubscription({
+      event_type: editingEvent,
+      conditions: draft,
+      is_active: true,
+    });
+    setSaving(false);
+    if (!error) {
+      setEditingEvent(null);
+      setMessage('Event filters saved.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Radio className="h-5 w-5" />
+          Event Subscriptions
+        </CardTitle>
+        <CardDescription>
+          Deliveries to {integrationName} are queued automatically when a subscribed event happens in this organization
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert variant="default">
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && subscriptions.length === 0 ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          WEBHOOK_EVENT_TYPES.map((event) => {
+            const subscription = findSubscription(event.value);
+            const subscribed = !!subscription?.is_active;
+            return (
+              <div key={event.value} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{event.label}</span>
+                    <code className="font-mono text-xs text-muted-foreground">{event.value}</code>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{event.description}</p>
+                  {subscription && subscription.conditions.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {subscription.conditions.map((condition, index) => (
+                        <Badge key={index} variant="outline" className="font-normal">
+                          {describeEventCondition(event.value, condition)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {canManage && event.fields.length > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => openFilters(event.value)}>
+                      <Filter className="mr-2 h-4 w-4" />
+                      Filters
+                    </Button>
+                  )}
+                  <Switch
+                    checked={subscribed}
+                    onCheckedChange={(checked) => toggleEvent(event.value, checked)}
+                    disabled={!canManage}
+                    aria-label={`Subscribe to ${event.label}`}
+                  />
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingEvent} onOpenChange={(open) => !open && setEditingEvent(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {editingEvent && getEventDefinition(editingEvent).label} filters
+            </DialogTitle>
+            <DialogDescription>
+              Only events that match every condition are delivered. Without conditions every event is delivered.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editingEvent && (
+            <div className="space-y-2">
+              {draft.map((condition, index) => (
+                <ConditionEditor
+                  key={index}
+                  eventType={editingEvent}
+                  condition={condition}
+                  states={workflow.states}
+                  onChange={(updated) => updateCondition(index, updated)}
+                  onRemove={() => setDraft(draft.filter((_, i) => i !== index))}
+                />
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft([...draft, createEventCondition(editingEvent)])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add condition
+              </Button>
+              {issues.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    <ul className="list-disc pl-4">
+                      {issues.map((issue) => (
+                        <li key={issue}>{issue}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingEvent(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveFilters} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save and subscribe
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
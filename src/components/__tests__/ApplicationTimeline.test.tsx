@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ApplicationTimeline } from '../ApplicationTimeline'
+import type { LoanApplicationEvent } from '@/types'
+
+const events: LoanApplicationEvent[] = [
+  { id: 'e1', loan_application_id: 'app-1', kind: 'created', created_at: '2025-06-01T10:00:00Z' },
+  { id: 'e2', loan_application_id: 'app-1', kind: 'status_changed', old_status: 'pending', new_status: 'approved', actor_email: 'admin@test.com', created_at: '2025-06-02T10:00:00Z' },
+  { id: 'e3', loan_application_id: 'app-1', kind: 'note', note: 'Called the applicant', created_at: '2025-06-03T10:00:00Z' },
+]
+
+vi.mock('@/hooks/useApplicationEvents', () => ({
+  useApplicationEvents: () => ({
+    events,
+    loading: false,
+    error: null,
+    addNote: vi.fn(),
+    refetch: vi.fn(),
+  }),
+}))
+
+const workflow = {
+  states: [
+    { key: 'pending', label: 'Pending Review' },
+    { key: 'approved', label: 'Approved' },
+  ],
+  transitions: [],
+}
+
+describe('ApplicationTimeline', () => {
+  beforeAll(() => {
+    // Radix Select relies on pointer capture and scrolling, which jsdom lacks
+    Element.prototype.hasPointerCapture = vi.fn(() => false)
+    Element.prototype.releasePointerCapture = vi.fn()
+    Element.prototype.scrollIntoView = vi.fn()
+  })
+
+  it('should show every event by default', () => {
+    render(<ApplicationTimeline applicationId="app-1" workflow={workflow as never} adminUser={null} />)
+
+    expect(screen.getByText('3 events')).toBeInTheDocument()
+    expect(screen.getByText('Application submitted')).toBeInTheDocument()
+    expect(screen.getByText('Called the applicant')).toBeInTheDocument()
+    expect(screen.getByText(/admin@test\.com/)).toBeInTheDocument()
+  })
+
+  it('should show only the chosen event type', async () => {
+    const user = userEvent.setup()
+    render(<ApplicationTimeline applicationId="app-1" workflow={workflow as never} adminUser={null} />)
+
+    await user.click(screen.getByRole('combobox'))
+    await user.click(await screen.findByRole('option', { name: 'Status changes' }))
+
+    expect(screen.getByText(/Pending Review/)).toHaveTextContent('Pending ReviewApproved')
+    expect(screen.queryByText('Application submitted')).not.toBeInTheDocument()
+    expect(screen.queryByText('Called the applicant')).not.toBeInTheDocument()
+  })
+
+  it('should say so when no event has the chosen type', async () => {
+    const user = userEvent.setup()
+    render(<ApplicationTimeline applicationId="app-1" workflow={workflow as never} adminUser={null} />)
+
+    await user.click(screen.getByRole('combobox'))
+    await user.click(await screen.findByRole('option', { name: 'Webhook deliveries' }))
+
+    expect(screen.getByText('No events to show')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,58 @@
+import { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Clock } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useIdleTimeout } from '@/hooks/useIdleTimeout';
+import { useOrganizationConfig } from '@/hooks/useOrganizationConfig';
+import { DEFAULT_SESSION_TIMEOUT_MINUTES, formatCountdown } from '@/lib/idleTimeout';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+export function IdleTimeoutDialog() {
+  const navigate = useNavigate();
+  const { adminUser, signOut } = useAuth();
+  const { config } = useOrganizationConfig();
+  const timeoutMinutes = config?.session_timeout_minutes || DEFAULT_SESSION_TIMEOUT_MINUTES;
+
+  const handleSignOut = useCallback(async (reason?: 'idle') => {
+    await signOut();
+    navigate('/login', reason ? { state: { reason } } : undefined);
+  }, [signOut, navigate]);
+
+  const handleExpire = useCallback(() => {
+    handleSignOut('idle');
+  }, [handleSignOut]);
+
+  const { status, msLeft, staySignedIn } = useIdleTimeout(timeoutMinutes, handleExpire, !!adminUser);
+
+  return (
+    <Dialog open={status === 'warning'} onOpenChange={(open) => !open && staySignedIn()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Are you still there?
+          </DialogTitle>
+          <DialogDescription>
+            You will be signed out in{' '}
+            <span className="font-mono font-semibold text-foreground">{formatCountdown(msLeft)}</span>{' '}
+            to protect borrower data.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleSignOut()}>
+            Sign out
+          </Button>
+          <Button onClick={staySignedIn}>Stay signed in</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
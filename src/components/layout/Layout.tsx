@@ -1,5 +1,8 @@
 import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
+import { canAccessRoute } from '@/lib/permissions';
+import { OrganizationSwitcher } from './OrganizationSwitcher';
+import { IdleTimeoutDialog } from './IdleTimeoutDialog';
 import { 
   LayoutDashboard, 
   Building2, 
@@ -10,7 +13,11 @@ import {
   LogOut,
   Menu,
   ChevronLeft,
-  FileText
+  FileText,
+  ShieldCheck,
+  ScrollText,
+  UserCog,
+  Building
 } from 'lucide-react';
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
@@ -31,7 +38,7 @@ export default function Layout() {
     navigate('/login');
   };
 
-  const navigation = [
+  const allNavigation = [
     { name: 'Dashboard', href: '/', icon: LayoutDashboard },
     { name: 'Organization', href: '/organization', icon: Building2 },
     { name: 'Theme', href: '/theme', icon: Palette },
@@ -39,8 +46,13 @@ export default function Layout() {
     { name: 'Documents', href: '/documents', icon: FileText },
     { name: 'Applications', href: '/applications', icon: FileText },
     { name: 'Users', href: '/users', icon: Users },
+    { name: 'Approvals', href: '/approvals', icon: ShieldCheck },
+    { name: 'Audit Log', href: '/audit-log', icon: ScrollText },
     { name: 'Integrations', href: '/integrations', icon: Webhook },
+    { name: 'Admin Team', href: '/team', icon: UserCog },
+    { name: 'Organizations', href: '/organizations', icon: Building },
   ];
+  const navigation = allNavigation.filter(item => canAccessRoute(adminUser?.role, item.href));
 
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
@@ -79,6 +91,12 @@ export default function Layout() {
           </Button>
         </div>
 
+        {sidebarOpen && (
+          <div className="px-2 pt-2">
+            <OrganizationSwitcher />
+          </div>
+        )}
+
         <nav className="flex-1 space-y-1 p-2">
           {navigation.map((item) => {
             const Icon = item.icon;
@@ -117,9 +135,9 @@ export default function Layout() {
             </Avatar>
             {sidebarOpen && (
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium truncate">
+                <Link to="/profile" className="block text-sm font-medium truncate hover:underline">
                   {adminUser?.full_name || adminUser?.email}
-                </p>
+                </Link>
                 <Badge variant={getRoleBadgeVariant(adminUser?.role || '')} className="text-xs">
                   {adminUser?.role?.replace('_', ' ')}
                 </Badge>
@@ -167,6 +185,10 @@ export default function Layout() {
           </Button>
         </div>
 
+        <div className="px-2 pt-2">
+          <OrganizationSwitcher />
+        </div>
+
         <nav className="flex-1 space-y-1 p-2">
           {navigation.map((item) => {
             const Icon = item.icon;
@@ -200,9 +222,13 @@ export default function Layout() {
               </AvatarFallback>
             </Avatar>
             <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium truncate">
+              <Link
+                to="/profile"
+                onClick={() => setMobileSidebarOpen(false)}
+                className="block text-sm font-medium truncate hover:underline"
+              >
                 {adminUser?.full_name || adminUser?.email}
-              </p>
+              </Link>
               <Badge variant={getRoleBadgeVariant(adminUser?.role || '')} className="text-xs">
                 {adminUser?.role?.replace('_', ' ')}
               </Badge>
@@ -240,6 +266,8 @@ export default function Layout() {
           </div>
         </main>
       </div>
+
+      <IdleTimeoutDialog />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+import { Building2 } from 'lucide-react';
+import { useCurrentOrganization } from '@/hooks/useCurrentOrganization';
+import { useOrganizations } from '@/hooks/useOrganizations';
+import { getOrganizationLabel, pickOrganizationId } from '@/lib/organizations';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export function OrganizationSwitcher() {
+  const { organizationId, canSwitch, selectOrganization, loading: authLoading } = useCurrentOrganization();
+  const { organizations, loading } = useOrganizations(canSwitch);
+
+  // Replace a missing or stale selection with an organization that exists
+  useEffect(() => {
+    if (!canSwitch || authLoading || loading || organizations.length === 0) return;
+    const pickedId = pickOrganizationId(organizations, organizationId);
+    if (pickedId && pickedId !== organizationId) {
+      selectOrganization(pickedId);
+    }
+  }, [canSwitch, authLoading, loading, organizations, organizationId, selectOrganization]);
+
+  if (!canSwitch || organizations.length < 2) return null;
+
+  return (
+    <Select value={organizationId ?? undefined} onValueChange={selectOrganization}>
+      <SelectTrigger className="w-full">
+        <Building2 className="h-4 w-4 flex-shrink-0" />
+        <SelectValue placeholder="Select organization" />
+      </SelectTrigger>
+      <SelectContent>
+        {organizations.map((organization) => (
+          <SelectItem key={organization.id} value={organization.id}>
+            {getOrganizationLabel(organization)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, waitFor } from '@testing-library/react'
+import { useApplicationEvents } from '../useApplicationEvents'
+import { supabase } from '@/lib/supabase'
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}))
+
+function mockEventsQuery(result: { data: unknown; error: unknown }) {
+  const query = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue(result),
+  }
+  vi.mocked(supabase.from).mockReturnValue(query as never)
+  return query
+}
+
+describe('useApplicationEvents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should load the events of one application, oldest first', async () => {
+    const events = [
+      { id: 'e1', loan_application_id: 'app-1', kind: 'created', created_at: '2025-06-01T10:00:00Z' },
+      { id: 'e2', loan_application_id: 'app-1', kind: 'status_changed', old_status: 'pending', new_status: 'approved', created_at: '2025-06-02T10:00:00Z' },
+    ]
+    const query = mockEventsQuery({ data: events, error: null })
+
+    const { result } = renderHook(() => useApplicationEvents('app-1'))
+
+    await waitFor(() => expect(result.current.events).toEqual(events))
+    expect(supabase.from).toHaveBeenCalledWith('loan_application_events')
+    expect(query.eq).toHaveBeenCalledWith('loan_application_id', 'app-1')
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: true })
+    expect(result.current.loading).toBe(false)
+    expect(result.current.error).toBeNull()
+  })
+
+  it('should not query without an application', () => {
+    const { result } = renderHook(() => useApplicationEvents(null))
+
+    expect(supabase.from).not.toHaveBeenCalled()
+    expect(result.current.events).toEqual([])
+  })
+
+  it('should report a failed query', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockEventsQuery({ data: null, error: new Error('permission denied') })
+
+    const { result } = renderHook(() => useApplicationEvents('app-1'))
+
+    await waitFor(() => expect(result.current.error).toBe('permission denied'))
+    expect(result.current.events).toEqual([])
+  })
+})
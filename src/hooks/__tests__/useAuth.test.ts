@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { renderHook, waitFor } from '@testing-library/react'
+import { act, renderHook, waitFor } from '@testing-library/react'
 import { useAuth } from '../useAuth'
+import { AuthProvider } from '@/components/AuthProvider'
 import { supabase } from '@/lib/supabase'
 
 // Mock the supabase client
@@ -13,6 +14,7 @@ vi.mock('@/lib/supabase', () => ({
       onAuthStateChange: vi.fn(),
     },
     from: vi.fn(),
+    rpc: vi.fn(),
   },
 }))
 
@@ -34,7 +36,7 @@ describe('useAuth', () => {
       data: { subscription: mockSubscription },
     } as any)
 
-    const { result } = renderHook(() => useAuth())
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
 
     expect(result.current.user).toBeNull()
     expect(result.current.adminUser).toBeNull()
@@ -81,7 +83,7 @@ describe('useAuth', () => {
 
     vi.mocked(supabase.from).mockReturnValue(fromMock as any)
 
-    const { result } = renderHook(() => useAuth())
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
 
     await waitFor(() => {
       expect(result.current.user).toEqual(mockUser)
@@ -89,6 +91,35 @@ describe('useAuth', () => {
     })
   })
 
+  it('should drop the admin profile of a deactivated admin with an existing session', async () => {
+    const mockUser = { id: 'test-user-id', email: 'admin@test.com' }
+
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: { session: { user: mockUser } },
+      error: null,
+    } as never)
+    vi.mocked(supabase.auth.onAuthStateChange).mockReturnValue({
+      data: { subscription: { unsubscribe: vi.fn() } },
+    } as never)
+    vi.mocked(supabase.from).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({
+        data: { ...mockUser, full_name: null, role: 'admin', created_at: '2025-01-01', is_active: false },
+        error: null,
+      }),
+    } as never)
+
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false)
+    })
+    expect(result.current.user).toEqual(mockUser)
+    expect(result.current.adminUser).toBeNull()
+    expect(result.current.isAdmin).toBe(false)
+  })
+
   it('should handle sign in successfully', async () => {
     const mockUser = {
       id: 'test-user-id',
@@ -116,14 +147,153 @@ describe('useAuth', () => {
       data: { subscription: mockSubscription },
     } as any)
 
-    const { result } = renderHook(() => useAuth())
+    vi.mocked(supabase.rpc).mockImplementation(((fn: string) => Promise.resolve(
+      fn === 'get_admin_sign_in_status'
+        ? { data: { status: 'active', admin: { ...mockUser, full_name: null, role: 'admin', organization_id: null, created_at: '2025-01-01' } }, error: null }
+        : { data: '2025-06-01T10:00:00.000Z', error: null }
+    )) as never)
+
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
 
-    await result.current.signIn('admin@test.com', 'password123')
+    await act(() => result.current.signIn('admin@test.com', 'password123'))
 
     expect(supabase.auth.signInWithPassword).toHaveBeenCalledWith({
       email: 'admin@test.com',
       password: 'password123',
     })
+    expect(supabase.rpc).toHaveBeenCalledWith('get_admin_sign_in_status')
+    // Recorded by the login page once any MFA challenge has passed
+    expect(supabase.rpc).not.toHaveBeenCalledWith('record_admin_login', expect.anything())
+    await waitFor(() => {
+      expect(result.current.adminUser?.email).toBe('admin@test.com')
+    })
+
+    await act(() => result.current.recordLogin())
+
+    expect(supabase.rpc).toHaveBeenCalledWith('record_admin_login', expect.objectContaining({ user_agent: expect.any(String) }))
+    expect(result.current.adminUser?.last_login).toBe('2025-06-01T10:00:00.000Z')
+  })
+
+  describe('sign in errors', () => {
+    const mockUser = { id: 'test-user-id', email: 'admin@test.com' }
+
+    beforeEach(() => {
+      vi.mocked(supabase.auth.getSession).mockResolvedValue({
+        data: { session: null },
+        error: null,
+      } as never)
+      vi.mocked(supabase.auth.onAuthStateChange).mockReturnValue({
+        data: { subscription: { unsubscribe: vi.fn() } },
+      } as never)
+      vi.mocked(supabase.auth.signOut).mockResolvedValue({ error: null } as never)
+    })
+
+    const passwordAccepted = () => {
+      vi.mocked(supabase.auth.signInWithPassword).mockResolvedValue({
+        data: { user: mockUser, session: { user: mockUser } },
+        error: null,
+      } as never)
+    }
+
+    const passwordRejected = (error: object) => {
+      vi.mocked(supabase.auth.signInWithPassword).mockResolvedValue({
+        data: { user: null, session: null },
+        error,
+      } as never)
+    }
+
+    const adminStatus = (data: object | null, error: object | null = null) => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data, error } as never)
+    }
+
+    it('should report a wrong password', async () => {
+      passwordRejected({ code: 'invalid_credentials', status: 400, message: 'Invalid login credentials' })
+      const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+      await expect(result.current.signIn('admin@test.com', 'wrong')).rejects.toMatchObject({
+        code: 'invalid_credentials',
+        message: 'Incorrect email or password',
+      })
+      expect(supabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should report a locked account', async () => {
+      passwordRejected({ code: 'user_banned', status: 400, message: 'User is banned' })
+      const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+      await expect(result.current.signIn('admin@test.com', 'password123')).rejects.toMatchObject({
+        code: 'locked',
+      })
+    })
+
+    it('should reject users who are not admins and sign them out', async () => {
+      passwordAccepted()
+      adminStatus({ status: 'not_admin' })
+      const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+      await expect(result.current.signIn('borrower@test.com', 'password123')).rejects.toMatchObject({
+        code: 'not_admin',
+        message: 'You are not authorized to access the admin panel',
+      })
+      expect(supabase.auth.signOut).toHaveBeenCalled()
+      expect(result.current.adminUser).toBeNull()
+    })
+
+    // set_admin_active() no longer bans, so the password check passes and the
+    // status check is what tells a deactivated admin apart from a locked one
+    it('should report deactivated admins as deactivated rather than locked', async () => {
+      passwordAccepted()
+      adminStatus({ status: 'deactivated' })
+      const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+      const error = await result.current.signIn('admin@test.com', 'password123').catch((err: unknown) => err)
+      expect(error).toMatchObject({ code: 'deactivated' })
+      expect(error).not.toMatchObject({ code: 'locked' })
+      expect(supabase.rpc).toHaveBeenCalledWith('get_admin_sign_in_status')
+      expect(supabase.rpc).not.toHaveBeenCalledWith('record_admin_login', expect.anything())
+    })
+
+    it('should reject deactivated admins and sign them out', async () => {
+      passwordAccepted()
+      adminStatus({ status: 'deactivated' })
+      const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+      await expect(result.current.signIn('admin@test.com', 'password123')).rejects.toMatchObject({
+        code: 'deactivated',
+        message: 'This admin account has been deactivated',
+      })
+      expect(supabase.auth.signOut).toHaveBeenCalled()
+    })
+
+    it('should report network failures while signing in', async () => {
+      vi.mocked(supabase.auth.signInWithPassword).mockRejectedValue(new TypeError('Failed to fetch'))
+      const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+      await expect(result.current.signIn('admin@test.com', 'password123')).rejects.toMatchObject({
+        code: 'network',
+      })
+    })
+
+    it('should report network failures during the admin check', async () => {
+      passwordAccepted()
+      adminStatus(null, { message: 'TypeError: Failed to fetch', code: '' })
+      const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+      await expect(result.current.signIn('admin@test.com', 'password123')).rejects.toMatchObject({
+        code: 'network',
+      })
+      expect(supabase.auth.signOut).toHaveBeenCalled()
+    })
+
+    it('should check admin access once instead of polling', async () => {
+      passwordAccepted()
+      adminStatus({ status: 'not_admin' })
+      const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+      await expect(result.current.signIn('admin@test.com', 'password123')).rejects.toThrow()
+      expect(supabase.rpc).toHaveBeenCalledTimes(1)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
   })
 
   it('should handle sign in error', async () => {
@@ -143,7 +313,7 @@ describe('useAuth', () => {
       data: { subscription: mockSubscription },
     } as any)
 
-    const { result } = renderHook(() => useAuth())
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
 
     await expect(result.current.signIn('admin@test.com', 'wrong')).rejects.toThrow('Invalid credentials')
   })
@@ -164,7 +334,7 @@ describe('useAuth', () => {
       data: { subscription: mockSubscription },
     } as any)
 
-    const { result } = renderHook(() => useAuth())
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
 
     await result.current.signOut()
 
@@ -183,10 +353,36 @@ describe('useAuth', () => {
       data: { subscription: mockSubscription },
     } as any)
 
-    const { unmount } = renderHook(() => useAuth())
+    const { unmount } = renderHook(() => useAuth(), { wrapper: AuthProvider })
 
     unmount()
 
     expect(mockSubscription.unsubscribe).toHaveBeenCalled()
   })
-})
\ No newline at end of file
+
+  it('should share one session listener between components', async () => {
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: { session: null },
+      error: null,
+    } as never)
+
+    vi.mocked(supabase.auth.onAuthStateChange).mockReturnValue({
+      data: { subscription: { unsubscribe: vi.fn() } },
+    } as never)
+
+    const { result } = renderHook(() => [useAuth(), useAuth(), useAuth()], { wrapper: AuthProvider })
+
+    await waitFor(() => {
+      expect(result.current.every(auth => !auth.loading)).toBe(true)
+    })
+    expect(supabase.auth.getSession).toHaveBeenCalledTimes(1)
+    expect(supabase.auth.onAuthStateChange).toHaveBeenCalledTimes(1)
+  })
+
+  it('should require AuthProvider', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(() => renderHook(() => useAuth())).toThrow('useAuth must be used inside AuthProvider')
+    consoleError.mockRestore()
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import { useIdleTimeout } from '../useIdleTimeout'
+import { LAST_ACTIVITY_STORAGE_KEY } from '@/lib/idleTimeout'
+
+describe('useIdleTimeout', () => {
+  const now = new Date('2025-06-01T10:00:00.000Z').getTime()
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(now)
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should sign out on mount when the stored activity is past the timeout', () => {
+    localStorage.setItem(LAST_ACTIVITY_STORAGE_KEY, String(now - 31 * 60 * 1000))
+    const onExpire = vi.fn()
+
+    renderHook(() => useIdleTimeout(30, onExpire))
+
+    expect(onExpire).toHaveBeenCalledTimes(1)
+    expect(localStorage.getItem(LAST_ACTIVITY_STORAGE_KEY)).toBe(String(now - 31 * 60 * 1000))
+  })
+
+  it('should keep counting from the stored activity instead of resetting it', () => {
+    localStorage.setItem(LAST_ACTIVITY_STORAGE_KEY, String(now - 29 * 60 * 1000))
+    const onExpire = vi.fn()
+
+    const { result } = renderHook(() => useIdleTimeout(30, onExpire))
+
+    expect(onExpire).not.toHaveBeenCalled()
+    expect(localStorage.getItem(LAST_ACTIVITY_STORAGE_KEY)).toBe(String(now - 29 * 60 * 1000))
+
+    act(() => {
+      vi.advanceTimersByTime(1000)
+    })
+    expect(result.current.status).toBe('warning')
+  })
+
+  it('should start a new countdown when nothing is stored', () => {
+    const onExpire = vi.fn()
+
+    renderHook(() => useIdleTimeout(30, onExpire))
+
+    expect(onExpire).not.toHaveBeenCalled()
+    expect(localStorage.getItem(LAST_ACTIVITY_STORAGE_KEY)).toBe(String(now))
+  })
+})
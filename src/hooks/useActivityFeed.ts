@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useCurrentOrganization } from './useCurrentOrganization';
+import {
+  applicationToActivity,
+  auditEntryToActivity,
+  mergeActivities,
+  statusEventToActivity,
+  takeActivityPage,
+  webhookFailureToActivity,
+  type ActivityApplication,
+  type ActivityItem,
+  type ActivityWebhookLog,
+} from '@/lib/activityFeed';
+import type { ConfigAuditLog, LoanApplicationEvent } from '@/types';
+
+interface ActivitySource {
+  table: string;
+  select: string;
+  // Column filters a row must match to appear in the feed
+  match?: Record<string, string>;
+  // Column holding the row's organization, through a joined parent if needed
+  organizationColumn: string;
+  toActivity: (row: unknown) => ActivityItem;
+}
+
+const SOURCES: ActivitySource[] = [
+  {
+    table: 'config_audit_log',
+    select: '*, admin_user:admin_users(email, full_name)',
+    organizationColumn: 'organization_id',
+    toActivity: row => auditEntryToActivity(row as ConfigAuditLog),
+  },
+  {
+    table: 'loan_applications',
+    select: 'id, amount, purpose, created_at, profiles!user_id(full_name)',
+    organizationColumn: 'organization_id',
+    toActivity: row => applicationToActivity(row as ActivityApplication),
+  },
+  {
+    table: 'loan_application_events',
+    select: '*, loan_applications!inner(organization_id)',
+    match: { kind: 'status_changed' },
+    organizationColumn: 'loan_applications.organization_id',
+    toActivity: row => statusEventToActivity(row as LoanApplicationEvent),
+  },
+  {
+    table: 'webhook_logs',
+    select: '*, webhook_integrations!inner(organization_id)',
+    match: { status: 'failed' },
+    organizationColumn: 'webhook_integrations.organization_id',
+    toActivity: row => webhookFailureToActivity(row as ActivityWebhookLog),
+  },
+];
+
+export function useActivityFeed(pageSize = 10) {
+  const [activities, setActivities] = useState<ActivityItem[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+
+  // Restricts a source to the current organization
+  const scopeOf = useCallback((source: ActivitySource): Record<string, string> => (
+    organizationId ? { [source.organizationColumn]: organizationId } : {}
+  ), [organizationId]);
+
+  // One page across every source, older than `before` when given
+  const fetchPage = useCallback(async (before: string | null) => {
+    const batches = await Promise.all(SOURCES.map(async (source) => {
+      let query = supabase
+        .from(source.table)
+        .select(source.select)
+        .match({ ...source.match, ...scopeOf(source) })
+        .order('created_at', { ascending: false })
+        .limit(pageSize);
+
+      if (before) query = query.lt('created_at', before);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data || []).map(source.toActivity);
+    }));
+
+    return takeActivityPage(batches, pageSize);
+  }, [pageSize, scopeOf]);
+
+  const fetchActivities = useCallback(async () => {
+    if (organizationLoading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchPage(null);
+      setActivities(page.items);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Error fetching activity feed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load recent activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchPage, organizationLoading]);
+
+  const loadMore = async () => {
+    if (!cursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(cursor);
+      setActivities(prev => mergeActivities(prev, page.items));
+      setCursor(page.cursor || cursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Error loading more activity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load more activity');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchActivities();
+  }, [fetchActivities]);
+
+  // Realtime payloads lack joined columns, so re-read the row with the source's select
+  useEffect(() => {
+    const addRow = async (source: ActivitySource, id: string) => {
+      try {
+        const { data, error } = await supabase
+          .from(source.table)
+          .select(source.select)
+          .match({ ...source.match, ...scopeOf(source), id })
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) setActivities(prev => mergeActivities(prev, [source.toActivity(data)]));
+      } catch (err) {
+        console.error('Error loading new activity:', err);
+      }
+    };
+
+    const channel = SOURCES.reduce(
+      (channel, source) => channel.on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: source.table
+        },
+        (payload) => {
+          const row = payload.new as { id?: string };
+          if (row?.id) addRow(source, row.id);
+        }
+      ),
+      supabase.channel('activity-feed')
+    ).subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [scopeOf]);
+
+  return {
+    activities,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    loadMore,
+    refetch: fetchActivities,
+  };
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useCurrentOrganization } from './useCurrentOrganization';
+import { normalizeEmail } from '@/lib/adminTeam';
+import type { AdminRole } from '@/lib/permissions';
+import type { AdminInvitation, AdminTeamMember } from '@/types';
+
+export interface AdminInviteInput {
+  email: string;
+  full_name: string;
+  role: AdminRole;
+}
+
+export function useAdminTeam() {
+  const [members, setMembers] = useState<AdminTeamMember[]>([]);
+  const [invitations, setInvitations] = useState<AdminInvitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+
+  // Super admins work across organizations, so they are listed everywhere
+  const fetchTeam = useCallback(async () => {
+    if (organizationLoading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let membersQuery = supabase
+        .from('admin_users')
+        .select('id, email, full_name, role, organization_id, is_active, deactivated_at, last_login, created_at');
+      let invitationsQuery = supabase
+        .from('admin_invitations')
+        .select('*')
+        .eq('status', 'pending');
+
+      if (organizationId) {
+        membersQuery = membersQuery.or(`organization_id.eq.${organizationId},role.eq.super_admin`);
+        invitationsQuery = invitationsQuery.eq('organization_id', organizationId);
+      }
+
+      const [membersResult, invitationsResult] = await Promise.all([
+        membersQuery.order('created_at', { ascending: true }),
+        invitationsQuery.order('created_at', { ascending: false }),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+      if (invitationsResult.error) throw invitationsResult.error;
+      setMembers(membersResult.data || []);
+      setInvitations(invitationsResult.data || []);
+    } catch (err) {
+      console.error('Error fetching admin team:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load admin team');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, organizationLoading]);
+
+  // Supabase auth sends the invitation as a magic link; new addresses get an
+  // account on first use and the database turns the invitation into an admin
+  const sendInvitationEmail = async (email: string, fullName: string | null) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: true,
+        emailRedirectTo: window.location.origin,
+        data: fullName ? { full_name: fullName } : undefined,
+      },
+    });
+
+    if (error) throw error;
+  };
+
+  const inviteAdmin = async (input: AdminInviteInput) => {
+    setError(null);
+    try {
+      const email = normalizeEmail(input.email);
+      const { data, error } = await supabase.rpc('invite_admin', {
+        invite_email: email,
+        invite_role: input.role,
+        invite_name: input.full_name.trim() || null,
+        invite_organization: organizationId,
+      });
+
+      if (error) throw error;
+      const invitation = data as AdminInvitation;
+      await sendInvitationEmail(email, invitation.full_name);
+      await fetchTeam();
+      return { error: null, accepted: invitation.status === 'accepted' };
+    } catch (err) {
+      console.error('Error inviting admin:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send invitation';
+      setError(errorMessage);
+      return { error: errorMessage, accepted: false };
+    }
+  };
+
+  const resendInvitation = async (invitation: AdminInvitation) => {
+    setError(null);
+    try {
+      await sendInvitationEmail(invitation.email, invitation.full_name);
+      return { error: null };
+    } catch (err) {
+      console.error('Error resending invitation:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resend invitation';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  const revokeInvitation = async (id: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase
+        .from('admin_invitations')
+        .update({ status: 'revoked' })
+        .eq('id', id)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+      await fetchTeam();
+      return { error: null };
+    } catch (err) {
+      console.error('Error revoking invitation:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to revoke invitation';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  const changeRole = async (id: string, role: AdminRole) => {
+    setError(null);
+    try {
+      const { error } = await supabase.rpc('set_admin_role', { target_id: id, new_role: role });
+
+      if (error) throw error;
+      await fetchTeam();
+      return { error: null };
+    } catch (err) {
+      console.error('Error changing admin role:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to change role';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  const setActive = async (id: string, active: boolean) => {
+    setError(null);
+    try {
+      const { error } = await supabase.rpc('set_admin_active', { target_id: id, active });
+
+      if (error) throw error;
+      await fetchTeam();
+      return { error: null };
+    } catch (err) {
+      console.error('Error updating admin status:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update admin status';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  return {
+    members,
+    invitations,
+    loading,
+    error,
+    inviteAdmin,
+    resendInvitation,
+    revokeInvitation,
+    changeRole,
+    deactivate: (id: string) => setActive(id, false),
+    reactivate: (id: string) => setActive(id, true),
+    refetch: fetchTeam,
+  };
+}
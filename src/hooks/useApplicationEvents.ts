@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { LoanApplicationEvent } from '@/types';
+import type { AdminUser } from './useAuth';
+
+export function useApplicationEvents(applicationId: string | null | undefined) {
+  const [events, setEvents] = useState<LoanApplicationEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    if (!applicationId) {
+      setEvents([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from('loan_application_events')
+        .select('*')
+        .eq('loan_application_id', applicationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (err) {
+      console.error('Error fetching application events:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load application history');
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  const addNote = async (note: string, actor: AdminUser | null) => {
+    if (!applicationId) return { error: 'No application selected' };
+
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from('loan_application_events')
+        .insert([{
+          loan_application_id: applicationId,
+          kind: 'note',
+          actor_id: actor?.id,
+          actor_email: actor?.email,
+          note,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      setEvents(prev => [...prev, data]);
+      return { error: null };
+    } catch (err) {
+      console.error('Error adding application note:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add note';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  return {
+    events,
+    loading,
+    error,
+    addNote,
+    refetch: fetchEvents,
+  };
+}
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_WORKFLOW } from '@/lib/applicationWorkflow';
+import type { ApplicationWorkflow } from '@/types';
+
+export function useApplicationWorkflow(organizationId?: string | null) {
+  const [workflow, setWorkflow] = useState<Pick<ApplicationWorkflow, 'states' | 'transitions'>>(DEFAULT_WORKFLOW);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWorkflow = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('application_workflows')
+        .select('*');
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+
+      const { data, error } = await query.limit(1).maybeSingle();
+
+      if (error) throw error;
+      setWorkflow(data || DEFAULT_WORKFLOW);
+    } catch (err) {
+      console.error('Error fetching application workflow:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load application workflow');
+      setWorkflow(DEFAULT_WORKFLOW);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchWorkflow();
+  }, [fetchWorkflow]);
+
+  return {
+    workflow,
+    loading,
+    error,
+    refetch: fetchWorkflow,
+  };
+}
@@ -1,5 +1,10 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
+import { validateTransition } from '@/lib/applicationWorkflow';
+import { useApplicationWorkflow } from './useApplicationWorkflow';
+import { useCurrentOrganization } from './useCurrentOrganization';
+import type { AdminUser } from './useAuth';
+import type { InterestMethod, RepaymentFrequency, RiskGrade } from '@/types';
 
 export interface LoanApplication {
   id: string;
@@ -9,7 +14,17 @@ export interface LoanApplication {
   term_months: number;
   interest_rate: number;
   monthly_payment: number;
-  status: 'pending' | 'approved' | 'rejected' | 'disbursed';
+  // Copied from the product when the application is submitted
+  interest_method?: InterestMethod;
+  repayment_frequency?: RepaymentFrequency;
+  loan_product_id?: string | null;
+  // The product version in effect when the application was submitted
+  loan_product_version_id?: string | null;
+  risk_grade?: RiskGrade | null;
+  // One of the state keys defined in the organization's application workflow
+  status: string;
+  status_reason_code?: string;
+  status_note?: string;
   employment_status?: string;
   monthly_income?: number;
   loan_purpose_details?: string;
@@ -39,6 +54,14 @@ interface UseApplicationsOptions {
   pageSize?: number;
   page?: number;
   userId?: string | null;
+  // Narrow to a single application, e.g. when linked from the dashboard
+  applicationId?: string | null;
+  adminUser?: AdminUser | null;
+}
+
+interface StatusUpdateDetails {
+  reasonCode?: string;
+  note?: string;
 }
 
 export function useApplications(options: UseApplicationsOptions = {}) {
@@ -54,14 +77,20 @@ export function useApplications(options: UseApplicationsOptions = {}) {
     sortOrder = 'desc',
     pageSize = 10,
     page = 1,
-    userId
+    userId,
+    applicationId,
+    adminUser
   } = options;
 
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+  const { workflow } = useApplicationWorkflow(organizationId);
+
   useEffect(() => {
     fetchApplications();
-  }, [status, searchTerm, sortBy, sortOrder, page, pageSize, userId]);
+  }, [status, searchTerm, sortBy, sortOrder, page, pageSize, userId, applicationId, organizationId, organizationLoading]);
 
   const fetchApplications = async () => {
+    if (organizationLoading) return;
     setLoading(true);
     setError(null);
 
@@ -90,6 +119,14 @@ export function useApplications(options: UseApplicationsOptions = {}) {
         query = query.eq('user_id', userId);
       }
 
+      if (applicationId) {
+        query = query.eq('id', applicationId);
+      }
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+
       if (searchTerm) {
         // Search in application ID or user's full name
         query = query.or(`id.ilike.%${searchTerm}%,profiles.full_name.ilike.%${searchTerm}%`);
@@ -119,18 +156,40 @@ export function useApplications(options: UseApplicationsOptions = {}) {
 
   const updateApplicationStatus = async (
     applicationId: string, 
-    newStatus: LoanApplication['status']
+    newStatus: LoanApplication['status'],
+    details: StatusUpdateDetails = {}
   ) => {
     try {
-      const { error: updateError } = await supabase
+      // Validate against the stored status rather than the possibly stale list
+      const { data: current, error: currentError } = await supabase
+        .from('loan_applications')
+        .select('status')
+        .eq('id', applicationId)
+        .single();
+
+      if (currentError) throw currentError;
+
+      const validation = validateTransition(workflow, current.status, newStatus, adminUser?.role, details.reasonCode);
+      if (!validation.valid) {
+        throw new Error(validation.error);
+      }
+
+      const { data: updated, error: updateError } = await supabase
         .from('loan_applications')
         .update({ 
           status: newStatus,
+          status_reason_code: details.reasonCode || null,
+          status_note: details.note || null,
           updated_at: new Date().toISOString()
         })
-        .eq('id', applicationId);
+        .eq('id', applicationId)
+        .eq('status', current.status)
+        .select('id');
 
       if (updateError) throw updateError;
+      if (!updated || updated.length === 0) {
+        throw new Error('The application status was changed by someone else. Refresh and try again.');
+      }
 
       // Refresh applications
       await fetchApplications();
@@ -162,22 +221,25 @@ export function useApplications(options: UseApplicationsOptions = {}) {
 
   const getStatusCounts = async () => {
     try {
-      const statuses: LoanApplication['status'][] = ['pending', 'approved', 'rejected', 'disbursed'];
+      const statuses = workflow.states.map(state => state.key);
       const counts: Record<string, number> = {};
 
-      for (const status of statuses) {
-        const { count } = await supabase
+      // Count within the selected organization, like the list itself
+      const countQuery = () => {
+        const query = supabase
           .from('loan_applications')
-          .select('*', { count: 'exact', head: true })
-          .eq('status', status);
+          .select('*', { count: 'exact', head: true });
+        return organizationId ? query.eq('organization_id', organizationId) : query;
+      };
+
+      for (const status of statuses) {
+        const { count } = await countQuery().eq('status', status);
         
         counts[status] = count || 0;
       }
 
       // Get total
-      const { count: total } = await supabase
-        .from('loan_applications')
-        .select('*', { count: 'exact', head: true });
+      const { count: total } = await countQuery();
       
       counts.total = total || 0;
 
@@ -212,6 +274,7 @@ export function useApplications(options: UseApplicationsOptions = {}) {
     loading,
     error,
     totalCount,
+    workflow,
     updateApplicationStatus,
     triggerWebhook,
     getStatusCounts,
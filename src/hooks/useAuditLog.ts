@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useCurrentOrganization } from './useCurrentOrganization';
+import type { AuditAction, ConfigAuditLog } from '@/types';
+
+export interface AuditLogFilters {
+  table?: string;
+  action?: AuditAction;
+  userId?: string;
+  // yyyy-mm-dd, inclusive, in the browser's time zone
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface AuditLogAdmin {
+  id: string;
+  email: string;
+  full_name?: string | null;
+}
+
+// The newest entries matching the filters; narrow the filters to go further back
+export const AUDIT_LOG_LIMIT = 500;
+
+export function useAuditLog(filters: AuditLogFilters) {
+  const [entries, setEntries] = useState<ConfigAuditLog[]>([]);
+  const [admins, setAdmins] = useState<AuditLogAdmin[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { table, action, userId, dateFrom, dateTo } = filters;
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+
+  const fetchEntries = useCallback(async () => {
+    if (organizationLoading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('config_audit_log')
+        .select('*, admin_user:admin_users(email, full_name)')
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_LOG_LIMIT);
+
+      if (organizationId) query = query.eq('organization_id', organizationId);
+      if (table) query = query.eq('table_name', table);
+      if (action) query = query.eq('action', action);
+      if (userId) query = query.eq('user_id', userId);
+      if (dateFrom) query = query.gte('created_at', new Date(`${dateFrom}T00:00:00`).toISOString());
+      if (dateTo) query = query.lte('created_at', new Date(`${dateTo}T23:59:59.999`).toISOString());
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (err) {
+      console.error('Error fetching audit log:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [table, action, userId, dateFrom, dateTo, organizationId, organizationLoading]);
+
+  const fetchAdmins = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('admin_users')
+        .select('id, email, full_name')
+        .order('email', { ascending: true });
+
+      if (error) throw error;
+      setAdmins(data || []);
+    } catch (err) {
+      console.error('Error fetching admin users:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  return {
+    entries,
+    admins,
+    loading,
+    error,
+    refetch: fetchEntries,
+  };
+}
@@ -1,16 +1,28 @@
-import { useEffect, useState } from 'react';
+import { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import type { User } from '@supabase/supabase-js';
+import { SignInError, isNetworkError, toSignInError } from '../lib/authErrors';
+import { clearStoredActivity, storeActivity } from '../lib/idleTimeout';
 
 export interface AdminUser {
   id: string;
   email: string;
   full_name: string | null;
   role: 'super_admin' | 'admin' | 'viewer';
+  organization_id: string | null;
   created_at: string;
+  last_login?: string | null;
+  is_active?: boolean;
 }
 
-export const useAuth = () => {
+// Result of get_admin_sign_in_status()
+type AdminSignInStatus =
+  | { status: 'active'; admin: AdminUser }
+  | { status: 'deactivated' | 'not_admin'; admin?: undefined };
+
+// Session and admin profile state. AuthProvider runs it once for the whole
+// app; components read it through useAuth().
+export const useAuthState = () => {
   const [user, setUser] = useState<User | null>(null);
   const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
   const [loading, setLoading] = useState(true);
@@ -48,7 +60,8 @@ export const useAuth = () => {
         .single();
 
       if (error) throw error;
-      setAdminUser(data);
+      // Deactivated admins keep their row for the audit trail but lose access
+      setAdminUser(data?.is_active === false ? null : data);
     } catch (error) {
       console.error('Error fetching admin user:', error);
       // User is not an admin
@@ -58,48 +71,68 @@ export const useAuth = () => {
     }
   };
 
-  const signIn = async (email: string, password: string) => {
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
+  // Signs the session back out when the password was right but the account
+  // may not use the panel
+  const rejectSignIn = async (error: SignInError): Promise<never> => {
+    await supabase.auth.signOut();
+    throw error;
+  };
 
-    if (error) throw error;
+  const signIn = async (email: string, password: string) => {
+    let data;
+    try {
+      const result = await supabase.auth.signInWithPassword({
+        email,
+        password,
+      });
 
-    // Check if user is admin - with retry logic for RLS
-    let retries = 3;
-    let adminData = null;
-    let adminError = null;
-    
-    while (retries > 0 && !adminData) {
-      const result = await supabase
-        .from('admin_users')
-        .select('*')
-        .eq('id', data.user.id)
-        .single();
-      
-      adminData = result.data;
-      adminError = result.error;
-      
-      if (!adminData && retries > 1) {
-        // Wait a bit for RLS to catch up
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-      retries--;
+      if (result.error) throw result.error;
+      data = result.data;
+    } catch (err) {
+      throw toSignInError(err);
     }
 
-    if (adminError || !adminData) {
-      console.error('Admin check failed:', adminError);
-      await supabase.auth.signOut();
-      throw new Error('You are not authorized to access the admin panel');
+    let status: AdminSignInStatus;
+    try {
+      const { data: statusData, error: statusError } = await supabase.rpc('get_admin_sign_in_status');
+
+      if (statusError) throw statusError;
+      status = statusData as AdminSignInStatus;
+    } catch (err) {
+      console.error('Admin check failed:', err);
+      return rejectSignIn(isNetworkError(err)
+        ? new SignInError('network')
+        : new SignInError('unknown', 'Could not verify admin access. Try again'));
     }
 
-    setAdminUser(adminData);
+    if (status?.status === 'deactivated') return rejectSignIn(new SignInError('deactivated'));
+    if (status?.status !== 'active' || !status.admin) return rejectSignIn(new SignInError('not_admin'));
+
+    // A fresh sign-in starts a fresh idle timeout
+    storeActivity(Date.now());
+    setAdminUser(status.admin);
     return data;
   };
 
+  // Stamps last_login and the login history. The login page calls it once the
+  // sign-in is complete, after the MFA challenge when there is one. A failure
+  // here must not keep the admin out of the panel.
+  const recordLogin = async () => {
+    try {
+      const { data: signedInAt, error: loginError } = await supabase.rpc('record_admin_login', {
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+      });
+
+      if (loginError) throw loginError;
+      if (signedInAt) setAdminUser(current => (current ? { ...current, last_login: signedInAt } : current));
+    } catch (loginError) {
+      console.error('Error recording login:', loginError);
+    }
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
+    clearStoredActivity();
     setUser(null);
     setAdminUser(null);
   };
@@ -110,6 +143,17 @@ export const useAuth = () => {
     loading,
     isAdmin: !!adminUser,
     signIn,
+    recordLogin,
     signOut,
   };
-};
\ No newline at end of file
+};
+
+export type AuthState = ReturnType<typeof useAuthState>;
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export const useAuth = () => {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error('useAuth must be used inside AuthProvider');
+  return auth;
+};
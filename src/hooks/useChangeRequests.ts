@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useCurrentOrganization } from './useCurrentOrganization';
+import type { ChangeRequestStatus, ConfigChangeRequest } from '@/types';
+
+export function useChangeRequests(status: ChangeRequestStatus | 'all' = 'pending') {
+  const [requests, setRequests] = useState<ConfigChangeRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+
+  const fetchRequests = useCallback(async () => {
+    if (organizationLoading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('config_change_requests')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (status !== 'all') {
+        query = query.eq('status', status);
+      }
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (err) {
+      console.error('Error fetching change requests:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load change requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, organizationId, organizationLoading]);
+
+  // Approval applies the change in the same transaction, so it runs in the database
+  const reviewRequest = async (id: string, approve: boolean, comment: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase.rpc('review_config_change', {
+        request_id: id,
+        approve,
+        comment: comment.trim() || null,
+      });
+
+      if (error) throw error;
+      await fetchRequests();
+      return { error: null };
+    } catch (err) {
+      console.error('Error reviewing change request:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to review change request';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  const cancelRequest = async (id: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase
+        .from('config_change_requests')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+      await fetchRequests();
+      return { error: null };
+    } catch (err) {
+      console.error('Error cancelling change request:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to cancel change request';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  return {
+    requests,
+    loading,
+    error,
+    approveRequest: (id: string, comment: string) => reviewRequest(id, true, comment),
+    rejectRequest: (id: string, comment: string) => reviewRequest(id, false, comment),
+    cancelRequest,
+    refetch: fetchRequests,
+  };
+}
@@ -0,0 +1,45 @@
+import { useSyncExternalStore } from 'react';
+import { useAuth } from './useAuth';
+import { hasPermission } from '@/lib/permissions';
+import { ORGANIZATION_STORAGE_KEY, resolveOrganizationId } from '@/lib/organizations';
+
+// The selection is shared by every component on the page and survives reloads
+const listeners = new Set<() => void>();
+
+function readSelectedId() {
+  try {
+    return localStorage.getItem(ORGANIZATION_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+export function selectOrganization(id: string) {
+  try {
+    localStorage.setItem(ORGANIZATION_STORAGE_KEY, id);
+  } catch (err) {
+    console.error('Error saving organization selection:', err);
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function useCurrentOrganization() {
+  const { adminUser, loading } = useAuth();
+  const selectedId = useSyncExternalStore(subscribe, readSelectedId);
+
+  return {
+    organizationId: resolveOrganizationId(adminUser?.role, adminUser?.organization_id, selectedId),
+    canSwitch: hasPermission(adminUser?.role, 'organizations.manage'),
+    selectOrganization,
+    loading,
+  };
+}
@@ -1,19 +1,28 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
+import { useCurrentOrganization } from './useCurrentOrganization';
 import type { DocumentType } from '@/types';
 
 export function useDocumentTypes() {
   const [documentTypes, setDocumentTypes] = useState<DocumentType[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
 
   const fetchDocumentTypes = useCallback(async () => {
+    if (organizationLoading) return;
     setLoading(true);
     setError(null);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('document_types')
-        .select('*')
+        .select('*');
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+
+      const { data, error } = await query
         .order('display_order', { ascending: true })
         .order('name', { ascending: true });
 
@@ -25,7 +34,7 @@ export function useDocumentTypes() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [organizationId, organizationLoading]);
 
   const createDocumentType = async (documentType: Omit<DocumentType, 'id' | 'created_at' | 'updated_at'>) => {
     setError(null);
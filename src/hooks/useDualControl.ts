@@ -0,0 +1,59 @@
+import { supabase } from '@/lib/supabase';
+import { diffValues } from '@/lib/changeRequests';
+import { useOrganizationConfig } from './useOrganizationConfig';
+import type { ChangeRequestAction, ChangeRequestTable } from '@/types';
+
+interface ChangeSubmission {
+  table: ChangeRequestTable;
+  action: ChangeRequestAction;
+  recordId?: string | null;
+  // The record as it is now; null for inserts
+  current: object | null;
+  // The record as it should be; ignored for deletes
+  proposed?: object;
+  summary: string;
+  metadata?: Record<string, unknown>;
+}
+
+export function useDualControl() {
+  const { config, loading, refetch } = useOrganizationConfig();
+
+  // The requester is taken from the session by the database
+  const submitChange = async (change: ChangeSubmission) => {
+    const current = change.current as Record<string, unknown> | null;
+    const values = change.action === 'DELETE'
+      ? { old_values: diffValues(null, current || {}).new_values, new_values: {} }
+      : diffValues(current, (change.proposed || {}) as Record<string, unknown>);
+
+    if (change.action === 'UPDATE' && Object.keys(values.new_values).length === 0 && !change.metadata) {
+      return { error: 'Nothing has changed' };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('config_change_requests')
+        .insert([{
+          organization_id: config?.id ?? null,
+          table_name: change.table,
+          record_id: change.recordId || null,
+          action: change.action,
+          summary: change.summary,
+          metadata: change.metadata || {},
+          ...values,
+        }]);
+
+      if (error) throw error;
+      return { error: null };
+    } catch (err) {
+      console.error('Error submitting change request:', err);
+      return { error: err instanceof Error ? err.message : 'Failed to submit change for approval' };
+    }
+  };
+
+  return {
+    enabled: !!config?.dual_control_enabled,
+    loading,
+    submitChange,
+    refetch,
+  };
+}
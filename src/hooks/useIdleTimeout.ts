@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  IDLE_WARNING_MS,
+  getIdleState,
+  readStoredActivity,
+  storeActivity,
+  type IdleState,
+} from '@/lib/idleTimeout';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'wheel'];
+
+// Activity is written at most this often; the timeout is measured in minutes
+const ACTIVITY_THROTTLE_MS = 5 * 1000;
+
+export function useIdleTimeout(timeoutMinutes: number, onExpire: () => void, enabled = true) {
+  const lastActivityRef = useRef(Date.now());
+  const expiredRef = useRef(false);
+  const onExpireRef = useRef(onExpire);
+  const [state, setState] = useState<IdleState>({ status: 'active', msLeft: timeoutMinutes * 60 * 1000 });
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  const recordActivity = useCallback(() => {
+    const now = Date.now();
+    lastActivityRef.current = now;
+    storeActivity(now);
+    setState({ status: 'active', msLeft: timeoutMinutes * 60 * 1000 });
+  }, [timeoutMinutes]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timeoutMs = timeoutMinutes * 60 * 1000;
+
+    // Reloading or reopening the panel keeps the last activity, so a session
+    // left idle past the timeout ends now instead of starting a new countdown
+    const storedActivity = readStoredActivity();
+    if (storedActivity && getIdleState(storedActivity, Date.now(), timeoutMs).status === 'expired') {
+      expiredRef.current = true;
+      onExpireRef.current();
+      return;
+    }
+    expiredRef.current = false;
+    if (storedActivity) {
+      lastActivityRef.current = storedActivity;
+    } else {
+      recordActivity();
+    }
+
+    const handleActivity = () => {
+      // Once the warning is up only "Stay signed in" extends the session,
+      // so a stray mouse movement cannot hide the countdown
+      const { status } = getIdleState(lastActivityRef.current, Date.now(), timeoutMs);
+      if (status !== 'active') return;
+      if (Date.now() - lastActivityRef.current < ACTIVITY_THROTTLE_MS) return;
+      recordActivity();
+    };
+
+    const tick = () => {
+      // Another tab may have seen more recent activity
+      lastActivityRef.current = Math.max(lastActivityRef.current, readStoredActivity());
+      const next = getIdleState(lastActivityRef.current, Date.now(), timeoutMs, IDLE_WARNING_MS);
+
+      setState(prev => (
+        prev.status === next.status && next.status === 'active' ? prev : next
+      ));
+
+      if (next.status === 'expired' && !expiredRef.current) {
+        expiredRef.current = true;
+        onExpireRef.current();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    const interval = window.setInterval(tick, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      window.clearInterval(interval);
+    };
+  }, [enabled, timeoutMinutes, recordActivity]);
+
+  return {
+    ...state,
+    staySignedIn: recordActivity,
+  };
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { AdminLoginEntry } from '@/types';
+
+const HISTORY_LIMIT = 50;
+
+export function useLoginHistory(adminUserId: string | null) {
+  const [entries, setEntries] = useState<AdminLoginEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!adminUserId) {
+      setEntries([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from('admin_login_history')
+        .select('*')
+        .eq('admin_user_id', adminUserId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (err) {
+      console.error('Error fetching login history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load login history');
+    } finally {
+      setLoading(false);
+    }
+  }, [adminUserId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    entries,
+    loading,
+    error,
+    refetch: fetchHistory,
+  };
+}
@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { normalizeTotpCode, type MfaStatus } from '@/lib/mfa';
+import type { Factor } from '@supabase/supabase-js';
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+async function fetchMfaStatus(): Promise<{ status: MfaStatus; factors: Factor[] }> {
+  const [assuranceResult, factorsResult, policyResult] = await Promise.all([
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+    supabase.auth.mfa.listFactors(),
+    supabase.rpc('admin_mfa_required'),
+  ]);
+
+  if (assuranceResult.error) throw assuranceResult.error;
+  if (factorsResult.error) throw factorsResult.error;
+  if (policyResult.error) throw policyResult.error;
+
+  const factors = factorsResult.data.totp;
+  return {
+    factors,
+    status: {
+      currentLevel: assuranceResult.data.currentLevel,
+      nextLevel: assuranceResult.data.nextLevel,
+      verifiedFactorCount: factors.length,
+      policyEnabled: policyResult.data === true,
+    },
+  };
+}
+
+// Tracks the signed-in admin's factors and session assurance level. Verifying
+// a code refreshes the session, so the status follows auth events.
+export function useMfaStatus(enabled = true) {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    if (!enabled) {
+      setStatus(null);
+      setFactors([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchMfaStatus();
+      setStatus(result.status);
+      setFactors(result.factors);
+    } catch (err) {
+      console.error('Error fetching MFA status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to check two-factor authentication');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'MFA_CHALLENGE_VERIFIED' || event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED') {
+        fetchStatus();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [enabled, fetchStatus]);
+
+  return {
+    status,
+    factors,
+    loading,
+    error,
+    refetch: fetchStatus,
+  };
+}
+
+export function useMfa() {
+  const [error, setError] = useState<string | null>(null);
+
+  // True when the admin has an authenticator but this session has not used it
+  const needsChallenge = async () => {
+    try {
+      const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+      if (error) throw error;
+      return data.nextLevel === 'aal2' && data.currentLevel !== 'aal2';
+    } catch (err) {
+      // The route guard checks again and fails closed
+      console.error('Error checking MFA level:', err);
+      return false;
+    }
+  };
+
+  const verifyChallenge = async (code: string) => {
+    setError(null);
+    try {
+      const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+
+      if (factorsError) throw factorsError;
+      const factor = factors.totp[0];
+      if (!factor) throw new Error('No authenticator app is set up for this account');
+
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: factor.id,
+        code: normalizeTotpCode(code),
+      });
+
+      if (error) throw error;
+      return { error: null };
+    } catch (err) {
+      console.error('Error verifying MFA code:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to verify code';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  const enroll = async (friendlyName: string) => {
+    setError(null);
+    try {
+      // An abandoned setup leaves an unverified factor behind; clear it first
+      const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+
+      if (factorsError) throw factorsError;
+      for (const factor of factors.all.filter(f => f.factor_type === 'totp' && f.status === 'unverified')) {
+        const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        if (error) throw error;
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: friendlyName.trim() || undefined,
+      });
+
+      if (error) throw error;
+      const enrollment: TotpEnrollment = {
+        factorId: data.id,
+        qrCode: data.totp.qr_code,
+        secret: data.totp.secret,
+      };
+      return { data: enrollment, error: null };
+    } catch (err) {
+      console.error('Error enrolling authenticator:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to set up authenticator';
+      setError(errorMessage);
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  const verifyEnrollment = async (factorId: string, code: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId,
+        code: normalizeTotpCode(code),
+      });
+
+      if (error) throw error;
+      return { error: null };
+    } catch (err) {
+      console.error('Error verifying authenticator:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to verify code';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  const unenroll = async (factorId: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId });
+
+      if (error) throw error;
+      return { error: null };
+    } catch (err) {
+      console.error('Error removing authenticator:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to remove authenticator';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  return {
+    error,
+    needsChallenge,
+    verifyChallenge,
+    enroll,
+    verifyEnrollment,
+    unenroll,
+  };
+}
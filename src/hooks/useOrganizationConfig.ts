@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useCurrentOrganization } from './useCurrentOrganization';
+import type { OrganizationConfig } from '@/types';
+
+export function useOrganizationConfig() {
+  const [config, setConfig] = useState<OrganizationConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+
+  const fetchConfig = useCallback(async () => {
+    if (organizationLoading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('organization_config')
+        .select('*');
+
+      if (organizationId) {
+        query = query.eq('id', organizationId);
+      }
+
+      const { data, error } = await query.limit(1).maybeSingle();
+
+      if (error) throw error;
+      setConfig(data);
+    } catch (err) {
+      console.error('Error fetching organization config:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load organization config');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, organizationLoading]);
+
+  useEffect(() => {
+    fetchConfig();
+  }, [fetchConfig]);
+
+  return {
+    config,
+    currencySymbol: config?.currency_symbol || '$',
+    loading,
+    error,
+    refetch: fetchConfig,
+  };
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { OrganizationSummary } from '@/lib/organizations';
+
+export function useOrganizations(enabled = true) {
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrganizations = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from('organization_config')
+        .select('id, organization_name, logo_url, created_at')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setOrganizations(data || []);
+    } catch (err) {
+      console.error('Error fetching organizations:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load organizations');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  // Copies branding, the active theme and the workflow from templateId
+  const createOrganization = async (name: string, templateId: string | null) => {
+    setError(null);
+    try {
+      const { data, error } = await supabase.rpc('create_organization', {
+        org_name: name.trim(),
+        template_id: templateId,
+      });
+
+      if (error) throw error;
+      await fetchOrganizations();
+      return { data: data as OrganizationSummary, error: null };
+    } catch (err) {
+      console.error('Error creating organization:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create organization';
+      setError(errorMessage);
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  return {
+    organizations,
+    loading,
+    error,
+    createOrganization,
+    refetch: fetchOrganizations,
+  };
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { normalizeEmail } from '@/lib/adminTeam';
+import { RESET_PASSWORD_PATH, getRecoveryLinkError } from '@/lib/passwordReset';
+
+export type RecoveryStatus = 'checking' | 'ready' | 'invalid';
+
+// The recovery email signs the admin in through the redirect URL; supabase-js
+// reads the token from it before this page renders
+export function useRecoverySession() {
+  const [status, setStatus] = useState<RecoveryStatus>('checking');
+  const [email, setEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const linkError = getRecoveryLinkError(window.location.hash, window.location.search);
+    if (linkError) {
+      setError(linkError);
+      setStatus('invalid');
+      return;
+    }
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY' || session) {
+        setEmail(session?.user.email ?? null);
+        setStatus('ready');
+      } else if (event === 'INITIAL_SESSION' || event === 'SIGNED_OUT') {
+        setError('Open the password reset link from your email to choose a new password.');
+        setStatus('invalid');
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return { status, email, error };
+}
+
+export function usePasswordReset() {
+  const [error, setError] = useState<string | null>(null);
+
+  const requestReset = async (email: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(normalizeEmail(email), {
+        redirectTo: `${window.location.origin}${RESET_PASSWORD_PATH}`,
+      });
+
+      if (error) throw error;
+      return { error: null };
+    } catch (err) {
+      console.error('Error requesting password reset:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send reset email';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  // The recovery session is signed out afterwards so the admin signs in again
+  // with the new password, which also records the login and asks for MFA
+  const updatePassword = async (password: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        if (error.code === 'same_password') {
+          throw new Error('Choose a password you have not used before');
+        }
+        throw error;
+      }
+      await supabase.auth.signOut();
+      return { error: null };
+    } catch (err) {
+      console.error('Error updating password:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update password';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  return {
+    error,
+    requestReset,
+    updatePassword,
+  };
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { buildPayloadContext } from '@/lib/payloadTemplate';
+import { useCurrentOrganization } from './useCurrentOrganization';
+
+export interface PreviewApplication {
+  id: string;
+  amount: number;
+  status: string;
+  created_at: string;
+  profiles?: { full_name?: string | null } | null;
+}
+
+interface ProductDocumentRow {
+  is_mandatory: boolean;
+  custom_instructions?: string | null;
+  display_order: number;
+  document_type?: { name: string; description?: string | null } | null;
+}
+
+const PREVIEW_LIMIT = 20;
+
+/**
+ * Recent applications to preview payloads against, and the template context
+ * for the chosen one: the application, its applicant, product and the
+ * product's required documents.
+ */
+export function usePayloadPreview(applicationId: string | null) {
+  const [applications, setApplications] = useState<PreviewApplication[]>([]);
+  const [context, setContext] = useState<Record<string, unknown> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+
+  const fetchApplications = useCallback(async () => {
+    if (organizationLoading) return;
+    setError(null);
+    try {
+      let query = supabase
+        .from('loan_applications')
+        .select('id, amount, status, created_at, profiles!user_id (full_name)');
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(PREVIEW_LIMIT);
+
+      if (error) throw error;
+      setApplications((data || []) as unknown as PreviewApplication[]);
+    } catch (err) {
+      console.error('Error fetching preview applications:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load applications');
+    }
+  }, [organizationId, organizationLoading]);
+
+  const fetchContext = useCallback(async () => {
+    if (!applicationId) {
+      setContext(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from('loan_applications')
+        .select(`
+          *,
+          profiles!user_id (
+            id,
+            full_name,
+            phone_number,
+            email,
+            gender,
+            date_of_birth,
+            kyc_verified
+          ),
+          loan_product:loan_products (
+            *,
+            loan_product_documents (
+              is_mandatory,
+              custom_instructions,
+              display_order,
+              document_type:document_types (name, description)
+            )
+          )
+        `)
+        .eq('id', applicationId)
+        .single();
+
+      if (error) throw error;
+
+      const { profiles, loan_product, ...application } = data;
+      const { loan_product_documents, ...product } = loan_product || {};
+      const documents = ((loan_product_documents || []) as ProductDocumentRow[])
+        .sort((a, b) => a.display_order - b.display_order)
+        .map(document => ({
+          name: document.document_type?.name ?? null,
+          description: document.document_type?.description ?? null,
+          is_mandatory: document.is_mandatory,
+          instructions: document.custom_instructions ?? null,
+        }));
+
+      setContext(buildPayloadContext({
+        application,
+        profile: profiles,
+        product: loan_product ? product : null,
+        documents,
+      }));
+    } catch (err) {
+      console.error('Error loading preview application:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load application');
+      setContext(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    fetchApplications();
+  }, [fetchApplications]);
+
+  useEffect(() => {
+    fetchContext();
+  }, [fetchContext]);
+
+  return {
+    applications,
+    context,
+    loading,
+    error,
+    refetch: fetchContext,
+  };
+}
@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { hasPermission, type Permission } from '@/lib/permissions';
+
+export function usePermissions() {
+  const { adminUser, loading } = useAuth();
+  const role = adminUser?.role ?? null;
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return {
+    role,
+    can,
+    loading,
+  };
+}
+
+export function usePermission(permission: Permission) {
+  return usePermissions().can(permission);
+}
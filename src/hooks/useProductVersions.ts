@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { LoanProductVersion } from '@/types';
+
+export function useProductVersions(productId: string | null | undefined) {
+  const [versions, setVersions] = useState<LoanProductVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    if (!productId) {
+      setVersions([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from('loan_product_versions')
+        .select('*')
+        .eq('loan_product_id', productId)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      setVersions(data || []);
+    } catch (err) {
+      console.error('Error fetching product versions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load product versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [productId]);
+
+  // Publishing runs in the database so the version, the live product row and
+  // its document requirements change together
+  const publishVersion = async (versionId: string, effectiveFrom: string | null) => {
+    setError(null);
+    try {
+      const { error } = await supabase.rpc('publish_product_version', {
+        version_id: versionId,
+        effective_from: effectiveFrom,
+      });
+
+      if (error) throw error;
+      await fetchVersions();
+      return { error: null };
+    } catch (err) {
+      console.error('Error publishing product version:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to publish version';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  const discardDraft = async (versionId: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase
+        .from('loan_product_versions')
+        .delete()
+        .eq('id', versionId)
+        .eq('status', 'draft');
+
+      if (error) throw error;
+      setVersions(prev => prev.filter(v => v.id !== versionId));
+      return { error: null };
+    } catch (err) {
+      console.error('Error discarding product draft:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to discard draft';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  return {
+    versions,
+    loading,
+    error,
+    publishVersion,
+    discardDraft,
+    refetch: fetchVersions,
+  };
+}
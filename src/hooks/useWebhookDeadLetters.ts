@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { WebhookDeadLetter } from '@/types';
+import { useCurrentOrganization } from './useCurrentOrganization';
+
+const DEAD_LETTER_LIMIT = 200;
+
+/**
+ * Deliveries that failed after their last retry. Open items can be replayed
+ * or resolved with a note; closed ones are kept for the record.
+ */
+export function useWebhookDeadLetters(showClosed = false) {
+  const [deadLetters, setDeadLetters] = useState<WebhookDeadLetter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+
+  const fetchDeadLetters = useCallback(async () => {
+    if (organizationLoading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase.from('webhook_dead_letters').select('*');
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+      query = showClosed ? query.not('resolution', 'is', null) : query.is('resolution', null);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(DEAD_LETTER_LIMIT);
+
+      if (error) throw error;
+      setDeadLetters(data || []);
+    } catch (err) {
+      console.error('Error fetching dead letters:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load failed deliveries');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, organizationLoading, showClosed]);
+
+  // Returns how many were queued; closed items and inactive integrations are skipped
+  const replayDeliveries = async (ids: string[], useOriginalPayload: boolean, note?: string) => {
+    setError(null);
+    try {
+      const { data, error } = await supabase.rpc('replay_webhook_deliveries', {
+        log_ids: ids,
+        use_original_payload: useOriginalPayload,
+        note: note || null,
+      });
+
+      if (error) throw error;
+      await fetchDeadLetters();
+      return { count: (data as number) ?? 0, error: null };
+    } catch (err) {
+      console.error('Error replaying deliveries:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to replay deliveries';
+      setError(errorMessage);
+      return { count: 0, error: errorMessage };
+    }
+  };
+
+  const resolveDeliveries = async (ids: string[], note: string) => {
+    setError(null);
+    try {
+      const { data, error } = await supabase.rpc('resolve_webhook_deliveries', { log_ids: ids, note });
+
+      if (error) throw error;
+      await fetchDeadLetters();
+      return { count: (data as number) ?? 0, error: null };
+    } catch (err) {
+      console.error('Error resolving deliveries:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resolve deliveries';
+      setError(errorMessage);
+      return { count: 0, error: errorMessage };
+    }
+  };
+
+  useEffect(() => {
+    fetchDeadLetters();
+  }, [fetchDeadLetters]);
+
+  return {
+    deadLetters,
+    loading,
+    error,
+    replayDeliveries,
+    resolveDeliveries,
+    refetch: fetchDeadLetters,
+  };
+}
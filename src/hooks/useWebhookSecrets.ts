@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { WebhookSigningSecret } from '@/types';
+
+export function useWebhookSecrets(integrationId: string | null | undefined) {
+  const [secrets, setSecrets] = useState<WebhookSigningSecret[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSecrets = useCallback(async () => {
+    if (!integrationId) {
+      setSecrets([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from('webhook_signing_secrets')
+        .select('*')
+        .eq('integration_id', integrationId)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      setSecrets(data || []);
+    } catch (err) {
+      console.error('Error fetching signing secrets:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load signing secrets');
+    } finally {
+      setLoading(false);
+    }
+  }, [integrationId]);
+
+  // Rotation runs in the database so the old secret's grace period and the
+  // new secret are written together
+  const rotateSecret = async (gracePeriodHours: number) => {
+    if (!integrationId) return { error: 'No integration selected' };
+    setError(null);
+    try {
+      const { error } = await supabase.rpc('rotate_webhook_secret', {
+        target_integration: integrationId,
+        grace_period_hours: gracePeriodHours,
+      });
+
+      if (error) throw error;
+      await fetchSecrets();
+      return { error: null };
+    } catch (err) {
+      console.error('Error rotating signing secret:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to rotate signing secret';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  const expireSecret = async (secretId: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase.rpc('expire_webhook_secret', { target_secret: secretId });
+
+      if (error) throw error;
+      await fetchSecrets();
+      return { error: null };
+    } catch (err) {
+      console.error('Error expiring signing secret:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to expire signing secret';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  useEffect(() => {
+    fetchSecrets();
+  }, [fetchSecrets]);
+
+  return {
+    secrets,
+    loading,
+    error,
+    rotateSecret,
+    expireSecret,
+    refetch: fetchSecrets,
+  };
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { WebhookEventCondition, WebhookEventSubscription, WebhookEventType } from '@/types';
+
+export interface WebhookSubscriptionInput {
+  event_type: WebhookEventType;
+  conditions: WebhookEventCondition[];
+  is_active: boolean;
+}
+
+export function useWebhookSubscriptions(integrationId: string | null | undefined) {
+  const [subscriptions, setSubscriptions] = useState<WebhookEventSubscription[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSubscriptions = useCallback(async () => {
+    if (!integrationId) {
+      setSubscriptions([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from('webhook_event_subscriptions')
+        .select('*')
+        .eq('integration_id', integrationId);
+
+      if (error) throw error;
+      setSubscriptions(data || []);
+    } catch (err) {
+      console.error('Error fetching event subscriptions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load event subscriptions');
+    } finally {
+      setLoading(false);
+    }
+  }, [integrationId]);
+
+  // One subscription per event type, so saving an event updates it in place
+  const saveSubscription = async (input: WebhookSubscriptionInput) => {
+    if (!integrationId) return { error: 'No integration selected' };
+    setError(null);
+    try {
+      const { error } = await supabase
+        .from('webhook_event_subscriptions')
+        .upsert(
+          { ...input, integration_id: integrationId },
+          { onConflict: 'integration_id,event_type' }
+        );
+
+      if (error) throw error;
+      await fetchSubscriptions();
+      return { error: null };
+    } catch (err) {
+      console.error('Error saving event subscription:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save event subscription';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  const deleteSubscription = async (id: string) => {
+    setError(null);
+    try {
+      const { error } = await supabase
+        .from('webhook_event_subscriptions')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      await fetchSubscriptions();
+      return { error: null };
+    } catch (err) {
+      console.error('Error removing event subscription:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to remove event subscription';
+      setError(errorMessage);
+      return { error: errorMessage };
+    }
+  };
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [fetchSubscriptions]);
+
+  return {
+    subscriptions,
+    loading,
+    error,
+    saveSubscription,
+    deleteSubscription,
+    refetch: fetchSubscriptions,
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applicationToActivity,
+  auditEntryToActivity,
+  mergeActivities,
+  statusEventToActivity,
+  takeActivityPage,
+  webhookFailureToActivity,
+  type ActivityItem,
+} from '../activityFeed'
+
+describe('activityFeed', () => {
+  const item = (id: string, timestamp: string): ActivityItem => ({
+    id,
+    kind: 'config_change',
+    message: id,
+    timestamp,
+    status: 'info',
+    href: '/',
+  })
+
+  it('should describe configuration changes and link to their page', () => {
+    const activity = auditEntryToActivity({
+      id: 'log-1',
+      user_id: 'admin-1',
+      table_name: 'loan_products',
+      record_id: 'product-1',
+      action: 'INSERT',
+      old_values: null,
+      new_values: { name: 'Quick Cash' },
+      created_at: '2025-03-01T10:00:00.000Z',
+      admin_user: { email: 'ops@example.com' },
+    })
+
+    expect(activity).toMatchObject({
+      id: 'config_change:log-1',
+      message: '"Quick Cash" created',
+      detail: 'Loan products · by ops@example.com',
+      status: 'success',
+      href: '/products',
+    })
+  })
+
+  it('should link application activity to the application', () => {
+    expect(applicationToActivity({
+      id: 'app-1',
+      amount: 5000,
+      purpose: 'Education',
+      created_at: '2025-03-01T10:00:00.000Z',
+      profiles: { full_name: 'Jane Doe' },
+    })).toMatchObject({
+      message: 'New application from Jane Doe',
+      href: '/applications?application=app-1',
+    })
+
+    expect(statusEventToActivity({
+      id: 'event-1',
+      loan_application_id: 'app-1',
+      kind: 'status_changed',
+      old_status: 'under_review',
+      new_status: 'rejected',
+      actor_email: 'ops@example.com',
+      created_at: '2025-03-01T11:00:00.000Z',
+    })).toMatchObject({
+      message: 'Application rejected',
+      detail: 'from under review by ops@example.com',
+      status: 'warning',
+      href: '/applications?application=app-1',
+    })
+  })
+
+  it('should flag webhook failures', () => {
+    expect(webhookFailureToActivity({
+      id: 'log-1',
+      integration_id: 'int-1',
+      response_status: 502,
+      created_at: '2025-03-01T10:00:00.000Z',
+    })).toMatchObject({ status: 'error', detail: 'HTTP 502', href: '/integrations' })
+  })
+
+  it('should merge newest first without duplicates', () => {
+    const merged = mergeActivities(
+      [item('a', '2025-03-01T10:00:00.000Z'), item('b', '2025-03-01T12:00:00.000Z')],
+      [{ ...item('a', '2025-03-01T10:00:00.000Z'), message: 'updated' }, item('c', '2025-03-01T11:00:00+00:00')],
+    )
+
+    expect(merged.map(a => a.id)).toEqual(['b', 'c', 'a'])
+    expect(merged[2].message).toBe('updated')
+  })
+
+  it('should page across sources and report the cursor', () => {
+    const page = takeActivityPage([
+      [item('a', '2025-03-01T12:00:00.000Z'), item('b', '2025-03-01T09:00:00.000Z')],
+      [item('c', '2025-03-01T11:00:00.000Z')],
+    ], 2)
+
+    expect(page.items.map(a => a.id)).toEqual(['a', 'c'])
+    expect(page.cursor).toBe('2025-03-01T11:00:00.000Z')
+    expect(page.hasMore).toBe(true)
+
+    expect(takeActivityPage([[item('a', '2025-03-01T12:00:00.000Z')], []], 2).hasMore).toBe(false)
+    expect(takeActivityPage([[], []], 2)).toEqual({ items: [], hasMore: false, cursor: null })
+  })
+})
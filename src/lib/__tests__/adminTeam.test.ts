@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import {
+  countActiveSuperAdmins,
+  getInviteBlocker,
+  getMemberChangeBlocker,
+  isInvitationExpired,
+} from '../adminTeam'
+import type { AdminInvitation, AdminTeamMember } from '@/types'
+
+describe('adminTeam', () => {
+  const member = (id: string, overrides: Partial<AdminTeamMember> = {}): AdminTeamMember => ({
+    id,
+    email: `${id}@example.com`,
+    full_name: null,
+    role: 'admin',
+    organization_id: 'org-1',
+    is_active: true,
+    deactivated_at: null,
+    last_login: null,
+    created_at: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  })
+
+  const owner = member('owner', { role: 'super_admin' })
+  const ops = member('ops')
+
+  it('should count only active super admins', () => {
+    expect(countActiveSuperAdmins([
+      owner,
+      member('former', { role: 'super_admin', is_active: false }),
+      ops,
+    ])).toBe(1)
+  })
+
+  it('should stop admins changing themselves', () => {
+    expect(getMemberChangeBlocker([owner, ops], ops, { role: 'viewer' }, 'ops'))
+      .toBe('You cannot change your own role')
+    expect(getMemberChangeBlocker([owner, ops], ops, { active: false }, 'ops'))
+      .toBe('You cannot deactivate your own account')
+  })
+
+  it('should protect the last active super admin', () => {
+    const team = [owner, ops]
+
+    expect(getMemberChangeBlocker(team, owner, { role: 'admin' }, 'ops'))
+      .toBe('At least one active super admin is required')
+    expect(getMemberChangeBlocker(team, owner, { active: false }, 'ops'))
+      .toBe('At least one active super admin is required')
+    expect(getMemberChangeBlocker(team, owner, { role: 'super_admin' }, 'ops')).toBeNull()
+  })
+
+  it('should allow demoting a super admin when another remains', () => {
+    const second = member('second', { role: 'super_admin' })
+
+    expect(getMemberChangeBlocker([owner, second], second, { role: 'viewer' }, 'owner')).toBeNull()
+    expect(getMemberChangeBlocker([owner, ops], ops, { active: false }, 'owner')).toBeNull()
+  })
+
+  it('should reject invitations for existing admins', () => {
+    const team = [owner, member('gone', { is_active: false })]
+
+    expect(getInviteBlocker(' Owner@Example.com ', team)).toBe('owner@example.com is already an admin')
+    expect(getInviteBlocker('gone@example.com', team))
+      .toBe('gone@example.com has been deactivated; reactivate them instead')
+    expect(getInviteBlocker('new@example.com', team)).toBeNull()
+  })
+
+  it('should expire invitations after their deadline', () => {
+    const invitation = {
+      id: 'inv-1',
+      email: 'new@example.com',
+      full_name: null,
+      role: 'viewer',
+      status: 'pending',
+      organization_id: 'org-1',
+      invited_by: 'owner',
+      invited_by_email: 'owner@example.com',
+      accepted_at: null,
+      expires_at: '2025-03-08T00:00:00.000Z',
+      created_at: '2025-03-01T00:00:00.000Z',
+    } satisfies AdminInvitation
+
+    expect(isInvitationExpired(invitation, new Date('2025-03-07T23:59:00.000Z'))).toBe(false)
+    expect(isInvitationExpired(invitation, new Date('2025-03-08T00:00:00.000Z'))).toBe(true)
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_WORKFLOW,
+  getAvailableTransitions,
+  getStateLabel,
+  validateTransition,
+} from '../applicationWorkflow'
+
+describe('applicationWorkflow', () => {
+  const workflow = {
+    ...DEFAULT_WORKFLOW,
+    states: [
+      ...DEFAULT_WORKFLOW.states,
+      { key: 'under_review', label: 'Under Review', variant: 'outline' as const },
+    ],
+    transitions: [
+      ...DEFAULT_WORKFLOW.transitions,
+      {
+        from: 'pending',
+        to: 'under_review',
+        allowed_roles: ['super_admin' as const, 'admin' as const],
+        requires_reason: false,
+        reason_codes: [],
+      },
+    ],
+  }
+
+  it('should list only the transitions a role may perform', () => {
+    const adminTargets = getAvailableTransitions(workflow, 'approved', 'admin').map(t => t.to)
+    const superAdminTargets = getAvailableTransitions(workflow, 'approved', 'super_admin').map(t => t.to)
+
+    expect(adminTargets).toEqual(['disbursed'])
+    expect(superAdminTargets).toEqual(['disbursed', 'rejected'])
+    expect(getAvailableTransitions(workflow, 'pending', 'viewer')).toEqual([])
+  })
+
+  it('should reject transitions that are not defined', () => {
+    const result = validateTransition(workflow, 'disbursed', 'pending', 'super_admin')
+
+    expect(result.valid).toBe(false)
+    if (!result.valid) {
+      expect(result.error).toContain('Disbursed')
+    }
+  })
+
+  it('should reject unknown target states', () => {
+    expect(validateTransition(workflow, 'pending', 'archived', 'super_admin').valid).toBe(false)
+  })
+
+  it('should require a valid reason code when the transition demands one', () => {
+    expect(validateTransition(workflow, 'pending', 'rejected', 'admin').valid).toBe(false)
+    expect(validateTransition(workflow, 'pending', 'rejected', 'admin', 'made_up').valid).toBe(false)
+    expect(validateTransition(workflow, 'pending', 'rejected', 'admin', 'failed_kyc').valid).toBe(true)
+  })
+
+  it('should check a reason code given for a transition that lists codes', () => {
+    const optional = {
+      ...workflow,
+      transitions: workflow.transitions.map(t => (
+        t.to === 'rejected' ? { ...t, requires_reason: false } : t
+      )),
+    }
+
+    expect(validateTransition(optional, 'pending', 'rejected', 'admin').valid).toBe(true)
+    expect(validateTransition(optional, 'pending', 'rejected', 'admin', 'made_up').valid).toBe(false)
+    expect(validateTransition(optional, 'pending', 'under_review', 'admin', 'anything').valid).toBe(true)
+  })
+
+  it('should support states added to the workflow definition', () => {
+    expect(validateTransition(workflow, 'pending', 'under_review', 'admin').valid).toBe(true)
+    expect(getStateLabel(workflow, 'under_review')).toBe('Under Review')
+    expect(getStateLabel(workflow, 'not_configured')).toBe('not configured')
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { buildAuditCsv, getAuditChanges, getAuditTableLabel, getAuditUserLabel } from '../auditLog'
+import type { ConfigAuditLog } from '@/types'
+
+describe('auditLog', () => {
+  const entry = (overrides: Partial<ConfigAuditLog>): ConfigAuditLog => ({
+    id: 'log-1',
+    user_id: 'admin-1',
+    table_name: 'loan_products',
+    record_id: 'product-1',
+    action: 'UPDATE',
+    old_values: null,
+    new_values: null,
+    created_at: '2025-03-01T10:00:00.000Z',
+    admin_user: { email: 'ops@example.com', full_name: 'Ops Admin' },
+    ...overrides,
+  })
+
+  it('should diff updated fields only', () => {
+    expect(getAuditChanges(entry({
+      old_values: { name: 'Personal', interest_rate: 10, updated_at: '2025-01-01' },
+      new_values: { name: 'Personal', interest_rate: 12, updated_at: '2025-03-01' },
+    }))).toEqual([{ field: 'interest_rate', before: 10, after: 12 }])
+  })
+
+  it('should leave previous values unknown for legacy updates', () => {
+    expect(getAuditChanges(entry({
+      new_values: { name: 'Personal', updated_at: '2025-03-01' },
+    }))).toEqual([{ field: 'name', before: undefined, after: 'Personal' }])
+  })
+
+  it('should list every field for inserts and deletes', () => {
+    expect(getAuditChanges(entry({ action: 'INSERT', new_values: { name: 'Personal' } })))
+      .toEqual([{ field: 'name', before: null, after: 'Personal' }])
+    expect(getAuditChanges(entry({ action: 'DELETE', old_values: { name: 'Personal' } })))
+      .toEqual([{ field: 'name', before: 'Personal', after: null }])
+  })
+
+  it('should label users and tables', () => {
+    expect(getAuditUserLabel(entry({}))).toBe('Ops Admin')
+    expect(getAuditUserLabel(entry({ admin_user: null }))).toBe('admin-1')
+    expect(getAuditUserLabel(entry({ user_id: null, admin_user: null }))).toBe('System')
+    expect(getAuditTableLabel('document_types')).toBe('Document types')
+    expect(getAuditTableLabel('custom_table')).toBe('custom_table')
+  })
+
+  it('should export one escaped row per changed field', () => {
+    const csv = buildAuditCsv([
+      entry({
+        old_values: { name: 'Personal', eligibility_criteria: {} },
+        new_values: { name: 'Say "hi"', eligibility_criteria: { min_age: 18 } },
+      }),
+      entry({ id: 'log-2', action: 'DELETE', record_id: null, old_values: {} }),
+    ])
+
+    expect(csv.split('\n')).toEqual([
+      'Timestamp,Admin User,Action,Table,Record ID,Field,Old Value,New Value',
+      '"2025-03-01T10:00:00.000Z","Ops Admin","UPDATE","loan_products","product-1","name","Personal","Say ""hi"""',
+      '"2025-03-01T10:00:00.000Z","Ops Admin","UPDATE","loan_products","product-1","eligibility_criteria","{}","{""min_age"":18}"',
+      '"2025-03-01T10:00:00.000Z","Ops Admin","DELETE","loan_products","","","",""',
+    ])
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { SignInError, isNetworkError, toSignInError } from '../authErrors'
+
+describe('authErrors', () => {
+  it('should recognise wrong passwords by code or message', () => {
+    expect(toSignInError({ code: 'invalid_credentials', status: 400 }).code).toBe('invalid_credentials')
+    expect(toSignInError({ message: 'Invalid login credentials', status: 400 }).code).toBe('invalid_credentials')
+  })
+
+  it('should treat banned and rate limited accounts as locked', () => {
+    expect(toSignInError({ code: 'user_banned', status: 400 }).code).toBe('locked')
+
+    const limited = toSignInError({ code: 'over_request_rate_limit', status: 429 })
+    expect(limited.code).toBe('locked')
+    expect(limited.message).toMatch(/too many sign-in attempts/i)
+  })
+
+  it('should detect network failures', () => {
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isNetworkError({ name: 'AuthRetryableFetchError', status: 0 })).toBe(true)
+    expect(isNetworkError({ message: 'TypeError: Failed to fetch', code: '' })).toBe(true)
+    expect(isNetworkError({ message: 'permission denied', code: '42501' })).toBe(false)
+    expect(toSignInError(new TypeError('Failed to fetch')).code).toBe('network')
+  })
+
+  it('should keep unknown messages and pass sign-in errors through', () => {
+    expect(toSignInError({ message: 'Email not confirmed' })).toMatchObject({ code: 'unknown', message: 'Email not confirmed' })
+    expect(toSignInError(null).message).toBe('Failed to sign in')
+
+    const original = new SignInError('deactivated')
+    expect(toSignInError(original)).toBe(original)
+  })
+})
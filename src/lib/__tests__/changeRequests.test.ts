@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diffValues,
+  formatChangeValue,
+  formatFieldName,
+  getReviewBlocker,
+  getValueChanges,
+} from '../changeRequests'
+
+describe('changeRequests', () => {
+  const current = {
+    id: 'doc-1',
+    name: 'National ID',
+    is_active: true,
+    allowed_file_types: ['pdf'],
+    updated_at: '2025-01-01T00:00:00.000Z',
+  }
+
+  it('should keep only the fields that change', () => {
+    expect(diffValues(current, {
+      name: 'National ID Card',
+      is_active: true,
+      allowed_file_types: ['pdf'],
+      description: undefined,
+      updated_at: '2025-02-01T00:00:00.000Z',
+    })).toEqual({
+      old_values: { name: 'National ID' },
+      new_values: { name: 'National ID Card' },
+    })
+  })
+
+  it('should record missing fields as null', () => {
+    expect(diffValues(current, { description: 'Front and back' })).toEqual({
+      old_values: { description: null },
+      new_values: { description: 'Front and back' },
+    })
+  })
+
+  it('should take every field for a new record', () => {
+    expect(diffValues(null, { id: 'new', name: 'Payslip', is_active: true })).toEqual({
+      old_values: {},
+      new_values: { name: 'Payslip', is_active: true },
+    })
+  })
+
+  it('should list changes from the side that has values', () => {
+    expect(getValueChanges({
+      action: 'UPDATE',
+      old_values: { name: 'A' },
+      new_values: { name: 'B' },
+    })).toEqual([{ field: 'name', before: 'A', after: 'B' }])
+
+    expect(getValueChanges({
+      action: 'INSERT',
+      old_values: {},
+      new_values: { name: 'B' },
+    })).toEqual([{ field: 'name', before: null, after: 'B' }])
+
+    expect(getValueChanges({
+      action: 'DELETE',
+      old_values: { name: 'A' },
+      new_values: {},
+    })).toEqual([{ field: 'name', before: 'A', after: null }])
+  })
+
+  it('should require a different super admin to review', () => {
+    const request = { status: 'pending' as const, requested_by: 'maker' }
+
+    expect(getReviewBlocker(request, { id: 'checker', role: 'super_admin' })).toBeNull()
+    expect(getReviewBlocker(request, { id: 'maker', role: 'super_admin' }))
+      .toBe('A different super admin must review your own request')
+    expect(getReviewBlocker(request, { id: 'checker', role: 'admin' }))
+      .toBe('Only super admins can review changes')
+    expect(getReviewBlocker(request, null)).toBe('Only super admins can review changes')
+    expect(getReviewBlocker({ ...request, status: 'approved' }, { id: 'checker', role: 'super_admin' }))
+      .toBe('This request has already been resolved')
+  })
+
+  it('should format values and field names for display', () => {
+    expect(formatChangeValue(null)).toBe('—')
+    expect(formatChangeValue(false)).toBe('No')
+    expect(formatChangeValue(['pdf', 'jpg'])).toBe('pdf, jpg')
+    expect(formatChangeValue({ min: 1 })).toBe('{"min":1}')
+    expect(formatChangeValue('flat_rate')).toBe('flat_rate')
+    expect(formatFieldName('primary_color')).toBe('Primary color')
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildEligibilityContext,
+  calculateAge,
+  evaluateEligibility,
+  parseEligibilityCriteria,
+} from '../eligibility'
+import { applyTransformations } from '../transformations'
+import type { EligibilityCriteria } from '@/types'
+import type { LoanApplication } from '@/hooks/useApplications'
+
+describe('eligibility', () => {
+  const criteria: EligibilityCriteria = {
+    version: 1,
+    root: {
+      type: 'group',
+      id: 'root',
+      combinator: 'and',
+      rules: [
+        { type: 'condition', id: 'income', field: 'monthly_income', operator: 'gte', value: 1500 },
+        { type: 'condition', id: 'kyc', field: 'kyc_verified', operator: 'eq', value: true },
+        {
+          type: 'group',
+          id: 'nested',
+          combinator: 'or',
+          rules: [
+            { type: 'condition', id: 'employment', field: 'employment_status', operator: 'in', value: ['employed', 'self_employed'] },
+            { type: 'condition', id: 'age', field: 'age', operator: 'gte', value: 40 },
+          ],
+        },
+      ],
+    },
+  }
+
+  it('should pass when every AND rule and one OR rule pass', () => {
+    const result = evaluateEligibility(criteria, {
+      monthly_income: 2000,
+      kyc_verified: true,
+      employment_status: 'student',
+      age: 45,
+    })
+
+    expect(result.eligible).toBe(true)
+    expect(result.conditions).toHaveLength(4)
+  })
+
+  it('should fail and report each failing condition', () => {
+    const result = evaluateEligibility(criteria, {
+      monthly_income: 1000,
+      kyc_verified: true,
+      employment_status: 'employed',
+      age: 30,
+    })
+
+    expect(result.eligible).toBe(false)
+    expect(result.conditions.filter(c => !c.passed).map(c => c.condition.id)).toEqual(['income', 'age'])
+  })
+
+  it('should fail conditions on unknown facts', () => {
+    const result = evaluateEligibility(criteria, {
+      kyc_verified: true,
+      employment_status: 'employed',
+    })
+
+    expect(result.eligible).toBe(false)
+    expect(result.conditions.find(c => c.condition.id === 'income')?.actual).toBeUndefined()
+  })
+
+  it('should treat legacy empty criteria as no restrictions', () => {
+    const parsed = parseEligibilityCriteria({})
+
+    expect(parsed.root.rules).toEqual([])
+    expect(evaluateEligibility(parsed, {}).eligible).toBe(true)
+  })
+
+  it('should calculate age from date of birth', () => {
+    expect(calculateAge('1990-06-15', new Date('2025-06-14'))).toBe(34)
+    expect(calculateAge('1990-06-15', new Date('2025-06-15'))).toBe(35)
+  })
+
+  it('should agree with the calculate_age webhook transformation', () => {
+    const asOf = new Date('2025-06-14T22:00:00-03:00')
+    expect(calculateAge('1990-06-15', asOf)).toBe(35)
+    expect(applyTransformations('1990-06-15', [{ name: 'calculate_age' }], asOf).value).toBe(35)
+  })
+
+  it('should build a context from an application at submission time', () => {
+    const application = {
+      id: 'app-1',
+      user_id: 'user-1',
+      amount: 5000,
+      purpose: 'Personal',
+      term_months: 12,
+      interest_rate: 10,
+      monthly_payment: 440,
+      status: 'pending',
+      monthly_income: 2500,
+      employment_status: 'employed',
+      created_at: '2020-01-01T00:00:00.000Z',
+      updated_at: '2020-01-01T00:00:00.000Z',
+      profiles: {
+        id: 'user-1',
+        phone_number: '+123',
+        date_of_birth: '1990-06-15',
+        kyc_verified: false,
+      },
+    } as LoanApplication
+
+    expect(buildEligibilityContext(application, 2)).toEqual({
+      monthly_income: 2500,
+      employment_status: 'employed',
+      age: 29,
+      kyc_verified: false,
+      prior_applications: 2,
+    })
+  })
+})
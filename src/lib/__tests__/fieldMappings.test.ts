@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildMappedPayload,
+  coerceValue,
+  findPathConflicts,
+  getOutputOptionsIssues,
+  getTargetPathError,
+  parseTargetPath,
+  resolveMappedValue,
+} from '../fieldMappings'
+
+describe('fieldMappings', () => {
+  it('should parse dotted and indexed target paths', () => {
+    expect(parseTargetPath('amount')).toEqual(['amount'])
+    expect(parseTargetPath('applicant.name.first')).toEqual(['applicant', 'name', 'first'])
+    expect(parseTargetPath('items[0].amount')).toEqual(['items', 0, 'amount'])
+    expect(parseTargetPath('matrix[1][2]')).toEqual(['matrix', 1, 2])
+    expect(parseTargetPath('[0].amount')).toBeNull()
+    expect(parseTargetPath('applicant..name')).toBeNull()
+    expect(parseTargetPath('items[-1]')).toBeNull()
+  })
+
+  it('should reject reserved names and oversized list positions', () => {
+    expect(getTargetPathError('applicant.first-name')).toBeNull()
+    expect(getTargetPathError('applicant.__proto__.x')).toBe('"__proto__" cannot be used in a target path')
+    expect(getTargetPathError('items[1000]')).toBe('List positions go up to 999')
+    expect(getTargetPathError('  ')).toBe('Target field is required')
+  })
+
+  it('should flag target paths that overwrite each other', () => {
+    expect(findPathConflicts(['applicant.name', 'applicant.phone', 'items[0].amount', 'items[1].amount'])).toEqual([])
+    expect(findPathConflicts(['amount', 'amount'])).toEqual(['amount is mapped more than once'])
+    expect(findPathConflicts(['applicant', 'applicant.name'])).toEqual([
+      'applicant.name is nested inside applicant, which is already mapped to a value',
+    ])
+    expect(findPathConflicts(['applicant.name.first', 'applicant.name'])).toEqual([
+      'applicant.name is mapped to a value but applicant.name.first nests fields under it',
+    ])
+    expect(findPathConflicts(['items[0]', 'items.total'])).toEqual([
+      'items is used both as a list and as an object by items[0] and items.total',
+    ])
+  })
+
+  it('should coerce values to numbers and booleans', () => {
+    expect(coerceValue('12.6', 'integer')).toEqual({ value: 13, error: null })
+    expect(coerceValue(1234.5678, 'decimal')).toEqual({ value: 1234.57, error: null })
+    expect(coerceValue('3.14159', 'decimal', { precision: 3 })).toEqual({ value: 3.142, error: null })
+    expect(coerceValue('abc', 'decimal').error).toBe('"abc" is not a number')
+    expect(coerceValue('Yes', 'boolean')).toEqual({ value: true, error: null })
+    expect(coerceValue(0, 'boolean')).toEqual({ value: false, error: null })
+    expect(coerceValue('maybe', 'boolean').error).toBe('"maybe" is not a yes/no value')
+    expect(coerceValue(5000, 'string')).toEqual({ value: '5000', error: null })
+    expect(coerceValue('', 'integer')).toEqual({ value: null, error: null })
+  })
+
+  it('should coerce dates and look up enum values', () => {
+    expect(coerceValue('2025-03-04T10:20:30Z', 'date')).toEqual({ value: '2025-03-04', error: null })
+    expect(coerceValue('2025-03-04T10:20:30Z', 'datetime')).toEqual({ value: '2025-03-04T10:20:30.000Z', error: null })
+    expect(coerceValue('soon', 'date').error).toBe('"soon" is not a date')
+
+    const options = { values: { approved: 'APPROVED', rejected: 'DECLINED' } }
+    expect(coerceValue('rejected', 'enum', options)).toEqual({ value: 'DECLINED', error: null })
+    expect(coerceValue('pending', 'enum', options).error).toBe('"pending" is not in the lookup table')
+    expect(coerceValue('pending', 'enum', { ...options, fallback: 'OTHER' })).toEqual({ value: 'OTHER', error: null })
+    expect(coerceValue('toString', 'enum', options).error).toBe('"toString" is not in the lookup table')
+  })
+
+  it('should validate output options', () => {
+    expect(getOutputOptionsIssues('decimal', { precision: 11 })).toEqual(['Decimal places must be a whole number from 0 to 10'])
+    expect(getOutputOptionsIssues('enum', {})).toEqual(['Add at least one row to the lookup table'])
+    expect(getOutputOptionsIssues('enum', { values: { a: 'A' } })).toEqual([])
+  })
+
+  it('should build nested payloads with defaults and required checks', () => {
+    const { payload, errors } = buildMappedPayload([
+      { mapping: { target_field: 'applicant.name.first', is_required: true }, value: 'Jane' },
+      { mapping: { target_field: 'applicant.kyc', output_type: 'boolean', is_required: false }, value: 'true' },
+      { mapping: { target_field: 'items[1].amount', output_type: 'decimal', is_required: false }, value: '5000' },
+      { mapping: { target_field: 'items[0].currency', default_value: 'KES', is_required: false }, value: null },
+      { mapping: { target_field: 'email', is_required: false }, value: undefined },
+    ])
+
+    expect(errors).toEqual([])
+    expect(payload).toEqual({
+      applicant: { name: { first: 'Jane' }, kyc: true },
+      items: [{ currency: 'KES' }, { amount: 5000 }],
+      email: null,
+    })
+  })
+
+  it('should report conversion failures, missing required values and conflicts', () => {
+    expect(buildMappedPayload([
+      { mapping: { target_field: 'amount', output_type: 'integer', is_required: false }, value: 'lots' },
+      { mapping: { target_field: 'phone', is_required: true }, value: '' },
+      { mapping: { target_field: 'name', is_required: false }, value: 'Jane' },
+    ])).toEqual({
+      payload: { name: 'Jane' },
+      errors: ['amount: "lots" is not a number', 'phone is required but has no value'],
+    })
+
+    expect(buildMappedPayload([
+      { mapping: { target_field: 'a', is_required: false }, value: 1 },
+      { mapping: { target_field: 'a.b', is_required: false }, value: 2 },
+    ]).errors).toEqual(['a.b is nested inside a, which is already mapped to a value'])
+  })
+
+  it('should resolve a single mapping value with its default and output type', () => {
+    const mapping = { target_field: 'amount', output_type: 'integer' as const, default_value: '10', is_required: true }
+
+    expect(resolveMappedValue(mapping, '12.6')).toEqual({ value: 13, defaultApplied: false, missing: false, error: null })
+    expect(resolveMappedValue(mapping, '')).toEqual({ value: 10, defaultApplied: true, missing: false, error: null })
+    expect(resolveMappedValue({ ...mapping, default_value: null }, null))
+      .toEqual({ value: null, defaultApplied: false, missing: true, error: null })
+    expect(resolveMappedValue(mapping, 'ten').error).toBe('"ten" is not a number')
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { formatCountdown, formatTimeoutLabel, getIdleState } from '../idleTimeout'
+
+describe('idleTimeout', () => {
+  const minute = 60 * 1000
+
+  it('should stay active until the warning window', () => {
+    expect(getIdleState(0, 10 * minute, 30 * minute)).toEqual({ status: 'active', msLeft: 20 * minute })
+  })
+
+  it('should warn during the last minute', () => {
+    expect(getIdleState(0, 29 * minute, 30 * minute)).toEqual({ status: 'warning', msLeft: minute })
+    expect(getIdleState(0, 29.5 * minute, 30 * minute).status).toBe('warning')
+  })
+
+  it('should expire once the timeout has passed', () => {
+    expect(getIdleState(0, 30 * minute, 30 * minute)).toEqual({ status: 'expired', msLeft: 0 })
+    expect(getIdleState(0, 45 * minute, 30 * minute)).toEqual({ status: 'expired', msLeft: 0 })
+  })
+
+  it('should never warn for longer than the timeout itself', () => {
+    expect(getIdleState(0, 0, 30 * 1000, minute)).toEqual({ status: 'warning', msLeft: 30 * 1000 })
+  })
+
+  it('should format the countdown and timeout options', () => {
+    expect(formatCountdown(59_100)).toBe('1:00')
+    expect(formatCountdown(9_000)).toBe('0:09')
+    expect(formatTimeoutLabel(15)).toBe('15 minutes')
+    expect(formatTimeoutLabel(60)).toBe('1 hour')
+    expect(formatTimeoutLabel(240)).toBe('4 hours')
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { calculateInstallment, calculateLoan, formatMoney } from '../loanCalculator'
+
+describe('loanCalculator', () => {
+  const baseTerms = {
+    principal: 10000,
+    annualRate: 12,
+    termMonths: 12,
+    gracePeriodMonths: 0,
+    processingFeePercent: 0,
+  }
+
+  it('should calculate a level monthly installment', () => {
+    expect(calculateInstallment(10000, 0.01, 12)).toBeCloseTo(888.49, 2)
+    expect(calculateInstallment(1200, 0, 12)).toBe(100)
+  })
+
+  it('should fully amortize the principal', () => {
+    const result = calculateLoan(baseTerms)
+
+    expect(result.schedule).toHaveLength(12)
+    expect(result.schedule[11].balance).toBe(0)
+    expect(result.schedule.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(10000, 1)
+    expect(result.totalInterest).toBeCloseTo(661.85, 1)
+  })
+
+  it('should charge interest only during the grace period', () => {
+    const result = calculateLoan({ ...baseTerms, gracePeriodMonths: 3 })
+
+    expect(result.schedule.slice(0, 3).every(row => row.isGrace && row.principal === 0)).toBe(true)
+    expect(result.schedule[0].payment).toBe(100)
+    expect(result.installment).toBeCloseTo(calculateInstallment(10000, 0.01, 9), 2)
+    expect(result.schedule[11].balance).toBe(0)
+  })
+
+  it('should match the nominal rate as APR when there are no fees', () => {
+    expect(calculateLoan(baseTerms).apr).toBeCloseTo(12, 1)
+  })
+
+  it('should include the processing fee in the APR', () => {
+    const result = calculateLoan({ ...baseTerms, processingFeePercent: 2 })
+
+    expect(result.processingFee).toBe(200)
+    expect(result.apr).toBeGreaterThan(15)
+  })
+
+  it('should charge flat interest on the original principal', () => {
+    const result = calculateLoan({ ...baseTerms, interestMethod: 'flat_rate' })
+
+    expect(result.totalInterest).toBe(1200)
+    expect(result.schedule.every(row => row.interest === 100)).toBe(true)
+    expect(result.installment).toBeCloseTo(933.33, 2)
+    expect(result.schedule[11].balance).toBe(0)
+    expect(result.apr).toBeGreaterThan(20)
+  })
+
+  it('should repay the principal in a single balloon payment', () => {
+    const result = calculateLoan({ ...baseTerms, interestMethod: 'balloon', gracePeriodMonths: 3 })
+
+    expect(result.installment).toBe(100)
+    expect(result.balloonPayment).toBe(10100)
+    expect(result.schedule.slice(0, 11).every(row => row.principal === 0)).toBe(true)
+    expect(result.schedule.some(row => row.isGrace)).toBe(false)
+    expect(result.totalInterest).toBe(1200)
+  })
+
+  it('should convert the term into weekly and bi-weekly periods', () => {
+    const weekly = calculateLoan({ ...baseTerms, frequency: 'weekly' })
+    const biWeekly = calculateLoan({ ...baseTerms, frequency: 'bi_weekly', gracePeriodMonths: 1 })
+
+    expect(weekly.periods).toBe(52)
+    expect(weekly.installment).toBeCloseTo(calculateInstallment(10000, 0.12 / 52, 52), 2)
+    expect(weekly.apr).toBeCloseTo(12, 1)
+    expect(biWeekly.periods).toBe(26)
+    expect(biWeekly.schedule.filter(row => row.isGrace)).toHaveLength(2)
+    expect(biWeekly.schedule[25].balance).toBe(0)
+  })
+
+  it('should format amounts with the currency symbol', () => {
+    expect(formatMoney(1234.5, 'KSh')).toBe('KSh1,234.50')
+  })
+})
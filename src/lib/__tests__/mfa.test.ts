@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { getMfaRequirement, isValidTotpCode, roleRequiresMfa, type MfaStatus } from '../mfa'
+
+describe('mfa', () => {
+  const status = (overrides: Partial<MfaStatus> = {}): MfaStatus => ({
+    currentLevel: 'aal1',
+    nextLevel: 'aal1',
+    verifiedFactorCount: 0,
+    policyEnabled: false,
+    ...overrides,
+  })
+
+  it('should apply the policy to super admins and admins only', () => {
+    expect(roleRequiresMfa('super_admin', true)).toBe(true)
+    expect(roleRequiresMfa('admin', true)).toBe(true)
+    expect(roleRequiresMfa('viewer', true)).toBe(false)
+    expect(roleRequiresMfa('admin', false)).toBe(false)
+    expect(roleRequiresMfa(null, true)).toBe(false)
+  })
+
+  it('should wait until the status has loaded', () => {
+    expect(getMfaRequirement('admin', null)).toBe('pending')
+  })
+
+  it('should require enrollment when the policy applies and no factor exists', () => {
+    expect(getMfaRequirement('admin', status({ policyEnabled: true }))).toBe('enroll')
+    expect(getMfaRequirement('viewer', status({ policyEnabled: true }))).toBe('satisfied')
+    expect(getMfaRequirement('admin', status())).toBe('satisfied')
+  })
+
+  it('should challenge any enrolled admin until the session reaches aal2', () => {
+    const enrolled = status({ verifiedFactorCount: 1, nextLevel: 'aal2' })
+
+    expect(getMfaRequirement('viewer', enrolled)).toBe('challenge')
+    expect(getMfaRequirement('admin', { ...enrolled, policyEnabled: true })).toBe('challenge')
+    expect(getMfaRequirement('admin', { ...enrolled, currentLevel: 'aal2' })).toBe('satisfied')
+  })
+
+  it('should accept six digit codes with spaces', () => {
+    expect(isValidTotpCode('123 456')).toBe(true)
+    expect(isValidTotpCode('12345')).toBe(false)
+    expect(isValidTotpCode('abcdef')).toBe(false)
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { getOrganizationLabel, pickOrganizationId, resolveOrganizationId } from '../organizations'
+
+describe('organizations', () => {
+  it('should let super admins switch organizations', () => {
+    expect(resolveOrganizationId('super_admin', 'org-1', 'org-2')).toBe('org-2')
+    expect(resolveOrganizationId('super_admin', 'org-1', null)).toBe('org-1')
+    expect(resolveOrganizationId('super_admin', null, null)).toBeNull()
+  })
+
+  it('should pin other admins to their own organization', () => {
+    expect(resolveOrganizationId('admin', 'org-1', 'org-2')).toBe('org-1')
+    expect(resolveOrganizationId('viewer', 'org-1', null)).toBe('org-1')
+    expect(resolveOrganizationId(undefined, null, 'org-2')).toBeNull()
+  })
+
+  it('should fall back to the first organization when the selection is gone', () => {
+    const organizations = [{ id: 'org-1' }, { id: 'org-2' }]
+
+    expect(pickOrganizationId(organizations, 'org-2')).toBe('org-2')
+    expect(pickOrganizationId(organizations, 'org-9')).toBe('org-1')
+    expect(pickOrganizationId(organizations, null)).toBe('org-1')
+    expect(pickOrganizationId([], 'org-1')).toBeNull()
+  })
+
+  it('should label unnamed organizations by id', () => {
+    expect(getOrganizationLabel({ id: 'org-1', organization_name: 'Quick Loans' })).toBe('Quick Loans')
+    expect(getOrganizationLabel({ id: '1234567890', organization_name: ' ' })).toBe('Organization 12345678')
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { getPasswordIssues, getPasswordStrength, getRecoveryLinkError } from '../passwordReset'
+
+describe('passwordReset', () => {
+  it('should require length and a mix of characters', () => {
+    expect(getPasswordIssues('Short1!')).toContain('Use at least 12 characters')
+    expect(getPasswordIssues('alllowercaseletters')).toContain(
+      'Mix at least three of lowercase, uppercase, numbers and symbols'
+    )
+    expect(getPasswordIssues('Harbour-Lights-42')).toEqual([])
+  })
+
+  it('should reject common passwords and the email name', () => {
+    expect(getPasswordIssues('MyPassword2025!')).toHaveLength(1)
+    expect(getPasswordIssues('Jane.Doe-2025!x', 'jane.doe@example.com')).toEqual(['Do not include your email address'])
+    expect(getPasswordIssues('Jane.Doe-2025!x', 'jo@example.com')).toEqual([])
+  })
+
+  it('should grade passwords that meet the policy', () => {
+    expect(getPasswordStrength('weak')).toBe('weak')
+    expect(getPasswordStrength('Harbour-lights')).toBe('good')
+    expect(getPasswordStrength('Harbourlights4')).toBe('good')
+    expect(getPasswordStrength('Harbourlight4')).toBe('fair')
+    expect(getPasswordStrength('Harbour-Lights-42')).toBe('strong')
+  })
+
+  it('should read errors from the recovery redirect', () => {
+    expect(getRecoveryLinkError('#access_token=abc&type=recovery', '')).toBeNull()
+    expect(getRecoveryLinkError(
+      '#error=access_denied&error_code=otp_expired&error_description=Email+link+is+invalid+or+has+expired',
+      ''
+    )).toMatch(/expired or was already used/)
+    expect(getRecoveryLinkError('', '?error=server_error&error_description=Something+broke')).toBe('Something broke')
+  })
+})
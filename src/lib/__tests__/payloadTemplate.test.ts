@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_EACH_ITEMS,
+  MAX_RENDER_STEPS,
+  STARTER_TEMPLATES,
+  buildPayloadContext,
+  parseTemplate,
+  renderPayload,
+  renderTemplate,
+} from '../payloadTemplate'
+
+describe('payloadTemplate', () => {
+  const context = buildPayloadContext({
+    application: { id: 'app-1', status: 'approved', amount: 5000, term_months: 12, purpose: 'Car & "repairs"' },
+    profile: { full_name: 'Jane Doe', phone_number: '+254700000000', email: null },
+    documents: [
+      { name: 'National ID', is_mandatory: true },
+      { name: 'Payslip', is_mandatory: false },
+    ],
+  }, new Date('2025-01-01T00:00:00.000Z'))
+
+  it('should render nested JSON with arrays from the starter template', () => {
+    const { body, error } = renderPayload(STARTER_TEMPLATES.json, context, 'json')
+
+    expect(error).toBeNull()
+    expect(JSON.parse(body!)).toEqual({
+      reference: 'app-1',
+      status: 'approved',
+      loan: { amount: 5000, term_months: 12, purpose: 'Car & "repairs"' },
+      applicant: { name: 'Jane Doe', phone: '+254700000000', email: null },
+      documents: [
+        { name: 'National ID', required: true },
+        { name: 'Payslip', required: false },
+      ],
+    })
+  })
+
+  it('should escape values for XML and form bodies', () => {
+    expect(renderTemplate('<Purpose note="{{application.purpose}}"/>', context, 'xml'))
+      .toBe('<Purpose note="Car &amp; &quot;repairs&quot;"/>')
+    expect(renderTemplate('purpose={{application.purpose}}&email={{profile.email}}', context, 'form'))
+      .toBe('purpose=Car+%26+%22repairs%22&email=')
+  })
+
+  it('should support if, unless, else and loop variables', () => {
+    const template = '{{#each documents}}{{@index}}:{{#if is_mandatory}}required{{else}}optional{{/if}}'
+      + '{{#unless @last}},{{/unless}}{{/each}}{{#each missing}}x{{else}} none{{/each}}'
+
+    expect(renderTemplate(template, context, 'form')).toBe('0:required,1:optional none')
+  })
+
+  it('should resolve names against the loop item before outer values', () => {
+    expect(renderTemplate('{{#each documents}}{{name}}/{{application.id}}/{{this.is_mandatory}};{{/each}}', context, 'form'))
+      .toBe('National+ID/app-1/true;Payslip/app-1/false;')
+  })
+
+  it('should not expose prototypes or unknown values', () => {
+    expect(renderTemplate('{{application.constructor}}|{{__proto__}}|{{application.toString}}|{{nope.deep}}', context, 'xml'))
+      .toBe('|||')
+  })
+
+  it('should report template errors with line numbers', () => {
+    expect(() => parseTemplate('{\n  {{#each documents}}\n}')).toThrow('Line 2: {{#each}} is never closed')
+    expect(() => parseTemplate('{{#if a}}{{/each}}')).toThrow('Line 1: expected {{/if}} to close the block on line 1')
+    expect(() => parseTemplate('{{#with a}}{{/with}}')).toThrow('unknown block "#with"')
+    expect(() => parseTemplate('a\n{{ amount')).toThrow('Line 2: unclosed {{ tag')
+    expect(() => parseTemplate('{{ amount + 1 }}')).toThrow('"amount + 1" is not a valid field path')
+    expect(() => parseTemplate('{{else}}')).toThrow('{{else}} outside a block')
+  })
+
+  it('should cap loops over large arrays', () => {
+    const items = Array.from({ length: MAX_EACH_ITEMS + 1 }, (_, i) => i)
+
+    expect(renderPayload('{{#each items}}{{this}}{{/each}}', { items }, 'form').error)
+      .toBe(`Line 1: items has more than ${MAX_EACH_ITEMS} items`)
+  })
+
+  it('should cap total work across nested and empty loops', () => {
+    const items = Array.from({ length: MAX_EACH_ITEMS }, (_, i) => i)
+    const nested = { items: items.map(() => ({ items })) }
+
+    expect(renderPayload('{{#each items}}\n{{#each items}}{{/each}}{{/each}}', nested, 'form').error)
+      .toBe(`Line 2: the template does more than ${MAX_RENDER_STEPS} steps; loop over fewer items`)
+    expect(renderPayload('{{#each items}}{{#each items}}{{/each}}{{/each}}', { items: [{ items: [1, 2] }] }, 'form'))
+      .toEqual({ body: '', error: null })
+  })
+
+  it('should flag JSON templates that do not produce valid JSON', () => {
+    const { body, error } = renderPayload('{"amount": {{application.amount}},}', context, 'json')
+
+    expect(body).toBe('{"amount": 5000,}')
+    expect(error).toMatch(/^The rendered body is not valid JSON/)
+  })
+})
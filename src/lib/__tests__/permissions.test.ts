@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { canAccessRoute, hasPermission, ROLE_PERMISSIONS } from '../permissions'
+
+describe('permissions', () => {
+  it('should keep viewers read-only', () => {
+    expect(hasPermission('viewer', 'applications.view')).toBe(true)
+    expect(hasPermission('viewer', 'audit.view')).toBe(true)
+    expect(hasPermission('viewer', 'products.write')).toBe(false)
+    expect(hasPermission('viewer', 'applications.decide')).toBe(false)
+    expect(hasPermission('viewer', 'integrations.view')).toBe(false)
+  })
+
+  it('should let admins manage configuration but not review or delete', () => {
+    expect(hasPermission('admin', 'products.write')).toBe(true)
+    expect(hasPermission('admin', 'applications.decide')).toBe(true)
+    expect(hasPermission('admin', 'integrations.manage')).toBe(true)
+    expect(hasPermission('admin', 'applications.delete')).toBe(false)
+    expect(hasPermission('admin', 'changes.review')).toBe(false)
+    expect(hasPermission('admin', 'dual_control.manage')).toBe(false)
+  })
+
+  it('should give super admins every permission', () => {
+    const all = new Set(Object.values(ROLE_PERMISSIONS).flat())
+    all.forEach(permission => {
+      expect(hasPermission('super_admin', permission)).toBe(true)
+    })
+  })
+
+  it('should deny everything without a role', () => {
+    expect(hasPermission(null, 'applications.view')).toBe(false)
+    expect(hasPermission(undefined, 'audit.view')).toBe(false)
+  })
+
+  it('should guard routes that need a permission', () => {
+    expect(canAccessRoute('viewer', '/')).toBe(true)
+    expect(canAccessRoute('viewer', '/products')).toBe(true)
+    expect(canAccessRoute('viewer', '/integrations')).toBe(false)
+    expect(canAccessRoute('admin', '/integrations')).toBe(true)
+    expect(canAccessRoute(null, '/applications')).toBe(false)
+  })
+})
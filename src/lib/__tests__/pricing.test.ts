@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { describeTier, resolvePricing, validatePricingTiers } from '../pricing'
+import type { PricingTier } from '@/types'
+
+describe('pricing', () => {
+  const tier = (overrides: Partial<PricingTier>): PricingTier => ({
+    id: overrides.name || 'tier',
+    name: 'Tier',
+    risk_grades: [],
+    interest_rate: 10,
+    processing_fee: 2,
+    ...overrides,
+  })
+
+  const product = {
+    interest_rate: 15,
+    processing_fee: 3,
+    pricing_tiers: [
+      tier({ name: 'Prime', risk_grades: ['A'], interest_rate: 8, processing_fee: 1 }),
+      tier({ name: 'Large', min_amount: 20000, interest_rate: 11, processing_fee: 1.5 }),
+      tier({ name: 'Short', max_term_months: 12, interest_rate: 12, processing_fee: 2 }),
+    ],
+  }
+
+  it('should fall back to the product price when no tier matches', () => {
+    const result = resolvePricing(product, { amount: 5000, termMonths: 24, riskGrade: 'C' })
+
+    expect(result.tier).toBeNull()
+    expect(result.interest_rate).toBe(15)
+    expect(result.processing_fee).toBe(3)
+  })
+
+  it('should use the first matching tier', () => {
+    const result = resolvePricing(product, { amount: 25000, termMonths: 6, riskGrade: 'A' })
+
+    expect(result.tier?.name).toBe('Prime')
+    expect(result.interest_rate).toBe(8)
+    expect(result.processing_fee).toBe(1)
+  })
+
+  it('should treat amount and term bounds as inclusive', () => {
+    expect(resolvePricing(product, { amount: 20000, termMonths: 24 }).tier?.name).toBe('Large')
+    expect(resolvePricing(product, { amount: 5000, termMonths: 12 }).tier?.name).toBe('Short')
+  })
+
+  it('should not match graded tiers for ungraded applicants', () => {
+    expect(resolvePricing(product, { amount: 5000, termMonths: 24 }).tier).toBeNull()
+  })
+
+  it('should handle products without tiers', () => {
+    const result = resolvePricing({ interest_rate: 9, processing_fee: 1, pricing_tiers: null }, { amount: 100, termMonths: 1 })
+
+    expect(result).toEqual({ tier: null, interest_rate: 9, processing_fee: 1 })
+  })
+
+  it('should report invalid tiers', () => {
+    const errors = validatePricingTiers([
+      tier({ name: '', min_amount: 500, max_amount: 100 }),
+      tier({ name: 'Negative', interest_rate: -1 }),
+    ])
+
+    expect(errors).toEqual([
+      'Tier 1: name is required',
+      'Tier 1: minimum amount is above the maximum',
+      'Negative: interest rate must be non-negative',
+    ])
+  })
+
+  it('should describe tier conditions', () => {
+    expect(describeTier(tier({ min_amount: 1000, max_amount: 5000, risk_grades: ['A', 'B'] }), 'KSh'))
+      .toBe('amount KSh1000–5000, grade A/B')
+    expect(describeTier(tier({ max_term_months: 12 }))).toBe('term ≤ 12 months')
+    expect(describeTier(tier({}))).toBe('all applications')
+  })
+})
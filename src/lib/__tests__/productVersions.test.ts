@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildProductSnapshot,
+  diffSnapshots,
+  formatTermValue,
+  getVersionInEffect,
+  getVersionState,
+} from '../productVersions'
+import type { LoanProductVersion, ProductTerms } from '@/types'
+
+describe('productVersions', () => {
+  const terms: ProductTerms = {
+    name: 'Personal Loan',
+    description: 'For personal needs',
+    purpose: 'Personal',
+    min_amount: 1000,
+    max_amount: 50000,
+    min_term_months: 6,
+    max_term_months: 60,
+    interest_rate: 10,
+    interest_method: 'reducing_balance',
+    repayment_frequency: 'monthly',
+    processing_fee: 2,
+    late_payment_fee: 5,
+    grace_period_months: 1,
+    eligibility_criteria: {},
+    pricing_tiers: [],
+    required_documents: ['National ID'],
+    icon_name: 'package',
+  }
+  const snapshot = buildProductSnapshot(terms, [
+    { document_type_id: 'doc-1', is_mandatory: true, display_order: 0 },
+  ])
+
+  const version = (overrides: Partial<LoanProductVersion>): LoanProductVersion => ({
+    id: `v${overrides.version_number}`,
+    loan_product_id: 'product-1',
+    version_number: 1,
+    status: 'published',
+    snapshot,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  })
+
+  const now = new Date('2025-06-01T00:00:00.000Z')
+  const versions = [
+    version({ version_number: 1, effective_from: '2025-01-01T00:00:00.000Z' }),
+    version({ version_number: 2, effective_from: '2025-03-01T00:00:00.000Z' }),
+    version({ version_number: 3, effective_from: '2025-09-01T00:00:00.000Z' }),
+    version({ version_number: 4, status: 'draft' }),
+  ]
+
+  it('should capture documents in the snapshot', () => {
+    expect(snapshot.documents).toEqual([
+      { document_type_id: 'doc-1', is_mandatory: true, custom_instructions: null, display_order: 0 },
+    ])
+  })
+
+  it('should pick the latest effective published version', () => {
+    expect(getVersionInEffect(versions, now)?.version_number).toBe(2)
+    expect(getVersionInEffect(versions, new Date('2025-10-01T00:00:00.000Z'))?.version_number).toBe(3)
+    expect(getVersionInEffect(versions, new Date('2024-01-01T00:00:00.000Z'))).toBeNull()
+  })
+
+  it('should derive the state of each version', () => {
+    expect(versions.map(v => getVersionState(v, versions, now))).toEqual([
+      'superseded',
+      'live',
+      'scheduled',
+      'draft',
+    ])
+  })
+
+  it('should list changed fields only', () => {
+    const changed = { ...snapshot, interest_rate: 12, documents: [] }
+
+    expect(diffSnapshots(snapshot, changed)).toEqual([
+      { field: 'interest_rate', label: 'Interest rate (% p.a.)', before: 10, after: 12 },
+      { field: 'documents', label: 'Document requirements', before: snapshot.documents, after: [] },
+    ])
+    expect(diffSnapshots(snapshot, snapshot)).toEqual([])
+  })
+
+  it('should treat every field as new without a previous version', () => {
+    expect(diffSnapshots(null, snapshot).length).toBeGreaterThan(10)
+  })
+
+  it('should format term values for display', () => {
+    expect(formatTermValue(null)).toBe('—')
+    expect(formatTermValue('flat_rate')).toBe('flat rate')
+    expect(formatTermValue(['National ID', 'Payslip'])).toBe('National ID, Payslip')
+    expect(formatTermValue([{ id: 'tier' }])).toBe('1 item(s)')
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyTransformations,
+  describeStep,
+  formatDatePattern,
+  getMappingSteps,
+  getPipelineIssues,
+  toE164,
+} from '../transformations'
+
+describe('transformations', () => {
+  const now = new Date('2025-06-15T12:00:00.000Z')
+
+  it('should chain steps in order', () => {
+    const steps = [
+      { name: 'split_last' },
+      { name: 'uppercase' },
+      { name: 'truncate', params: { length: '5' } },
+    ]
+
+    expect(applyTransformations('Jane Wanjiku Kamau-Otieno', steps, now)).toEqual({ value: 'KAMAU', error: null })
+  })
+
+  it('should format dates with a pattern', () => {
+    const date = new Date('2025-03-04T09:05:07.000Z')
+
+    expect(formatDatePattern(date, 'dd/MM/yyyy')).toBe('04/03/2025')
+    expect(formatDatePattern(date, "d MMM yy 'at' HH:mm:ss")).toBe('4 Mar 25 at 09:05:07')
+    expect(applyTransformations('2025-03-04', [{ name: 'date_format' }], now).value).toBe('2025-03-04')
+    expect(applyTransformations('1990-06-16', [{ name: 'calculate_age' }], now).value).toBe(34)
+    expect(applyTransformations('1990-06-15', [{ name: 'calculate_age' }], now).value).toBe(35)
+  })
+
+  it('should normalize phone numbers to E.164', () => {
+    expect(toE164('0712 345 678', 'KE')).toBe('+254712345678')
+    expect(toE164('712345678', 'KE')).toBe('+254712345678')
+    expect(toE164('254712345678', 'KE')).toBe('+254712345678')
+    expect(toE164('+256 (772) 123-456', 'KE')).toBe('+256772123456')
+    expect(toE164('0044 20 7946 0958', 'KE')).toBe('+442079460958')
+    expect(() => toE164('12', 'KE')).toThrow('"12" is not a valid phone number')
+    expect(() => toE164('0712345678', 'XX')).toThrow('unknown country "XX"')
+  })
+
+  it('should convert amounts to currency minor units', () => {
+    expect(applyTransformations('1,234.565', [{ name: 'currency_minor' }], now).value).toBe(123457)
+    expect(applyTransformations(5000, [{ name: 'currency_minor', params: { decimals: '0' } }], now).value).toBe(5000)
+    expect(applyTransformations('lots', [{ name: 'currency_minor' }], now).error)
+      .toBe('Step 1 (Currency to minor units): "lots" is not a number')
+  })
+
+  it('should replace with regular expressions and value tables', () => {
+    const digitsOnly = { name: 'regex_replace', params: { pattern: '[^0-9]', replacement: '' } }
+    expect(applyTransformations('ID: 12-345-678', [digitsOnly], now).value).toBe('12345678')
+    expect(applyTransformations('Doe, Jane', [
+      { name: 'regex_replace', params: { pattern: '^(\\w+), (\\w+)$', replacement: '$2 $1' } },
+    ], now).value).toBe('Jane Doe')
+
+    const table = { name: 'map_values', values: [{ from: 'approved', to: 'A' }, { from: 'rejected', to: 'R' }] }
+    expect(applyTransformations('approved', [table], now).value).toBe('A')
+    expect(applyTransformations('pending', [table], now).value).toBe('pending')
+    expect(applyTransformations('pending', [{ ...table, params: { fallback: 'OTHER' } }], now).value).toBe('OTHER')
+  })
+
+  it('should refuse unsafe regular expressions when validating and when running', () => {
+    const regex = (pattern: string, flags = '') => ({ name: 'regex_replace', params: { pattern, flags } })
+
+    expect(getPipelineIssues([regex('(a+)+$'), regex('(?:\\w*,?)*'), regex('((ab)*c){2,}'), regex('a'.repeat(201)), regex('a', 'gy')]))
+      .toEqual([
+        'Step 1 (Regex replace): Pattern cannot repeat a group that already repeats, like (a+)+',
+        'Step 2 (Regex replace): Pattern cannot repeat a group that already repeats, like (a+)+',
+        'Step 3 (Regex replace): Pattern cannot repeat a group that already repeats, like (a+)+',
+        'Step 4 (Regex replace): Pattern must be at most 200 characters',
+        'Step 5 (Regex replace): Flags may only contain g, i, m, s and u',
+      ])
+    expect(getPipelineIssues([regex('(a?){20}a{20}'), regex('(a|aa)+'), regex('(?:x(a|a))*')]))
+      .toEqual([
+        'Step 1 (Regex replace): Pattern cannot repeat a group that already repeats, like (a+)+',
+        'Step 2 (Regex replace): Pattern cannot repeat a group with alternatives, like (a|aa)+',
+        'Step 3 (Regex replace): Pattern cannot repeat a group with alternatives, like (a|aa)+',
+      ])
+    expect(getPipelineIssues([
+      regex('(\\d+)-(\\d+)'),
+      regex('[(+)]+'),
+      regex('\\(a+\\)+'),
+      regex('(\\d+)?-(?:mr|ms)'),
+      regex('(?:ab){2}'),
+    ])).toEqual([])
+
+    expect(applyTransformations('aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!', [regex('(a+)+$')], now).error)
+      .toBe('Step 1 (Regex replace): Pattern cannot repeat a group that already repeats, like (a+)+')
+    expect(applyTransformations('abc', [regex('b', 'y')], now).error)
+      .toBe('Step 1 (Regex replace): Flags may only contain g, i, m, s and u')
+  })
+
+  it('should skip empty values so defaults apply', () => {
+    expect(applyTransformations(null, [{ name: 'uppercase' }], now)).toEqual({ value: null, error: null })
+    expect(applyTransformations('   ', [{ name: 'trim' }, { name: 'uppercase' }], now)).toEqual({ value: null, error: null })
+  })
+
+  it('should validate step settings', () => {
+    expect(getPipelineIssues([
+      { name: 'truncate', params: { length: '0' } },
+      { name: 'phone_e164' },
+      { name: 'regex_replace', params: { pattern: '(' } },
+      { name: 'map_values', values: [{ from: 'a', to: '1' }, { from: 'a', to: '2' }] },
+      { name: 'shout' },
+    ])).toEqual([
+      'Step 1 (Truncate): Maximum length must be a whole number above 0',
+      'Step 2 (Phone to E.164): Country for local numbers is required',
+      expect.stringMatching(/^Step 3 \(Regex replace\): Invalid pattern/),
+      'Step 4 (Map values): Each source value can only appear once',
+      'Step 5: unknown transformation "shout"',
+    ])
+    expect(getPipelineIssues([{ name: 'truncate', params: { length: '20' } }])).toEqual([])
+  })
+
+  it('should read legacy single transformations and describe steps', () => {
+    expect(getMappingSteps({ transformation: 'uppercase' })).toEqual([{ name: 'uppercase' }])
+    expect(getMappingSteps({ transformation: 'none', transformations: [] })).toEqual([])
+    expect(getMappingSteps({ transformation: 'uppercase', transformations: [{ name: 'trim' }] })).toEqual([{ name: 'trim' }])
+    expect(describeStep({ name: 'truncate', params: { length: '20' } })).toBe('Truncate (20)')
+    expect(describeStep({ name: 'uppercase' })).toBe('Uppercase')
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { ageInYears, isEmpty, namePart, readOwnKey, toNumber, toText, words } from '../values'
+
+describe('values', () => {
+  it('should treat only undefined, null and empty text as empty', () => {
+    expect([undefined, null, ''].every(isEmpty)).toBe(true)
+    expect([0, false, ' ', []].some(isEmpty)).toBe(false)
+  })
+
+  it('should convert values to text and numbers', () => {
+    expect(toText(null)).toBe('')
+    expect(toText({ a: 1 })).toBe('{"a":1}')
+    expect(toText(12.5)).toBe('12.5')
+    expect(toNumber(' 42 ')).toBe(42)
+    expect(toNumber('')).toBeNaN()
+    expect(toNumber(true)).toBeNaN()
+  })
+
+  it('should split names into words', () => {
+    expect(words('  Jane   Wanjiku Doe ')).toEqual(['Jane', 'Wanjiku', 'Doe'])
+    expect(namePart('Jane Wanjiku Doe', 'first')).toBe('Jane')
+    expect(namePart('Jane Wanjiku Doe', 'last')).toBe('Doe')
+    expect(namePart('Jane', 'last')).toBe('Jane')
+    expect(namePart('   ', 'first')).toBe('')
+  })
+
+  it('should count whole years in UTC', () => {
+    const born = new Date('1990-06-15')
+    expect(ageInYears(born, new Date('2025-06-14T23:59:59Z'))).toBe(34)
+    expect(ageInYears(born, new Date('2025-06-15T00:00:00Z'))).toBe(35)
+    // Still the 14th in Nairobi, already the 15th in UTC
+    expect(ageInYears(born, new Date('2025-06-15T02:00:00+03:00'))).toBe(34)
+    expect(ageInYears(born, new Date('2025-06-14T22:00:00-03:00'))).toBe(35)
+  })
+
+  it('should only read own keys', () => {
+    const value = Object.assign(Object.create({ inherited: 1 }), { own: 2 })
+    expect(readOwnKey(value, 'own')).toBe(2)
+    expect(readOwnKey(value, 'inherited')).toBeUndefined()
+    expect(readOwnKey(value, 'constructor')).toBeUndefined()
+    expect(readOwnKey('text', 'length')).toBeUndefined()
+  })
+})
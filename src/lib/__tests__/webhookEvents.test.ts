@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createEventCondition,
+  describeEventCondition,
+  getConditionIssues,
+  matchesEventConditions,
+  parseListValue,
+} from '../webhookEvents'
+
+describe('webhookEvents', () => {
+  const application = {
+    application_id: 'app-1',
+    status: 'approved',
+    old_status: 'under_review',
+    new_status: 'approved',
+    amount: 7500,
+    term_months: 12,
+    purpose: 'business',
+  }
+
+  it('should match every event when there are no conditions', () => {
+    expect(matchesEventConditions([], application)).toBe(true)
+  })
+
+  it('should require every condition to match', () => {
+    const conditions = [
+      { field: 'amount', operator: 'gte' as const, value: 5000 },
+      { field: 'new_status', operator: 'in' as const, value: ['approved', 'disbursed'] },
+    ]
+
+    expect(matchesEventConditions(conditions, application)).toBe(true)
+    expect(matchesEventConditions(conditions, { ...application, amount: 4999 })).toBe(false)
+    expect(matchesEventConditions(conditions, { ...application, new_status: 'rejected' })).toBe(false)
+  })
+
+  it('should fail conditions on values the event does not carry', () => {
+    expect(matchesEventConditions([{ field: 'amount', operator: 'neq', value: 0 }], { purpose: 'school' }))
+      .toBe(false)
+    expect(matchesEventConditions([{ field: 'purpose', operator: 'not_in', value: ['car'] }], { amount: 100 }))
+      .toBe(false)
+  })
+
+  it('should compare list values as text, like the database', () => {
+    expect(matchesEventConditions([{ field: 'term_months', operator: 'in', value: ['12', '24'] }], { term_months: 12 }))
+      .toBe(true)
+    expect(matchesEventConditions([{ field: 'term_months', operator: 'in', value: [12, 24] as never }], { term_months: 12 }))
+      .toBe(true)
+    expect(matchesEventConditions([{ field: 'term_months', operator: 'not_in', value: [12] as never }], { term_months: 12 }))
+      .toBe(false)
+  })
+
+  it('should only compare numbers with numeric operators', () => {
+    expect(matchesEventConditions([{ field: 'purpose', operator: 'gt', value: 0 }], application)).toBe(false)
+    expect(matchesEventConditions([{ field: 'amount', operator: 'lt', value: '9000' }], application)).toBe(false)
+  })
+
+  it('should start new conditions on the first field of the event', () => {
+    expect(createEventCondition('application.created'))
+      .toEqual({ field: 'amount', operator: 'gte', value: 0 })
+    expect(createEventCondition('application.status_changed'))
+      .toEqual({ field: 'new_status', operator: 'in', value: [] })
+  })
+
+  it('should report conditions that cannot be saved', () => {
+    expect(getConditionIssues('application.created', [
+      { field: 'amount', operator: 'gte', value: 1000 },
+      { field: 'purpose', operator: 'in', value: ['car'] },
+    ])).toEqual([])
+
+    expect(getConditionIssues('application.created', [
+      { field: 'new_status', operator: 'eq', value: 'approved' },
+      { field: 'amount', operator: 'in', value: ['1'] },
+      { field: 'amount', operator: 'gt', value: Number.NaN },
+      { field: 'purpose', operator: 'not_in', value: [] },
+      { field: 'purpose', operator: 'eq', value: ' ' },
+    ])).toEqual([
+      'Condition 1: choose a field',
+      'Condition 2: choose a comparison for loan amount',
+      'Condition 3: loan amount must be a number',
+      'Condition 4: list at least one value',
+      'Condition 5: enter a value',
+    ])
+  })
+
+  it('should parse and describe list filters', () => {
+    const value = parseListValue(' car, , school ,')
+
+    expect(value).toEqual(['car', 'school'])
+    expect(describeEventCondition('application.created', { field: 'purpose', operator: 'in', value }))
+      .toBe('Loan purpose is one of car, school')
+  })
+})
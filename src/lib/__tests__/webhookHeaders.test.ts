@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MASKED_HEADER_VALUE,
+  fromHeaderRows,
+  getHeaderIssues,
+  maskHeaders,
+  renderHeaderValue,
+  resolveHeaders,
+  toHeaderRows,
+} from '../webhookHeaders'
+
+describe('webhookHeaders', () => {
+  const row = (name: string, value = 'x', secret = false) => ({ name, value, secret })
+
+  it('should accept valid headers and placeholders', () => {
+    expect(getHeaderIssues([
+      row('Content-Type', 'application/json'),
+      row('X-Tenant_ID', 'acme'),
+      row('Idempotency-Key', '{{ delivery.id }}'),
+      row('X-Correlation', 'loan-{{application.id}}-{{event.type}}'),
+    ])).toEqual([])
+  })
+
+  it('should reject invalid, reserved and duplicate names', () => {
+    expect(getHeaderIssues([
+      row(''),
+      row('X Bad'),
+      row('Content-Length'),
+      row('X-Webhook-Signature'),
+      row('x-tenant'),
+      row('X-Tenant'),
+    ])).toEqual([
+      'Every header needs a name',
+      'X Bad is not a valid header name; use letters, digits and - _ . only',
+      'Content-Length is set automatically and cannot be overridden',
+      'X-Webhook-Signature is set automatically and cannot be overridden',
+      'X-Tenant is listed more than once',
+    ])
+  })
+
+  it('should only reserve API key headers when an API key is set', () => {
+    expect(getHeaderIssues([row('Authorization', 'Basic abc')])).toEqual([])
+    expect(getHeaderIssues([row('Authorization', 'Basic abc')], { hasApiKey: true }))
+      .toEqual(['Authorization is already sent from the API key'])
+  })
+
+  it('should reject unsafe values and unknown placeholders', () => {
+    expect(getHeaderIssues([
+      row('X-One', 'a\r\nX-Injected: 1'),
+      row('X-Two', '{{application.id'),
+      row('X-Three', '{{ secrets.key }}'),
+    ])).toEqual([
+      'X-One value cannot contain line breaks',
+      'X-Two value has an unclosed {{ }} placeholder',
+      'X-Three uses unknown placeholder {{secrets.key}}',
+    ])
+  })
+
+  it('should round-trip rows with secret flags', () => {
+    const stored = fromHeaderRows([
+      row(' X-Tenant ', 'acme'),
+      row('X-Partner-Token', 'tok_123', true),
+      row('  ', 'ignored'),
+    ])
+
+    expect(stored).toEqual({
+      headers: { 'X-Tenant': 'acme', 'X-Partner-Token': 'tok_123' },
+      secret_headers: ['X-Partner-Token'],
+    })
+    expect(toHeaderRows(stored.headers, stored.secret_headers)).toEqual([
+      row('X-Tenant', 'acme'),
+      row('X-Partner-Token', 'tok_123', true),
+    ])
+    expect(maskHeaders(stored.headers, stored.secret_headers)).toEqual({
+      'X-Tenant': 'acme',
+      'X-Partner-Token': MASKED_HEADER_VALUE,
+    })
+  })
+
+  it('should resolve placeholders at send time', () => {
+    const context = {
+      application: { id: 'app-1', amount: 5000, status: null },
+      event: { type: 'application.created' },
+      timestamp: '2025-01-01T00:00:00.000Z',
+    }
+
+    expect(resolveHeaders({
+      'X-Application': '{{application.id}}',
+      'X-Trace': '{{ event.type }}@{{timestamp}}',
+      'X-Status': 'status={{application.status}}',
+      'X-Missing': '{{delivery.id}}',
+    }, context)).toEqual({
+      'X-Application': 'app-1',
+      'X-Trace': 'application.created@2025-01-01T00:00:00.000Z',
+      'X-Status': 'status=',
+      'X-Missing': '',
+    })
+  })
+
+  it('should strip line breaks from resolved values', () => {
+    expect(renderHeaderValue('{{application.purpose}}', { application: { purpose: 'car\r\nX-Evil: 1' } }))
+      .toBe('car X-Evil: 1')
+  })
+
+  it('should not read inherited or prototype keys', () => {
+    const context = { application: { id: 'app-1' }, event: Object.create({ type: 'inherited' }) }
+
+    expect(renderHeaderValue('{{application.constructor.name}}|{{application.__proto__}}|{{event.type}}', context))
+      .toBe('||')
+    expect(renderHeaderValue('{{application.toString}}', context)).toBe('')
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { buildPayloadContext } from '../payloadTemplate'
+import { readSourceValue } from '../fieldMappings'
+import { DRY_RUN_HEADER, buildWebhookRequest } from '../webhookRequest'
+
+describe('webhookRequest', () => {
+  const now = new Date('2025-06-15T12:00:00.000Z')
+  const context = buildPayloadContext({
+    application: { id: 'app-1', status: 'approved', amount: '5000.5', term_months: 12, purpose: null },
+    profile: { full_name: 'Jane Wanjiku Doe', phone_number: '0712 345 678', email: null },
+  }, now)
+  const integration = {
+    id: 'int-1',
+    webhook_url: 'https://partner.example.com/loans',
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Idempotency-Key': '{{application.id}}-{{integration.id}}' },
+  }
+
+  it('should read application and profile source fields', () => {
+    expect(readSourceValue('amount', context)).toBe('5000.5')
+    expect(readSourceValue('profiles.full_name.first', context)).toBe('Jane')
+    expect(readSourceValue('profiles.full_name.last', context)).toBe('Doe')
+    expect(readSourceValue('profiles.email', context)).toBeNull()
+    expect(readSourceValue('static', context)).toBeUndefined()
+    expect(readSourceValue('constructor', context)).toBeUndefined()
+  })
+
+  it('should resolve mappings into a nested body and report each field', () => {
+    const request = buildWebhookRequest(integration, [
+      { source_field: 'profiles.full_name', target_field: 'applicant.last_name', transformations: [{ name: 'split_last' }, { name: 'uppercase' }], is_required: true },
+      { source_field: 'profiles.phone_number', target_field: 'applicant.phone', transformations: [{ name: 'phone_e164', params: { country: 'KE' } }], is_required: true },
+      { source_field: 'amount', target_field: 'loan.amount', output_type: 'integer', is_required: true },
+      { source_field: 'purpose', target_field: 'loan.purpose', default_value: 'general', is_required: false },
+      { source_field: 'static', target_field: 'channel', default_value: 'web', is_required: false },
+      { source_field: 'profiles.email', target_field: 'applicant.email', is_required: true },
+    ], context, { now })
+
+    expect(request.errors).toEqual(['applicant.email is required but has no value'])
+    expect(JSON.parse(request.body!)).toEqual({
+      applicant: { last_name: 'DOE', phone: '+254712345678' },
+      loan: { amount: 5001, purpose: 'general' },
+      channel: 'web',
+    })
+    expect(request.fields.map(f => [f.target_field, f.value, f.defaultApplied, f.missing])).toEqual([
+      ['applicant.last_name', 'DOE', false, false],
+      ['applicant.phone', '+254712345678', false, false],
+      ['loan.amount', 5001, false, false],
+      ['loan.purpose', 'general', true, false],
+      ['channel', 'web', false, false],
+      ['applicant.email', null, false, true],
+    ])
+    expect(request.headers['Idempotency-Key']).toBe('app-1-int-1')
+    expect(request.senderHeaders).toEqual(['X-Webhook-Timestamp', 'X-Webhook-Signature'])
+  })
+
+  it('should leave failed transformations out and report them', () => {
+    const request = buildWebhookRequest(integration, [
+      { source_field: 'purpose', target_field: 'purpose', is_required: false },
+      { source_field: 'profiles.full_name', target_field: 'born', transformations: [{ name: 'date_format' }], is_required: false },
+    ], context, { now })
+
+    expect(request.errors).toEqual(['born: Step 1 (Format Date): "Jane Wanjiku Doe" is not a date'])
+    expect(request.body).toBe('{"purpose":null}')
+  })
+
+  it('should render templates with the format content type and mark dry runs', () => {
+    const request = buildWebhookRequest({
+      ...integration,
+      api_key: 'secret',
+      headers: { 'content-type': 'text/plain' },
+      payload_mode: 'template',
+      payload_format: 'xml',
+      payload_template: '<Loan id="{{application.id}}"/>',
+    }, [], context, { now, dryRun: true })
+
+    expect(request.body).toBe('<Loan id="app-1"/>')
+    expect(request.headers).toEqual({ 'Content-Type': 'application/xml', [DRY_RUN_HEADER]: 'true' })
+    expect(request.senderHeaders).toEqual(['Authorization', 'X-API-Key', 'X-Webhook-Timestamp', 'X-Webhook-Signature'])
+    expect(request.fields).toEqual([])
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeSignature,
+  getActiveSecrets,
+  parseSignatureHeader,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../webhookSigning'
+
+describe('webhookSigning', () => {
+  const body = '{"id":1}'
+  const timestamp = 1700000000
+
+  it('should match the documented HMAC-SHA256 recipe', async () => {
+    // Same as: createHmac('sha256', 'whsec_test').update('1700000000.{"id":1}').digest('hex')
+    expect(await computeSignature('whsec_test', timestamp, body))
+      .toBe('2f441ba4b3b2d50d28a9ab9d9fd8880376ecd1eb5d0435401553f5d8d0a5dcf8')
+  })
+
+  it('should sign with every active secret during a rotation', async () => {
+    const headers = await signWebhookPayload(body, ['whsec_new', 'whsec_old'], timestamp)
+    const parsed = parseSignatureHeader(headers['X-Webhook-Signature'])
+
+    expect(headers['X-Webhook-Timestamp']).toBe('1700000000')
+    expect(parsed?.timestamp).toBe(timestamp)
+    expect(parsed?.signatures).toHaveLength(2)
+
+    expect(await verifyWebhookSignature(body, headers['X-Webhook-Signature'], 'whsec_old', timestamp)).toEqual({ valid: true })
+    expect(await verifyWebhookSignature(body, headers['X-Webhook-Signature'], 'whsec_new', timestamp)).toEqual({ valid: true })
+  })
+
+  it('should reject tampered bodies, wrong secrets and stale timestamps', async () => {
+    const { 'X-Webhook-Signature': header } = await signWebhookPayload(body, ['whsec_test'], timestamp)
+
+    expect(await verifyWebhookSignature('{"id":2}', header, 'whsec_test', timestamp))
+      .toEqual({ valid: false, reason: 'mismatch' })
+    expect(await verifyWebhookSignature(body, header, 'whsec_other', timestamp))
+      .toEqual({ valid: false, reason: 'mismatch' })
+    expect(await verifyWebhookSignature(body, header, 'whsec_test', timestamp + 301))
+      .toEqual({ valid: false, reason: 'outside_window' })
+    expect(await verifyWebhookSignature(body, 'v1=abc', 'whsec_test', timestamp))
+      .toEqual({ valid: false, reason: 'malformed' })
+  })
+
+  it('should drop secrets past their grace period', () => {
+    const now = new Date('2025-05-02T00:00:00.000Z')
+    const secrets = [
+      { secret: 'expired', created_at: '2025-04-01T00:00:00.000Z', expires_at: '2025-05-01T00:00:00.000Z' },
+      { secret: 'grace', created_at: '2025-04-15T00:00:00.000Z', expires_at: '2025-05-03T00:00:00.000Z' },
+      { secret: 'current', created_at: '2025-05-01T12:00:00.000Z', expires_at: null },
+    ]
+
+    expect(getActiveSecrets(secrets, now).map(s => s.secret)).toEqual(['current', 'grace'])
+  })
+
+  it('should not sign without a secret', async () => {
+    expect(await signWebhookPayload(body, [], timestamp)).toEqual({})
+  })
+})
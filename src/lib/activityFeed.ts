@@ -0,0 +1,136 @@
+import { AUDIT_ACTION_LABELS, getAuditTableLabel, getAuditUserLabel } from '@/lib/auditLog';
+import type { ConfigAuditLog, LoanApplicationEvent } from '@/types';
+
+export type ActivityKind = 'config_change' | 'application_submitted' | 'status_changed' | 'webhook_failed';
+
+export type ActivityStatus = 'success' | 'warning' | 'info' | 'error';
+
+export interface ActivityItem {
+  // Prefixed with the kind, since ids from different tables can collide
+  id: string;
+  kind: ActivityKind;
+  message: string;
+  detail?: string;
+  timestamp: string;
+  status: ActivityStatus;
+  // Where clicking the item takes the admin
+  href: string;
+}
+
+export interface ActivityApplication {
+  id: string;
+  amount: number;
+  purpose?: string | null;
+  created_at: string;
+  profiles?: { full_name?: string | null } | null;
+}
+
+export interface ActivityWebhookLog {
+  id: string;
+  integration_id: string;
+  loan_application_id?: string | null;
+  response_status?: number | null;
+  error_message?: string | null;
+  created_at: string;
+}
+
+// Configuration pages that edit each audited table
+const AUDIT_TABLE_ROUTES: Record<string, string> = {
+  organization_config: '/organization',
+  app_theme: '/theme',
+  loan_products: '/products',
+  loan_product_versions: '/products',
+  loan_product_documents: '/products',
+  document_types: '/documents',
+  webhook_integrations: '/integrations',
+  config_change_requests: '/approvals',
+};
+
+const applicationHref = (id: string) => `/applications?application=${id}`;
+
+export function auditEntryToActivity(entry: ConfigAuditLog): ActivityItem {
+  const values = entry.new_values || entry.old_values || {};
+  const name = typeof values.name === 'string' ? values.name : null;
+  const verb = AUDIT_ACTION_LABELS[entry.action].toLowerCase();
+
+  return {
+    id: `config_change:${entry.id}`,
+    kind: 'config_change',
+    message: name ? `"${name}" ${verb}` : `${getAuditTableLabel(entry.table_name)} ${verb}`,
+    detail: `${getAuditTableLabel(entry.table_name)} · by ${getAuditUserLabel(entry)}`,
+    timestamp: entry.created_at,
+    status: entry.action === 'DELETE' ? 'warning' : 'success',
+    href: AUDIT_TABLE_ROUTES[entry.table_name] || '/audit-log',
+  };
+}
+
+export function applicationToActivity(application: ActivityApplication): ActivityItem {
+  const applicant = application.profiles?.full_name;
+
+  return {
+    id: `application_submitted:${application.id}`,
+    kind: 'application_submitted',
+    message: applicant ? `New application from ${applicant}` : 'New loan application',
+    detail: [Number(application.amount).toLocaleString(), application.purpose].filter(Boolean).join(' · '),
+    timestamp: application.created_at,
+    status: 'info',
+    href: applicationHref(application.id),
+  };
+}
+
+export function statusEventToActivity(event: LoanApplicationEvent): ActivityItem {
+  const status = event.new_status || 'unknown';
+
+  return {
+    id: `status_changed:${event.id}`,
+    kind: 'status_changed',
+    message: `Application ${status.replace(/_/g, ' ')}`,
+    detail: [
+      event.old_status && `from ${event.old_status.replace(/_/g, ' ')}`,
+      event.actor_email && `by ${event.actor_email}`,
+    ].filter(Boolean).join(' '),
+    timestamp: event.created_at,
+    status: ['approved', 'disbursed'].includes(status)
+      ? 'success'
+      : ['rejected', 'cancelled'].includes(status) ? 'warning' : 'info',
+    href: applicationHref(event.loan_application_id),
+  };
+}
+
+export function webhookFailureToActivity(log: ActivityWebhookLog): ActivityItem {
+  return {
+    id: `webhook_failed:${log.id}`,
+    kind: 'webhook_failed',
+    message: 'Webhook delivery failed',
+    detail: log.error_message || (log.response_status ? `HTTP ${log.response_status}` : undefined),
+    timestamp: log.created_at,
+    status: 'error',
+    href: log.loan_application_id ? applicationHref(log.loan_application_id) : '/integrations',
+  };
+}
+
+/**
+ * Newest first, without duplicates. Later copies of an item replace earlier
+ * ones, so a realtime update wins over what was fetched.
+ */
+export function mergeActivities(...lists: ActivityItem[][]): ActivityItem[] {
+  const byId = new Map<string, ActivityItem>();
+  lists.flat().forEach(item => byId.set(item.id, item));
+  return [...byId.values()].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+/**
+ * Combines one batch per source into a page. Every source was asked for
+ * `pageSize` items older than the cursor, so anything past the page is
+ * fetched again with the next cursor.
+ */
+export function takeActivityPage(batches: ActivityItem[][], pageSize: number) {
+  const merged = mergeActivities(...batches);
+  const items = merged.slice(0, pageSize);
+
+  return {
+    items,
+    hasMore: merged.length > pageSize || batches.some(batch => batch.length >= pageSize),
+    cursor: items.length > 0 ? items[items.length - 1].timestamp : null,
+  };
+}
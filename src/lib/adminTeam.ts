@@ -0,0 +1,53 @@
+import type { AdminInvitation, AdminTeamMember } from '@/types';
+import type { AdminRole } from '@/lib/permissions';
+
+export interface AdminMemberChange {
+  role?: AdminRole;
+  active?: boolean;
+}
+
+export function countActiveSuperAdmins(members: AdminTeamMember[]): number {
+  return members.filter(member => member.role === 'super_admin' && member.is_active).length;
+}
+
+// Mirrors the checks in set_admin_role / set_admin_active so the UI can
+// explain why an action is unavailable instead of waiting for the error
+export function getMemberChangeBlocker(
+  members: AdminTeamMember[],
+  target: AdminTeamMember,
+  change: AdminMemberChange,
+  actorId: string | undefined
+): string | null {
+  if (target.id === actorId) {
+    return change.active === false
+      ? 'You cannot deactivate your own account'
+      : 'You cannot change your own role';
+  }
+
+  const removesSuperAdmin = target.role === 'super_admin' && target.is_active
+    && ((change.role !== undefined && change.role !== 'super_admin') || change.active === false);
+
+  if (removesSuperAdmin && countActiveSuperAdmins(members) <= 1) {
+    return 'At least one active super admin is required';
+  }
+
+  return null;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function getInviteBlocker(email: string, members: AdminTeamMember[]): string | null {
+  const normalized = normalizeEmail(email);
+  const existing = members.find(member => normalizeEmail(member.email) === normalized);
+
+  if (!existing) return null;
+  return existing.is_active
+    ? `${normalized} is already an admin`
+    : `${normalized} has been deactivated; reactivate them instead`;
+}
+
+export function isInvitationExpired(invitation: AdminInvitation, now: Date = new Date()): boolean {
+  return new Date(invitation.expires_at).getTime() <= now.getTime();
+}
@@ -0,0 +1,111 @@
+import type { AdminUser, ApplicationWorkflow, WorkflowState, WorkflowTransition } from '@/types';
+
+type WorkflowDefinition = Pick<ApplicationWorkflow, 'states' | 'transitions'>;
+
+// Used when an organization has not stored its own workflow yet. Mirrors the
+// statuses the mobile app has always written.
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  states: [
+    { key: 'pending', label: 'Pending', variant: 'secondary', is_initial: true },
+    { key: 'approved', label: 'Approved', variant: 'secondary' },
+    { key: 'rejected', label: 'Rejected', variant: 'destructive', is_terminal: true },
+    { key: 'disbursed', label: 'Disbursed', variant: 'default', is_terminal: true },
+  ],
+  transitions: [
+    {
+      from: 'pending',
+      to: 'approved',
+      allowed_roles: ['super_admin', 'admin'],
+      requires_reason: false,
+      reason_codes: [],
+    },
+    {
+      from: 'pending',
+      to: 'rejected',
+      allowed_roles: ['super_admin', 'admin'],
+      requires_reason: true,
+      reason_codes: ['insufficient_income', 'failed_kyc', 'incomplete_documents', 'policy_exclusion', 'other'],
+    },
+    {
+      from: 'approved',
+      to: 'disbursed',
+      allowed_roles: ['super_admin', 'admin'],
+      requires_reason: false,
+      reason_codes: [],
+    },
+    {
+      from: 'approved',
+      to: 'rejected',
+      allowed_roles: ['super_admin'],
+      requires_reason: true,
+      reason_codes: ['applicant_withdrew', 'fraud_suspected', 'other'],
+    },
+  ],
+};
+
+export type TransitionValidation =
+  | { valid: true; transition: WorkflowTransition }
+  | { valid: false; error: string };
+
+export function getWorkflowState(workflow: WorkflowDefinition, key: string): WorkflowState | undefined {
+  return workflow.states.find(state => state.key === key);
+}
+
+export function getStateLabel(workflow: WorkflowDefinition, key: string) {
+  return getWorkflowState(workflow, key)?.label || key.replace(/_/g, ' ');
+}
+
+export function formatReasonCode(code: string) {
+  const label = code.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Transitions out of `from` that the given role may perform.
+ */
+export function getAvailableTransitions(
+  workflow: WorkflowDefinition,
+  from: string,
+  role: AdminUser['role'] | undefined
+): WorkflowTransition[] {
+  if (!role) return [];
+
+  return workflow.transitions.filter(
+    transition => transition.from === from && transition.allowed_roles.includes(role)
+  );
+}
+
+export function validateTransition(
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string,
+  role: AdminUser['role'] | undefined,
+  reasonCode?: string
+): TransitionValidation {
+  if (!getWorkflowState(workflow, to)) {
+    return { valid: false, error: `Unknown status "${to}"` };
+  }
+
+  const transition = workflow.transitions.find(t => t.from === from && t.to === to);
+  if (!transition) {
+    return {
+      valid: false,
+      error: `Cannot move an application from ${getStateLabel(workflow, from)} to ${getStateLabel(workflow, to)}`,
+    };
+  }
+
+  if (!role || !transition.allowed_roles.includes(role)) {
+    return { valid: false, error: 'Your role is not allowed to perform this status change' };
+  }
+
+  if (transition.requires_reason && !reasonCode) {
+    return { valid: false, error: 'A reason is required for this status change' };
+  }
+
+  // Matches enforce_application_status_transition(), which checks any code given
+  if (reasonCode && transition.reason_codes.length > 0 && !transition.reason_codes.includes(reasonCode)) {
+    return { valid: false, error: `"${reasonCode}" is not a valid reason for this status change` };
+  }
+
+  return { valid: true, transition };
+}
@@ -0,0 +1,95 @@
+import type { ValueChange } from '@/lib/changeRequests';
+import type { AuditAction, ConfigAuditLog } from '@/types';
+
+export const AUDITED_TABLES: Record<string, string> = {
+  organization_config: 'Organization settings',
+  app_theme: 'App theme',
+  loan_products: 'Loan products',
+  loan_product_versions: 'Product versions',
+  loan_product_documents: 'Product documents',
+  document_types: 'Document types',
+  webhook_integrations: 'Webhook integrations',
+  application_workflows: 'Application workflows',
+  config_change_requests: 'Change requests',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+};
+
+// Touched by every write, so they would show up in every diff
+const NOISY_FIELDS = ['updated_at'];
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export function getAuditTableLabel(table: string) {
+  return AUDITED_TABLES[table] || table;
+}
+
+export function getAuditUserLabel(entry: Pick<ConfigAuditLog, 'user_id' | 'admin_user'>) {
+  if (entry.admin_user) return entry.admin_user.full_name || entry.admin_user.email;
+  return entry.user_id || 'System';
+}
+
+/**
+ * Field-level changes in an audit entry. Updates logged before old rows were
+ * recorded have no `old_values`; their previous values come back undefined.
+ */
+export function getAuditChanges(entry: Pick<ConfigAuditLog, 'action' | 'old_values' | 'new_values'>): ValueChange[] {
+  const before = entry.old_values || {};
+  const after = entry.new_values || {};
+
+  if (entry.action === 'INSERT') {
+    return Object.keys(after).map(field => ({ field, before: null, after: after[field] }));
+  }
+
+  if (entry.action === 'DELETE') {
+    return Object.keys(before).map(field => ({ field, before: before[field], after: null }));
+  }
+
+  return Object.keys(after)
+    .filter(field => !NOISY_FIELDS.includes(field))
+    .filter(field => !entry.old_values || !isEqual(before[field], after[field]))
+    .map(field => ({
+      field,
+      before: entry.old_values ? before[field] ?? null : undefined,
+      after: after[field],
+    }));
+}
+
+const csvValue = (value: unknown) =>
+  value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value ?? '');
+
+const csvCell = (value: unknown) => `"${csvValue(value).replace(/"/g, '""')}"`;
+
+/**
+ * One row per changed field so auditors can filter the export in a spreadsheet.
+ */
+export function buildAuditCsv(entries: ConfigAuditLog[]) {
+  const headers = ['Timestamp', 'Admin User', 'Action', 'Table', 'Record ID', 'Field', 'Old Value', 'New Value'];
+  const rows = entries.flatMap(entry => {
+    const changes = getAuditChanges(entry);
+    const base = [
+      entry.created_at,
+      getAuditUserLabel(entry),
+      entry.action,
+      entry.table_name,
+      entry.record_id || '',
+    ];
+    if (changes.length === 0) return [[...base, '', '', '']];
+    return changes.map(change => [
+      ...base,
+      change.field,
+      change.before === undefined ? '(not recorded)' : change.before,
+      change.after,
+    ]);
+  });
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.map(csvCell).join(',')),
+  ].join('\n');
+}
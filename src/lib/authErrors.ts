@@ -0,0 +1,67 @@
+export type SignInErrorCode =
+  | 'invalid_credentials'
+  | 'locked'
+  | 'not_admin'
+  | 'deactivated'
+  | 'network'
+  | 'unknown';
+
+export const SIGN_IN_ERROR_MESSAGES: Record<SignInErrorCode, string> = {
+  invalid_credentials: 'Incorrect email or password',
+  locked: 'This account is locked. Contact a super admin to restore access',
+  not_admin: 'You are not authorized to access the admin panel',
+  deactivated: 'This admin account has been deactivated',
+  network: 'Could not reach the server. Check your connection and try again',
+  unknown: 'Failed to sign in',
+};
+
+const RATE_LIMITED_MESSAGE = 'Too many sign-in attempts. Wait a few minutes and try again';
+
+// Thrown by useAuth.signIn so the login page can show a specific message
+export class SignInError extends Error {
+  code: SignInErrorCode;
+
+  constructor(code: SignInErrorCode, message: string = SIGN_IN_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'SignInError';
+    this.code = code;
+  }
+}
+
+interface ErrorLike {
+  name?: string;
+  message?: string;
+  code?: string;
+  status?: number;
+}
+
+export function isNetworkError(error: unknown): boolean {
+  if (!error) return false;
+  if (error instanceof TypeError) return true;
+
+  const { name, message, status } = error as ErrorLike;
+  // supabase-js reports failed requests with status 0 instead of throwing
+  return name === 'AuthRetryableFetchError'
+    || status === 0
+    || /failed to fetch|network ?error|load failed/i.test(message ?? '');
+}
+
+// Maps a Supabase auth error from signInWithPassword to a sign-in error
+export function toSignInError(error: unknown): SignInError {
+  if (error instanceof SignInError) return error;
+  if (isNetworkError(error)) return new SignInError('network');
+
+  const { code, message, status } = (error ?? {}) as ErrorLike;
+
+  if (code === 'invalid_credentials' || /invalid login credentials/i.test(message ?? '')) {
+    return new SignInError('invalid_credentials');
+  }
+  // Deactivated admins are not banned (see set_admin_active()), so they get
+  // past the password check and are reported as deactivated instead
+  if (code === 'user_banned') return new SignInError('locked');
+  if (status === 429 || code?.startsWith('over_') || code === 'too_many_requests') {
+    return new SignInError('locked', RATE_LIMITED_MESSAGE);
+  }
+
+  return new SignInError('unknown', message || SIGN_IN_ERROR_MESSAGES.unknown);
+}
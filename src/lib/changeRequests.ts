@@ -0,0 +1,79 @@
+import type { AdminUser } from '@/hooks/useAuth';
+import { hasPermission } from '@/lib/permissions';
+import type { ChangeRequestTable, ConfigChangeRequest } from '@/types';
+
+export interface ValueChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export const CHANGE_REQUEST_TABLES: Record<ChangeRequestTable, string> = {
+  organization_config: 'Organization settings',
+  app_theme: 'App theme',
+  loan_products: 'Loan product',
+  document_types: 'Document type',
+  webhook_integrations: 'Webhook integration',
+};
+
+// Bookkeeping columns the database maintains itself
+const IGNORED_FIELDS = ['id', 'created_at', 'updated_at'];
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Reduces a proposed record to the fields that differ from the current one,
+ * returning both sides so reviewers see exactly what will change.
+ */
+export function diffValues(
+  current: Record<string, unknown> | null,
+  proposed: Record<string, unknown>
+): { old_values: Record<string, unknown>; new_values: Record<string, unknown> } {
+  const old_values: Record<string, unknown> = {};
+  const new_values: Record<string, unknown> = {};
+
+  Object.entries(proposed)
+    .filter(([field, value]) => !IGNORED_FIELDS.includes(field) && value !== undefined)
+    .filter(([field, value]) => !current || !isEqual(current[field], value))
+    .forEach(([field, value]) => {
+      if (current) old_values[field] = current[field] ?? null;
+      new_values[field] = value;
+    });
+
+  return { old_values, new_values };
+}
+
+export function getValueChanges(request: Pick<ConfigChangeRequest, 'action' | 'old_values' | 'new_values'>): ValueChange[] {
+  const source = request.action === 'DELETE' ? request.old_values : request.new_values;
+  return Object.keys(source).map(field => ({
+    field,
+    before: request.action === 'INSERT' ? null : request.old_values[field] ?? null,
+    after: request.action === 'DELETE' ? null : request.new_values[field] ?? null,
+  }));
+}
+
+export function formatChangeValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value) && value.every(v => typeof v !== 'object')) return value.join(', ') || 'none';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function formatFieldName(field: string) {
+  return field.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+}
+
+/**
+ * Why `reviewer` may not approve or reject `request`, or null if they can.
+ */
+export function getReviewBlocker(
+  request: Pick<ConfigChangeRequest, 'status' | 'requested_by'>,
+  reviewer: Pick<AdminUser, 'id' | 'role'> | null
+): string | null {
+  if (request.status !== 'pending') return 'This request has already been resolved';
+  if (!reviewer || !hasPermission(reviewer.role, 'changes.review')) return 'Only super admins can review changes';
+  if (reviewer.id === request.requested_by) return 'A different super admin must review your own request';
+  return null;
+}
@@ -0,0 +1,195 @@
+import type {
+  EligibilityCondition,
+  EligibilityCriteria,
+  EligibilityField,
+  EligibilityGroup,
+  EligibilityOperator,
+  EligibilityRule,
+} from '@/types';
+import type { LoanApplication } from '@/hooks/useApplications';
+import { ageInYears } from './values';
+
+/**
+ * Facts about an applicant that eligibility rules can reference.
+ * `undefined` means the fact is unknown, which fails any condition on it.
+ */
+export interface EligibilityContext {
+  monthly_income?: number;
+  employment_status?: string;
+  age?: number;
+  kyc_verified?: boolean;
+  prior_applications?: number;
+}
+
+export interface ConditionResult {
+  condition: EligibilityCondition;
+  actual: EligibilityContext[EligibilityField];
+  passed: boolean;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  conditions: ConditionResult[];
+}
+
+type FieldKind = 'number' | 'string' | 'boolean';
+
+export const ELIGIBILITY_FIELDS: { value: EligibilityField; label: string; kind: FieldKind }[] = [
+  { value: 'monthly_income', label: 'Monthly income', kind: 'number' },
+  { value: 'employment_status', label: 'Employment status', kind: 'string' },
+  { value: 'age', label: 'Age (years)', kind: 'number' },
+  { value: 'kyc_verified', label: 'KYC verified', kind: 'boolean' },
+  { value: 'prior_applications', label: 'Prior applications', kind: 'number' },
+];
+
+export const OPERATORS_BY_KIND: Record<FieldKind, { value: EligibilityOperator; label: string }[]> = {
+  number: [
+    { value: 'gte', label: 'at least' },
+    { value: 'gt', label: 'greater than' },
+    { value: 'lte', label: 'at most' },
+    { value: 'lt', label: 'less than' },
+    { value: 'eq', label: 'equals' },
+    { value: 'neq', label: 'does not equal' },
+  ],
+  string: [
+    { value: 'in', label: 'is one of' },
+    { value: 'not_in', label: 'is not one of' },
+    { value: 'eq', label: 'is' },
+    { value: 'neq', label: 'is not' },
+  ],
+  boolean: [
+    { value: 'eq', label: 'is' },
+  ],
+};
+
+export const EMPLOYMENT_STATUSES = ['employed', 'self_employed', 'unemployed', 'student', 'retired'];
+
+export function getFieldKind(field: EligibilityField): FieldKind {
+  return ELIGIBILITY_FIELDS.find(f => f.value === field)?.kind || 'string';
+}
+
+export function createCondition(field: EligibilityField = 'monthly_income'): EligibilityCondition {
+  const kind = getFieldKind(field);
+  return {
+    type: 'condition',
+    id: crypto.randomUUID(),
+    field,
+    operator: OPERATORS_BY_KIND[kind][0].value,
+    value: kind === 'number' ? 0 : kind === 'boolean' ? true : [],
+  };
+}
+
+export function createGroup(combinator: EligibilityGroup['combinator'] = 'and'): EligibilityGroup {
+  return { type: 'group', id: crypto.randomUUID(), combinator, rules: [] };
+}
+
+export function createEmptyCriteria(): EligibilityCriteria {
+  return { version: 1, root: createGroup('and') };
+}
+
+/**
+ * Normalizes whatever is stored in `loan_products.eligibility_criteria`.
+ * Products saved before the rule builder existed hold `{}`, which means
+ * "no restrictions".
+ */
+export function parseEligibilityCriteria(value: unknown): EligibilityCriteria {
+  if (
+    value &&
+    typeof value === 'object' &&
+    (value as EligibilityCriteria).version === 1 &&
+    (value as EligibilityCriteria).root?.type === 'group'
+  ) {
+    return value as EligibilityCriteria;
+  }
+  return createEmptyCriteria();
+}
+
+export function countConditions(rule: EligibilityRule): number {
+  if (rule.type === 'condition') return 1;
+  return rule.rules.reduce((total, child) => total + countConditions(child), 0);
+}
+
+export function calculateAge(dateOfBirth: string, asOf: Date = new Date()): number {
+  return ageInYears(new Date(dateOfBirth), asOf);
+}
+
+/**
+ * Builds the evaluation context for an existing application. Age is taken at
+ * the time the application was submitted so re-running a check later gives
+ * the same answer.
+ */
+export function buildEligibilityContext(
+  application: LoanApplication,
+  priorApplications: number
+): EligibilityContext {
+  const dateOfBirth = application.profiles?.date_of_birth;
+  return {
+    monthly_income: application.monthly_income ?? undefined,
+    employment_status: application.employment_status ?? undefined,
+    age: dateOfBirth ? calculateAge(dateOfBirth, new Date(application.created_at)) : undefined,
+    kyc_verified: application.profiles?.kyc_verified ?? undefined,
+    prior_applications: priorApplications,
+  };
+}
+
+function compare(
+  actual: EligibilityContext[EligibilityField],
+  operator: EligibilityOperator,
+  expected: EligibilityCondition['value']
+): boolean {
+  if (actual === undefined || actual === null) return false;
+
+  switch (operator) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+      return typeof actual === 'number' && actual > Number(expected);
+    case 'gte':
+      return typeof actual === 'number' && actual >= Number(expected);
+    case 'lt':
+      return typeof actual === 'number' && actual < Number(expected);
+    case 'lte':
+      return typeof actual === 'number' && actual <= Number(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.includes(String(actual));
+    case 'not_in':
+      return Array.isArray(expected) && !expected.includes(String(actual));
+    default:
+      return false;
+  }
+}
+
+function evaluateRule(rule: EligibilityRule, context: EligibilityContext, results: ConditionResult[]): boolean {
+  if (rule.type === 'condition') {
+    const actual = context[rule.field];
+    const passed = compare(actual, rule.operator, rule.value);
+    results.push({ condition: rule, actual, passed });
+    return passed;
+  }
+
+  // Every child is evaluated (no short-circuit) so the result explains all conditions
+  const outcomes = rule.rules.map(child => evaluateRule(child, context, results));
+  if (outcomes.length === 0) return true;
+  return rule.combinator === 'and' ? outcomes.every(Boolean) : outcomes.some(Boolean);
+}
+
+export function evaluateEligibility(
+  criteria: EligibilityCriteria,
+  context: EligibilityContext
+): EligibilityResult {
+  const conditions: ConditionResult[] = [];
+  const eligible = evaluateRule(criteria.root, context, conditions);
+  return { eligible, conditions };
+}
+
+export function describeCondition(condition: EligibilityCondition): string {
+  const field = ELIGIBILITY_FIELDS.find(f => f.value === condition.field)?.label || condition.field;
+  const operator = OPERATORS_BY_KIND[getFieldKind(condition.field)]
+    .find(o => o.value === condition.operator)?.label || condition.operator;
+  const value = Array.isArray(condition.value)
+    ? condition.value.join(', ')
+    : String(condition.value);
+  return `${field} ${operator} ${value}`;
+}
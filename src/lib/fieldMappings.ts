@@ -0,0 +1,325 @@
+// Target paths and output types for webhook field mappings.
+import { isEmpty, namePart, readOwnKey, toNumber, toText } from './values';
+
+export type MappingOutputType =
+  | 'auto'
+  | 'string'
+  | 'integer'
+  | 'decimal'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'enum';
+
+export interface MappingOutputOptions {
+  // decimal: digits after the point
+  precision?: number;
+  // enum: source value -> value sent
+  values?: Record<string, string>;
+  // enum: sent for values missing from the table; without it they are errors
+  fallback?: string | null;
+}
+
+export interface MappingTarget {
+  target_field: string;
+  output_type?: MappingOutputType | null;
+  output_options?: MappingOutputOptions | null;
+  default_value?: string | null;
+  is_required: boolean;
+}
+
+export type PathSegment = string | number;
+
+// Fields a mapping can read. profiles.* come from the applicant's profile;
+// 'static' sends the mapping's default value.
+export const SOURCE_FIELDS = [
+  { value: 'amount', label: 'Loan Amount', table: 'loan_applications' },
+  { value: 'purpose', label: 'Loan Purpose', table: 'loan_applications' },
+  { value: 'term_months', label: 'Term (Months)', table: 'loan_applications' },
+  { value: 'duration_months', label: 'Duration (Months)', table: 'loan_applications' },
+  { value: 'interest_rate', label: 'Interest Rate', table: 'loan_applications' },
+  { value: 'monthly_payment', label: 'Monthly Payment', table: 'loan_applications' },
+  { value: 'employment_status', label: 'Employment Status', table: 'loan_applications' },
+  { value: 'monthly_income', label: 'Monthly Income', table: 'loan_applications' },
+  { value: 'loan_purpose_details', label: 'Purpose Details', table: 'loan_applications' },
+  { value: 'phone_number', label: 'Phone Number', table: 'loan_applications' },
+  { value: 'profiles.full_name', label: 'Full Name', table: 'profiles' },
+  { value: 'profiles.full_name.first', label: 'First Name', table: 'profiles' },
+  { value: 'profiles.full_name.last', label: 'Last Name', table: 'profiles' },
+  { value: 'profiles.phone_number', label: 'Phone (Profile)', table: 'profiles' },
+  { value: 'profiles.email', label: 'Email', table: 'profiles' },
+  { value: 'profiles.gender', label: 'Gender', table: 'profiles' },
+  { value: 'profiles.date_of_birth', label: 'Date of Birth', table: 'profiles' },
+  { value: 'static', label: 'Static Value', table: 'static' },
+];
+
+export const STATIC_SOURCE = 'static';
+
+/**
+ * Reads a mapping's source field from a payload context (`application`,
+ * `profile`, ...). full_name.first and full_name.last split the name like
+ * the split_first and split_last transformations. Static sources read
+ * nothing, so their default value is sent.
+ */
+export function readSourceValue(sourceField: string, context: Record<string, unknown>): unknown {
+  if (sourceField === STATIC_SOURCE) return undefined;
+  if (!sourceField.startsWith('profiles.')) return readOwnKey(readOwnKey(context, 'application'), sourceField);
+
+  const [field, part] = sourceField.slice('profiles.'.length).split('.');
+  const value = readOwnKey(readOwnKey(context, 'profile'), field);
+  if (!part || isEmpty(value)) return value;
+  return part === 'first' || part === 'last' ? namePart(value, part) : undefined;
+}
+
+export const OUTPUT_TYPES: { value: MappingOutputType; label: string; description: string }[] = [
+  { value: 'auto', label: 'As stored', description: 'Sent with the type the database returns' },
+  { value: 'string', label: 'Text', description: 'Always sent as a string' },
+  { value: 'integer', label: 'Integer', description: 'Rounded to a whole number' },
+  { value: 'decimal', label: 'Decimal', description: 'Rounded to a fixed number of decimal places' },
+  { value: 'boolean', label: 'Boolean', description: 'true/false, yes/no and 1/0 are accepted' },
+  { value: 'date', label: 'ISO date', description: 'YYYY-MM-DD' },
+  { value: 'datetime', label: 'ISO date and time', description: 'YYYY-MM-DDTHH:mm:ss.sssZ' },
+  { value: 'enum', label: 'Lookup table', description: 'Replaced using a table of values' },
+];
+
+export const DEFAULT_DECIMAL_PRECISION = 2;
+export const MAX_DECIMAL_PRECISION = 10;
+// Keeps a typo like items[100000] from building a huge array
+export const MAX_ARRAY_INDEX = 999;
+
+const PATH_PATTERN = /^[A-Za-z_][\w-]*(\.[A-Za-z_][\w-]*|\[\d+\])*$/;
+const SEGMENT_PATTERN = /\.?([A-Za-z_][\w-]*)|\[(\d+)\]/g;
+const RESERVED_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+/** Splits `applicant.name.first` or `items[0].amount` into segments; null if invalid. */
+export function parseTargetPath(path: string): PathSegment[] | null {
+  if (!PATH_PATTERN.test(path)) return null;
+  return Array.from(path.matchAll(SEGMENT_PATTERN), match =>
+    match[2] !== undefined ? Number(match[2]) : match[1]
+  );
+}
+
+export function formatTargetPath(segments: PathSegment[]): string {
+  return segments
+    .map((segment, index) => typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`)
+    .join('');
+}
+
+export function getTargetPathError(path: string): string | null {
+  if (!path.trim()) return 'Target field is required';
+  const segments = parseTargetPath(path);
+  if (!segments) {
+    return 'Use names separated by dots, with [n] for list positions, e.g. applicant.name or items[0].amount';
+  }
+  const reserved = segments.find(segment => typeof segment === 'string' && RESERVED_SEGMENTS.includes(segment));
+  if (reserved) return `"${reserved}" cannot be used in a target path`;
+  if (segments.some(segment => typeof segment === 'number' && segment > MAX_ARRAY_INDEX)) {
+    return `List positions go up to ${MAX_ARRAY_INDEX}`;
+  }
+  return null;
+}
+
+interface PathNode {
+  kind?: 'object' | 'array';
+  // The mapping that writes a value here
+  value?: string;
+  // The first mapping that passed through here, for messages
+  firstPath: string;
+  children: Map<PathSegment, PathNode>;
+}
+
+/**
+ * Target paths that would overwrite each other: the same path twice, a value
+ * with fields nested under it, or a prefix used both as a list and an object.
+ */
+export function findPathConflicts(paths: string[]): string[] {
+  const conflicts: string[] = [];
+  const root: PathNode = { kind: 'object', firstPath: '', children: new Map() };
+
+  paths.forEach((path) => {
+    const segments = getTargetPathError(path) ? null : parseTargetPath(path);
+    if (!segments) return;
+
+    let node = root;
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const prefix = formatTargetPath(segments.slice(0, i));
+
+      if (node.value) {
+        conflicts.push(`${path} is nested inside ${node.value}, which is already mapped to a value`);
+        return;
+      }
+
+      const kind = typeof segment === 'number' ? 'array' : 'object';
+      if (node.kind && node.kind !== kind) {
+        conflicts.push(`${prefix} is used both as a list and as an object by ${node.firstPath} and ${path}`);
+        return;
+      }
+      node.kind = kind;
+
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { firstPath: path, children: new Map() };
+        node.children.set(segment, child);
+      }
+
+      if (i === segments.length - 1) {
+        if (child.value) {
+          conflicts.push(`${path} is mapped more than once`);
+        } else if (child.children.size > 0) {
+          conflicts.push(`${path} is mapped to a value but ${child.firstPath} nests fields under it`);
+        } else {
+          child.value = path;
+        }
+      }
+      node = child;
+    }
+  });
+
+  return conflicts;
+}
+
+export function getOutputOptionsIssues(type: MappingOutputType, options: MappingOutputOptions = {}): string[] {
+  const issues: string[] = [];
+  if (type === 'decimal' && options.precision !== undefined) {
+    if (!Number.isInteger(options.precision) || options.precision < 0 || options.precision > MAX_DECIMAL_PRECISION) {
+      issues.push(`Decimal places must be a whole number from 0 to ${MAX_DECIMAL_PRECISION}`);
+    }
+  }
+  if (type === 'enum') {
+    const keys = Object.keys(options.values || {});
+    if (keys.length === 0) issues.push('Add at least one row to the lookup table');
+    if (keys.some(key => !key.trim())) issues.push('Lookup table rows need a source value');
+  }
+  return issues;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/** Converts a mapped value to its output type. Empty values stay null. */
+export function coerceValue(
+  value: unknown,
+  type: MappingOutputType = 'auto',
+  options: MappingOutputOptions = {}
+): { value: unknown; error: string | null } {
+  if (isEmpty(value)) return { value: null, error: null };
+
+  switch (type) {
+    case 'string':
+      return { value: toText(value), error: null };
+    case 'integer':
+    case 'decimal': {
+      const number = toNumber(value);
+      if (!Number.isFinite(number)) return { value: null, error: `"${toText(value)}" is not a number` };
+      if (type === 'integer') return { value: Math.round(number), error: null };
+      return { value: Number(number.toFixed(options.precision ?? DEFAULT_DECIMAL_PRECISION)), error: null };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value, error: null };
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.includes(text)) return { value: true, error: null };
+      if (FALSE_VALUES.includes(text)) return { value: false, error: null };
+      return { value: null, error: `"${toText(value)}" is not a yes/no value` };
+    }
+    case 'date':
+    case 'datetime': {
+      const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value : String(value));
+      if (Number.isNaN(date.getTime())) return { value: null, error: `"${toText(value)}" is not a date` };
+      const iso = date.toISOString();
+      return { value: type === 'date' ? iso.slice(0, 10) : iso, error: null };
+    }
+    case 'enum': {
+      const key = toText(value);
+      const values = options.values || {};
+      if (Object.prototype.hasOwnProperty.call(values, key)) return { value: values[key], error: null };
+      if (!isEmpty(options.fallback)) return { value: options.fallback, error: null };
+      return { value: null, error: `"${key}" is not in the lookup table` };
+    }
+    default:
+      return { value, error: null };
+  }
+}
+
+export interface MappedValue {
+  // What is sent; null when empty or when conversion failed
+  value: unknown;
+  defaultApplied: boolean;
+  // Required, but empty even after the default
+  missing: boolean;
+  error: string | null;
+}
+
+/** Applies a mapping's default value and output type to its (transformed) source value. */
+export function resolveMappedValue(mapping: MappingTarget, value: unknown): MappedValue {
+  const defaultApplied = isEmpty(value) && !isEmpty(mapping.default_value);
+  const coerced = coerceValue(
+    defaultApplied ? mapping.default_value : value,
+    mapping.output_type || 'auto',
+    mapping.output_options || {}
+  );
+  return {
+    value: coerced.value,
+    defaultApplied,
+    missing: !coerced.error && coerced.value === null && mapping.is_required,
+    error: coerced.error,
+  };
+}
+
+function setAtPath(target: Record<string, unknown>, segments: PathSegment[], value: unknown) {
+  let node = target as Record<PathSegment, unknown>;
+  segments.forEach((segment, index) => {
+    if (index === segments.length - 1) {
+      node[segment] = value;
+      return;
+    }
+    const existing = node[segment];
+    if (existing === null || typeof existing !== 'object') {
+      node[segment] = typeof segments[index + 1] === 'number' ? [] : {};
+    }
+    node = node[segment] as Record<PathSegment, unknown>;
+  });
+}
+
+// Unfilled list positions are sent as null rather than left as holes
+function fillHoles(value: unknown): unknown {
+  if (Array.isArray(value)) return Array.from(value, item => (item === undefined ? null : fillHoles(item)));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillHoles(item)]));
+  }
+  return value;
+}
+
+/**
+ * Builds the payload from each mapping's source value: applies defaults,
+ * coerces to the output type and writes the value at its target path.
+ * Mappings that fail are left out and reported in `errors`.
+ */
+export function buildMappedPayload(
+  entries: { mapping: MappingTarget; value: unknown }[]
+): { payload: Record<string, unknown>; errors: string[] } {
+  const errors = findPathConflicts(entries.map(entry => entry.mapping.target_field));
+  const payload: Record<string, unknown> = {};
+  if (errors.length > 0) return { payload, errors };
+
+  entries.forEach(({ mapping, value }) => {
+    const segments = getTargetPathError(mapping.target_field) ? null : parseTargetPath(mapping.target_field);
+    if (!segments) {
+      errors.push(`${mapping.target_field}: invalid target path`);
+      return;
+    }
+
+    const resolved = resolveMappedValue(mapping, value);
+    if (resolved.error) {
+      errors.push(`${mapping.target_field}: ${resolved.error}`);
+      return;
+    }
+    if (resolved.missing) {
+      errors.push(`${mapping.target_field} is required but has no value`);
+      return;
+    }
+    setAtPath(payload, segments, resolved.value);
+  });
+
+  return { payload: fillHoles(payload) as Record<string, unknown>, errors };
+}
@@ -0,0 +1,68 @@
+export const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+
+// How long before sign-out the countdown dialog appears
+export const IDLE_WARNING_MS = 60 * 1000;
+
+export const SESSION_TIMEOUT_OPTIONS = [5, 15, 30, 60, 120, 240, 480];
+
+// Shared across tabs so working in one tab keeps the others signed in
+export const LAST_ACTIVITY_STORAGE_KEY = 'loan-admin.last-activity';
+
+export function readStoredActivity(): number {
+  try {
+    return Number(localStorage.getItem(LAST_ACTIVITY_STORAGE_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function storeActivity(timestamp: number) {
+  try {
+    localStorage.setItem(LAST_ACTIVITY_STORAGE_KEY, String(timestamp));
+  } catch (err) {
+    console.error('Error saving session activity:', err);
+  }
+}
+
+// Signing out forgets the activity so the next sign-in starts afresh
+export function clearStoredActivity() {
+  try {
+    localStorage.removeItem(LAST_ACTIVITY_STORAGE_KEY);
+  } catch (err) {
+    console.error('Error clearing session activity:', err);
+  }
+}
+
+export type IdleStatus = 'active' | 'warning' | 'expired';
+
+export interface IdleState {
+  status: IdleStatus;
+  // Until sign-out, never negative
+  msLeft: number;
+}
+
+export function getIdleState(
+  lastActivity: number,
+  now: number,
+  timeoutMs: number,
+  warningMs: number = IDLE_WARNING_MS
+): IdleState {
+  const msLeft = Math.max(0, lastActivity + timeoutMs - now);
+
+  if (msLeft === 0) return { status: 'expired', msLeft };
+  if (msLeft <= Math.min(warningMs, timeoutMs)) return { status: 'warning', msLeft };
+  return { status: 'active', msLeft };
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function formatTimeoutLabel(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
@@ -0,0 +1,214 @@
+import type { InterestMethod, RepaymentFrequency } from '@/types';
+
+export interface LoanTerms {
+  principal: number;
+  // Percent per annum, e.g. 12 for 12%
+  annualRate: number;
+  termMonths: number;
+  // Leading months in which only interest is paid
+  gracePeriodMonths: number;
+  // Percent of principal deducted up front
+  processingFeePercent: number;
+  interestMethod?: InterestMethod;
+  frequency?: RepaymentFrequency;
+}
+
+export interface ScheduleRow {
+  period: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;
+  isGrace: boolean;
+}
+
+export interface LoanCalculation {
+  // Regular payment per period once the grace period is over
+  installment: number;
+  // Final lump sum for balloon loans, otherwise 0
+  balloonPayment: number;
+  periods: number;
+  schedule: ScheduleRow[];
+  totalInterest: number;
+  processingFee: number;
+  totalRepayment: number;
+  // Annual percentage rate including the processing fee
+  apr: number;
+}
+
+export const INTEREST_METHODS: { value: InterestMethod; label: string; description: string }[] = [
+  {
+    value: 'reducing_balance',
+    label: 'Reducing balance',
+    description: 'Interest is charged on the outstanding balance each period',
+  },
+  {
+    value: 'flat_rate',
+    label: 'Flat rate',
+    description: 'Interest is charged on the original amount for the whole term',
+  },
+  {
+    value: 'balloon',
+    label: 'Simple interest with balloon',
+    description: 'Only interest is paid each period; the principal is repaid at the end',
+  },
+];
+
+export const REPAYMENT_FREQUENCIES: { value: RepaymentFrequency; label: string; periodsPerYear: number }[] = [
+  { value: 'weekly', label: 'Weekly', periodsPerYear: 52 },
+  { value: 'bi_weekly', label: 'Bi-weekly', periodsPerYear: 26 },
+  { value: 'monthly', label: 'Monthly', periodsPerYear: 12 },
+];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function getPeriodsPerYear(frequency: RepaymentFrequency = 'monthly'): number {
+  return REPAYMENT_FREQUENCIES.find(f => f.value === frequency)?.periodsPerYear || 12;
+}
+
+export function getInterestMethodLabel(method: InterestMethod = 'reducing_balance') {
+  return INTEREST_METHODS.find(m => m.value === method)?.label || method;
+}
+
+export function getFrequencyLabel(frequency: RepaymentFrequency = 'monthly') {
+  return REPAYMENT_FREQUENCIES.find(f => f.value === frequency)?.label || frequency;
+}
+
+/**
+ * Converts a duration in months to the number of repayment periods.
+ */
+export function monthsToPeriods(months: number, frequency: RepaymentFrequency = 'monthly'): number {
+  return Math.round(months * getPeriodsPerYear(frequency) / 12);
+}
+
+export function isValidLoanTerms(terms: LoanTerms): boolean {
+  return (
+    [terms.principal, terms.annualRate, terms.termMonths, terms.gracePeriodMonths, terms.processingFeePercent]
+      .every(Number.isFinite) &&
+    terms.principal > 0 &&
+    terms.termMonths >= 1 &&
+    terms.annualRate >= 0
+  );
+}
+
+/**
+ * Level installment that repays `principal` over `periods` at `rate` per period.
+ */
+export function calculateInstallment(principal: number, rate: number, periods: number): number {
+  if (periods <= 0) return principal;
+  if (rate === 0) return principal / periods;
+  return (principal * rate) / (1 - Math.pow(1 + rate, -periods));
+}
+
+/**
+ * Periodic rate at which the present value of `payments` equals `netProceeds`.
+ * Solved by bisection, which is slower than Newton's method but cannot diverge.
+ */
+export function solvePeriodicRate(netProceeds: number, payments: number[]): number {
+  const presentValue = (rate: number) =>
+    payments.reduce((sum, payment, i) => sum + payment / Math.pow(1 + rate, i + 1), 0);
+
+  let low = 0;
+  let high = 1;
+  if (presentValue(low) <= netProceeds) return 0;
+
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(mid) > netProceeds) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Splits each period's payment into principal and interest for the given
+ * method. The grace period counts towards the term and is interest-only.
+ */
+function principalAndInterest(
+  method: InterestMethod,
+  period: number,
+  balance: number,
+  terms: { principal: number; rate: number; periods: number; gracePeriods: number; installment: number }
+): { principal: number; interest: number } {
+  const isGrace = period <= terms.gracePeriods;
+  const amortizingPeriods = terms.periods - terms.gracePeriods;
+
+  switch (method) {
+    case 'flat_rate': {
+      const interest = terms.principal * terms.rate;
+      return { principal: isGrace ? 0 : terms.principal / amortizingPeriods, interest };
+    }
+    case 'balloon': {
+      const interest = terms.principal * terms.rate;
+      return { principal: period === terms.periods ? terms.principal : 0, interest };
+    }
+    default: {
+      const interest = balance * terms.rate;
+      return { principal: isGrace ? 0 : terms.installment - interest, interest };
+    }
+  }
+}
+
+export function calculateLoan(terms: LoanTerms): LoanCalculation {
+  const method = terms.interestMethod || 'reducing_balance';
+  const frequency = terms.frequency || 'monthly';
+  const periods = Math.max(monthsToPeriods(terms.termMonths, frequency), 1);
+  const gracePeriods = method === 'balloon'
+    ? 0
+    : Math.min(Math.max(monthsToPeriods(terms.gracePeriodMonths, frequency), 0), periods - 1);
+  const rate = terms.annualRate / 100 / getPeriodsPerYear(frequency);
+  const installment = method === 'reducing_balance'
+    ? calculateInstallment(terms.principal, rate, periods - gracePeriods)
+    : 0;
+  const context = { principal: terms.principal, rate, periods, gracePeriods, installment };
+
+  const schedule: ScheduleRow[] = [];
+  let balance = terms.principal;
+
+  for (let period = 1; period <= periods; period++) {
+    const split = principalAndInterest(method, period, balance, context);
+    let principal = split.principal;
+
+    // Absorb rounding drift in the final payment
+    if (period === periods) {
+      principal = balance;
+    }
+
+    balance = Math.max(balance - principal, 0);
+    schedule.push({
+      period,
+      payment: roundCents(principal + split.interest),
+      principal: roundCents(principal),
+      interest: roundCents(split.interest),
+      balance: roundCents(balance),
+      isGrace: period <= gracePeriods,
+    });
+  }
+
+  const totalInterest = roundCents(schedule.reduce((sum, row) => sum + row.interest, 0));
+  const processingFee = roundCents(terms.principal * terms.processingFeePercent / 100);
+  const payments = schedule.map(row => row.payment);
+  const apr = solvePeriodicRate(terms.principal - processingFee, payments) * getPeriodsPerYear(frequency) * 100;
+  const regularRow = schedule.find(row => !row.isGrace) || schedule[0];
+
+  return {
+    installment: method === 'balloon' ? schedule[0].payment : regularRow.payment,
+    balloonPayment: method === 'balloon' ? schedule[schedule.length - 1].payment : 0,
+    periods,
+    schedule,
+    totalInterest,
+    processingFee,
+    totalRepayment: roundCents(terms.principal + totalInterest),
+    apr: Math.round(apr * 100) / 100,
+  };
+}
+
+export function formatMoney(amount: number, currencySymbol = '$') {
+  return `${currencySymbol}${amount.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
@@ -0,0 +1,42 @@
+import type { AdminRole } from './permissions';
+
+// Roles the organization MFA policy applies to; viewers cannot change anything
+export const MFA_REQUIRED_ROLES: readonly AdminRole[] = ['super_admin', 'admin'];
+
+export type AssuranceLevel = 'aal1' | 'aal2';
+
+export interface MfaStatus {
+  currentLevel: AssuranceLevel | null;
+  nextLevel: AssuranceLevel | null;
+  verifiedFactorCount: number;
+  // Whether an organization the admin works in requires MFA
+  policyEnabled: boolean;
+}
+
+// pending: still loading; challenge: enter a code for this session;
+// enroll: set up an authenticator before anything else
+export type MfaRequirement = 'pending' | 'satisfied' | 'challenge' | 'enroll';
+
+export function roleRequiresMfa(role: AdminRole | null | undefined, policyEnabled: boolean): boolean {
+  return policyEnabled && !!role && MFA_REQUIRED_ROLES.includes(role);
+}
+
+export function getMfaRequirement(
+  role: AdminRole | null | undefined,
+  status: MfaStatus | null
+): MfaRequirement {
+  if (!status) return 'pending';
+
+  // Anyone with an authenticator verifies it, whether or not the policy asks
+  if (status.verifiedFactorCount > 0 && status.currentLevel !== 'aal2') return 'challenge';
+  if (status.verifiedFactorCount === 0 && roleRequiresMfa(role, status.policyEnabled)) return 'enroll';
+  return 'satisfied';
+}
+
+export function normalizeTotpCode(code: string): string {
+  return code.replace(/\s+/g, '');
+}
+
+export function isValidTotpCode(code: string): boolean {
+  return /^\d{6}$/.test(normalizeTotpCode(code));
+}
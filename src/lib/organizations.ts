@@ -0,0 +1,37 @@
+import { hasPermission, type AdminRole } from '@/lib/permissions';
+
+export const ORGANIZATION_STORAGE_KEY = 'loan-admin.organization-id';
+
+export interface OrganizationSummary {
+  id: string;
+  organization_name: string | null;
+  logo_url?: string | null;
+  created_at: string;
+}
+
+// Super admins work in whichever organization they last picked; everyone
+// else is pinned to the organization on their admin_users row
+export function resolveOrganizationId(
+  role: AdminRole | null | undefined,
+  ownOrganizationId: string | null | undefined,
+  selectedId: string | null
+): string | null {
+  if (hasPermission(role, 'organizations.manage')) {
+    return selectedId || ownOrganizationId || null;
+  }
+  return ownOrganizationId || null;
+}
+
+// Keeps the current organization when it still exists, otherwise falls back
+// to the first one so a stale selection never leaves the panel empty
+export function pickOrganizationId(
+  organizations: Pick<OrganizationSummary, 'id'>[],
+  currentId: string | null
+): string | null {
+  if (currentId && organizations.some(org => org.id === currentId)) return currentId;
+  return organizations[0]?.id ?? null;
+}
+
+export function getOrganizationLabel(organization: Pick<OrganizationSummary, 'id' | 'organization_name'>): string {
+  return organization.organization_name?.trim() || `Organization ${organization.id.slice(0, 8)}`;
+}
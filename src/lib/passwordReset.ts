@@ -0,0 +1,72 @@
+export const PASSWORD_MIN_LENGTH = 12;
+
+export const RESET_PASSWORD_PATH = '/reset-password';
+
+// Passwords people reach for first; longer lists belong in Supabase's
+// leaked-password protection
+const COMMON_PASSWORDS = [
+  'password',
+  'passw0rd',
+  'qwerty',
+  'letmein',
+  'welcome',
+  'admin',
+  'iloveyou',
+  'monkey',
+  'dragon',
+  '123456',
+];
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/];
+
+export type PasswordStrength = 'weak' | 'fair' | 'good' | 'strong';
+
+function countCharacterClasses(password: string): number {
+  return CHARACTER_CLASSES.filter(pattern => pattern.test(password)).length;
+}
+
+// Empty when the password meets the policy
+export function getPasswordIssues(password: string, email?: string | null): string[] {
+  const issues: string[] = [];
+  const lower = password.toLowerCase();
+  const emailName = email?.split('@')[0]?.toLowerCase();
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    issues.push(`Use at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (countCharacterClasses(password) < 3) {
+    issues.push('Mix at least three of lowercase, uppercase, numbers and symbols');
+  }
+  if (COMMON_PASSWORDS.some(common => lower.includes(common))) {
+    issues.push('Avoid common words and sequences such as "password" or "123456"');
+  }
+  if (emailName && emailName.length >= 3 && lower.includes(emailName)) {
+    issues.push('Do not include your email address');
+  }
+
+  return issues;
+}
+
+export function getPasswordStrength(password: string, email?: string | null): PasswordStrength {
+  if (getPasswordIssues(password, email).length > 0) return 'weak';
+
+  const classes = countCharacterClasses(password);
+  if (password.length >= 16 && classes === 4) return 'strong';
+  if (password.length >= 14 || classes === 4) return 'good';
+  return 'fair';
+}
+
+// Supabase reports expired or reused recovery links in the redirect URL
+// instead of creating a session
+export function getRecoveryLinkError(hash: string, search: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const query = new URLSearchParams(search);
+  const code = params.get('error_code') || query.get('error_code');
+  const description = params.get('error_description') || query.get('error_description');
+
+  if (!code && !description && !params.get('error') && !query.get('error')) return null;
+  if (code === 'otp_expired') {
+    return 'This password reset link has expired or was already used. Request a new one.';
+  }
+  return description?.replace(/\+/g, ' ') || 'This password reset link is not valid. Request a new one.';
+}
@@ -0,0 +1,314 @@
+// Payload templates for webhook bodies. Templates can only read values from
+// the context they are given: there is no code execution or prototype access,
+// and a render stops after MAX_RENDER_STEPS nodes and loop passes.
+import { hasOwnKey, readOwnKey, toText } from './values';
+
+export type PayloadMode = 'mapping' | 'template';
+
+export type PayloadFormat = 'json' | 'xml' | 'form';
+
+export const PAYLOAD_FORMATS: { value: PayloadFormat; label: string; contentType: string }[] = [
+  { value: 'json', label: 'JSON', contentType: 'application/json' },
+  { value: 'xml', label: 'XML', contentType: 'application/xml' },
+  { value: 'form', label: 'Form (URL-encoded)', contentType: 'application/x-www-form-urlencoded' },
+];
+
+export const MAX_TEMPLATE_LENGTH = 20000;
+export const MAX_PAYLOAD_LENGTH = 256 * 1024;
+export const MAX_EACH_ITEMS = 500;
+// Nodes rendered plus #each passes, across the whole template
+export const MAX_RENDER_STEPS = 20000;
+const MAX_NESTING = 8;
+
+const PATH_PATTERN = /^(@index|@first|@last|this(\.\w+)*|[A-Za-z_]\w*(\.\w+)*)$/;
+
+export const STARTER_TEMPLATES: Record<PayloadFormat, string> = {
+  json: `{
+  "reference": {{application.id}},
+  "status": {{application.status}},
+  "loan": {
+    "amount": {{application.amount}},
+    "term_months": {{application.term_months}},
+    "purpose": {{application.purpose}}
+  },
+  "applicant": {
+    "name": {{profile.full_name}},
+    "phone": {{profile.phone_number}},
+    "email": {{profile.email}}
+  },
+  "documents": [
+    {{#each documents}}{"name": {{name}}, "required": {{is_mandatory}}}{{#unless @last}},{{/unless}}
+    {{/each}}
+  ]
+}`,
+  xml: `<?xml version="1.0" encoding="UTF-8"?>
+<LoanApplication id="{{application.id}}">
+  <Status>{{application.status}}</Status>
+  <Amount>{{application.amount}}</Amount>
+  <TermMonths>{{application.term_months}}</TermMonths>
+  <Applicant>
+    <Name>{{profile.full_name}}</Name>
+    <Phone>{{profile.phone_number}}</Phone>
+  </Applicant>
+  <Documents>
+    {{#each documents}}<Document required="{{is_mandatory}}">{{name}}</Document>
+    {{/each}}
+  </Documents>
+</LoanApplication>`,
+  form: 'reference={{application.id}}&amount={{application.amount}}&term={{application.term_months}}'
+    + '&name={{profile.full_name}}&phone={{profile.phone_number}}'
+    + '{{#each documents}}&documents[]={{name}}{{/each}}',
+};
+
+// Raised for templates that cannot be parsed or rendered
+export class TemplateError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'TemplateError';
+    this.line = line;
+  }
+}
+
+type BlockKind = 'if' | 'unless' | 'each';
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; line: number }
+  | { type: 'block'; kind: BlockKind; path: string; body: TemplateNode[]; inverse: TemplateNode[]; line: number };
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'block' }>;
+  target: TemplateNode[];
+}
+
+function lineAt(source: string, index: number) {
+  return source.slice(0, index).split('\n').length;
+}
+
+function checkPath(path: string, line: number) {
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateError(`"${path}" is not a valid field path`, line);
+  }
+}
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  let target = root;
+  let position = 0;
+
+  const pushText = (value: string, index: number) => {
+    // A lone }} is fine: nested JSON objects end that way
+    if (value.includes('{{')) {
+      throw new TemplateError('unclosed {{ tag', lineAt(source, index + value.indexOf('{{')));
+    }
+    if (value) target.push({ type: 'text', value });
+  };
+
+  for (const match of source.matchAll(/\{\{([^{}]*)\}\}/g)) {
+    const index = match.index ?? 0;
+    const line = lineAt(source, index);
+    const tag = match[1].trim();
+    pushText(source.slice(position, index), position);
+    position = index + match[0].length;
+
+    if (tag.startsWith('!')) continue;
+
+    if (tag.startsWith('#')) {
+      const [keyword, path, ...rest] = tag.slice(1).trim().split(/\s+/);
+      if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') {
+        throw new TemplateError(`unknown block "#${keyword}"; use #if, #unless or #each`, line);
+      }
+      if (!path || rest.length > 0) {
+        throw new TemplateError(`#${keyword} needs exactly one field path`, line);
+      }
+      checkPath(path, line);
+      if (stack.length >= MAX_NESTING) {
+        throw new TemplateError(`blocks cannot be nested more than ${MAX_NESTING} deep`, line);
+      }
+      const node: OpenBlock['node'] = { type: 'block', kind: keyword, path, body: [], inverse: [], line };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.body;
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || target === open.node.inverse) {
+        throw new TemplateError('{{else}} outside a block', line);
+      }
+      target = open.node.inverse;
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open) {
+        throw new TemplateError(`{{/${keyword}}} has no matching block`, line);
+      }
+      if (open.node.kind !== keyword) {
+        throw new TemplateError(`expected {{/${open.node.kind}}} to close the block on line ${open.node.line}`, line);
+      }
+      target = open.target;
+    } else {
+      checkPath(tag, line);
+      target.push({ type: 'value', path: tag, line });
+    }
+  }
+
+  pushText(source.slice(position), position);
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(`{{#${unclosed.node.kind}}} is never closed`, unclosed.node.line);
+  }
+  return root;
+}
+
+interface Scope {
+  value: unknown;
+  index?: number;
+  length?: number;
+}
+
+// Names resolve against the current #each item first, then outer scopes
+function lookup(path: string, scopes: Scope[]): unknown {
+  const loop = [...scopes].reverse().find(scope => scope.index !== undefined);
+  if (path === '@index') return loop?.index;
+  if (path === '@first') return loop ? loop.index === 0 : undefined;
+  if (path === '@last') return loop ? loop.index === (loop.length ?? 0) - 1 : undefined;
+
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+  if (head === 'this') {
+    value = scopes[scopes.length - 1].value;
+  } else {
+    const scope = [...scopes].reverse().find(s => hasOwnKey(s.value, head));
+    value = scope ? readOwnKey(scope.value, head) : undefined;
+  }
+  return rest.reduce(readOwnKey, value);
+}
+
+function isTruthy(value: unknown) {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+}
+
+export function escapeValue(value: unknown, format: PayloadFormat): string {
+  switch (format) {
+    case 'json':
+      // Values are inserted as JSON literals: strings arrive quoted
+      return JSON.stringify(value === undefined ? null : value);
+    case 'xml':
+      return toText(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+    case 'form':
+      return encodeURIComponent(toText(value)).replace(/%20/g, '+');
+  }
+}
+
+interface Output {
+  parts: string[];
+  length: number;
+  steps: number;
+}
+
+// Counts work that writes nothing too, such as an #each with an empty body
+function step(output: Output, line: number) {
+  output.steps += 1;
+  if (output.steps > MAX_RENDER_STEPS) {
+    throw new TemplateError(`the template does more than ${MAX_RENDER_STEPS} steps; loop over fewer items`, line);
+  }
+}
+
+function write(output: Output, text: string, line: number) {
+  output.length += text.length;
+  if (output.length > MAX_PAYLOAD_LENGTH) {
+    throw new TemplateError(`the rendered body is larger than ${MAX_PAYLOAD_LENGTH / 1024} KB`, line);
+  }
+  output.parts.push(text);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], format: PayloadFormat, output: Output, line = 1) {
+  for (const node of nodes) {
+    step(output, node.type === 'text' ? line : node.line);
+    if (node.type === 'text') {
+      write(output, node.value, line);
+    } else if (node.type === 'value') {
+      write(output, escapeValue(lookup(node.path, scopes), format), node.line);
+    } else if (node.kind === 'each') {
+      const items = lookup(node.path, scopes);
+      if (!Array.isArray(items) || items.length === 0) {
+        renderNodes(node.inverse, scopes, format, output, node.line);
+        continue;
+      }
+      if (items.length > MAX_EACH_ITEMS) {
+        throw new TemplateError(`${node.path} has more than ${MAX_EACH_ITEMS} items`, node.line);
+      }
+      items.forEach((item, index) => {
+        step(output, node.line);
+        renderNodes(node.body, [...scopes, { value: item, index, length: items.length }], format, output, node.line);
+      });
+    } else {
+      const passes = isTruthy(lookup(node.path, scopes)) === (node.kind === 'if');
+      renderNodes(passes ? node.body : node.inverse, scopes, format, output, node.line);
+    }
+  }
+}
+
+export function renderTemplate(source: string, context: Record<string, unknown>, format: PayloadFormat): string {
+  if (source.length > MAX_TEMPLATE_LENGTH) {
+    throw new TemplateError(`templates are limited to ${MAX_TEMPLATE_LENGTH} characters`, 1);
+  }
+  const output: Output = { parts: [], length: 0, steps: 0 };
+  renderNodes(parseTemplate(source), [{ value: context }], format, output);
+  return output.parts.join('');
+}
+
+/**
+ * Renders a webhook body and checks JSON bodies parse. The body is returned
+ * alongside a JSON error so the preview can show what went wrong.
+ */
+export function renderPayload(
+  source: string,
+  context: Record<string, unknown>,
+  format: PayloadFormat
+): { body: string | null; error: string | null } {
+  let body: string;
+  try {
+    body = renderTemplate(source, context, format);
+  } catch (err) {
+    return { body: null, error: err instanceof Error ? err.message : 'Failed to render template' };
+  }
+
+  if (format === 'json') {
+    try {
+      JSON.parse(body);
+    } catch (err) {
+      return { body, error: `The rendered body is not valid JSON: ${err instanceof Error ? err.message : err}` };
+    }
+  }
+  return { body, error: null };
+}
+
+export interface PayloadContextSource {
+  application: Record<string, unknown>;
+  profile?: Record<string, unknown> | null;
+  product?: Record<string, unknown> | null;
+  documents?: Record<string, unknown>[];
+  event?: Record<string, unknown> | null;
+}
+
+/** The values a template can read, shared by the preview and the sender. */
+export function buildPayloadContext(source: PayloadContextSource, now: Date = new Date()): Record<string, unknown> {
+  return {
+    application: source.application,
+    profile: source.profile ?? {},
+    product: source.product ?? {},
+    documents: source.documents ?? [],
+    event: source.event ?? {},
+    timestamp: now.toISOString(),
+  };
+}
@@ -0,0 +1,81 @@
+import type { AdminUser } from '@/hooks/useAuth';
+
+export type AdminRole = AdminUser['role'];
+
+export type Permission =
+  | 'organization.write'
+  | 'theme.write'
+  | 'products.write'
+  | 'documents.write'
+  | 'applications.view'
+  | 'applications.decide'
+  | 'applications.delete'
+  | 'users.view'
+  | 'users.export'
+  | 'users.notify'
+  | 'integrations.view'
+  | 'integrations.manage'
+  | 'audit.view'
+  | 'changes.review'
+  | 'dual_control.manage'
+  | 'security.manage'
+  | 'team.manage'
+  | 'organizations.manage';
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'Super Admin',
+  admin: 'Admin',
+  viewer: 'Viewer',
+};
+
+const VIEWER_PERMISSIONS: Permission[] = [
+  'applications.view',
+  'users.view',
+  'audit.view',
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  'organization.write',
+  'theme.write',
+  'products.write',
+  'documents.write',
+  'applications.decide',
+  'users.export',
+  'users.notify',
+  'integrations.view',
+  'integrations.manage',
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  viewer: VIEWER_PERMISSIONS,
+  admin: ADMIN_PERMISSIONS,
+  super_admin: [
+    ...ADMIN_PERMISSIONS,
+    'applications.delete',
+    'changes.review',
+    'dual_control.manage',
+    'security.manage',
+    'team.manage',
+    'organizations.manage',
+  ],
+};
+
+// Pages a role cannot open at all; everything else is readable by every admin
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  '/applications': 'applications.view',
+  '/users': 'users.view',
+  '/integrations': 'integrations.view',
+  '/audit-log': 'audit.view',
+  '/team': 'team.manage',
+  '/organizations': 'organizations.manage',
+};
+
+export function hasPermission(role: AdminRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role]?.includes(permission);
+}
+
+export function canAccessRoute(role: AdminRole | null | undefined, path: string): boolean {
+  const permission = ROUTE_PERMISSIONS[path];
+  return !permission || hasPermission(role, permission);
+}
@@ -0,0 +1,108 @@
+import type { LoanProduct, PricingTier, RiskGrade } from '@/types';
+
+export interface PricingInput {
+  amount: number;
+  termMonths: number;
+  riskGrade?: RiskGrade | null;
+}
+
+export interface ResolvedPricing {
+  // The matching tier, or null when the product's base price applies
+  tier: PricingTier | null;
+  interest_rate: number;
+  processing_fee: number;
+}
+
+type PricedProduct = Pick<LoanProduct, 'interest_rate' | 'processing_fee' | 'pricing_tiers'>;
+
+export const RISK_GRADES: RiskGrade[] = ['A', 'B', 'C', 'D', 'E'];
+
+export function createPricingTier(base: Pick<LoanProduct, 'interest_rate' | 'processing_fee'>): PricingTier {
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    min_amount: null,
+    max_amount: null,
+    min_term_months: null,
+    max_term_months: null,
+    risk_grades: [],
+    interest_rate: base.interest_rate,
+    processing_fee: base.processing_fee,
+  };
+}
+
+const isSet = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined && Number.isFinite(value);
+
+const inRange = (value: number, min?: number | null, max?: number | null) =>
+  (!isSet(min) || value >= min) && (!isSet(max) || value <= max);
+
+export function tierMatches(tier: PricingTier, input: PricingInput): boolean {
+  if (!inRange(input.amount, tier.min_amount, tier.max_amount)) return false;
+  if (!inRange(input.termMonths, tier.min_term_months, tier.max_term_months)) return false;
+  if (tier.risk_grades.length === 0) return true;
+  // A graded tier cannot match an applicant who has not been graded
+  return !!input.riskGrade && tier.risk_grades.includes(input.riskGrade);
+}
+
+/**
+ * Resolves the rate and fee a borrower is charged. Tiers are checked in the
+ * order they are stored and the first match wins; without a match the
+ * product's own interest_rate and processing_fee apply.
+ */
+export function resolvePricing(product: PricedProduct, input: PricingInput): ResolvedPricing {
+  const tier = (product.pricing_tiers || []).find(t => tierMatches(t, input)) || null;
+
+  return {
+    tier,
+    interest_rate: tier ? tier.interest_rate : product.interest_rate,
+    processing_fee: tier ? tier.processing_fee : product.processing_fee,
+  };
+}
+
+/**
+ * Problems that would stop a tier from ever matching as intended.
+ */
+export function validatePricingTiers(tiers: PricingTier[]): string[] {
+  const errors: string[] = [];
+
+  tiers.forEach((tier, index) => {
+    const label = tier.name || `Tier ${index + 1}`;
+    if (!tier.name.trim()) {
+      errors.push(`${label}: name is required`);
+    }
+    if (isSet(tier.min_amount) && isSet(tier.max_amount) && tier.min_amount > tier.max_amount) {
+      errors.push(`${label}: minimum amount is above the maximum`);
+    }
+    if (isSet(tier.min_term_months) && isSet(tier.max_term_months) && tier.min_term_months > tier.max_term_months) {
+      errors.push(`${label}: minimum term is above the maximum`);
+    }
+    if (!Number.isFinite(tier.interest_rate) || tier.interest_rate < 0) {
+      errors.push(`${label}: interest rate must be non-negative`);
+    }
+    if (!Number.isFinite(tier.processing_fee) || tier.processing_fee < 0) {
+      errors.push(`${label}: processing fee must be non-negative`);
+    }
+  });
+
+  return errors;
+}
+
+const describeRange = (min: number | null | undefined, max: number | null | undefined, unit: string) => {
+  if (isSet(min) && isSet(max)) return `${min}–${max}${unit}`;
+  if (isSet(min)) return `≥ ${min}${unit}`;
+  if (isSet(max)) return `≤ ${max}${unit}`;
+  return null;
+};
+
+export function describeTier(tier: PricingTier, currencySymbol = '$'): string {
+  const amount = describeRange(tier.min_amount, tier.max_amount, '');
+  const term = describeRange(tier.min_term_months, tier.max_term_months, ' months');
+  const parts = [
+    amount && `amount ${currencySymbol}${amount}`,
+    term && `term ${term}`,
+    tier.risk_grades.length > 0 && `grade ${tier.risk_grades.join('/')}`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(', ') : 'all applications';
+}
@@ -0,0 +1,127 @@
+import type {
+  LoanProductDocument,
+  LoanProductVersion,
+  ProductTerms,
+  ProductVersionSnapshot,
+} from '@/types';
+
+export type VersionState = 'draft' | 'scheduled' | 'live' | 'superseded';
+
+export interface TermChange {
+  field: keyof ProductVersionSnapshot;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export const PRODUCT_TERM_LABELS: Record<keyof ProductVersionSnapshot, string> = {
+  name: 'Name',
+  description: 'Description',
+  purpose: 'Purpose',
+  min_amount: 'Minimum amount',
+  max_amount: 'Maximum amount',
+  min_term_months: 'Minimum term (months)',
+  max_term_months: 'Maximum term (months)',
+  interest_rate: 'Interest rate (% p.a.)',
+  interest_method: 'Interest method',
+  repayment_frequency: 'Repayment frequency',
+  processing_fee: 'Processing fee (%)',
+  late_payment_fee: 'Late payment fee (%)',
+  grace_period_months: 'Grace period (months)',
+  eligibility_criteria: 'Eligibility rules',
+  pricing_tiers: 'Pricing tiers',
+  required_documents: 'Required documents',
+  icon_name: 'Icon',
+  documents: 'Document requirements',
+};
+
+const TERM_FIELDS = Object.keys(PRODUCT_TERM_LABELS) as (keyof ProductVersionSnapshot)[];
+
+export function buildProductSnapshot(
+  terms: ProductTerms,
+  documents: Partial<LoanProductDocument>[]
+): ProductVersionSnapshot {
+  return {
+    name: terms.name,
+    description: terms.description,
+    purpose: terms.purpose,
+    min_amount: terms.min_amount,
+    max_amount: terms.max_amount,
+    min_term_months: terms.min_term_months,
+    max_term_months: terms.max_term_months,
+    interest_rate: terms.interest_rate,
+    interest_method: terms.interest_method,
+    repayment_frequency: terms.repayment_frequency,
+    processing_fee: terms.processing_fee,
+    late_payment_fee: terms.late_payment_fee,
+    grace_period_months: terms.grace_period_months,
+    eligibility_criteria: terms.eligibility_criteria,
+    pricing_tiers: terms.pricing_tiers || [],
+    required_documents: terms.required_documents,
+    icon_name: terms.icon_name,
+    documents: documents
+      .filter(d => d.document_type_id)
+      .map((d, index) => ({
+        document_type_id: d.document_type_id!,
+        is_mandatory: d.is_mandatory ?? true,
+        custom_instructions: d.custom_instructions || null,
+        display_order: d.display_order ?? index,
+      })),
+  };
+}
+
+const isEffective = (version: LoanProductVersion, now: Date) =>
+  version.status === 'published' &&
+  (!version.effective_from || new Date(version.effective_from) <= now);
+
+/**
+ * The published version whose terms apply at `at`: the effective version
+ * with the latest effective date, ties broken by version number.
+ */
+export function getVersionInEffect(versions: LoanProductVersion[], at: Date = new Date()): LoanProductVersion | null {
+  return versions
+    .filter(v => isEffective(v, at))
+    .sort((a, b) => {
+      const byDate = new Date(b.effective_from || b.published_at || b.created_at).getTime() -
+        new Date(a.effective_from || a.published_at || a.created_at).getTime();
+      return byDate || b.version_number - a.version_number;
+    })[0] || null;
+}
+
+export function getVersionState(
+  version: LoanProductVersion,
+  versions: LoanProductVersion[],
+  now: Date = new Date()
+): VersionState {
+  if (version.status === 'draft') return 'draft';
+  if (!isEffective(version, now)) return 'scheduled';
+  return getVersionInEffect(versions, now)?.id === version.id ? 'live' : 'superseded';
+}
+
+/**
+ * Field-level changes between two snapshots. Objects are compared by their
+ * JSON so reordered eligibility rules or tiers count as a change.
+ */
+export function diffSnapshots(
+  before: ProductVersionSnapshot | null,
+  after: ProductVersionSnapshot
+): TermChange[] {
+  return TERM_FIELDS
+    .filter(field => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({
+      field,
+      label: PRODUCT_TERM_LABELS[field],
+      before: before?.[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
+
+export function formatTermValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'none';
+    return value.every(v => typeof v !== 'object') ? value.join(', ') : `${value.length} item(s)`;
+  }
+  if (typeof value === 'object') return 'configured';
+  return String(value).replace(/_/g, ' ');
+}
@@ -0,0 +1,408 @@
+// Transformation pipelines for webhook field mappings. Each mapping runs its
+// steps in order, e.g. split_last -> uppercase -> truncate(20).
+import { ageInYears, namePart, toNumber, toText, words } from './values';
+
+export interface ValueMapping {
+  from: string;
+  to: string;
+}
+
+export interface TransformationStep {
+  name: string;
+  params?: Record<string, string>;
+  // map_values only
+  values?: ValueMapping[];
+}
+
+export interface TransformationParam {
+  key: string;
+  label: string;
+  kind: 'text' | 'number' | 'country';
+  placeholder?: string;
+  required?: boolean;
+}
+
+interface TransformationDefinition {
+  name: string;
+  label: string;
+  description: string;
+  params: TransformationParam[];
+  // Issues with the step's settings, checked before it is saved
+  validate?: (step: TransformationStep) => string[];
+  // Returns the new value, or throws a TransformError for values it cannot handle
+  apply: (value: unknown, step: TransformationStep, now: Date) => unknown;
+}
+
+// Raised by a step for a value it cannot transform
+export class TransformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+export const MAX_STEPS = 10;
+const MAX_PATTERN_LENGTH = 200;
+const REGEX_FLAGS = /^[gimsu]*$/;
+// Quantifiers that can repeat what they follow; ? only makes it optional
+const REPEATS = ['+', '*', '{'];
+const QUANTIFIERS = [...REPEATS, '?'];
+
+// Calling codes for phone_e164. Numbers starting with the trunk 0 lose it.
+export const CALLING_CODES: { country: string; label: string; code: string }[] = [
+  { country: 'KE', label: 'Kenya', code: '254' },
+  { country: 'UG', label: 'Uganda', code: '256' },
+  { country: 'TZ', label: 'Tanzania', code: '255' },
+  { country: 'RW', label: 'Rwanda', code: '250' },
+  { country: 'NG', label: 'Nigeria', code: '234' },
+  { country: 'GH', label: 'Ghana', code: '233' },
+  { country: 'ZA', label: 'South Africa', code: '27' },
+  { country: 'ZM', label: 'Zambia', code: '260' },
+  { country: 'GB', label: 'United Kingdom', code: '44' },
+  { country: 'US', label: 'United States', code: '1' },
+];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DATE_TOKENS = /'[^']*'|yyyy|yy|MMM|MM|M|dd|d|HH|mm|ss/g;
+
+function param(step: TransformationStep, key: string) {
+  return (step.params?.[key] ?? '').trim();
+}
+
+function toDate(value: unknown) {
+  const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value : toText(value));
+  if (Number.isNaN(date.getTime())) throw new TransformError(`"${toText(value)}" is not a date`);
+  return date;
+}
+
+// Like toNumber, but allows thousands separators and throws
+function requireNumber(value: unknown) {
+  const number = toNumber(typeof value === 'string' ? value.replace(/,/g, '') : value);
+  if (!Number.isFinite(number)) throw new TransformError(`"${toText(value)}" is not a number`);
+  return number;
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0');
+}
+
+/** Formats in UTC with yyyy, yy, MMM, MM, M, dd, d, HH, mm and ss. Quote literal text: 'at'. */
+export function formatDatePattern(date: Date, pattern: string): string {
+  return pattern.replace(DATE_TOKENS, (token) => {
+    switch (token) {
+      case 'yyyy': return String(date.getUTCFullYear());
+      case 'yy': return pad(date.getUTCFullYear() % 100);
+      case 'MMM': return MONTHS[date.getUTCMonth()];
+      case 'MM': return pad(date.getUTCMonth() + 1);
+      case 'M': return String(date.getUTCMonth() + 1);
+      case 'dd': return pad(date.getUTCDate());
+      case 'd': return String(date.getUTCDate());
+      case 'HH': return pad(date.getUTCHours());
+      case 'mm': return pad(date.getUTCMinutes());
+      case 'ss': return pad(date.getUTCSeconds());
+      default: return token.slice(1, -1);
+    }
+  });
+}
+
+/** Normalizes a phone number to E.164 (+254712345678), assuming `country` for local numbers. */
+export function toE164(value: string, country: string): string {
+  const callingCode = CALLING_CODES.find(c => c.country === country)?.code;
+  if (!callingCode) throw new TransformError(`unknown country "${country}"`);
+
+  const cleaned = value.trim().replace(/[\s().-]/g, '');
+  let digits: string;
+  if (cleaned.startsWith('+')) {
+    digits = cleaned.slice(1);
+  } else if (cleaned.startsWith('00')) {
+    digits = cleaned.slice(2);
+  } else if (cleaned.startsWith('0')) {
+    digits = callingCode + cleaned.slice(1);
+  } else if (cleaned.startsWith(callingCode) && cleaned.length > callingCode.length + 8) {
+    digits = cleaned;
+  } else {
+    digits = callingCode + cleaned;
+  }
+
+  if (!/^[1-9]\d{7,14}$/.test(digits)) throw new TransformError(`"${value}" is not a valid phone number`);
+  return `+${digits}`;
+}
+
+interface GroupScan {
+  // Something inside is optional or repeats, e.g. a? or a+
+  varies: boolean;
+  // Something inside offers alternatives, e.g. a|aa
+  alternates: boolean;
+}
+
+// Why a pattern can take exponential time to fail a match, or null. Repeating
+// a group is unsafe when the group can match the same text in more than one
+// way: it already varies, like (a+)+ or (a?){20}, or it has alternatives,
+// like (a|aa)+.
+function unsafeRepetition(pattern: string): string | null {
+  const groups: GroupScan[] = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const current = groups[groups.length - 1];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      if (char === ']') inClass = false;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push({ varies: false, alternates: false });
+      // (?:, (?= and the like are group syntax, not an optional (
+      if (pattern[i + 1] === '?') i++;
+    } else if (char === ')') {
+      const group = groups.pop() ?? { varies: false, alternates: false };
+      const next = pattern[i + 1];
+      if (REPEATS.includes(next)) {
+        if (group.varies) return 'Pattern cannot repeat a group that already repeats, like (a+)+';
+        if (group.alternates) return 'Pattern cannot repeat a group with alternatives, like (a|aa)+';
+      }
+      const parent = groups[groups.length - 1];
+      if (parent) {
+        parent.varies ||= group.varies || QUANTIFIERS.includes(next);
+        parent.alternates ||= group.alternates;
+      }
+    } else if (current && char === '|') {
+      current.alternates = true;
+    } else if (current && QUANTIFIERS.includes(char)) {
+      current.varies = true;
+    }
+  }
+  return null;
+}
+
+// Checked when the step runs as well as when it is saved, so stored
+// pipelines that skipped the form cannot run an unsafe pattern
+function compileRegex(step: TransformationStep) {
+  const pattern = step.params?.pattern ?? '';
+  const flags = param(step, 'flags');
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new TransformError(`Pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+  }
+  if (!REGEX_FLAGS.test(flags)) throw new TransformError('Flags may only contain g, i, m, s and u');
+  const unsafe = unsafeRepetition(pattern);
+  if (unsafe) throw new TransformError(unsafe);
+  try {
+    return new RegExp(pattern, flags || 'g');
+  } catch (err) {
+    throw new TransformError(`Invalid pattern: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function positiveInteger(step: TransformationStep, key: string, label: string, allowZero = false) {
+  const value = param(step, key);
+  if (!value) return [];
+  const number = Number(value);
+  return Number.isInteger(number) && (allowZero ? number >= 0 : number > 0)
+    ? []
+    : [`${label} must be a whole number${allowZero ? '' : ' above 0'}`];
+}
+
+export const TRANSFORMATIONS: TransformationDefinition[] = [
+  {
+    name: 'uppercase',
+    label: 'Uppercase',
+    description: 'JANE DOE',
+    params: [],
+    apply: value => toText(value).toUpperCase(),
+  },
+  {
+    name: 'lowercase',
+    label: 'Lowercase',
+    description: 'jane doe',
+    params: [],
+    apply: value => toText(value).toLowerCase(),
+  },
+  {
+    name: 'trim',
+    label: 'Trim spaces',
+    description: 'Removes spaces at either end and collapses repeated spaces',
+    params: [],
+    apply: value => words(value).join(' '),
+  },
+  {
+    name: 'split_first',
+    label: 'Split First Name',
+    description: 'The first word',
+    params: [],
+    apply: value => namePart(value, 'first'),
+  },
+  {
+    name: 'split_last',
+    label: 'Split Last Name',
+    description: 'The last word',
+    params: [],
+    apply: value => namePart(value, 'last'),
+  },
+  {
+    name: 'truncate',
+    label: 'Truncate',
+    description: 'Keeps at most the given number of characters',
+    params: [{ key: 'length', label: 'Maximum length', kind: 'number', placeholder: '20', required: true }],
+    validate: step => positiveInteger(step, 'length', 'Maximum length'),
+    apply: (value, step) => Array.from(toText(value)).slice(0, Number(param(step, 'length'))).join(''),
+  },
+  {
+    name: 'append_months',
+    label: 'Append " months"',
+    description: '12 months',
+    params: [],
+    apply: value => `${toText(value)} months`,
+  },
+  {
+    name: 'calculate_age',
+    label: 'Calculate Age',
+    description: 'Age in whole years from a date of birth',
+    params: [],
+    apply: (value, _step, now) => ageInYears(toDate(value), now),
+  },
+  {
+    name: 'generate_email',
+    label: 'Generate Email',
+    description: 'jane.doe@domain from a name',
+    params: [{ key: 'domain', label: 'Domain', kind: 'text', placeholder: 'example.com' }],
+    apply: (value, step) => {
+      const local = words(value).map(w => w.toLowerCase().replace(/[^a-z0-9]/g, '')).filter(Boolean).join('.');
+      if (!local) throw new TransformError(`cannot make an email address from "${toText(value)}"`);
+      return `${local}@${param(step, 'domain') || 'example.com'}`;
+    },
+  },
+  {
+    name: 'date_format',
+    label: 'Format Date',
+    description: 'Formats a date with a pattern, in UTC',
+    params: [{ key: 'pattern', label: 'Pattern', kind: 'text', placeholder: 'yyyy-MM-dd' }],
+    apply: (value, step) => formatDatePattern(toDate(value), param(step, 'pattern') || 'yyyy-MM-dd'),
+  },
+  {
+    name: 'phone_e164',
+    label: 'Phone to E.164',
+    description: '0712 345 678 -> +254712345678',
+    params: [{ key: 'country', label: 'Country for local numbers', kind: 'country', required: true }],
+    validate: (step) => {
+      const country = param(step, 'country');
+      return !country || CALLING_CODES.some(c => c.country === country) ? [] : [`Unknown country "${country}"`];
+    },
+    apply: (value, step) => toE164(toText(value), param(step, 'country')),
+  },
+  {
+    name: 'currency_minor',
+    label: 'Currency to minor units',
+    description: '1234.56 -> 123456',
+    params: [{ key: 'decimals', label: 'Decimal places of the currency', kind: 'number', placeholder: '2' }],
+    validate: step => positiveInteger(step, 'decimals', 'Decimal places', true),
+    apply: (value, step) => Math.round(requireNumber(value) * 10 ** Number(param(step, 'decimals') || 2)),
+  },
+  {
+    name: 'regex_replace',
+    label: 'Regex replace',
+    description: 'Replaces matches of a regular expression',
+    params: [
+      { key: 'pattern', label: 'Pattern', kind: 'text', placeholder: '[^0-9]', required: true },
+      { key: 'replacement', label: 'Replacement', kind: 'text', placeholder: '$1 or empty to remove' },
+      { key: 'flags', label: 'Flags', kind: 'text', placeholder: 'g' },
+    ],
+    validate: (step) => {
+      try {
+        compileRegex(step);
+        return [];
+      } catch (err) {
+        return [err instanceof Error ? err.message : String(err)];
+      }
+    },
+    apply: (value, step) => toText(value).replace(compileRegex(step), step.params?.replacement ?? ''),
+  },
+  {
+    name: 'map_values',
+    label: 'Map values',
+    description: 'Replaces values using a table; others pass through unless a fallback is set',
+    params: [{ key: 'fallback', label: 'Fallback (optional)', kind: 'text', placeholder: 'Sent for values not in the table' }],
+    validate: (step) => {
+      const sources = (step.values || []).map(row => row.from.trim());
+      if (sources.length === 0) return ['Add at least one row to the table'];
+      if (sources.some(source => !source)) return ['Table rows need a source value'];
+      if (new Set(sources).size !== sources.length) return ['Each source value can only appear once'];
+      return [];
+    },
+    apply: (value, step) => {
+      const row = (step.values || []).find(r => r.from.trim() === toText(value));
+      if (row) return row.to;
+      return param(step, 'fallback') ? step.params?.fallback : value;
+    },
+  },
+];
+
+export function getTransformation(name: string) {
+  return TRANSFORMATIONS.find(t => t.name === name);
+}
+
+/** Label for the mappings table, e.g. "Truncate (20)". */
+export function describeStep(step: TransformationStep): string {
+  const definition = getTransformation(step.name);
+  if (!definition) return step.name;
+  const values = definition.params.map(p => step.params?.[p.key]).filter(Boolean);
+  return values.length > 0 ? `${definition.label} (${values.join(', ')})` : definition.label;
+}
+
+/** Steps for a mapping, falling back to the single legacy `transformation`. */
+export function getMappingSteps(mapping: {
+  transformation?: string | null;
+  transformations?: TransformationStep[] | null;
+}): TransformationStep[] {
+  if (mapping.transformations && mapping.transformations.length > 0) return mapping.transformations;
+  if (mapping.transformation && mapping.transformation !== 'none') return [{ name: mapping.transformation }];
+  return [];
+}
+
+/** Problems with a pipeline's settings, each prefixed with its step number. */
+export function getPipelineIssues(steps: TransformationStep[]): string[] {
+  const issues: string[] = [];
+  if (steps.length > MAX_STEPS) issues.push(`A mapping can have at most ${MAX_STEPS} transformations`);
+
+  steps.forEach((step, index) => {
+    const definition = getTransformation(step.name);
+    if (!definition) {
+      issues.push(`Step ${index + 1}: unknown transformation "${step.name}"`);
+      return;
+    }
+    const stepIssues = [
+      ...definition.params
+        .filter(p => p.required && !(step.params?.[p.key] ?? '').trim())
+        .map(p => `${p.label} is required`),
+      ...(definition.validate?.(step) ?? []),
+    ];
+    stepIssues.forEach(issue => issues.push(`Step ${index + 1} (${definition.label}): ${issue}`));
+  });
+  return issues;
+}
+
+/**
+ * Runs the steps in order. Empty values skip the pipeline so the mapping's
+ * default can apply. Stops at the first step that fails.
+ */
+export function applyTransformations(
+  value: unknown,
+  steps: TransformationStep[],
+  now: Date = new Date()
+): { value: unknown; error: string | null } {
+  let current = value;
+  for (let index = 0; index < steps.length; index++) {
+    if (current === undefined || current === null || current === '') return { value: null, error: null };
+
+    const step = steps[index];
+    const definition = getTransformation(step.name);
+    if (!definition) return { value: null, error: `Step ${index + 1}: unknown transformation "${step.name}"` };
+    try {
+      current = definition.apply(current, step, now);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { value: null, error: `Step ${index + 1} (${definition.label}): ${message}` };
+    }
+  }
+  return { value: current === '' ? null : current, error: null };
+}
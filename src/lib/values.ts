@@ -0,0 +1,54 @@
+// Value helpers shared by the webhook mapping, transformation, template and
+// header modules and by eligibility rules, so they read and convert values
+// the same way.
+
+// Never read through the prototype chain
+const BLOCKED_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+export function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/** Text for a value: objects as JSON, empty values as ''. */
+export function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/** Numbers as given, numeric text trimmed; anything else is NaN. */
+export function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value.trim());
+  return Number.NaN;
+}
+
+export function words(value: unknown): string[] {
+  return toText(value).trim().split(/\s+/).filter(Boolean);
+}
+
+/** The first or last word of a name; a one-word name is both. */
+export function namePart(value: unknown, part: 'first' | 'last'): string {
+  const parts = words(value);
+  return (part === 'first' ? parts[0] : parts[parts.length - 1]) ?? '';
+}
+
+/**
+ * Whole years between two dates, counted in UTC. Dates of birth are stored as
+ * plain dates, which parse as UTC midnight; local time would be a day off
+ * west of UTC.
+ */
+export function ageInYears(born: Date, asOf: Date): number {
+  const age = asOf.getUTCFullYear() - born.getUTCFullYear();
+  const birthdayPassed = asOf.getUTCMonth() > born.getUTCMonth()
+    || (asOf.getUTCMonth() === born.getUTCMonth() && asOf.getUTCDate() >= born.getUTCDate());
+  return birthdayPassed ? age : age - 1;
+}
+
+export function hasOwnKey(value: unknown, key: string): boolean {
+  return value !== null && typeof value === 'object' && !BLOCKED_KEYS.includes(key)
+    && Object.prototype.hasOwnProperty.call(value, key);
+}
+
+export function readOwnKey(value: unknown, key: string): unknown {
+  return hasOwnKey(value, key) ? (value as Record<string, unknown>)[key] : undefined;
+}
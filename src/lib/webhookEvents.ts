@@ -0,0 +1,166 @@
+import { OPERATORS_BY_KIND } from './eligibility';
+import type { EligibilityOperator, WebhookEventCondition, WebhookEventType } from '@/types';
+
+type FieldKind = 'number' | 'string';
+
+export interface WebhookEventField {
+  value: string;
+  label: string;
+  kind: FieldKind;
+  // Offer the organization's workflow states instead of free text
+  isStatus?: boolean;
+}
+
+export interface WebhookEventDefinition {
+  value: WebhookEventType;
+  label: string;
+  description: string;
+  // Payload keys that filter conditions can reference
+  fields: WebhookEventField[];
+}
+
+const APPLICATION_FIELDS: WebhookEventField[] = [
+  { value: 'amount', label: 'Loan amount', kind: 'number' },
+  { value: 'term_months', label: 'Term (months)', kind: 'number' },
+  { value: 'purpose', label: 'Loan purpose', kind: 'string' },
+];
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventDefinition[] = [
+  {
+    value: 'application.created',
+    label: 'Application created',
+    description: 'A borrower submits a loan application',
+    fields: APPLICATION_FIELDS,
+  },
+  {
+    value: 'application.status_changed',
+    label: 'Application status changed',
+    description: 'An application moves to another workflow state',
+    fields: [
+      { value: 'new_status', label: 'New status', kind: 'string', isStatus: true },
+      { value: 'old_status', label: 'Previous status', kind: 'string', isStatus: true },
+      ...APPLICATION_FIELDS,
+    ],
+  },
+  {
+    value: 'user.kyc_verified',
+    label: 'User KYC verified',
+    description: "A borrower's identity check passes",
+    fields: [],
+  },
+  {
+    value: 'product.published',
+    label: 'Product published',
+    description: 'A new version of a loan product takes effect',
+    fields: [
+      { value: 'name', label: 'Product name', kind: 'string' },
+      { value: 'interest_rate', label: 'Interest rate', kind: 'number' },
+      { value: 'version_number', label: 'Version number', kind: 'number' },
+    ],
+  },
+];
+
+export function getEventDefinition(eventType: WebhookEventType): WebhookEventDefinition {
+  return WEBHOOK_EVENT_TYPES.find(e => e.value === eventType) || WEBHOOK_EVENT_TYPES[0];
+}
+
+export function getEventField(eventType: WebhookEventType, field: string): WebhookEventField | undefined {
+  return getEventDefinition(eventType).fields.find(f => f.value === field);
+}
+
+export function getEventOperators(field: WebhookEventField | undefined) {
+  return OPERATORS_BY_KIND[field?.kind || 'string'];
+}
+
+export function isListOperator(operator: EligibilityOperator) {
+  return operator === 'in' || operator === 'not_in';
+}
+
+export function createEventCondition(eventType: WebhookEventType, fieldName?: string): WebhookEventCondition {
+  const field = fieldName
+    ? getEventField(eventType, fieldName)
+    : getEventDefinition(eventType).fields[0];
+  const operator = getEventOperators(field)[0].value;
+  return {
+    field: field?.value || '',
+    operator,
+    value: field?.kind === 'number' ? 0 : isListOperator(operator) ? [] : '',
+  };
+}
+
+/** Splits a comma separated list typed into a filter, dropping blanks. */
+export function parseListValue(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Problems that would stop a subscription's conditions from ever matching
+ * as intended. An empty list means the conditions can be saved.
+ */
+export function getConditionIssues(eventType: WebhookEventType, conditions: WebhookEventCondition[]): string[] {
+  const issues: string[] = [];
+  conditions.forEach((condition, index) => {
+    const position = `Condition ${index + 1}`;
+    const field = getEventField(eventType, condition.field);
+    if (!field) {
+      issues.push(`${position}: choose a field`);
+      return;
+    }
+    if (!getEventOperators(field).some(o => o.value === condition.operator)) {
+      issues.push(`${position}: choose a comparison for ${field.label.toLowerCase()}`);
+      return;
+    }
+    if (field.kind === 'number' && (typeof condition.value !== 'number' || !Number.isFinite(condition.value))) {
+      issues.push(`${position}: ${field.label.toLowerCase()} must be a number`);
+    } else if (isListOperator(condition.operator)) {
+      if (!Array.isArray(condition.value) || condition.value.length === 0) {
+        issues.push(`${position}: list at least one value`);
+      }
+    } else if (field.kind === 'string' && (typeof condition.value !== 'string' || !condition.value.trim())) {
+      issues.push(`${position}: enter a value`);
+    }
+  });
+  return issues;
+}
+
+function compare(actual: unknown, operator: EligibilityOperator, expected: WebhookEventCondition['value']): boolean {
+  if (actual === undefined || actual === null) return false;
+
+  switch (operator) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    // Lists compare as text, like jsonb_array_elements_text() in webhook_event_matches()
+    case 'in':
+      return Array.isArray(expected) && expected.map(String).includes(String(actual));
+    case 'not_in':
+      return Array.isArray(expected) && !expected.map(String).includes(String(actual));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether an event payload passes a subscription's filters. The database
+ * applies the same rules in webhook_event_matches() when it enqueues
+ * deliveries.
+ */
+export function matchesEventConditions(conditions: WebhookEventCondition[], payload: Record<string, unknown>): boolean {
+  return conditions.every(condition => compare(payload[condition.field], condition.operator, condition.value));
+}
+
+export function describeEventCondition(eventType: WebhookEventType, condition: WebhookEventCondition): string {
+  const field = getEventField(eventType, condition.field);
+  const operator = getEventOperators(field).find(o => o.value === condition.operator)?.label || condition.operator;
+  const value = Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value);
+  return `${field?.label || condition.field} ${operator} ${value}`;
+}
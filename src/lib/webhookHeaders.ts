@@ -0,0 +1,138 @@
+// Custom request headers for webhook integrations.
+import { readOwnKey } from './values';
+
+export interface WebhookHeaderRow {
+  name: string;
+  value: string;
+  // Masked in the panel like the API key
+  secret: boolean;
+}
+
+export const MASKED_HEADER_VALUE = '••••••••';
+
+// RFC 9110 token characters
+const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+const TEMPLATE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Set by the sender itself, so integrations cannot override them
+const RESERVED_HEADERS = [
+  'host',
+  'content-length',
+  'connection',
+  'transfer-encoding',
+  'x-webhook-signature',
+  'x-webhook-timestamp',
+  'x-webhook-test',
+];
+
+// Sent from the integration's API key when one is set
+const API_KEY_HEADERS = ['authorization', 'x-api-key'];
+
+export const HEADER_TEMPLATE_VARIABLES = [
+  { name: 'application.id', description: 'Loan application ID' },
+  { name: 'application.status', description: 'Current application status' },
+  { name: 'application.loan_product_id', description: 'Product applied for' },
+  { name: 'event.id', description: 'Event that queued the delivery' },
+  { name: 'event.type', description: 'Event type, e.g. application.created' },
+  { name: 'delivery.id', description: 'Webhook log ID, stable across retries' },
+  { name: 'integration.id', description: 'This integration' },
+  { name: 'timestamp', description: 'Send time in ISO 8601' },
+];
+
+const TEMPLATE_ROOTS = ['application', 'event', 'delivery', 'integration', 'timestamp'];
+
+export function getTemplateVariables(value: string): string[] {
+  return Array.from(value.matchAll(TEMPLATE_PATTERN), match => match[1]);
+}
+
+export function getHeaderIssues(rows: WebhookHeaderRow[], options: { hasApiKey?: boolean } = {}): string[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row) => {
+    const name = row.name.trim();
+    const label = name || 'Header';
+    const lower = name.toLowerCase();
+
+    if (!name) {
+      issues.push('Every header needs a name');
+    } else if (!HEADER_NAME_PATTERN.test(name)) {
+      issues.push(`${name} is not a valid header name; use letters, digits and - _ . only`);
+    } else if (RESERVED_HEADERS.includes(lower)) {
+      issues.push(`${name} is set automatically and cannot be overridden`);
+    } else if (options.hasApiKey && API_KEY_HEADERS.includes(lower)) {
+      issues.push(`${name} is already sent from the API key`);
+    } else if (seen.has(lower)) {
+      issues.push(`${name} is listed more than once`);
+    }
+    seen.add(lower);
+
+    if (/[\r\n]/.test(row.value)) {
+      issues.push(`${label} value cannot contain line breaks`);
+    }
+
+    const withoutTemplates = row.value.replace(TEMPLATE_PATTERN, '');
+    if (withoutTemplates.includes('{{') || withoutTemplates.includes('}}')) {
+      issues.push(`${label} value has an unclosed {{ }} placeholder`);
+    }
+
+    getTemplateVariables(row.value)
+      .filter(variable => !TEMPLATE_ROOTS.includes(variable.split('.')[0]))
+      .forEach(variable => issues.push(`${label} uses unknown placeholder {{${variable}}}`));
+  });
+
+  return issues;
+}
+
+export function toHeaderRows(headers: Record<string, string> | null | undefined, secretNames: string[] = []): WebhookHeaderRow[] {
+  return Object.entries(headers || {}).map(([name, value]) => ({
+    name,
+    value,
+    secret: secretNames.includes(name),
+  }));
+}
+
+export function fromHeaderRows(rows: WebhookHeaderRow[]): { headers: Record<string, string>; secret_headers: string[] } {
+  const headers: Record<string, string> = {};
+  const secretHeaders: string[] = [];
+  rows.forEach((row) => {
+    const name = row.name.trim();
+    if (!name) return;
+    headers[name] = row.value;
+    if (row.secret) secretHeaders.push(name);
+  });
+  return { headers, secret_headers: secretHeaders };
+}
+
+/** Headers safe to show on screen or in logs. */
+export function maskHeaders(headers: Record<string, string> | null | undefined, secretNames: string[] = []): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers || {}).map(([name, value]) => [
+      name,
+      secretNames.includes(name) ? MASKED_HEADER_VALUE : value,
+    ])
+  );
+}
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(readOwnKey, context);
+}
+
+/**
+ * Fills {{placeholders}} at send time. Missing values become empty strings
+ * and line breaks are removed so a value cannot add headers of its own.
+ */
+export function renderHeaderValue(template: string, context: Record<string, unknown>): string {
+  return template
+    .replace(TEMPLATE_PATTERN, (_match, path: string) => {
+      const value = lookup(context, path);
+      return value === undefined || value === null ? '' : String(value);
+    })
+    .replace(/[\r\n]+/g, ' ');
+}
+
+export function resolveHeaders(headers: Record<string, string> | null | undefined, context: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers || {}).map(([name, value]) => [name, renderHeaderValue(value, context)])
+  );
+}
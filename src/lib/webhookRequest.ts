@@ -0,0 +1,155 @@
+// Builds the request an integration would send for an application: headers,
+// body and how each field mapping resolved. Used by the preview and dry runs.
+import {
+  STATIC_SOURCE,
+  buildMappedPayload,
+  readSourceValue,
+  resolveMappedValue,
+  type MappedValue,
+  type MappingTarget,
+} from './fieldMappings';
+import { applyTransformations, getMappingSteps, type TransformationStep } from './transformations';
+import { PAYLOAD_FORMATS, renderPayload, type PayloadFormat, type PayloadMode } from './payloadTemplate';
+import { resolveHeaders } from './webhookHeaders';
+
+// Marks dry runs so receivers can tell them from real deliveries
+export const DRY_RUN_HEADER = 'X-Webhook-Test';
+
+const SIGNATURE_HEADERS = ['X-Webhook-Timestamp', 'X-Webhook-Signature'];
+const API_KEY_HEADERS = ['Authorization', 'X-API-Key'];
+
+export interface RequestIntegration {
+  id: string;
+  webhook_url: string;
+  method: string;
+  api_key?: string | null;
+  headers?: Record<string, string> | null;
+  payload_mode?: PayloadMode | null;
+  payload_format?: PayloadFormat | null;
+  payload_template?: string | null;
+}
+
+export interface RequestMapping extends MappingTarget {
+  source_field: string;
+  transformation?: string | null;
+  transformations?: TransformationStep[] | null;
+}
+
+export interface ResolvedField extends MappedValue {
+  source_field: string;
+  target_field: string;
+  // Read from the application, before transformations
+  source: unknown;
+}
+
+export interface WebhookRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  // Added by the sender when the request goes out; values are not shown
+  senderHeaders: string[];
+  body: string | null;
+  fields: ResolvedField[];
+  errors: string[];
+}
+
+// Also returns the transformed value for buildMappedPayload, or
+// transformFailed when a step failed and the mapping is left out
+function resolveField(
+  mapping: RequestMapping,
+  context: Record<string, unknown>,
+  now: Date
+): { field: ResolvedField; transformed: unknown; transformFailed: boolean } {
+  const source = readSourceValue(mapping.source_field, context);
+  const field = {
+    source_field: mapping.source_field,
+    target_field: mapping.target_field,
+    source,
+    value: null,
+    defaultApplied: false,
+    missing: false,
+    error: null,
+  };
+
+  const transformed = applyTransformations(source, getMappingSteps(mapping), now);
+  if (transformed.error) {
+    return { field: { ...field, error: transformed.error }, transformed: null, transformFailed: true };
+  }
+
+  // The same resolution buildMappedPayload applies to the body
+  const resolved = resolveMappedValue(mapping, transformed.value);
+  return {
+    field: {
+      ...field,
+      ...resolved,
+      defaultApplied: resolved.defaultApplied && mapping.source_field !== STATIC_SOURCE,
+    },
+    transformed: transformed.value,
+    transformFailed: false,
+  };
+}
+
+function setHeader(headers: Record<string, string>, name: string, value: string) {
+  Object.keys(headers)
+    .filter(existing => existing.toLowerCase() === name.toLowerCase())
+    .forEach(existing => delete headers[existing]);
+  headers[name] = value;
+}
+
+/**
+ * Resolves the request for one application. `context` comes from
+ * buildPayloadContext(). Field errors and template errors are collected in
+ * `errors`; a request with errors is not sent.
+ */
+export function buildWebhookRequest(
+  integration: RequestIntegration,
+  mappings: RequestMapping[],
+  context: Record<string, unknown>,
+  options: { dryRun?: boolean; now?: Date } = {}
+): WebhookRequest {
+  const now = options.now ?? new Date();
+  const headers = resolveHeaders(integration.headers, {
+    application: context.application,
+    event: context.event,
+    delivery: {},
+    integration: { id: integration.id },
+    timestamp: now.toISOString(),
+  });
+  const errors: string[] = [];
+  let body: string | null = null;
+  let fields: ResolvedField[] = [];
+
+  if (integration.payload_mode === 'template') {
+    const format = integration.payload_format || 'json';
+    const rendered = renderPayload(integration.payload_template || '', context, format);
+    body = rendered.body;
+    if (rendered.error) errors.push(rendered.error);
+    setHeader(headers, 'Content-Type', PAYLOAD_FORMATS.find(f => f.value === format)?.contentType ?? 'application/json');
+  } else {
+    const resolved = mappings.map(mapping => resolveField(mapping, context, now));
+    fields = resolved.map(r => r.field);
+    resolved
+      .filter(r => r.transformFailed)
+      .forEach(r => errors.push(`${r.field.target_field}: ${r.field.error}`));
+
+    // buildMappedPayload applies defaults and output types and reports
+    // conversion failures, missing required values and path conflicts
+    const built = buildMappedPayload(mappings
+      .map((mapping, index) => ({ mapping, value: resolved[index].transformed }))
+      .filter((_, index) => !resolved[index].transformFailed));
+    errors.push(...built.errors);
+    body = JSON.stringify(built.payload);
+  }
+
+  if (options.dryRun) setHeader(headers, DRY_RUN_HEADER, 'true');
+
+  return {
+    url: integration.webhook_url,
+    method: integration.method,
+    headers,
+    senderHeaders: [...(integration.api_key ? API_KEY_HEADERS : []), ...SIGNATURE_HEADERS],
+    body,
+    fields,
+    errors,
+  };
+}
@@ -0,0 +1,117 @@
+// Signing recipe for outgoing webhooks. Deliveries are sent by edge functions
+// deployed outside this repository; signWebhookPayload is the reference they
+// must match. The admin panel only uses the constants and getActiveSecrets.
+//
+//   signed content:  `${timestamp}.${raw request body}`
+//   signature:       hex(HMAC-SHA256(secret, signed content))
+//   header:          X-Webhook-Signature: t=<timestamp>,v1=<signature>[,v1=<signature>]
+//
+// During a secret rotation every active secret signs the request, so
+// receivers holding either the old or the new secret accept it.
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const SIGNATURE_VERSION = 'v1';
+
+// Receivers should reject requests signed longer ago than this
+export const DEFAULT_REPLAY_WINDOW_SECONDS = 5 * 60;
+
+export interface SigningSecret {
+  secret: string;
+  created_at: string;
+  expires_at: string | null;
+}
+
+export type SignatureFailure = 'malformed' | 'outside_window' | 'mismatch';
+
+export interface SignatureCheck {
+  valid: boolean;
+  reason?: SignatureFailure;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Compares without returning early so timing does not leak the match length
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function computeSignature(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(signature);
+}
+
+// Newest first; secrets past their grace period no longer sign
+export function getActiveSecrets<T extends SigningSecret>(secrets: T[], now: Date = new Date()): T[] {
+  return secrets
+    .filter(secret => !secret.expires_at || new Date(secret.expires_at) > now)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+}
+
+export async function signWebhookPayload(
+  body: string,
+  secrets: string[],
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<Record<string, string>> {
+  if (secrets.length === 0) return {};
+
+  const signatures = await Promise.all(secrets.map(secret => computeSignature(secret, timestamp, body)));
+  return {
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: [
+      `t=${timestamp}`,
+      ...signatures.map(signature => `${SIGNATURE_VERSION}=${signature}`),
+    ].join(','),
+  };
+}
+
+export function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } | null {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't') timestamp = Number(value);
+    if (key === SIGNATURE_VERSION && value) signatures.push(value);
+  }
+
+  if (!Number.isInteger(timestamp) || signatures.length === 0) return null;
+  return { timestamp, signatures };
+}
+
+// Reference check for receivers and for the panel's own tests
+export async function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000),
+  replayWindowSeconds: number = DEFAULT_REPLAY_WINDOW_SECONDS
+): Promise<SignatureCheck> {
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) return { valid: false, reason: 'malformed' };
+  if (Math.abs(now - parsed.timestamp) > replayWindowSeconds) {
+    return { valid: false, reason: 'outside_window' };
+  }
+
+  const expected = await computeSignature(secret, parsed.timestamp, body);
+  return parsed.signatures.some(signature => timingSafeEqual(signature, expected))
+    ? { valid: true }
+    : { valid: false, reason: 'mismatch' };
+}
@@ -1,9 +1,25 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useApplications } from '@/hooks/useApplications';
 import type { LoanApplication } from '@/hooks/useApplications';
+import { useAuth } from '@/hooks/useAuth';
+import { hasPermission } from '@/lib/permissions';
+import {
+  formatReasonCode,
+  getAvailableTransitions,
+  getStateLabel,
+  getWorkflowState,
+} from '@/lib/applicationWorkflow';
+import {
+  calculateLoan,
+  getFrequencyLabel,
+  getInterestMethodLabel,
+} from '@/lib/loanCalculator';
 import { useSearchParams } from 'react-router-dom';
+import { ApplicationTimeline } from '@/components/ApplicationTimeline';
+import { ApplicationPricing } from '@/components/ApplicationPricing';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -62,11 +78,17 @@ import {
   Webhook,
   ChevronLeft,
   ChevronRight,
+  History,
+  Percent,
 } from 'lucide-react';
 
 export default function Applications() {
   const [searchParams] = useSearchParams();
   const userIdFilter = searchParams.get('user');
+  const applicationIdFilter = searchParams.get('application');
+  const { adminUser } = useAuth();
+  const canDecide = hasPermission(adminUser?.role, 'applications.decide');
+  const canDelete = hasPermission(adminUser?.role, 'applications.delete');
   
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
@@ -76,7 +98,9 @@ export default function Applications() {
   const [selectedApplication, setSelectedApplication] = useState<LoanApplication | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [statusUpdateOpen, setStatusUpdateOpen] = useState(false);
-  const [newStatus, setNewStatus] = useState<LoanApplication['status']>('pending');
+  const [newStatus, setNewStatus] = useState<LoanApplication['status']>('');
+  const [reasonCode, setReasonCode] = useState('');
+  const [statusNote, setStatusNote] = useState('');
   const [updatingStatus, setUpdatingStatus] = useState(false);
   const [sendingWebhook, setSendingWebhook] = useState(false);
   const [success, setSuccess] = useState('');
@@ -89,6 +113,7 @@ export default function Applications() {
     loading,
     error: fetchError,
     totalCount,
+    workflow,
     updateApplicationStatus,
     triggerWebhook,
     deleteApplication,
@@ -100,7 +125,9 @@ export default function Applications() {
     sortOrder,
     page: currentPage,
     pageSize,
-    userId: userIdFilter
+    userId: userIdFilter,
+    applicationId: applicationIdFilter,
+    adminUser
   });
 
   const totalPages = Math.ceil(totalCount / pageSize);
@@ -118,19 +145,27 @@ export default function Applications() {
     }
   };
 
-  const getStatusVariant = (status: LoanApplication['status']): 'default' | 'destructive' | 'secondary' => {
-    switch (status) {
-      case 'approved':
-        return 'secondary'; // Changed from 'success' which doesn't exist
-      case 'rejected':
-        return 'destructive';
-      case 'disbursed':
-        return 'default';
-      default:
-        return 'secondary';
-    }
+  const getStatusVariant = (status: LoanApplication['status']) => {
+    return getWorkflowState(workflow, status)?.variant || 'secondary';
   };
 
+  const availableTransitions = selectedApplication
+    ? getAvailableTransitions(workflow, selectedApplication.status, adminUser?.role)
+    : [];
+  const selectedTransition = availableTransitions.find(t => t.to === newStatus);
+
+  const repayment = selectedApplication && selectedApplication.amount > 0 && selectedApplication.term_months >= 1
+    ? calculateLoan({
+        principal: selectedApplication.amount,
+        annualRate: selectedApplication.interest_rate || 0,
+        termMonths: selectedApplication.term_months,
+        gracePeriodMonths: 0,
+        processingFeePercent: 0,
+        interestMethod: selectedApplication.interest_method,
+        frequency: selectedApplication.repayment_frequency,
+      })
+    : null;
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -165,10 +200,13 @@ export default function Applications() {
     setError('');
     setSuccess('');
 
-    const result = await updateApplicationStatus(selectedApplication.id, newStatus);
+    const result = await updateApplicationStatus(selectedApplication.id, newStatus, {
+      reasonCode: reasonCode || undefined,
+      note: statusNote.trim() || undefined,
+    });
 
     if (result.success) {
-      setSuccess(`Application status updated to ${newStatus}`);
+      setSuccess(`Application status updated to ${getStateLabel(workflow, newStatus)}`);
       setStatusUpdateOpen(false);
       setSelectedApplication(null);
     } else {
@@ -222,9 +260,23 @@ export default function Applications() {
     setDetailsOpen(true);
   };
 
+  // Links to a single application open it once, not again after every refetch
+  const openedLinkRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!applicationIdFilter || openedLinkRef.current === applicationIdFilter) return;
+    const linked = applications.find(a => a.id === applicationIdFilter);
+    if (linked) {
+      openedLinkRef.current = applicationIdFilter;
+      setSelectedApplication(linked);
+      setDetailsOpen(true);
+    }
+  }, [applicationIdFilter, applications]);
+
   const openStatusUpdate = (application: LoanApplication) => {
     setSelectedApplication(application);
     setNewStatus(application.status);
+    setReasonCode('');
+    setStatusNote('');
     setStatusUpdateOpen(true);
   };
 
@@ -257,13 +309,15 @@ export default function Applications() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Loan Applications</h1>
           <p className="text-muted-foreground">
-            {userIdFilter 
+            {applicationIdFilter
+              ? `Showing application ${applicationIdFilter.substring(0, 8)}...`
+              : userIdFilter 
               ? `Showing applications for user ${userIdFilter.substring(0, 8)}...`
               : 'Manage and review all loan applications'}
           </p>
         </div>
         <div className="flex gap-2">
-          {userIdFilter && (
+          {(userIdFilter || applicationIdFilter) && (
             <Button 
               variant="outline" 
               onClick={() => window.location.href = '/applications'}
@@ -310,10 +364,11 @@ export default function Applications() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="approved">Approved</SelectItem>
-                  <SelectItem value="rejected">Rejected</SelectItem>
-                  <SelectItem value="disbursed">Disbursed</SelectItem>
+                  {workflow.states.map((state) => (
+                    <SelectItem key={state.key} value={state.key}>
+                      {state.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -407,7 +462,7 @@ export default function Applications() {
                             className="gap-1"
                           >
                             {getStatusIcon(application.status)}
-                            {application.status}
+                            {getStateLabel(workflow, application.status)}
                           </Badge>
                           {application.webhook_sent && (
                             <Webhook className="h-3 w-3 text-muted-foreground" />
@@ -432,25 +487,33 @@ export default function Applications() {
                               <Eye className="mr-2 h-4 w-4" />
                               View Details
                             </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => openStatusUpdate(application)}>
-                              <Edit className="mr-2 h-4 w-4" />
-                              Update Status
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => handleWebhookSend(application)}
-                              disabled={sendingWebhook}
-                            >
-                              <Send className="mr-2 h-4 w-4" />
-                              Send Webhook
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem
-                              onClick={() => handleDelete(application)}
-                              className="text-destructive"
-                            >
-                              <Trash2 className="mr-2 h-4 w-4" />
-                              Delete
-                            </DropdownMenuItem>
+                            {canDecide && (
+                              <>
+                                <DropdownMenuItem onClick={() => openStatusUpdate(application)}>
+                                  <Edit className="mr-2 h-4 w-4" />
+                                  Update Status
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => handleWebhookSend(application)}
+                                  disabled={sendingWebhook}
+                                >
+                                  <Send className="mr-2 h-4 w-4" />
+                                  Send Webhook
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                            {canDelete && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  onClick={() => handleDelete(application)}
+                                  className="text-destructive"
+                                >
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  Delete
+                                </DropdownMenuItem>
+                              </>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -538,7 +601,7 @@ export default function Applications() {
                   className="gap-1 px-3 py-1"
                 >
                   {getStatusIcon(selectedApplication.status)}
-                  {selectedApplication.status.toUpperCase()}
+                  {getStateLabel(workflow, selectedApplication.status).toUpperCase()}
                 </Badge>
                 {selectedApplication.webhook_sent && (
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -637,6 +700,27 @@ export default function Applications() {
                       {formatCurrency(selectedApplication.monthly_payment)}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-muted-foreground">Interest Method</p>
+                    <p className="font-medium">
+                      {getInterestMethodLabel(selectedApplication.interest_method)}
+                    </p>
+                  </div>
+                  {repayment && (
+                    <div>
+                      <p className="text-muted-foreground">
+                        {getFrequencyLabel(selectedApplication.repayment_frequency)} Payment (calculated)
+                      </p>
+                      <p className="font-medium">
+                        {formatCurrency(repayment.installment)} × {repayment.periods}
+                      </p>
+                      {repayment.balloonPayment > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          final payment {formatCurrency(repayment.balloonPayment)}
+                        </p>
+                      )}
+                    </div>
+                  )}
                   {selectedApplication.loan_purpose_details && (
                     <div className="col-span-2">
                       <p className="text-muted-foreground">Purpose Details</p>
@@ -648,6 +732,17 @@ export default function Applications() {
 
               <Separator />
 
+              {/* Pricing */}
+              <div>
+                <h3 className="font-semibold mb-3 flex items-center gap-2">
+                  <Percent className="h-4 w-4" />
+                  Pricing Tier
+                </h3>
+                <ApplicationPricing application={selectedApplication} />
+              </div>
+
+              <Separator />
+
               {/* Employment Information */}
               <div>
                 <h3 className="font-semibold mb-3 flex items-center gap-2">
@@ -696,6 +791,21 @@ export default function Applications() {
                 </div>
               </div>
 
+              <Separator />
+
+              {/* Decision History */}
+              <div>
+                <h3 className="font-semibold mb-3 flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Decision History
+                </h3>
+                <ApplicationTimeline
+                  applicationId={selectedApplication.id}
+                  workflow={workflow}
+                  adminUser={adminUser}
+                />
+              </div>
+
               {/* Application ID */}
               <div className="pt-4 border-t">
                 <p className="text-xs text-muted-foreground">
@@ -709,7 +819,7 @@ export default function Applications() {
             <Button variant="outline" onClick={() => setDetailsOpen(false)}>
               Close
             </Button>
-            {selectedApplication && (
+            {selectedApplication && canDecide && (
               <Button onClick={() => {
                 setDetailsOpen(false);
                 openStatusUpdate(selectedApplication);
@@ -748,35 +858,91 @@ export default function Applications() {
                 </p>
               </div>
 
-              <div>
-                <label className="text-sm font-medium">New Status</label>
-                <Select
-                  value={newStatus}
-                  onValueChange={(value) => setNewStatus(value as LoanApplication['status'])}
-                >
-                  <SelectTrigger className="mt-1">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="approved">Approved</SelectItem>
-                    <SelectItem value="rejected">Rejected</SelectItem>
-                    <SelectItem value="disbursed">Disbursed</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {availableTransitions.length === 0 ? (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    No status changes are available from{' '}
+                    {getStateLabel(workflow, selectedApplication.status)} for your role.
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <div>
+                  <label className="text-sm font-medium">New Status</label>
+                  <Select
+                    value={newStatus}
+                    onValueChange={(value) => {
+                      setNewStatus(value);
+                      setReasonCode('');
+                    }}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Select new status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={selectedApplication.status} disabled>
+                        {getStateLabel(workflow, selectedApplication.status)} (current)
+                      </SelectItem>
+                      {availableTransitions.map((transition) => (
+                        <SelectItem key={transition.to} value={transition.to}>
+                          {getStateLabel(workflow, transition.to)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {selectedTransition?.requires_reason && (
+                <div>
+                  <label className="text-sm font-medium">Reason</label>
+                  {selectedTransition.reason_codes.length > 0 ? (
+                    <Select value={reasonCode} onValueChange={setReasonCode}>
+                      <SelectTrigger className="mt-1">
+                        <SelectValue placeholder="Select a reason" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selectedTransition.reason_codes.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {formatReasonCode(code)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      className="mt-1"
+                      placeholder="Reason code"
+                      value={reasonCode}
+                      onChange={(e) => setReasonCode(e.target.value)}
+                    />
+                  )}
+                </div>
+              )}
+
+              {selectedTransition && (
+                <div>
+                  <label className="text-sm font-medium">Note (optional)</label>
+                  <Textarea
+                    className="mt-1 resize-none"
+                    placeholder="Add context for this decision..."
+                    value={statusNote}
+                    onChange={(e) => setStatusNote(e.target.value)}
+                  />
+                </div>
+              )}
 
-              {newStatus !== selectedApplication.status && (
+              {selectedTransition && (
                 <Alert>
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
                     This will change the status from{' '}
                     <Badge variant={getStatusVariant(selectedApplication.status)} className="mx-1">
-                      {selectedApplication.status}
+                      {getStateLabel(workflow, selectedApplication.status)}
                     </Badge>
                     to
                     <Badge variant={getStatusVariant(newStatus)} className="mx-1">
-                      {newStatus}
+                      {getStateLabel(workflow, newStatus)}
                     </Badge>
                   </AlertDescription>
                 </Alert>
@@ -790,7 +956,11 @@ export default function Applications() {
             </Button>
             <Button
               onClick={handleStatusUpdate}
-              disabled={updatingStatus || newStatus === selectedApplication?.status}
+              disabled={
+                updatingStatus ||
+                !selectedTransition ||
+                (selectedTransition.requires_reason && !reasonCode)
+              }
             >
               {updatingStatus ? (
                 <>
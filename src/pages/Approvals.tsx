@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useChangeRequests } from '@/hooks/useChangeRequests';
+import {
+  CHANGE_REQUEST_TABLES,
+  formatChangeValue,
+  formatFieldName,
+  getReviewBlocker,
+  getValueChanges,
+} from '@/lib/changeRequests';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  ShieldCheck,
+  RefreshCw,
+  Undo2,
+} from 'lucide-react';
+import type { ChangeRequestStatus, ConfigChangeRequest } from '@/types';
+
+const STATUS_VARIANTS: Record<ChangeRequestStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+  cancelled: 'outline',
+};
+
+const ACTION_LABELS: Record<ConfigChangeRequest['action'], string> = {
+  INSERT: 'Create',
+  UPDATE: 'Update',
+  DELETE: 'Delete',
+};
+
+export default function Approvals() {
+  const { adminUser } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<ChangeRequestStatus | 'all'>('pending');
+  const {
+    requests,
+    loading,
+    error,
+    approveRequest,
+    rejectRequest,
+    cancelRequest,
+    refetch,
+  } = useChangeRequests(statusFilter);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [success, setSuccess] = useState('');
+
+  const handleReview = async (request: ConfigChangeRequest, approve: boolean) => {
+    const comment = comments[request.id] || '';
+    setBusyId(request.id);
+    setSuccess('');
+    const { error } = approve
+      ? await approveRequest(request.id, comment)
+      : await rejectRequest(request.id, comment);
+    setBusyId(null);
+    if (!error) {
+      setSuccess(approve ? 'Change approved and applied.' : 'Change rejected.');
+      setComments(prev => ({ ...prev, [request.id]: '' }));
+    }
+  };
+
+  const handleCancel = async (request: ConfigChangeRequest) => {
+    if (!confirm('Withdraw this change request?')) return;
+    setBusyId(request.id);
+    const { error } = await cancelRequest(request.id);
+    setBusyId(null);
+    if (!error) setSuccess('Change request withdrawn.');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Approvals</h1>
+          <p className="text-muted-foreground">
+            Configuration changes waiting for a second super admin
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ChangeRequestStatus | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="cancelled">Withdrawn</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={refetch} disabled={loading}>
+            <RefreshCw className={loading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert variant="default">
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && requests.length === 0 ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : requests.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <ShieldCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium">Nothing to review</h3>
+            <p className="text-muted-foreground mt-2">
+              {statusFilter === 'pending'
+                ? 'There are no changes waiting for approval.'
+                : 'No change requests match this filter.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        requests.map((request) => {
+          const blocker = getReviewBlocker(request, adminUser);
+          const isOwn = request.requested_by === adminUser?.id;
+          const changes = getValueChanges(request);
+          const busy = busyId === request.id;
+
+          return (
+            <Card key={request.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-lg">{request.summary}</CardTitle>
+                    <CardDescription>
+                      {ACTION_LABELS[request.action]} · {CHANGE_REQUEST_TABLES[request.table_name]} ·
+                      requested by {request.requested_by_email || 'unknown'} on{' '}
+                      {new Date(request.created_at).toLocaleString()}
+                    </CardDescription>
+                  </div>
+                  <Badge variant={STATUS_VARIANTS[request.status]} className="capitalize">
+                    {request.status === 'cancelled' ? 'withdrawn' : request.status}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {changes.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Current</TableHead>
+                        <TableHead>Proposed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changes.map((change) => (
+                        <TableRow key={change.field}>
+                          <TableCell className="font-medium">{formatFieldName(change.field)}</TableCell>
+                          <TableCell className="max-w-xs break-words text-red-600">{formatChangeValue(change.before)}</TableCell>
+                          <TableCell className="max-w-xs break-words text-green-700">{formatChangeValue(change.after)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No field changes recorded.</p>
+                )}
+
+                {typeof request.metadata?.effective_from === 'string' && (
+                  <p className="text-sm text-muted-foreground">
+                    Effective from {new Date(request.metadata.effective_from).toLocaleString()}
+                  </p>
+                )}
+
+                {request.status !== 'pending' && request.reviewed_at && (
+                  <div className="rounded-md bg-muted p-3 text-sm">
+                    <p>
+                      {request.status === 'approved' ? 'Approved' : 'Rejected'} by{' '}
+                      {request.reviewed_by_email || 'unknown'} on {new Date(request.reviewed_at).toLocaleString()}
+                    </p>
+                    {request.review_comment && (
+                      <p className="mt-1 text-muted-foreground">“{request.review_comment}”</p>
+                    )}
+                  </div>
+                )}
+
+                {request.status === 'pending' && (
+                  <div className="space-y-2 border-t pt-4">
+                    {blocker ? (
+                      <p className="text-sm text-muted-foreground">{blocker}</p>
+                    ) : (
+                      <>
+                        <Textarea
+                          placeholder="Comment (required to reject)"
+                          value={comments[request.id] || ''}
+                          onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                          rows={2}
+                        />
+                        <div className="flex gap-2">
+                          <Button onClick={() => handleReview(request, true)} disabled={busy}>
+                            {busy ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <CheckCircle2 className="mr-2 h-4 w-4" />
+                            )}
+                            Approve & apply
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            onClick={() => handleReview(request, false)}
+                            disabled={busy || !(comments[request.id] || '').trim()}
+                          >
+                            <XCircle className="mr-2 h-4 w-4" />
+                            Reject
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                    {isOwn && (
+                      <Button variant="ghost" size="sm" onClick={() => handleCancel(request)} disabled={busy}>
+                        <Undo2 className="mr-2 h-4 w-4" />
+                        Withdraw request
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { useAuditLog, AUDIT_LOG_LIMIT, type AuditLogFilters } from '@/hooks/useAuditLog';
+import {
+  AUDITED_TABLES,
+  AUDIT_ACTION_LABELS,
+  buildAuditCsv,
+  getAuditChanges,
+  getAuditTableLabel,
+  getAuditUserLabel,
+} from '@/lib/auditLog';
+import { formatChangeValue, formatFieldName } from '@/lib/changeRequests';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download, Eye, RefreshCw, ScrollText, X } from 'lucide-react';
+import type { AuditAction, ConfigAuditLog } from '@/types';
+
+const ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive'> = {
+  INSERT: 'default',
+  UPDATE: 'secondary',
+  DELETE: 'destructive',
+};
+
+// Radix selects cannot have an empty value
+const ALL = 'all';
+
+export default function AuditLog() {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const { entries, admins, loading, error, refetch } = useAuditLog(filters);
+  const [selected, setSelected] = useState<ConfigAuditLog | null>(null);
+
+  const updateFilter = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K] | typeof ALL) => {
+    setFilters(prev => ({ ...prev, [key]: value === ALL || value === '' ? undefined : value }));
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  const exportToCSV = () => {
+    const blob = new Blob([buildAuditCsv(entries)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const changes = selected ? getAuditChanges(selected) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every change made to configuration, products and integrations
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={refetch} disabled={loading}>
+            <RefreshCw className={loading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+          </Button>
+          <Button variant="outline" onClick={exportToCSV} disabled={entries.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>
+            Showing the latest {AUDIT_LOG_LIMIT} matching entries. Narrow the date range to see older changes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label>Table</Label>
+              <Select value={filters.table || ALL} onValueChange={(value) => updateFilter('table', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All tables</SelectItem>
+                  {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+                    <SelectItem key={table} value={table}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select
+                value={filters.action || ALL}
+                onValueChange={(value) => updateFilter('action', value as AuditAction | typeof ALL)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+                    <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Admin User</Label>
+              <Select value={filters.userId || ALL} onValueChange={(value) => updateFilter('userId', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {admins.map((admin) => (
+                    <SelectItem key={admin.id} value={admin.id}>{admin.full_name || admin.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-date-from">From</Label>
+              <Input
+                id="audit-date-from"
+                type="date"
+                value={filters.dateFrom || ''}
+                max={filters.dateTo}
+                onChange={(e) => updateFilter('dateFrom', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-date-to">To</Label>
+              <Input
+                id="audit-date-to"
+                type="date"
+                value={filters.dateTo || ''}
+                min={filters.dateFrom}
+                onChange={(e) => updateFilter('dateTo', e.target.value)}
+              />
+            </div>
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" className="mt-4" onClick={() => setFilters({})}>
+              <X className="mr-2 h-4 w-4" />
+              Clear filters
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading && entries.length === 0 ? (
+            <div className="space-y-3">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12">
+              <ScrollText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium">No entries</h3>
+              <p className="text-muted-foreground mt-2">
+                {hasFilters ? 'No changes match these filters.' : 'No changes have been recorded yet.'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Admin User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead className="text-right">Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                    <TableCell>{getAuditUserLabel(entry)}</TableCell>
+                    <TableCell>
+                      <Badge variant={ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                    </TableCell>
+                    <TableCell>{getAuditTableLabel(entry.table_name)}</TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">
+                      {entry.record_id?.slice(0, 8) || '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setSelected(entry)}>
+                        <Eye className="mr-2 h-4 w-4" />
+                        {getAuditChanges(entry).length} field(s)
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selected && `${AUDIT_ACTION_LABELS[selected.action]} · ${getAuditTableLabel(selected.table_name)}`}
+            </DialogTitle>
+            <DialogDescription>
+              {selected && (
+                <>
+                  {getAuditUserLabel(selected)} on {new Date(selected.created_at).toLocaleString()}
+                  {selected.record_id && <> · record {selected.record_id}</>}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selected?.action === 'UPDATE' && !selected.old_values && (
+            <Alert>
+              <AlertDescription>
+                Previous values were not recorded for this entry. Only the new values are shown.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No field changes recorded.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Old Value</TableHead>
+                  <TableHead>New Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map((change) => (
+                  <TableRow key={change.field}>
+                    <TableCell className="font-medium">{formatFieldName(change.field)}</TableCell>
+                    <TableCell className="max-w-xs break-words text-red-600">
+                      {change.before === undefined ? '' : formatChangeValue(change.before)}
+                    </TableCell>
+                    <TableCell className="max-w-xs break-words text-green-700">
+                      {formatChangeValue(change.after)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
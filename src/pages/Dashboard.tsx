@@ -1,5 +1,9 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
 import { supabase } from '../lib/supabase';
+import { useActivityFeed } from '@/hooks/useActivityFeed';
+import { useCurrentOrganization } from '@/hooks/useCurrentOrganization';
+import type { ActivityItem } from '@/lib/activityFeed';
 import { 
   Users, 
   Package, 
@@ -14,7 +18,9 @@ import {
   Clock,
   CheckCircle2,
   AlertCircle,
-  FileText
+  FileText,
+  Loader2,
+  RefreshCw
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -24,14 +30,6 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 
-interface RecentActivity {
-  id: string;
-  type: 'product_created' | 'product_updated' | 'config_changed' | 'theme_updated' | 'application_submitted' | 'application_approved';
-  message: string;
-  timestamp: string;
-  status: 'success' | 'warning' | 'info';
-}
-
 export default function Dashboard() {
   const navigate = useNavigate();
   const [stats, setStats] = useState({
@@ -44,64 +42,61 @@ export default function Dashboard() {
     totalUsers: 0,
   });
   const [loading, setLoading] = useState(true);
-  const [recentActivities] = useState<RecentActivity[]>([
-    {
-      id: '1',
-      type: 'config_changed',
-      message: 'Organization settings updated',
-      timestamp: 'Just now',
-      status: 'success'
-    },
-    {
-      id: '2',
-      type: 'product_created',
-      message: 'New loan product "Quick Cash" added',
-      timestamp: '2 hours ago',
-      status: 'info'
-    },
-    {
-      id: '3',
-      type: 'theme_updated',
-      message: 'App theme colors customized',
-      timestamp: 'Yesterday',
-      status: 'success'
-    }
-  ]);
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+  const {
+    activities: recentActivities,
+    loading: activitiesLoading,
+    loadingMore,
+    hasMore,
+    error: activitiesError,
+    loadMore,
+    refetch: refetchActivities,
+  } = useActivityFeed();
+  // Re-render every minute so relative timestamps stay current
+  const [, setNow] = useState(Date.now());
 
   useEffect(() => {
-    fetchStats();
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
   }, []);
 
-  const fetchStats = async () => {
+  const fetchStats = useCallback(async () => {
     try {
       setLoading(true);
-      
+      const scope = organizationId ? { organization_id: organizationId } : {};
+
       const { count: productCount } = await supabase
         .from('loan_products')
-        .select('*', { count: 'exact', head: true });
+        .select('*', { count: 'exact', head: true })
+        .match(scope);
 
       const { count: activeProductCount } = await supabase
         .from('loan_products')
         .select('*', { count: 'exact', head: true })
+        .match(scope)
         .eq('is_active', true);
 
       const { count: applicationCount } = await supabase
         .from('loan_applications')
-        .select('*', { count: 'exact', head: true });
+        .select('*', { count: 'exact', head: true })
+        .match(scope);
 
       const { count: pendingCount } = await supabase
         .from('loan_applications')
         .select('*', { count: 'exact', head: true })
+        .match(scope)
         .eq('status', 'pending');
 
       const { count: approvedCount } = await supabase
         .from('loan_applications')
         .select('*', { count: 'exact', head: true })
+        .match(scope)
         .eq('status', 'approved');
 
       const { data: loanAmounts } = await supabase
         .from('loan_applications')
         .select('amount')
+        .match(scope)
         .in('status', ['approved', 'disbursed']);
 
       const totalLoanValue = loanAmounts?.reduce((sum, app) => sum + Number(app.amount), 0) || 0;
@@ -124,7 +119,11 @@ export default function Dashboard() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (!organizationLoading) fetchStats();
+  }, [fetchStats, organizationLoading]);
 
   const formatCurrency = (amount: number) => {
     if (amount >= 1000000) {
@@ -201,26 +200,27 @@ export default function Dashboard() {
     },
   ];
 
-  const getActivityIcon = (type: RecentActivity['type']) => {
-    switch(type) {
-      case 'product_created':
-      case 'product_updated':
-        return Package;
-      case 'config_changed':
+  const getActivityIcon = (kind: ActivityItem['kind']) => {
+    switch(kind) {
+      case 'config_change':
         return Settings;
-      case 'theme_updated':
-        return Palette;
+      case 'application_submitted':
+        return FileText;
+      case 'webhook_failed':
+        return AlertCircle;
       default:
         return Activity;
     }
   };
 
-  const getActivityBadgeVariant = (status: RecentActivity['status']) => {
+  const getActivityBadgeVariant = (status: ActivityItem['status']) => {
     switch(status) {
       case 'success':
         return 'default';
       case 'warning':
         return 'secondary';
+      case 'error':
+        return 'destructive';
       case 'info':
         return 'outline';
       default:
@@ -317,40 +317,79 @@ export default function Dashboard() {
         </Card>
 
         <Card>
-          <CardHeader>
-            <CardTitle>Recent Activity</CardTitle>
-            <CardDescription>
-              Latest system events and changes
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Recent Activity</CardTitle>
+              <CardDescription>
+                Latest system events and changes
+              </CardDescription>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={refetchActivities}
+              disabled={activitiesLoading}
+              aria-label="Refresh activity"
+            >
+              <RefreshCw className={cn("h-4 w-4", activitiesLoading && "animate-spin")} />
+            </Button>
           </CardHeader>
           <CardContent className="space-y-4">
-            {recentActivities.map((activity, index) => {
-              const Icon = getActivityIcon(activity.type);
-              return (
-                <div key={activity.id}>
-                  <div className="flex items-start gap-3">
-                    <div className="rounded-full bg-muted p-2">
-                      <Icon className="h-3 w-3" />
-                    </div>
-                    <div className="flex-1 space-y-1">
-                      <div className="flex items-center justify-between">
-                        <p className="text-sm font-medium">{activity.message}</p>
-                        <Badge variant={getActivityBadgeVariant(activity.status)}>
-                          {activity.status}
-                        </Badge>
+            {activitiesError && (
+              <p className="text-sm text-destructive">{activitiesError}</p>
+            )}
+            {activitiesLoading && recentActivities.length === 0 ? (
+              <div className="space-y-4">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            ) : recentActivities.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No activity yet.</p>
+            ) : (
+              recentActivities.map((activity, index) => {
+                const Icon = getActivityIcon(activity.kind);
+                return (
+                  <div key={activity.id}>
+                    <button
+                      type="button"
+                      className="flex w-full items-start gap-3 rounded-md text-left hover:bg-muted/50"
+                      onClick={() => navigate(activity.href)}
+                    >
+                      <div className="rounded-full bg-muted p-2">
+                        <Icon className="h-3 w-3" />
                       </div>
-                      <div className="flex items-center text-xs text-muted-foreground">
-                        <Clock className="mr-1 h-3 w-3" />
-                        {activity.timestamp}
+                      <div className="flex-1 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium">{activity.message}</p>
+                          <Badge variant={getActivityBadgeVariant(activity.status)}>
+                            {activity.status}
+                          </Badge>
+                        </div>
+                        {activity.detail && (
+                          <p className="text-xs text-muted-foreground">{activity.detail}</p>
+                        )}
+                        <div className="flex items-center text-xs text-muted-foreground">
+                          <Clock className="mr-1 h-3 w-3" />
+                          <span title={new Date(activity.timestamp).toLocaleString()}>
+                            {formatDistanceToNow(new Date(activity.timestamp), { addSuffix: true })}
+                          </span>
+                        </div>
                       </div>
-                    </div>
+                    </button>
+                    {index < recentActivities.length - 1 && (
+                      <Separator className="mt-4" />
+                    )}
                   </div>
-                  {index < recentActivities.length - 1 && (
-                    <Separator className="mt-4" />
-                  )}
-                </div>
-              );
-            })}
+                );
+              })
+            )}
+            {hasMore && (
+              <Button variant="outline" className="w-full" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
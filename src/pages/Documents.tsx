@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -12,8 +12,10 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import type { DocumentType } from '@/types';
 import { useDocumentTypes } from '@/hooks/useDocumentTypes';
+import { useDualControl } from '@/hooks/useDualControl';
+import { useOrganizationConfig } from '@/hooks/useOrganizationConfig';
+import { usePermission } from '@/hooks/usePermission';
 import { cn } from '@/lib/utils';
-import { supabase } from '@/lib/supabase';
 import {
   Table,
   TableBody,
@@ -105,24 +107,23 @@ export default function Documents() {
   const [saving, setSaving] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [success, setSuccess] = useState('');
-  const [organizationId, setOrganizationId] = useState<string | null>(null);
-
-  useEffect(() => {
-    // Fetch organization ID
-    const fetchOrganizationId = async () => {
-      const { data, error } = await supabase
-        .from('organization_config')
-        .select('id')
-        .limit(1)
-        .single();
-      
-      if (!error && data) {
-        setOrganizationId(data.id);
-      }
-    };
-    
-    fetchOrganizationId();
-  }, []);
+  const [requestError, setRequestError] = useState('');
+  const { enabled: dualControl, submitChange } = useDualControl();
+  // New document types belong to the organization being edited
+  const { config: organization } = useOrganizationConfig();
+  const organizationId = organization?.id ?? null;
+  const canWrite = usePermission('documents.write');
+
+  const requestApproval = async (change: Parameters<typeof submitChange>[0]) => {
+    setRequestError('');
+    const { error } = await submitChange(change);
+    if (error) {
+      setRequestError(error);
+      return false;
+    }
+    setSuccess('Change submitted for approval. It takes effect once another super admin approves it.');
+    return true;
+  };
 
   const form = useForm<DocumentTypeFormData>({
     resolver: zodResolver(documentTypeSchema),
@@ -178,6 +179,19 @@ export default function Documents() {
         is_active: true,
       };
 
+      if (dualControl) {
+        const submitted = await requestApproval({
+          table: 'document_types',
+          action: editingDocument ? 'UPDATE' : 'INSERT',
+          recordId: editingDocument?.id,
+          current: editingDocument,
+          proposed: documentData,
+          summary: `${editingDocument ? 'Update' : 'Create'} document type "${data.name}"`,
+        });
+        if (submitted) setDialogOpen(false);
+        return;
+      }
+
       if (editingDocument) {
         const { error } = await updateDocumentType(editingDocument.id, documentData);
         if (error) throw new Error(error);
@@ -199,6 +213,18 @@ export default function Documents() {
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this document type?')) return;
 
+    if (dualControl) {
+      const doc = documentTypes.find(d => d.id === id);
+      await requestApproval({
+        table: 'document_types',
+        action: 'DELETE',
+        recordId: id,
+        current: doc || null,
+        summary: `Delete document type "${doc?.name}"`,
+      });
+      return;
+    }
+
     const { error } = await deleteDocumentType(id);
     if (!error) {
       setSuccess('Document type deleted successfully!');
@@ -206,6 +232,18 @@ export default function Documents() {
   };
 
   const handleToggleStatus = async (doc: DocumentType) => {
+    if (dualControl) {
+      await requestApproval({
+        table: 'document_types',
+        action: 'UPDATE',
+        recordId: doc.id,
+        current: doc,
+        proposed: { is_active: !doc.is_active },
+        summary: `${doc.is_active ? 'Deactivate' : 'Activate'} document type "${doc.name}"`,
+      });
+      return;
+    }
+
     const { error } = await toggleDocumentTypeStatus(doc.id, !doc.is_active);
     if (!error) {
       setSuccess(`Document type ${!doc.is_active ? 'activated' : 'deactivated'} successfully!`);
@@ -271,15 +309,17 @@ export default function Documents() {
             Manage required documents for loan applications
           </p>
         </div>
-        <Button onClick={openAddDialog} size="lg" disabled={!organizationId}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Document Type
-        </Button>
+        {canWrite && (
+          <Button onClick={openAddDialog} size="lg" disabled={!organizationId}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Document Type
+          </Button>
+        )}
       </div>
 
-      {error && (
+      {(error || requestError) && (
         <Alert variant="destructive">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>{error || requestError}</AlertDescription>
         </Alert>
       )}
 
@@ -329,7 +369,7 @@ export default function Documents() {
                   ? 'Try adjusting your search terms' 
                   : 'Get started by creating your first document type.'}
               </p>
-              {!searchQuery && organizationId && (
+              {!searchQuery && organizationId && canWrite && (
                 <Button onClick={openAddDialog} className="mt-4">
                   <Plus className="mr-2 h-4 w-4" />
                   Add Your First Document Type
@@ -358,7 +398,7 @@ export default function Documents() {
                           size="icon"
                           className="h-6 w-6"
                           onClick={() => moveDocument(doc, 'up')}
-                          disabled={index === 0}
+                          disabled={!canWrite || index === 0}
                         >
                           <ChevronUp className="h-3 w-3" />
                         </Button>
@@ -367,7 +407,7 @@ export default function Documents() {
                           size="icon"
                           className="h-6 w-6"
                           onClick={() => moveDocument(doc, 'down')}
-                          disabled={index === filteredDocuments.length - 1}
+                          disabled={!canWrite || index === filteredDocuments.length - 1}
                         >
                           <ChevronDown className="h-3 w-3" />
                         </Button>
@@ -427,45 +467,48 @@ export default function Documents() {
                       <Switch
                         checked={doc.is_active || false}
                         onCheckedChange={() => handleToggleStatus(doc)}
+                        disabled={!canWrite}
                       />
                     </TableCell>
                     <TableCell className="text-right">
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="icon">
-                            <MoreHorizontal className="h-4 w-4" />
-                            <span className="sr-only">Open menu</span>
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                          <DropdownMenuItem onClick={() => openEditDialog(doc)}>
-                            <Edit className="mr-2 h-4 w-4" />
-                            Edit
-                          </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => handleToggleStatus(doc)}>
-                            {doc.is_active ? (
-                              <>
-                                <XCircle className="mr-2 h-4 w-4" />
-                                Deactivate
-                              </>
-                            ) : (
-                              <>
-                                <CheckCircle2 className="mr-2 h-4 w-4" />
-                                Activate
-                              </>
-                            )}
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem 
-                            onClick={() => handleDelete(doc.id)}
-                            className="text-destructive"
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                      {canWrite && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon">
+                              <MoreHorizontal className="h-4 w-4" />
+                              <span className="sr-only">Open menu</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                            <DropdownMenuItem onClick={() => openEditDialog(doc)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleToggleStatus(doc)}>
+                              {doc.is_active ? (
+                                <>
+                                  <XCircle className="mr-2 h-4 w-4" />
+                                  Deactivate
+                                </>
+                              ) : (
+                                <>
+                                  <CheckCircle2 className="mr-2 h-4 w-4" />
+                                  Activate
+                                </>
+                              )}
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem 
+                              onClick={() => handleDelete(doc.id)}
+                              className="text-destructive"
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -3,6 +3,37 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/lib/supabase';
+import { useDualControl } from '@/hooks/useDualControl';
+import { usePermission } from '@/hooks/usePermission';
+import { useCurrentOrganization } from '@/hooks/useCurrentOrganization';
+import { WebhookSigningCard } from '@/components/WebhookSigningCard';
+import { WebhookSubscriptionsCard } from '@/components/WebhookSubscriptionsCard';
+import { WebhookHeadersEditor } from '@/components/WebhookHeadersEditor';
+import { PayloadTemplateEditor, type PayloadTemplateSettings } from '@/components/PayloadTemplateEditor';
+import { MappingLookupEditor } from '@/components/MappingLookupEditor';
+import { TransformationPipelineEditor } from '@/components/TransformationPipelineEditor';
+import { WebhookPreviewDialog } from '@/components/WebhookPreviewDialog';
+import { WebhookDeadLettersCard } from '@/components/WebhookDeadLettersCard';
+import { getEventDefinition } from '@/lib/webhookEvents';
+import { fromHeaderRows, getHeaderIssues, maskHeaders, toHeaderRows } from '@/lib/webhookHeaders';
+import type { PayloadFormat, PayloadMode } from '@/lib/payloadTemplate';
+import {
+  DEFAULT_DECIMAL_PRECISION,
+  MAX_DECIMAL_PRECISION,
+  OUTPUT_TYPES,
+  SOURCE_FIELDS,
+  findPathConflicts,
+  getOutputOptionsIssues,
+  getTargetPathError,
+  type MappingOutputOptions,
+  type MappingOutputType,
+} from '@/lib/fieldMappings';
+import {
+  describeStep,
+  getMappingSteps,
+  getPipelineIssues,
+  type TransformationStep,
+} from '@/lib/transformations';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -74,8 +105,12 @@ import {
   Code,
   FileJson,
   Settings,
+  KeyRound,
+  Radio,
+  Inbox,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { WebhookEventType } from '@/types';
 
 // Types
 interface WebhookIntegration {
@@ -85,7 +120,14 @@ interface WebhookIntegration {
   webhook_url: string;
   api_key?: string;
   headers?: Record<string, string>;
+  // Header names whose values are masked like the API key
+  secret_headers?: string[];
   method: 'POST' | 'PUT' | 'PATCH';
+  // 'mapping' builds a flat object from the field mappings; 'template'
+  // renders payload_template in payload_format
+  payload_mode?: PayloadMode;
+  payload_format?: PayloadFormat;
+  payload_template?: string | null;
   is_active: boolean;
   retry_attempts: number;
   retry_delay_seconds: number;
@@ -99,8 +141,13 @@ interface FieldMapping {
   integration_id: string;
   source_field: string;
   target_field: string;
-  transformation?: string;
+  // Legacy single transformation, read when transformations is empty
+  transformation?: string | null;
+  transformations?: TransformationStep[] | null;
   default_value?: string;
+  // How the value is converted before it is written at target_field
+  output_type?: MappingOutputType;
+  output_options?: MappingOutputOptions;
   is_required: boolean;
   field_order: number;
 }
@@ -120,67 +167,93 @@ interface WebhookLog {
   execution_time_ms?: number;
   retry_count: number;
   status: 'pending' | 'success' | 'failed' | 'retrying';
+  // Set when the delivery was queued by an event subscription
+  event_id?: string | null;
+  event_type?: WebhookEventType | null;
   created_at: string;
 }
 
-// Available source fields from loan_applications and profiles
-const SOURCE_FIELDS = [
-  { value: 'amount', label: 'Loan Amount', table: 'loan_applications' },
-  { value: 'purpose', label: 'Loan Purpose', table: 'loan_applications' },
-  { value: 'term_months', label: 'Term (Months)', table: 'loan_applications' },
-  { value: 'duration_months', label: 'Duration (Months)', table: 'loan_applications' },
-  { value: 'interest_rate', label: 'Interest Rate', table: 'loan_applications' },
-  { value: 'monthly_payment', label: 'Monthly Payment', table: 'loan_applications' },
-  { value: 'employment_status', label: 'Employment Status', table: 'loan_applications' },
-  { value: 'monthly_income', label: 'Monthly Income', table: 'loan_applications' },
-  { value: 'loan_purpose_details', label: 'Purpose Details', table: 'loan_applications' },
-  { value: 'phone_number', label: 'Phone Number', table: 'loan_applications' },
-  { value: 'profiles.full_name', label: 'Full Name', table: 'profiles' },
-  { value: 'profiles.full_name.first', label: 'First Name', table: 'profiles' },
-  { value: 'profiles.full_name.last', label: 'Last Name', table: 'profiles' },
-  { value: 'profiles.phone_number', label: 'Phone (Profile)', table: 'profiles' },
-  { value: 'profiles.email', label: 'Email', table: 'profiles' },
-  { value: 'profiles.gender', label: 'Gender', table: 'profiles' },
-  { value: 'profiles.date_of_birth', label: 'Date of Birth', table: 'profiles' },
-  { value: 'static', label: 'Static Value', table: 'static' },
-];
-
-// Available transformations
-const TRANSFORMATIONS = [
-  { value: 'none', label: 'None' },
-  { value: 'uppercase', label: 'Uppercase' },
-  { value: 'lowercase', label: 'Lowercase' },
-  { value: 'split_first', label: 'Split First Name' },
-  { value: 'split_last', label: 'Split Last Name' },
-  { value: 'calculate_age', label: 'Calculate Age' },
-  { value: 'append_months', label: 'Append " months"' },
-  { value: 'generate_email', label: 'Generate Email' },
-  { value: 'date_format', label: 'Format Date' },
-];
-
 // Validation schemas
 const webhookSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   description: z.string().optional(),
   webhook_url: z.string().url('Must be a valid URL'),
   api_key: z.string().optional(),
+  headers: z.array(z.object({
+    name: z.string(),
+    value: z.string(),
+    secret: z.boolean(),
+  })),
   method: z.enum(['POST', 'PUT', 'PATCH']),
   retry_attempts: z.number().min(0).max(5),
   retry_delay_seconds: z.number().min(0).max(3600),
   timeout_seconds: z.number().min(1).max(300),
+}).superRefine((data, ctx) => {
+  getHeaderIssues(data.headers, { hasApiKey: !!data.api_key }).forEach((message) => {
+    ctx.addIssue({ code: 'custom', path: ['headers'], message });
+  });
 });
 
+const DEFAULT_HEADERS = [{ name: 'Content-Type', value: 'application/json', secret: false }];
+
 const fieldMappingSchema = z.object({
   source_field: z.string().min(1, 'Source field is required'),
-  target_field: z.string().min(1, 'Target field is required'),
-  transformation: z.string().optional(),
+  target_field: z.string().trim().min(1, 'Target field is required'),
+  transformations: z.array(z.object({
+    name: z.string(),
+    params: z.record(z.string(), z.string()).optional(),
+    values: z.array(z.object({ from: z.string(), to: z.string() })).optional(),
+  })),
   default_value: z.string().optional(),
+  output_type: z.enum(OUTPUT_TYPES.map(t => t.value) as [MappingOutputType, ...MappingOutputType[]]),
+  precision: z.number().int().min(0).max(MAX_DECIMAL_PRECISION),
+  lookup: z.array(z.object({ from: z.string(), to: z.string() })),
+  lookup_fallback: z.string().optional(),
   is_required: z.boolean(),
+}).superRefine((data, ctx) => {
+  getPipelineIssues(data.transformations).forEach((message) => {
+    ctx.addIssue({ code: 'custom', path: ['transformations'], message });
+  });
+  const pathError = getTargetPathError(data.target_field);
+  if (pathError) {
+    ctx.addIssue({ code: 'custom', path: ['target_field'], message: pathError });
+  }
+  getOutputOptionsIssues(data.output_type, toOutputOptions(data)).forEach((message) => {
+    ctx.addIssue({ code: 'custom', path: ['lookup'], message });
+  });
+  const sources = data.lookup.map(row => row.from.trim());
+  if (data.output_type === 'enum' && new Set(sources).size !== sources.length) {
+    ctx.addIssue({ code: 'custom', path: ['lookup'], message: 'Each source value can only appear once' });
+  }
 });
 
 type WebhookFormData = z.infer<typeof webhookSchema>;
 type FieldMappingFormData = z.infer<typeof fieldMappingSchema>;
 
+// Only the options for the chosen type are stored
+function toOutputOptions(data: FieldMappingFormData): MappingOutputOptions {
+  if (data.output_type === 'decimal') return { precision: data.precision };
+  if (data.output_type === 'enum') {
+    return {
+      values: Object.fromEntries(data.lookup.map(row => [row.from.trim(), row.to])),
+      fallback: data.lookup_fallback || null,
+    };
+  }
+  return {};
+}
+
+const EMPTY_MAPPING: FieldMappingFormData = {
+  source_field: '',
+  target_field: '',
+  transformations: [],
+  default_value: '',
+  output_type: 'auto',
+  precision: DEFAULT_DECIMAL_PRECISION,
+  lookup: [],
+  lookup_fallback: '',
+  is_required: false,
+};
+
 export default function Integrations() {
   const [integrations, setIntegrations] = useState<WebhookIntegration[]>([]);
   const [fieldMappings, setFieldMappings] = useState<FieldMapping[]>([]);
@@ -190,6 +263,7 @@ export default function Integrations() {
   // const [testing, setTesting] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [mappingDialogOpen, setMappingDialogOpen] = useState(false);
+  const [previewDialogOpen, setPreviewDialogOpen] = useState(false);
   // const [logsDialogOpen, setLogsDialogOpen] = useState(false);
   const [editingIntegration, setEditingIntegration] = useState<WebhookIntegration | null>(null);
   const [selectedIntegration, setSelectedIntegration] = useState<WebhookIntegration | null>(null);
@@ -198,7 +272,17 @@ export default function Integrations() {
   const [success, setSuccess] = useState('');
   const [showApiKey, setShowApiKey] = useState(false);
   const [activeTab, setActiveTab] = useState('integrations');
+  const [payloadView, setPayloadView] = useState<PayloadMode>('mapping');
   const [testResult, setTestResult] = useState<any>(null);
+  const { enabled: dualControl, submitChange } = useDualControl();
+  const canManage = usePermission('integrations.manage');
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+
+  const requestApproval = async (change: Parameters<typeof submitChange>[0]) => {
+    const { error } = await submitChange(change);
+    if (error) throw new Error(error);
+    setSuccess('Change submitted for approval. It takes effect once another super admin approves it.');
+  };
 
   const form = useForm<WebhookFormData>({
     resolver: zodResolver(webhookSchema),
@@ -207,6 +291,7 @@ export default function Integrations() {
       description: '',
       webhook_url: '',
       api_key: '',
+      headers: DEFAULT_HEADERS,
       method: 'POST',
       retry_attempts: 3,
       retry_delay_seconds: 60,
@@ -216,39 +301,41 @@ export default function Integrations() {
 
   const mappingForm = useForm<FieldMappingFormData>({
     resolver: zodResolver(fieldMappingSchema),
-    defaultValues: {
-      source_field: '',
-      target_field: '',
-      transformation: 'none',
-      default_value: '',
-      is_required: false,
-    },
+    defaultValues: EMPTY_MAPPING,
   });
+  const mappingOutputType = mappingForm.watch('output_type');
+  const mappingConflicts = findPathConflicts(fieldMappings.map(m => m.target_field));
 
   useEffect(() => {
+    if (organizationLoading) return;
     fetchIntegrations();
     fetchLogs();
-  }, []);
+  }, [organizationId, organizationLoading]);
 
   useEffect(() => {
     if (selectedIntegration) {
       fetchFieldMappings(selectedIntegration.id);
+      setPayloadView(selectedIntegration.payload_mode || 'mapping');
     }
   }, [selectedIntegration]);
 
   const fetchIntegrations = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('webhook_integrations')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('*');
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
 
       if (error) throw error;
       setIntegrations(data || []);
-      if (data && data.length > 0 && !selectedIntegration) {
-        setSelectedIntegration(data[0]);
-      }
+      // Keep the selection unless it belongs to another organization
+      setSelectedIntegration(prev => data?.find(i => i.id === prev?.id) || data?.[0] || null);
     } catch (err: any) {
       console.error('Error fetching integrations:', err);
       setError('Failed to load integrations');
@@ -275,9 +362,16 @@ export default function Integrations() {
 
   const fetchLogs = async () => {
     try {
-      const { data, error } = await supabase
-        .from('webhook_logs')
-        .select('*')
+      const query = organizationId
+        ? supabase
+            .from('webhook_logs')
+            .select('*, webhook_integrations!inner(organization_id)')
+            .eq('webhook_integrations.organization_id', organizationId)
+        : supabase
+            .from('webhook_logs')
+            .select('*');
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
         .limit(100);
 
@@ -295,6 +389,7 @@ export default function Integrations() {
       description: '',
       webhook_url: '',
       api_key: '',
+      headers: DEFAULT_HEADERS,
       method: 'POST',
       retry_attempts: 3,
       retry_delay_seconds: 60,
@@ -310,6 +405,7 @@ export default function Integrations() {
       description: integration.description || '',
       webhook_url: integration.webhook_url,
       api_key: integration.api_key || '',
+      headers: toHeaderRows(integration.headers, integration.secret_headers),
       method: integration.method,
       retry_attempts: integration.retry_attempts,
       retry_delay_seconds: integration.retry_delay_seconds,
@@ -324,13 +420,24 @@ export default function Integrations() {
     setSuccess('');
 
     try {
+      const { headers, ...fields } = data;
       const integrationData = {
-        ...data,
-        headers: { 'Content-Type': 'application/json' },
+        ...fields,
+        ...fromHeaderRows(headers),
+        ...(!editingIntegration && organizationId ? { organization_id: organizationId } : {}),
         updated_at: new Date().toISOString(),
       };
 
-      if (editingIntegration) {
+      if (dualControl) {
+        await requestApproval({
+          table: 'webhook_integrations',
+          action: editingIntegration ? 'UPDATE' : 'INSERT',
+          recordId: editingIntegration?.id,
+          current: editingIntegration,
+          proposed: integrationData,
+          summary: `${editingIntegration ? 'Update' : 'Create'} webhook integration "${data.name}"`,
+        });
+      } else if (editingIntegration) {
         const { error } = await supabase
           .from('webhook_integrations')
           .update(integrationData)
@@ -364,6 +471,18 @@ export default function Integrations() {
     if (!confirm('Are you sure you want to delete this integration? This will also delete all field mappings.')) return;
 
     try {
+      if (dualControl) {
+        const integration = integrations.find(i => i.id === id);
+        await requestApproval({
+          table: 'webhook_integrations',
+          action: 'DELETE',
+          recordId: id,
+          current: integration || null,
+          summary: `Delete webhook integration "${integration?.name}"`,
+        });
+        return;
+      }
+
       const { error } = await supabase
         .from('webhook_integrations')
         .delete()
@@ -383,6 +502,18 @@ export default function Integrations() {
 
   const toggleIntegrationStatus = async (integration: WebhookIntegration) => {
     try {
+      if (dualControl) {
+        await requestApproval({
+          table: 'webhook_integrations',
+          action: 'UPDATE',
+          recordId: integration.id,
+          current: integration,
+          proposed: { is_active: !integration.is_active },
+          summary: `${integration.is_active ? 'Disable' : 'Enable'} webhook integration "${integration.name}"`,
+        });
+        return;
+      }
+
       const { error } = await supabase
         .from('webhook_integrations')
         .update({ is_active: !integration.is_active })
@@ -420,7 +551,7 @@ export default function Integrations() {
         request: data.samplePayload ? {
           url: integration.webhook_url,
           method: integration.method,
-          headers: integration.headers,
+          headers: maskHeaders(integration.headers, integration.secret_headers),
           body: data.samplePayload,
         } : undefined,
         response: data.response || data.error || 'Test completed',
@@ -444,25 +575,72 @@ export default function Integrations() {
     }
   };
 
+  const savePayloadSettings = async (changes: Partial<Pick<WebhookIntegration, 'payload_mode' | 'payload_format' | 'payload_template'>>) => {
+    if (!selectedIntegration) return false;
+    setError('');
+    setSuccess('');
+
+    try {
+      if (dualControl) {
+        await requestApproval({
+          table: 'webhook_integrations',
+          action: 'UPDATE',
+          recordId: selectedIntegration.id,
+          current: selectedIntegration,
+          proposed: changes,
+          summary: `Change the payload of webhook integration "${selectedIntegration.name}"`,
+        });
+        return true;
+      }
+
+      const { error } = await supabase
+        .from('webhook_integrations')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', selectedIntegration.id);
+
+      if (error) throw error;
+      setSelectedIntegration({ ...selectedIntegration, ...changes });
+      setSuccess(changes.payload_mode === 'template' ? 'Payload template saved and in use.' : 'Payload settings saved.');
+      fetchIntegrations();
+      return true;
+    } catch (err) {
+      console.error('Error saving payload settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save payload settings');
+      return false;
+    }
+  };
+
+  const saveTemplate = (settings: PayloadTemplateSettings) =>
+    savePayloadSettings({ payload_mode: 'template', ...settings });
+
+  // Template mode only takes effect once a template is saved; switching back
+  // to mappings keeps the template for later
+  const changePayloadView = async (mode: PayloadMode) => {
+    setPayloadView(mode);
+    if (mode === 'mapping' && selectedIntegration?.payload_mode === 'template') {
+      const saved = await savePayloadSettings({ payload_mode: 'mapping' });
+      if (!saved) setPayloadView('template');
+    }
+  };
+
   const openMappingDialog = (mapping?: FieldMapping) => {
     if (mapping) {
       setEditingMapping(mapping);
+      const options = mapping.output_options || {};
       mappingForm.reset({
         source_field: mapping.source_field,
         target_field: mapping.target_field,
-        transformation: mapping.transformation || 'none',
+        transformations: getMappingSteps(mapping),
         default_value: mapping.default_value || '',
+        output_type: mapping.output_type || 'auto',
+        precision: options.precision ?? DEFAULT_DECIMAL_PRECISION,
+        lookup: Object.entries(options.values || {}).map(([from, to]) => ({ from, to })),
+        lookup_fallback: options.fallback || '',
         is_required: mapping.is_required,
       });
     } else {
       setEditingMapping(null);
-      mappingForm.reset({
-        source_field: '',
-        target_field: '',
-        transformation: 'none',
-        default_value: '',
-        is_required: false,
-      });
+      mappingForm.reset(EMPTY_MAPPING);
     }
     setMappingDialogOpen(true);
   };
@@ -470,14 +648,29 @@ export default function Integrations() {
   const onSubmitMapping = async (data: FieldMappingFormData) => {
     if (!selectedIntegration) return;
 
+    const conflicts = findPathConflicts([
+      ...fieldMappings.filter(m => m.id !== editingMapping?.id).map(m => m.target_field),
+      data.target_field,
+    ]);
+    if (conflicts.length > 0) {
+      mappingForm.setError('target_field', { message: conflicts.join('. ') });
+      return;
+    }
+
     setSaving(true);
     setError('');
     setSuccess('');
 
     try {
       const mappingData = {
-        ...data,
-        transformation: data.transformation === 'none' ? null : data.transformation,
+        source_field: data.source_field,
+        target_field: data.target_field,
+        transformation: null,
+        transformations: data.transformations,
+        default_value: data.default_value,
+        output_type: data.output_type,
+        output_options: toOutputOptions(data),
+        is_required: data.is_required,
         integration_id: selectedIntegration.id,
         field_order: editingMapping?.field_order || fieldMappings.length,
         updated_at: new Date().toISOString(),
@@ -562,10 +755,12 @@ export default function Integrations() {
             Configure webhook integrations and field mappings
           </p>
         </div>
-        <Button onClick={openAddDialog} size="lg">
-          <Plus className="mr-2 h-4 w-4" />
-          Add Integration
-        </Button>
+        {canManage && (
+          <Button onClick={openAddDialog} size="lg">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Integration
+          </Button>
+        )}
       </div>
 
       {error && (
@@ -581,19 +776,31 @@ export default function Integrations() {
       )}
 
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="integrations">
             <Webhook className="mr-2 h-4 w-4" />
             Integrations
           </TabsTrigger>
           <TabsTrigger value="mappings">
             <Database className="mr-2 h-4 w-4" />
-            Field Mappings
+            Payload
+          </TabsTrigger>
+          <TabsTrigger value="events">
+            <Radio className="mr-2 h-4 w-4" />
+            Events
+          </TabsTrigger>
+          <TabsTrigger value="signing">
+            <KeyRound className="mr-2 h-4 w-4" />
+            Signing
           </TabsTrigger>
           <TabsTrigger value="logs">
             <Activity className="mr-2 h-4 w-4" />
             Logs
           </TabsTrigger>
+          <TabsTrigger value="failed">
+            <Inbox className="mr-2 h-4 w-4" />
+            Failed
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="integrations" className="space-y-4">
@@ -605,10 +812,12 @@ export default function Integrations() {
                 <p className="text-muted-foreground mt-2">
                   Get started by creating your first webhook integration.
                 </p>
-                <Button onClick={openAddDialog} className="mt-4">
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Your First Integration
-                </Button>
+                {canManage && (
+                  <Button onClick={openAddDialog} className="mt-4">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Your First Integration
+                  </Button>
+                )}
               </CardContent>
             </Card>
           ) : (
@@ -641,6 +850,7 @@ export default function Integrations() {
                         <Switch
                           checked={integration.is_active}
                           onCheckedChange={() => toggleIntegrationStatus(integration)}
+                          disabled={!canManage}
                         />
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
@@ -650,26 +860,61 @@ export default function Integrations() {
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
                             <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                            <DropdownMenuItem onClick={() => openEditDialog(integration)}>
-                              <Edit className="mr-2 h-4 w-4" />
-                              Edit
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => testWebhook(integration)}>
-                              <TestTube className="mr-2 h-4 w-4" />
-                              Test Webhook
+                            {canManage && (
+                              <>
+                                <DropdownMenuItem onClick={() => openEditDialog(integration)}>
+                                  <Edit className="mr-2 h-4 w-4" />
+                                  Edit
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => testWebhook(integration)}>
+                                  <TestTube className="mr-2 h-4 w-4" />
+                                  Test Webhook
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                            <DropdownMenuItem
+                              onClick={() => {
+                                setSelectedIntegration(integration);
+                                setPreviewDialogOpen(true);
+                              }}
+                            >
+                              <Eye className="mr-2 h-4 w-4" />
+                              {canManage ? 'Preview & Dry Run' : 'Preview Request'}
                             </DropdownMenuItem>
                             <DropdownMenuItem onClick={() => setSelectedIntegration(integration)}>
                               <Settings className="mr-2 h-4 w-4" />
-                              Configure Mappings
+                              {canManage ? 'Configure Mappings' : 'View Mappings'}
                             </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem 
-                              onClick={() => deleteIntegration(integration.id)}
-                              className="text-destructive"
+                            <DropdownMenuItem
+                              onClick={() => {
+                                setSelectedIntegration(integration);
+                                setActiveTab('events');
+                              }}
                             >
-                              <Trash2 className="mr-2 h-4 w-4" />
-                              Delete
+                              <Radio className="mr-2 h-4 w-4" />
+                              Event Subscriptions
                             </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => {
+                                setSelectedIntegration(integration);
+                                setActiveTab('signing');
+                              }}
+                            >
+                              <KeyRound className="mr-2 h-4 w-4" />
+                              Signing Secrets
+                            </DropdownMenuItem>
+                            {canManage && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem 
+                                  onClick={() => deleteIntegration(integration.id)}
+                                  className="text-destructive"
+                                >
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  Delete
+                                </DropdownMenuItem>
+                              </>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </div>
@@ -761,107 +1006,173 @@ export default function Integrations() {
             <>
               <Card>
                 <CardHeader>
-                  <div className="flex items-center justify-between">
+                  <div className="flex items-center justify-between gap-4">
                     <div>
-                      <CardTitle>Field Mappings</CardTitle>
+                      <CardTitle>Payload Mode</CardTitle>
                       <CardDescription>
-                        Configure how loan application fields map to {selectedIntegration.name}
+                        {selectedIntegration.payload_mode === 'template'
+                          ? `${selectedIntegration.name} receives the rendered template`
+                          : `${selectedIntegration.name} receives a flat JSON object built from the field mappings`}
                       </CardDescription>
                     </div>
-                    <Button onClick={() => openMappingDialog()}>
-                      <Plus className="mr-2 h-4 w-4" />
-                      Add Mapping
-                    </Button>
+                    <Select
+                      value={payloadView}
+                      onValueChange={(value) => changePayloadView(value as PayloadMode)}
+                      disabled={!canManage}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="mapping">Field mappings</SelectItem>
+                        <SelectItem value="template">Template</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
                 </CardHeader>
-                <CardContent>
-                  {fieldMappings.length === 0 ? (
-                    <div className="text-center py-8">
-                      <FileJson className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                      <h3 className="text-lg font-medium">No field mappings</h3>
-                      <p className="text-muted-foreground mt-2">
-                        Add field mappings to configure the webhook payload.
-                      </p>
-                      <Button onClick={() => openMappingDialog()} className="mt-4">
-                        <Plus className="mr-2 h-4 w-4" />
-                        Add Field Mapping
-                      </Button>
+              </Card>
+
+              {payloadView === 'template' ? (
+                <PayloadTemplateEditor
+                  key={selectedIntegration.id}
+                  integrationName={selectedIntegration.name}
+                  format={selectedIntegration.payload_format}
+                  template={selectedIntegration.payload_template}
+                  canManage={canManage}
+                  onSave={saveTemplate}
+                />
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle>Field Mappings</CardTitle>
+                        <CardDescription>
+                          Configure how loan application fields map to {selectedIntegration.name}
+                        </CardDescription>
+                      </div>
+                      {canManage && (
+                        <Button onClick={() => openMappingDialog()}>
+                          <Plus className="mr-2 h-4 w-4" />
+                          Add Mapping
+                        </Button>
+                      )}
                     </div>
-                  ) : (
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Source Field</TableHead>
-                          <TableHead>Target Field</TableHead>
-                          <TableHead>Transformation</TableHead>
-                          <TableHead>Default Value</TableHead>
-                          <TableHead>Required</TableHead>
-                          <TableHead className="text-right">Actions</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {fieldMappings.map((mapping) => (
-                          <TableRow key={mapping.id}>
-                            <TableCell>
-                              <div className="flex items-center gap-2">
-                                <Database className="h-4 w-4 text-muted-foreground" />
-                                <span className="font-mono text-sm">{mapping.source_field}</span>
-                              </div>
-                            </TableCell>
-                            <TableCell>
-                              <div className="flex items-center gap-2">
-                                <ArrowRight className="h-4 w-4 text-muted-foreground" />
-                                <span className="font-mono text-sm">{mapping.target_field}</span>
-                              </div>
-                            </TableCell>
-                            <TableCell>
-                              {mapping.transformation && (
-                                <Badge variant="outline">
-                                  {TRANSFORMATIONS.find(t => t.value === mapping.transformation)?.label}
-                                </Badge>
-                              )}
-                            </TableCell>
-                            <TableCell>
-                              {mapping.default_value && (
-                                <span className="text-sm text-muted-foreground">
-                                  {mapping.default_value}
-                                </span>
-                              )}
-                            </TableCell>
-                            <TableCell>
-                              {mapping.is_required && (
-                                <Badge variant="secondary">Required</Badge>
-                              )}
-                            </TableCell>
-                            <TableCell className="text-right">
-                              <DropdownMenu>
-                                <DropdownMenuTrigger asChild>
-                                  <Button variant="ghost" size="icon">
-                                    <MoreHorizontal className="h-4 w-4" />
-                                  </Button>
-                                </DropdownMenuTrigger>
-                                <DropdownMenuContent align="end">
-                                  <DropdownMenuItem onClick={() => openMappingDialog(mapping)}>
-                                    <Edit className="mr-2 h-4 w-4" />
-                                    Edit
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem 
-                                    onClick={() => deleteMapping(mapping.id)}
-                                    className="text-destructive"
-                                  >
-                                    <Trash2 className="mr-2 h-4 w-4" />
-                                    Delete
-                                  </DropdownMenuItem>
-                                </DropdownMenuContent>
-                              </DropdownMenu>
-                            </TableCell>
+                  </CardHeader>
+                  <CardContent>
+                    {mappingConflicts.length > 0 && (
+                      <Alert variant="destructive" className="mb-4">
+                        <AlertDescription>
+                          These target fields overwrite each other and the payload cannot be built until they are fixed:
+                          <ul className="mt-1 list-disc pl-5">
+                            {mappingConflicts.map((conflict) => (
+                              <li key={conflict} className="font-mono text-xs">{conflict}</li>
+                            ))}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    {fieldMappings.length === 0 ? (
+                      <div className="text-center py-8">
+                        <FileJson className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                        <h3 className="text-lg font-medium">No field mappings</h3>
+                        <p className="text-muted-foreground mt-2">
+                          Add field mappings to configure the webhook payload.
+                        </p>
+                        {canManage && (
+                          <Button onClick={() => openMappingDialog()} className="mt-4">
+                            <Plus className="mr-2 h-4 w-4" />
+                            Add Field Mapping
+                          </Button>
+                        )}
+                      </div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Source Field</TableHead>
+                            <TableHead>Target Field</TableHead>
+                            <TableHead>Transformation</TableHead>
+                            <TableHead>Output Type</TableHead>
+                            <TableHead>Default Value</TableHead>
+                            <TableHead>Required</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
                           </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  )}
-                </CardContent>
-              </Card>
+                        </TableHeader>
+                        <TableBody>
+                          {fieldMappings.map((mapping) => (
+                            <TableRow key={mapping.id}>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <Database className="h-4 w-4 text-muted-foreground" />
+                                  <span className="font-mono text-sm">{mapping.source_field}</span>
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                                  <span className="font-mono text-sm">{mapping.target_field}</span>
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex flex-wrap items-center gap-1">
+                                  {getMappingSteps(mapping).map((step, index) => (
+                                    <Badge key={index} variant="outline">{describeStep(step)}</Badge>
+                                  ))}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                {mapping.output_type && mapping.output_type !== 'auto' && (
+                                  <Badge variant="outline">
+                                    {OUTPUT_TYPES.find(t => t.value === mapping.output_type)?.label}
+                                    {mapping.output_type === 'decimal' && ` (${mapping.output_options?.precision ?? DEFAULT_DECIMAL_PRECISION})`}
+                                  </Badge>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {mapping.default_value && (
+                                  <span className="text-sm text-muted-foreground">
+                                    {mapping.default_value}
+                                  </span>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {mapping.is_required && (
+                                  <Badge variant="secondary">Required</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {canManage && (
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <Button variant="ghost" size="icon">
+                                        <MoreHorizontal className="h-4 w-4" />
+                                      </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                      <DropdownMenuItem onClick={() => openMappingDialog(mapping)}>
+                                        <Edit className="mr-2 h-4 w-4" />
+                                        Edit
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem 
+                                        onClick={() => deleteMapping(mapping.id)}
+                                        className="text-destructive"
+                                      >
+                                        <Trash2 className="mr-2 h-4 w-4" />
+                                        Delete
+                                      </DropdownMenuItem>
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
             </>
           ) : (
             <Card>
@@ -869,7 +1180,47 @@ export default function Integrations() {
                 <Zap className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-lg font-medium">Select an integration</h3>
                 <p className="text-muted-foreground mt-2">
-                  Choose an integration from the Integrations tab to configure field mappings.
+                  Choose an integration from the Integrations tab to configure its payload.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="events" className="space-y-4">
+          {selectedIntegration ? (
+            <WebhookSubscriptionsCard
+              integrationId={selectedIntegration.id}
+              integrationName={selectedIntegration.name}
+              canManage={canManage}
+            />
+          ) : (
+            <Card>
+              <CardContent className="text-center py-12">
+                <Radio className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium">Select an integration</h3>
+                <p className="text-muted-foreground mt-2">
+                  Choose an integration to pick the events it receives.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="signing" className="space-y-4">
+          {selectedIntegration ? (
+            <WebhookSigningCard
+              integrationId={selectedIntegration.id}
+              integrationName={selectedIntegration.name}
+              canManage={canManage}
+            />
+          ) : (
+            <Card>
+              <CardContent className="text-center py-12">
+                <KeyRound className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium">Select an integration</h3>
+                <p className="text-muted-foreground mt-2">
+                  Choose an integration from the Integrations tab to manage its signing secrets.
                 </p>
               </CardContent>
             </Card>
@@ -925,7 +1276,12 @@ export default function Integrations() {
                           </div>
                         </TableCell>
                         <TableCell>
-                          {integrations.find(i => i.id === log.integration_id)?.name || 'Unknown'}
+                          <div>{integrations.find(i => i.id === log.integration_id)?.name || 'Unknown'}</div>
+                          {log.event_type && (
+                            <span className="text-xs text-muted-foreground">
+                              {getEventDefinition(log.event_type).label}
+                            </span>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge 
@@ -975,6 +1331,10 @@ export default function Integrations() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="failed" className="space-y-4">
+          <WebhookDeadLettersCard canManage={canManage} />
+        </TabsContent>
       </Tabs>
 
       {/* Integration Dialog */}
@@ -1082,6 +1442,20 @@ export default function Integrations() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="headers"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Request Headers</FormLabel>
+                    <FormControl>
+                      <WebhookHeadersEditor value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="method"
@@ -1192,7 +1566,7 @@ export default function Integrations() {
 
       {/* Field Mapping Dialog */}
       <Dialog open={mappingDialogOpen} onOpenChange={setMappingDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingMapping ? 'Edit Field Mapping' : 'Add Field Mapping'}
@@ -1241,10 +1615,26 @@ export default function Integrations() {
                   <FormItem>
                     <FormLabel>Target Field</FormLabel>
                     <FormControl>
-                      <Input placeholder="fieldName" {...field} />
+                      <Input placeholder="applicant.name.first" className="font-mono" {...field} />
                     </FormControl>
                     <FormDescription>
-                      Field name in the webhook payload
+                      Where the value goes in the payload. Use dots for nested objects and [n] for list
+                      positions, e.g. items[0].amount
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={mappingForm.control}
+                name="transformations"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Transformations (optional)</FormLabel>
+                    <TransformationPipelineEditor value={field.value} onChange={field.onChange} />
+                    <FormDescription>
+                      Applied in order, before the default value and output type
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -1253,32 +1643,90 @@ export default function Integrations() {
 
               <FormField
                 control={mappingForm.control}
-                name="transformation"
+                name="output_type"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Transformation (optional)</FormLabel>
+                    <FormLabel>Output Type</FormLabel>
                     <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="None" />
+                          <SelectValue />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {TRANSFORMATIONS.map((transform) => (
-                          <SelectItem key={transform.value} value={transform.value}>
-                            {transform.label}
+                        {OUTPUT_TYPES.map((outputType) => (
+                          <SelectItem key={outputType.value} value={outputType.value}>
+                            {outputType.label}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
                     <FormDescription>
-                      Apply a transformation to the value
+                      {OUTPUT_TYPES.find(t => t.value === field.value)?.description}. Values that cannot be
+                      converted fail the delivery
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
+              {mappingOutputType === 'decimal' && (
+                <FormField
+                  control={mappingForm.control}
+                  name="precision"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Decimal Places</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={MAX_DECIMAL_PRECISION}
+                          {...field}
+                          onChange={e => field.onChange(parseInt(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {mappingOutputType === 'enum' && (
+                <>
+                  <FormField
+                    control={mappingForm.control}
+                    name="lookup"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Lookup Table</FormLabel>
+                        <MappingLookupEditor value={field.value} onChange={field.onChange} />
+                        <FormDescription>
+                          Source values are matched exactly, after the transformation
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={mappingForm.control}
+                    name="lookup_fallback"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fallback (optional)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Sent for values not in the table" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Without a fallback, values missing from the table fail the delivery
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
               <FormField
                 control={mappingForm.control}
                 name="default_value"
@@ -1339,6 +1787,14 @@ export default function Integrations() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      <WebhookPreviewDialog
+        integration={selectedIntegration}
+        mappings={selectedIntegration ? fieldMappings.filter(m => m.integration_id === selectedIntegration.id) : []}
+        open={previewDialogOpen}
+        onOpenChange={setPreviewDialogOpen}
+        canSend={canManage}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,15 +1,27 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import { useMfa } from '../hooks/useMfa';
+import { isValidTotpCode } from '@/lib/mfa';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Lock, Mail, AlertCircle, Loader2 } from 'lucide-react';
+import { Lock, Mail, AlertCircle, Loader2, Clock, KeyRound, CheckCircle2 } from 'lucide-react';
 
-export default function Login() {
+interface LoginProps {
+  // Signed in with a password but the authenticator code is still needed
+  mfaChallenge?: boolean;
+}
+
+export default function Login({ mfaChallenge = false }: LoginProps) {
   const navigate = useNavigate();
-  const { signIn } = useAuth();
+  const location = useLocation();
+  const signedOutReason = (location.state as { reason?: string } | null)?.reason;
+  const { signIn, recordLogin, signOut } = useAuth();
+  const { needsChallenge, verifyChallenge } = useMfa();
+  const [step, setStep] = useState<'credentials' | 'mfa'>('credentials');
+  const [code, setCode] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
@@ -22,6 +34,12 @@ export default function Login() {
 
     try {
       await signIn(email, password);
+      // The sign-in is only recorded once the second factor is verified
+      if (await needsChallenge()) {
+        setStep('mfa');
+        return;
+      }
+      await recordLogin();
       navigate('/');
     } catch (err: any) {
       setError(err.message || 'Failed to sign in');
@@ -30,6 +48,101 @@ export default function Login() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    const { error } = await verifyChallenge(code);
+    if (error) {
+      setLoading(false);
+      setError(error);
+      setCode('');
+      return;
+    }
+    await recordLogin();
+    setLoading(false);
+    navigate('/');
+  };
+
+  const handleUseAnotherAccount = async () => {
+    await signOut();
+    setStep('credentials');
+    setCode('');
+    setError('');
+  };
+
+  if (step === 'mfa' || mfaChallenge) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-bold text-center">Two-factor authentication</CardTitle>
+            <CardDescription className="text-center">
+              Enter the 6-digit code from your authenticator app
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleVerify}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="mfa-code">Authentication code</Label>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="mfa-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="pl-10 tracking-widest"
+                    maxLength={7}
+                    autoFocus
+                    required
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+              {error && (
+                <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3">
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4 text-destructive" />
+                    <p className="text-sm text-destructive">{error}</p>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+            <CardFooter className="flex flex-col gap-2">
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loading || !isValidTotpCode(code)}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={handleUseAnotherAccount}
+                disabled={loading}
+              >
+                Sign in with a different account
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 p-4">
       <Card className="w-full max-w-md">
@@ -41,6 +154,26 @@ export default function Login() {
         </CardHeader>
         <form onSubmit={handleSubmit}>
           <CardContent className="space-y-4">
+            {signedOutReason === 'idle' && !error && (
+              <div className="rounded-lg border p-3">
+                <div className="flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground">
+                    You were signed out after a period of inactivity.
+                  </p>
+                </div>
+              </div>
+            )}
+            {signedOutReason === 'password_reset' && !error && (
+              <div className="rounded-lg border p-3">
+                <div className="flex items-center gap-2">
+                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  <p className="text-sm text-muted-foreground">
+                    Your password has been changed. Sign in with your new password.
+                  </p>
+                </div>
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
               <div className="relative">
@@ -58,7 +191,12 @@ export default function Login() {
               </div>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link to="/forgot-password" className="text-sm text-muted-foreground hover:underline">
+                  Forgot password?
+                </Link>
+              </div>
               <div className="relative">
                 <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
@@ -3,11 +3,21 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { hasPermission } from '@/lib/permissions';
+import { useDualControl } from '@/hooks/useDualControl';
+import { useCurrentOrganization } from '@/hooks/useCurrentOrganization';
+import {
+  DEFAULT_SESSION_TIMEOUT_MINUTES,
+  SESSION_TIMEOUT_OPTIONS,
+  formatTimeoutLabel,
+} from '@/lib/idleTimeout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
 import { 
   Upload, 
   Save, 
@@ -18,7 +28,9 @@ import {
   Mail,
   FileText,
   Image,
-  DollarSign
+  DollarSign,
+  ShieldCheck,
+  Clock
 } from 'lucide-react';
 import {
   Form,
@@ -87,6 +99,13 @@ export default function Organization() {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [selectedCurrency, setSelectedCurrency] = useState('USD');
+  const { adminUser } = useAuth();
+  const canWrite = hasPermission(adminUser?.role, 'organization.write');
+  const canManageDualControl = hasPermission(adminUser?.role, 'dual_control.manage');
+  const canManageSecurity = hasPermission(adminUser?.role, 'security.manage');
+  const { submitChange } = useDualControl();
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+  const dualControl = !!currentConfig?.dual_control_enabled;
 
   const form = useForm<OrganizationFormData>({
     resolver: zodResolver(organizationSchema),
@@ -103,16 +122,21 @@ export default function Organization() {
   });
 
   useEffect(() => {
-    fetchOrganizationConfig();
-  }, []);
+    if (!organizationLoading) fetchOrganizationConfig();
+  }, [organizationId, organizationLoading]);
 
   const fetchOrganizationConfig = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('organization_config')
-        .select('*')
-        .single();
+        .select('*');
+
+      if (organizationId) {
+        query = query.eq('id', organizationId);
+      }
+
+      const { data, error } = await query.single();
 
       if (error && error.code !== 'PGRST116') throw error;
       
@@ -190,6 +214,7 @@ export default function Organization() {
   };
 
   const onSubmit = async (data: OrganizationFormData) => {
+    if (!canWrite) return;
     setSaving(true);
     setError('');
     setSuccess('');
@@ -208,6 +233,20 @@ export default function Organization() {
         updated_at: new Date().toISOString(),
       };
 
+      if (currentConfig && dualControl) {
+        const { error } = await submitChange({
+          table: 'organization_config',
+          action: 'UPDATE',
+          recordId: currentConfig.id,
+          current: currentConfig,
+          proposed: configData,
+          summary: 'Update organization settings',
+        });
+        if (error) throw new Error(error);
+        setSuccess('Changes submitted for approval. They take effect once another super admin approves them.');
+        return;
+      }
+
       if (currentConfig) {
         const { data: updatedData, error } = await supabase
           .from('organization_config')
@@ -269,6 +308,98 @@ export default function Organization() {
     }
   };
 
+  const toggleDualControl = async (enabled: boolean) => {
+    if (!currentConfig || !canManageDualControl) return;
+    setError('');
+    setSuccess('');
+
+    try {
+      // Switching dual control off is itself a change that needs a second approver
+      if (!enabled) {
+        const { error } = await submitChange({
+          table: 'organization_config',
+          action: 'UPDATE',
+          recordId: currentConfig.id,
+          current: currentConfig,
+          proposed: { dual_control_enabled: false },
+          summary: 'Turn off dual control',
+        });
+        if (error) throw new Error(error);
+        setSuccess('Request to turn off dual control submitted for approval.');
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('organization_config')
+        .update({ dual_control_enabled: true, updated_at: new Date().toISOString() })
+        .eq('id', currentConfig.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setCurrentConfig(data);
+      setSuccess('Dual control is on. Configuration changes now need approval by a second super admin.');
+    } catch (err) {
+      console.error('Error changing dual control:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change dual control');
+    }
+  };
+
+  // Idle timeout and the MFA policy follow dual control like other settings
+  const updateSessionSecurity = async (
+    changes: { session_timeout_minutes?: number; require_mfa?: boolean },
+    summary: string,
+    appliedMessage: string
+  ) => {
+    if (!currentConfig || !canManageSecurity) return;
+    setError('');
+    setSuccess('');
+
+    try {
+      if (dualControl) {
+        const { error } = await submitChange({
+          table: 'organization_config',
+          action: 'UPDATE',
+          recordId: currentConfig.id,
+          current: currentConfig,
+          proposed: changes,
+          summary,
+        });
+        if (error) throw new Error(error);
+        setSuccess('Session security change submitted for approval.');
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('organization_config')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', currentConfig.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setCurrentConfig(data);
+      setSuccess(appliedMessage);
+    } catch (err) {
+      console.error('Error changing session security:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change session security');
+    }
+  };
+
+  const changeSessionTimeout = (minutes: number) => updateSessionSecurity(
+    { session_timeout_minutes: minutes },
+    `Set session timeout to ${formatTimeoutLabel(minutes)}`,
+    `Admins are now signed out after ${formatTimeoutLabel(minutes)} of inactivity.`
+  );
+
+  const toggleRequireMfa = (enabled: boolean) => updateSessionSecurity(
+    { require_mfa: enabled },
+    enabled ? 'Require two-factor authentication' : 'Stop requiring two-factor authentication',
+    enabled
+      ? 'Admins and super admins must now set up two-factor authentication before using the panel.'
+      : 'Two-factor authentication is now optional.'
+  );
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -363,6 +494,7 @@ export default function Organization() {
                       variant="outline"
                       size="sm"
                       onClick={() => document.getElementById('logo-upload')?.click()}
+                      disabled={!canWrite}
                     >
                       <Upload className="h-4 w-4 mr-2" />
                       Upload Logo
@@ -622,6 +754,86 @@ export default function Organization() {
             </CardContent>
           </Card>
 
+          {currentConfig && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+                  <CardTitle>Dual Control</CardTitle>
+                </div>
+                <CardDescription>
+                  Require a second super admin to approve changes to settings, theme, products, documents and integrations
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="text-sm text-muted-foreground">
+                    {dualControl
+                      ? 'On: saved changes are submitted to the Approvals inbox instead of applied.'
+                      : 'Off: changes take effect as soon as they are saved.'}
+                    {!canManageDualControl && ' Only super admins can change this.'}
+                  </div>
+                  <Switch
+                    checked={dualControl}
+                    onCheckedChange={toggleDualControl}
+                    disabled={!canManageDualControl}
+                    aria-label="Dual control"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {currentConfig && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Clock className="h-5 w-5 text-muted-foreground" />
+                  <CardTitle>Session Security</CardTitle>
+                </div>
+                <CardDescription>
+                  Idle sign-out and two-factor authentication for admins of this organization
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="text-sm text-muted-foreground">
+                    A countdown warning appears one minute before sign-out.
+                    {!canManageSecurity && ' Only super admins can change this.'}
+                  </div>
+                  <Select
+                    value={String(currentConfig.session_timeout_minutes ?? DEFAULT_SESSION_TIMEOUT_MINUTES)}
+                    onValueChange={(value) => changeSessionTimeout(Number(value))}
+                    disabled={!canManageSecurity}
+                  >
+                    <SelectTrigger className="w-40" aria-label="Idle timeout">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SESSION_TIMEOUT_OPTIONS.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {formatTimeoutLabel(minutes)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="text-sm text-muted-foreground">
+                    Require admins and super admins to sign in with an authenticator app code.
+                    Viewers can opt in from their profile.
+                  </div>
+                  <Switch
+                    checked={!!currentConfig.require_mfa}
+                    onCheckedChange={toggleRequireMfa}
+                    disabled={!canManageSecurity}
+                    aria-label="Require two-factor authentication"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {error && (
             <Alert variant="destructive">
               <AlertDescription>{error}</AlertDescription>
@@ -634,21 +846,27 @@ export default function Organization() {
             </Alert>
           )}
 
-          <div className="flex justify-end">
-            <Button type="submit" disabled={saving} size="lg">
-              {saving ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Saving...
-                </>
-              ) : (
-                <>
-                  <Save className="mr-2 h-4 w-4" />
-                  Save Settings
-                </>
-              )}
-            </Button>
-          </div>
+          {!canWrite ? (
+            <Alert variant="default">
+              <AlertDescription>You have read-only access to organization settings.</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving} size="lg">
+                {saving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    {dualControl ? 'Submit for Approval' : 'Save Settings'}
+                  </>
+                )}
+              </Button>
+            </div>
+          )}
         </form>
       </Form>
     </div>
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import { useCurrentOrganization } from '@/hooks/useCurrentOrganization';
+import { useOrganizations } from '@/hooks/useOrganizations';
+import { getOrganizationLabel } from '@/lib/organizations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowRightLeft, Building, Loader2, Plus, RefreshCw } from 'lucide-react';
+
+const BLANK_TEMPLATE = 'blank';
+
+export default function Organizations() {
+  const navigate = useNavigate();
+  const { organizationId, selectOrganization } = useCurrentOrganization();
+  const { organizations, loading, error, createOrganization, refetch } = useOrganizations();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [templateId, setTemplateId] = useState<string>(BLANK_TEMPLATE);
+  const [creating, setCreating] = useState(false);
+  const [success, setSuccess] = useState('');
+
+  const openCreateDialog = () => {
+    setName('');
+    setTemplateId(organizationId || BLANK_TEMPLATE);
+    setDialogOpen(true);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setSuccess('');
+    const { data, error } = await createOrganization(name, templateId === BLANK_TEMPLATE ? null : templateId);
+    setCreating(false);
+    if (!error && data) {
+      setDialogOpen(false);
+      setSuccess(`${getOrganizationLabel(data)} created.`);
+    }
+  };
+
+  // Switch and go straight to its settings so the new brand can be set up
+  const openOrganization = (id: string) => {
+    selectOrganization(id);
+    navigate('/organization');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Organizations</h1>
+          <p className="text-muted-foreground">
+            Lender brands managed from this panel
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={refetch} disabled={loading}>
+            <RefreshCw className={loading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+          </Button>
+          <Button onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Organization
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert variant="default">
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All organizations</CardTitle>
+          <CardDescription>
+            Products, documents, theme, integrations and applications are kept separate for each organization
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading && organizations.length === 0 ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : organizations.length === 0 ? (
+            <div className="text-center py-12">
+              <Building className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium">No organizations yet</h3>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {organizations.map((organization) => (
+                  <TableRow key={organization.id}>
+                    <TableCell className="font-medium">
+                      {getOrganizationLabel(organization)}
+                      {organization.id === organizationId && (
+                        <Badge variant="secondary" className="ml-2">Current</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {format(new Date(organization.created_at), 'MMM d, yyyy')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openOrganization(organization.id)}
+                      >
+                        <ArrowRightLeft className="mr-2 h-4 w-4" />
+                        {organization.id === organizationId ? 'Open settings' : 'Switch to'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Organization</DialogTitle>
+            <DialogDescription>
+              Start blank or copy branding, the active theme and the application workflow from an existing organization.
+              Products, documents and integrations are not copied.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                placeholder="e.g. Quick Loans"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="organization-template">Start from</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger id="organization-template" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BLANK_TEMPLATE}>Blank organization</SelectItem>
+                  {organizations.map((organization) => (
+                    <SelectItem key={organization.id} value={organization.id}>
+                      Copy of {getOrganizationLabel(organization)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={creating || !name.trim()}>
+              {creating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                'Create Organization'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/lib/supabase';
+import { useDualControl } from '@/hooks/useDualControl';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -44,6 +46,13 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Plus,
   Edit,
@@ -60,11 +69,37 @@ import {
   TrendingUp,
   Search,
   CheckCircle2,
+  History,
 } from 'lucide-react';
-import type { LoanProduct, LoanProductDocument } from '@/types';
+import type {
+  EligibilityCriteria,
+  LoanProduct,
+  LoanProductDocument,
+  LoanProductVersion,
+  PricingTier,
+  ProductTerms,
+} from '@/types';
 import { cn } from '@/lib/utils';
+import { createEmptyCriteria, parseEligibilityCriteria } from '@/lib/eligibility';
+import {
+  INTEREST_METHODS,
+  REPAYMENT_FREQUENCIES,
+  getFrequencyLabel,
+  getInterestMethodLabel,
+} from '@/lib/loanCalculator';
+import { validatePricingTiers } from '@/lib/pricing';
+import { buildProductSnapshot } from '@/lib/productVersions';
 import { DocumentSelector } from '@/components/DocumentSelector';
+import { EligibilityRuleBuilder } from '@/components/EligibilityRuleBuilder';
+import { EligibilityTester } from '@/components/EligibilityTester';
+import { LoanCalculator } from '@/components/LoanCalculator';
+import { PricingTierEditor } from '@/components/PricingTierEditor';
+import { ProductVersionsDialog } from '@/components/ProductVersionsDialog';
 import { useDocumentTypes } from '@/hooks/useDocumentTypes';
+import { useAuth } from '@/hooks/useAuth';
+import { hasPermission } from '@/lib/permissions';
+import { useOrganizationConfig } from '@/hooks/useOrganizationConfig';
+import { useCurrentOrganization } from '@/hooks/useCurrentOrganization';
 
 const productSchema = z.object({
   name: z.string().min(1, 'Product name is required'),
@@ -78,6 +113,8 @@ const productSchema = z.object({
   processing_fee: z.number().min(0, 'Processing fee must be non-negative'),
   late_payment_fee: z.number().min(0, 'Late payment fee must be non-negative'),
   grace_period_months: z.number().min(0, 'Grace period must be non-negative'),
+  interest_method: z.enum(['reducing_balance', 'flat_rate', 'balloon']),
+  repayment_frequency: z.enum(['weekly', 'bi_weekly', 'monthly']),
   icon_name: z.string().optional(),
 });
 
@@ -93,9 +130,18 @@ export default function Products() {
   const [success, setSuccess] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedDocuments, setSelectedDocuments] = useState<Partial<LoanProductDocument>[]>([]);
+  const [eligibilityCriteria, setEligibilityCriteria] = useState<EligibilityCriteria>(createEmptyCriteria);
+  const [pricingTiers, setPricingTiers] = useState<PricingTier[]>([]);
+  const [editingDraft, setEditingDraft] = useState<LoanProductVersion | null>(null);
+  const [changeNote, setChangeNote] = useState('');
+  const [versionsProduct, setVersionsProduct] = useState<LoanProduct | null>(null);
   // const [productDocuments, setProductDocuments] = useState<LoanProductDocument[]>([]);
   
   const { documentTypes } = useDocumentTypes();
+  const { currencySymbol, config: organization } = useOrganizationConfig();
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
+  const { adminUser } = useAuth();
+  const canWrite = hasPermission(adminUser?.role, 'products.write');
 
   const form = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
@@ -111,21 +157,32 @@ export default function Products() {
       processing_fee: 2,
       late_payment_fee: 5,
       grace_period_months: 1,
+      interest_method: 'reducing_balance',
+      repayment_frequency: 'monthly',
       icon_name: 'package',
     },
   });
 
-  useEffect(() => {
-    fetchProducts();
-  }, []);
+  const { enabled: dualControl, submitChange } = useDualControl();
 
-  const fetchProducts = async () => {
+  const requestApproval = async (change: Parameters<typeof submitChange>[0]) => {
+    const { error } = await submitChange(change);
+    if (error) throw new Error(error);
+    setSuccess('Change submitted for approval. It takes effect once another super admin approves it.');
+  };
+
+  const fetchProducts = useCallback(async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('loan_products')
-        .select('*')
-        .order('display_order', { ascending: true });
+        .select('*');
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+
+      const { data, error } = await query.order('display_order', { ascending: true });
 
       if (error) throw error;
       setProducts(data || []);
@@ -135,7 +192,11 @@ export default function Products() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (!organizationLoading) fetchProducts();
+  }, [fetchProducts, organizationLoading]);
 
   const fetchProductDocuments = async (productId: string) => {
     try {
@@ -156,9 +217,30 @@ export default function Products() {
     }
   };
 
+  const fetchProductDraft = async (productId: string): Promise<LoanProductVersion | null> => {
+    try {
+      const { data, error } = await supabase
+        .from('loan_product_versions')
+        .select('*')
+        .eq('loan_product_id', productId)
+        .eq('status', 'draft')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (err) {
+      console.error('Error fetching product draft:', err);
+      return null;
+    }
+  };
+
   const openAddDialog = () => {
     setEditingProduct(null);
+    setEditingDraft(null);
+    setChangeNote('');
     setSelectedDocuments([]);
+    setEligibilityCriteria(createEmptyCriteria());
+    setPricingTiers([]);
     form.reset({
       name: '',
       description: '',
@@ -171,6 +253,8 @@ export default function Products() {
       processing_fee: 2,
       late_payment_fee: 5,
       grace_period_months: 1,
+      interest_method: 'reducing_balance',
+      repayment_frequency: 'monthly',
       icon_name: 'package',
     });
     setDialogOpen(true);
@@ -178,36 +262,62 @@ export default function Products() {
 
   const openEditDialog = async (product: LoanProduct) => {
     setEditingProduct(product);
-    
-    // Fetch existing document requirements
-    const docs = await fetchProductDocuments(product.id);
-    setSelectedDocuments(docs.map(d => ({
-      loan_product_id: d.loan_product_id,
-      document_type_id: d.document_type_id,
-      document_type: d.document_type,
-      is_mandatory: d.is_mandatory,
-      custom_instructions: d.custom_instructions,
-      display_order: d.display_order,
-    })));
+
+    // Continue an unpublished draft rather than starting over from the live terms
+    const draft = await fetchProductDraft(product.id);
+    const terms: ProductTerms = draft?.snapshot || product;
+    setEditingDraft(draft);
+    setChangeNote(draft?.change_note || '');
+    setEligibilityCriteria(parseEligibilityCriteria(terms.eligibility_criteria));
+    setPricingTiers(terms.pricing_tiers || []);
+
+    if (draft) {
+      setSelectedDocuments(draft.snapshot.documents.map(d => ({
+        loan_product_id: product.id,
+        document_type_id: d.document_type_id,
+        document_type: documentTypes.find(t => t.id === d.document_type_id),
+        is_mandatory: d.is_mandatory,
+        custom_instructions: d.custom_instructions || undefined,
+        display_order: d.display_order,
+      })));
+    } else {
+      // Fetch existing document requirements
+      const docs = await fetchProductDocuments(product.id);
+      setSelectedDocuments(docs.map(d => ({
+        loan_product_id: d.loan_product_id,
+        document_type_id: d.document_type_id,
+        document_type: d.document_type,
+        is_mandatory: d.is_mandatory,
+        custom_instructions: d.custom_instructions,
+        display_order: d.display_order,
+      })));
+    }
     
     form.reset({
-      name: product.name,
-      description: product.description,
-      purpose: product.purpose,
-      min_amount: product.min_amount,
-      max_amount: product.max_amount,
-      min_term_months: product.min_term_months,
-      max_term_months: product.max_term_months,
-      interest_rate: product.interest_rate,
-      processing_fee: product.processing_fee,
-      late_payment_fee: product.late_payment_fee,
-      grace_period_months: product.grace_period_months,
-      icon_name: product.icon_name,
+      name: terms.name,
+      description: terms.description,
+      purpose: terms.purpose,
+      min_amount: terms.min_amount,
+      max_amount: terms.max_amount,
+      min_term_months: terms.min_term_months,
+      max_term_months: terms.max_term_months,
+      interest_rate: terms.interest_rate,
+      processing_fee: terms.processing_fee,
+      late_payment_fee: terms.late_payment_fee,
+      grace_period_months: terms.grace_period_months,
+      interest_method: terms.interest_method || 'reducing_balance',
+      repayment_frequency: terms.repayment_frequency || 'monthly',
+      icon_name: terms.icon_name,
     });
     setDialogOpen(true);
   };
 
+  // Shown inline by the tier editor; saving is blocked until they are fixed
+  const pricingTierErrors = validatePricingTiers(pricingTiers);
+
   const onSubmit = async (data: ProductFormData) => {
+    if (pricingTierErrors.length > 0) return;
+
     setSaving(true);
     setError('');
     setSuccess('');
@@ -220,58 +330,75 @@ export default function Products() {
       
       const productData = {
         ...data,
-        eligibility_criteria: {},
+        eligibility_criteria: eligibilityCriteria,
+        pricing_tiers: pricingTiers,
         required_documents: documentNames,
         is_active: true,
         display_order: editingProduct?.display_order || products.length,
         updated_at: new Date().toISOString(),
       };
 
-      let productId: string;
+      const snapshot = buildProductSnapshot(
+        { ...productData, icon_name: productData.icon_name || 'package' },
+        selectedDocuments
+      );
 
       if (editingProduct) {
-        const { error } = await supabase
-          .from('loan_products')
-          .update(productData)
-          .eq('id', editingProduct.id);
-
-        if (error) throw error;
-        productId = editingProduct.id;
-        
-        // Delete existing document associations
-        await supabase
-          .from('loan_product_documents')
-          .delete()
-          .eq('loan_product_id', productId);
-      } else {
-        const { data: newProduct, error } = await supabase
-          .from('loan_products')
-          .insert([productData])
-          .select()
-          .single();
+        // Edits never touch the live row; the draft is published from Versions
+        const draftData = {
+          snapshot,
+          change_note: changeNote.trim() || null,
+          updated_at: new Date().toISOString(),
+        };
+        const { error } = editingDraft
+          ? await supabase
+              .from('loan_product_versions')
+              .update(draftData)
+              .eq('id', editingDraft.id)
+          : await supabase
+              .from('loan_product_versions')
+              .insert([{
+                ...draftData,
+                loan_product_id: editingProduct.id,
+                status: 'draft',
+                created_by: adminUser?.id,
+              }]);
 
         if (error) throw error;
-        productId = newProduct.id;
+        setSuccess(`Draft saved for ${data.name}. Publish it from Versions to make it live.`);
+        setDialogOpen(false);
+        return;
       }
 
-      // Save document associations
-      if (selectedDocuments.length > 0) {
-        const documentAssociations = selectedDocuments.map(doc => ({
-          loan_product_id: productId,
-          document_type_id: doc.document_type_id,
-          is_mandatory: doc.is_mandatory,
-          custom_instructions: doc.custom_instructions || null,
-          display_order: doc.display_order,
-        }));
-
-        const { error: docError } = await supabase
-          .from('loan_product_documents')
-          .insert(documentAssociations);
-
-        if (docError) throw docError;
+      // New products belong to the organization being edited
+      const newProductData = organization
+        ? { ...productData, organization_id: organization.id }
+        : productData;
+
+      if (dualControl) {
+        // The reviewer's approval creates the product, its documents and version 1
+        await requestApproval({
+          table: 'loan_products',
+          action: 'INSERT',
+          current: null,
+          proposed: newProductData,
+          summary: `Create loan product "${data.name}"`,
+          metadata: { documents: snapshot.documents },
+        });
+        setDialogOpen(false);
+        return;
       }
 
-      setSuccess(editingProduct ? 'Product updated successfully!' : 'Product created successfully!');
+      // A new product is live straight away; the RPC also saves its
+      // documents and records its terms as version 1
+      const { error } = await supabase.rpc('create_loan_product', {
+        product: newProductData,
+        documents: snapshot.documents,
+      });
+
+      if (error) throw error;
+
+      setSuccess('Product created successfully!');
       setDialogOpen(false);
       fetchProducts();
     } catch (err: any) {
@@ -286,6 +413,18 @@ export default function Products() {
     if (!confirm('Are you sure you want to delete this product?')) return;
 
     try {
+      if (dualControl) {
+        const product = products.find(p => p.id === id);
+        await requestApproval({
+          table: 'loan_products',
+          action: 'DELETE',
+          recordId: id,
+          current: product || null,
+          summary: `Delete loan product "${product?.name}"`,
+        });
+        return;
+      }
+
       const { error } = await supabase
         .from('loan_products')
         .delete()
@@ -302,6 +441,18 @@ export default function Products() {
 
   const toggleProductStatus = async (product: LoanProduct) => {
     try {
+      if (dualControl) {
+        await requestApproval({
+          table: 'loan_products',
+          action: 'UPDATE',
+          recordId: product.id,
+          current: product,
+          proposed: { is_active: !product.is_active },
+          summary: `${product.is_active ? 'Deactivate' : 'Activate'} loan product "${product.name}"`,
+        });
+        return;
+      }
+
       const { error } = await supabase
         .from('loan_products')
         .update({ is_active: !product.is_active })
@@ -353,10 +504,12 @@ export default function Products() {
             Manage loan products and their parameters
           </p>
         </div>
-        <Button onClick={openAddDialog} size="lg">
-          <Plus className="mr-2 h-4 w-4" />
-          Add Product
-        </Button>
+        {canWrite && (
+          <Button onClick={openAddDialog} size="lg">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Product
+          </Button>
+        )}
       </div>
 
       {error && (
@@ -403,7 +556,7 @@ export default function Products() {
                   ? 'Try adjusting your search terms' 
                   : 'Get started by creating your first loan product.'}
               </p>
-              {!searchQuery && (
+              {!searchQuery && canWrite && (
                 <Button onClick={openAddDialog} className="mt-4">
                   <Plus className="mr-2 h-4 w-4" />
                   Add Your First Product
@@ -442,10 +595,10 @@ export default function Products() {
                         <DollarSign className="h-4 w-4 text-muted-foreground" />
                         <div>
                           <div className="font-medium">
-                            ${product.min_amount.toLocaleString()}
+                            {currencySymbol}{product.min_amount.toLocaleString()}
                           </div>
                           <div className="text-sm text-muted-foreground">
-                            to ${product.max_amount.toLocaleString()}
+                            to {currencySymbol}{product.max_amount.toLocaleString()}
                           </div>
                         </div>
                       </div>
@@ -471,6 +624,9 @@ export default function Products() {
                             {product.interest_rate}% p.a.
                           </span>
                         </div>
+                        <div className="text-xs text-muted-foreground">
+                          {getInterestMethodLabel(product.interest_method)} · {getFrequencyLabel(product.repayment_frequency)}
+                        </div>
                         <div className="flex items-center gap-2">
                           <Percent className="h-3 w-3 text-muted-foreground" />
                           <span className="text-sm">
@@ -485,12 +641,18 @@ export default function Products() {
                             </span>
                           </div>
                         )}
+                        {(product.pricing_tiers?.length || 0) > 0 && (
+                          <Badge variant="outline" className="text-xs">
+                            {product.pricing_tiers!.length} pricing tier{product.pricing_tiers!.length === 1 ? '' : 's'}
+                          </Badge>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>
                       <Switch
                         checked={product.is_active || false}
                         onCheckedChange={() => toggleProductStatus(product)}
+                        disabled={!canWrite}
                       />
                     </TableCell>
                     <TableCell className="text-right">
@@ -503,31 +665,41 @@ export default function Products() {
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
                           <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                          <DropdownMenuItem onClick={() => openEditDialog(product)}>
-                            <Edit className="mr-2 h-4 w-4" />
-                            Edit
-                          </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => toggleProductStatus(product)}>
-                            {product.is_active ? (
-                              <>
-                                <Package className="mr-2 h-4 w-4" />
-                                Deactivate
-                              </>
-                            ) : (
-                              <>
-                                <CheckCircle2 className="mr-2 h-4 w-4" />
-                                Activate
-                              </>
-                            )}
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem 
-                            onClick={() => deleteProduct(product.id)}
-                            className="text-destructive"
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Delete
+                          {canWrite && (
+                            <DropdownMenuItem onClick={() => openEditDialog(product)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => setVersionsProduct(product)}>
+                            <History className="mr-2 h-4 w-4" />
+                            Versions
                           </DropdownMenuItem>
+                          {canWrite && (
+                            <>
+                              <DropdownMenuItem onClick={() => toggleProductStatus(product)}>
+                                {product.is_active ? (
+                                  <>
+                                    <Package className="mr-2 h-4 w-4" />
+                                    Deactivate
+                                  </>
+                                ) : (
+                                  <>
+                                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                                    Activate
+                                  </>
+                                )}
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem 
+                                onClick={() => deleteProduct(product.id)}
+                                className="text-destructive"
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -547,7 +719,9 @@ export default function Products() {
             </DialogTitle>
             <DialogDescription>
               {editingProduct
-                ? 'Update the details of your loan product.'
+                ? editingDraft
+                  ? `Continuing draft v${editingDraft.version_number}. Changes stay in the draft until it is published.`
+                  : 'Changes are saved as a draft. Publish it from Versions to make it live.'
                 : 'Create a new loan product with specific parameters.'}
             </DialogDescription>
           </DialogHeader>
@@ -620,7 +794,7 @@ export default function Products() {
                     name="min_amount"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Minimum Amount ($)</FormLabel>
+                        <FormLabel>Minimum Amount ({currencySymbol})</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -639,7 +813,7 @@ export default function Products() {
                     name="max_amount"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Maximum Amount ($)</FormLabel>
+                        <FormLabel>Maximum Amount ({currencySymbol})</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -717,6 +891,59 @@ export default function Products() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="interest_method"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Interest Method</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {INTEREST_METHODS.map((method) => (
+                              <SelectItem key={method.value} value={method.value}>
+                                {method.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          {INTEREST_METHODS.find(m => m.value === field.value)?.description}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="repayment_frequency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repayment Frequency</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {REPAYMENT_FREQUENCIES.map((frequency) => (
+                              <SelectItem key={frequency.value} value={frequency.value}>
+                                {frequency.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="processing_fee"
@@ -778,6 +1005,54 @@ export default function Products() {
                 </div>
               </div>
 
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-medium">Pricing Tiers</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Override the rate and fee by amount, term or risk grade. The first matching tier applies.
+                  </p>
+                </div>
+                <PricingTierEditor
+                  value={pricingTiers}
+                  onChange={setPricingTiers}
+                  base={{
+                    interest_rate: form.watch('interest_rate'),
+                    processing_fee: form.watch('processing_fee'),
+                  }}
+                  currencySymbol={currencySymbol}
+                />
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-medium">Repayment Preview</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Sanity-check pricing for a sample loan before publishing
+                  </p>
+                </div>
+                <LoanCalculator
+                  product={{ ...form.watch(), pricing_tiers: pricingTiers }}
+                  currencySymbol={currencySymbol}
+                />
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-medium">Eligibility Rules</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Applicants must satisfy these rules to apply for this product
+                  </p>
+                </div>
+                <EligibilityRuleBuilder
+                  value={eligibilityCriteria}
+                  onChange={setEligibilityCriteria}
+                />
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Test against an existing application</p>
+                  <EligibilityTester criteria={eligibilityCriteria} />
+                </div>
+              </div>
+
               <FormField
                 control={form.control}
                 name="icon_name"
@@ -803,11 +1078,23 @@ export default function Products() {
                 />
               </div>
 
+              {editingProduct && (
+                <div className="space-y-2">
+                  <Label htmlFor="product-change-note">Change note</Label>
+                  <Input
+                    id="product-change-note"
+                    placeholder="What changed and why, e.g. Lower rate for prime borrowers"
+                    value={changeNote}
+                    onChange={(e) => setChangeNote(e.target.value)}
+                  />
+                </div>
+              )}
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancel
                 </Button>
-                <Button type="submit" disabled={saving}>
+                <Button type="submit" disabled={saving || pricingTierErrors.length > 0}>
                   {saving ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -816,7 +1103,7 @@ export default function Products() {
                   ) : (
                     <>
                       <Save className="mr-2 h-4 w-4" />
-                      {editingProduct ? 'Update Product' : 'Create Product'}
+                      {editingProduct ? 'Save Draft' : 'Create Product'}
                     </>
                   )}
                 </Button>
@@ -825,6 +1112,14 @@ export default function Products() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      <ProductVersionsDialog
+        product={versionsProduct}
+        open={!!versionsProduct}
+        onOpenChange={(open) => !open && setVersionsProduct(null)}
+        currencySymbol={currencySymbol}
+        onPublished={fetchProducts}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useMfa, useMfaStatus, type TotpEnrollment } from '@/hooks/useMfa';
+import { getMfaRequirement, isValidTotpCode, roleRequiresMfa } from '@/lib/mfa';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, Loader2, ShieldCheck, Smartphone, Trash2 } from 'lucide-react';
+
+export default function Profile() {
+  const { adminUser } = useAuth();
+  const { status, factors, loading, error: statusError, refetch } = useMfaStatus(!!adminUser);
+  const { enroll, verifyEnrollment, unenroll } = useMfa();
+  const [deviceName, setDeviceName] = useState('');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const requirement = getMfaRequirement(adminUser?.role, status);
+  const mfaRequired = roleRequiresMfa(adminUser?.role, !!status?.policyEnabled);
+
+  const startEnrollment = async () => {
+    setBusy(true);
+    setError('');
+    setSuccess('');
+    const { data, error } = await enroll(deviceName);
+    setBusy(false);
+    if (error) {
+      setError(error);
+      return;
+    }
+    setEnrollment(data);
+    setCode('');
+  };
+
+  const cancelEnrollment = async () => {
+    if (enrollment) await unenroll(enrollment.factorId);
+    setEnrollment(null);
+    setCode('');
+    setError('');
+  };
+
+  const confirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+    setBusy(true);
+    setError('');
+    const { error } = await verifyEnrollment(enrollment.factorId, code);
+    setBusy(false);
+    if (error) {
+      setError(error);
+      setCode('');
+      return;
+    }
+    setEnrollment(null);
+    setDeviceName('');
+    setSuccess('Two-factor authentication is on. You will be asked for a code each time you sign in.');
+    await refetch();
+  };
+
+  const removeFactor = async (factorId: string) => {
+    if (!window.confirm('Remove this authenticator? You will no longer be asked for a code when signing in.')) {
+      return;
+    }
+    setBusy(true);
+    setError('');
+    setSuccess('');
+    const { error } = await unenroll(factorId);
+    setBusy(false);
+    if (error) {
+      setError(error);
+      return;
+    }
+    setSuccess('Authenticator removed.');
+    await refetch();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Profile</h1>
+        <p className="text-muted-foreground">
+          Your account and sign-in security
+        </p>
+      </div>
+
+      {requirement === 'enroll' && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            Your organization requires two-factor authentication. Set up an authenticator app to continue using the panel.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {(error || statusError) && (
+        <Alert variant="destructive">
+          <AlertDescription>{error || statusError}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert variant="default">
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Account</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <p className="text-sm text-muted-foreground">Name</p>
+            <p className="font-medium">{adminUser?.full_name || '—'}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Email</p>
+            <p className="font-medium">{adminUser?.email}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Role</p>
+            {adminUser && <Badge variant="outline">{ROLE_LABELS[adminUser.role]}</Badge>}
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Last sign-in</p>
+            <p className="font-medium">
+              {adminUser?.last_login
+                ? formatDistanceToNow(new Date(adminUser.last_login), { addSuffix: true })
+                : 'Never'}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+            <CardTitle>Two-factor authentication</CardTitle>
+          </div>
+          <CardDescription>
+            Use an authenticator app such as 1Password, Google Authenticator or Authy to generate sign-in codes
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading && !status ? (
+            <Skeleton className="h-12 w-full" />
+          ) : factors.length > 0 ? (
+            <div className="space-y-2">
+              {factors.map((factor) => (
+                <div key={factor.id} className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="flex items-center gap-3">
+                    <Smartphone className="h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium">{factor.friendly_name || 'Authenticator app'}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Added {format(new Date(factor.created_at), 'MMM d, yyyy')}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => removeFactor(factor.id)}
+                    disabled={busy || (mfaRequired && factors.length === 1)}
+                    title={mfaRequired && factors.length === 1
+                      ? 'Your organization requires two-factor authentication'
+                      : undefined}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : !enrollment && (
+            <p className="text-sm text-muted-foreground">
+              Two-factor authentication is off for your account.
+            </p>
+          )}
+
+          {enrollment ? (
+            <form onSubmit={confirmEnrollment} className="space-y-4 rounded-lg border p-4">
+              <div className="flex flex-col gap-4 sm:flex-row">
+                <img
+                  src={enrollment.qrCode}
+                  alt="QR code for your authenticator app"
+                  className="h-44 w-44 rounded bg-white p-2"
+                />
+                <div className="space-y-2 text-sm">
+                  <p>1. Scan the QR code with your authenticator app.</p>
+                  <p>
+                    Can't scan it? Enter this key instead:
+                    <span className="mt-1 block break-all font-mono">{enrollment.secret}</span>
+                  </p>
+                  <p>2. Enter the 6-digit code the app shows.</p>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="enroll-code">Authentication code</Label>
+                <Input
+                  id="enroll-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="mt-1 w-40 tracking-widest"
+                  maxLength={7}
+                  disabled={busy}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={busy || !isValidTotpCode(code)}>
+                  {busy ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <KeyRound className="mr-2 h-4 w-4" />
+                  )}
+                  Verify and turn on
+                </Button>
+                <Button type="button" variant="outline" onClick={cancelEnrollment} disabled={busy}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : factors.length === 0 && (
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+              <div>
+                <Label htmlFor="device-name">Device name (optional)</Label>
+                <Input
+                  id="device-name"
+                  placeholder="e.g. Work phone"
+                  value={deviceName}
+                  onChange={(e) => setDeviceName(e.target.value)}
+                  className="mt-1 sm:w-64"
+                  disabled={busy}
+                />
+              </div>
+              <Button onClick={startEnrollment} disabled={busy || loading}>
+                {busy ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                )}
+                Set up authenticator app
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { usePasswordReset, useRecoverySession } from '../hooks/usePasswordReset';
+import { useMfa } from '../hooks/useMfa';
+import { getPasswordIssues, getPasswordStrength, type PasswordStrength } from '@/lib/passwordReset';
+import { isValidTotpCode } from '@/lib/mfa';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Lock, AlertCircle, Loader2, KeyRound } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const STRENGTH_LEVELS: Record<PasswordStrength, { bars: number; label: string; className: string }> = {
+  weak: { bars: 1, label: 'Weak', className: 'bg-destructive' },
+  fair: { bars: 2, label: 'Fair', className: 'bg-amber-500' },
+  good: { bars: 3, label: 'Good', className: 'bg-lime-500' },
+  strong: { bars: 4, label: 'Strong', className: 'bg-green-600' },
+};
+
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const recovery = useRecoverySession();
+  const { updatePassword } = usePasswordReset();
+  const { needsChallenge, verifyChallenge } = useMfa();
+  const [mfaNeeded, setMfaNeeded] = useState(false);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const issues = getPasswordIssues(password, recovery.email);
+  const strength = STRENGTH_LEVELS[getPasswordStrength(password, recovery.email)];
+  const mismatch = confirmPassword.length > 0 && password !== confirmPassword;
+
+  const savePassword = async () => {
+    const { error } = await updatePassword(password);
+    setLoading(false);
+    if (error) {
+      setError(error);
+      return;
+    }
+    navigate('/login', { replace: true, state: { reason: 'password_reset' } });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (issues.length > 0 || password !== confirmPassword) return;
+    setError('');
+    setLoading(true);
+
+    // Accounts with an authenticator must verify it before the password changes
+    if (await needsChallenge()) {
+      setLoading(false);
+      setMfaNeeded(true);
+      return;
+    }
+    await savePassword();
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    const { error } = await verifyChallenge(code);
+    if (error) {
+      setLoading(false);
+      setError(error);
+      setCode('');
+      return;
+    }
+    setMfaNeeded(false);
+    await savePassword();
+  };
+
+  const errorBox = error && (
+    <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3">
+      <div className="flex items-center gap-2">
+        <AlertCircle className="h-4 w-4 text-destructive" />
+        <p className="text-sm text-destructive">{error}</p>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Choose a new password</CardTitle>
+          <CardDescription className="text-center">
+            {recovery.email ? `For ${recovery.email}` : 'Finish resetting your password'}
+          </CardDescription>
+        </CardHeader>
+
+        {recovery.status === 'checking' ? (
+          <CardContent className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </CardContent>
+        ) : recovery.status === 'invalid' ? (
+          <>
+            <CardContent>
+              <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4 text-destructive" />
+                  <p className="text-sm text-destructive">{recovery.error}</p>
+                </div>
+              </div>
+            </CardContent>
+            <CardFooter className="flex flex-col gap-2">
+              <Button asChild className="w-full">
+                <Link to="/forgot-password">Request a new link</Link>
+              </Button>
+              <Button asChild variant="ghost" className="w-full">
+                <Link to="/login">Back to sign in</Link>
+              </Button>
+            </CardFooter>
+          </>
+        ) : mfaNeeded ? (
+          <form onSubmit={handleVerify}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="mfa-code">Authentication code</Label>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="mfa-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="pl-10 tracking-widest"
+                    maxLength={7}
+                    autoFocus
+                    disabled={loading}
+                  />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Enter the code from your authenticator app to confirm the change.
+                </p>
+              </div>
+              {errorBox}
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={loading || !isValidTotpCode(code)}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Verify
+              </Button>
+            </CardFooter>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="new-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                {password && (
+                  <div className="space-y-1">
+                    <div className="flex gap-1" aria-hidden="true">
+                      {[1, 2, 3, 4].map((bar) => (
+                        <div
+                          key={bar}
+                          className={cn('h-1.5 flex-1 rounded-full bg-muted', bar <= strength.bars && strength.className)}
+                        />
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">Strength: {strength.label}</p>
+                  </div>
+                )}
+                {password && issues.length > 0 && (
+                  <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                    {issues.map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="pl-10"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                {mismatch && <p className="text-sm text-destructive">Passwords do not match</p>}
+              </div>
+              {errorBox}
+            </CardContent>
+            <CardFooter>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loading || issues.length > 0 || !confirmPassword || mismatch}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Set new password'
+                )}
+              </Button>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,478 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useAdminTeam } from '@/hooks/useAdminTeam';
+import { useLoginHistory } from '@/hooks/useLoginHistory';
+import { getInviteBlocker, getMemberChangeBlocker, isInvitationExpired } from '@/lib/adminTeam';
+import { ROLE_LABELS, type AdminRole } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  History,
+  Loader2,
+  MailPlus,
+  RefreshCw,
+  Send,
+  UserCheck,
+  UserX,
+  X,
+} from 'lucide-react';
+import type { AdminTeamMember } from '@/types';
+
+const ROLES: AdminRole[] = ['super_admin', 'admin', 'viewer'];
+
+const EMPTY_INVITE = { email: '', full_name: '', role: 'admin' as AdminRole };
+
+export default function Team() {
+  const { adminUser } = useAuth();
+  const {
+    members,
+    invitations,
+    loading,
+    error,
+    inviteAdmin,
+    resendInvitation,
+    revokeInvitation,
+    changeRole,
+    deactivate,
+    reactivate,
+    refetch,
+  } = useAdminTeam();
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [invite, setInvite] = useState(EMPTY_INVITE);
+  const [sending, setSending] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [success, setSuccess] = useState('');
+  const [historyMember, setHistoryMember] = useState<AdminTeamMember | null>(null);
+  const loginHistory = useLoginHistory(historyMember?.id ?? null);
+
+  const inviteBlocker = invite.email.trim() ? getInviteBlocker(invite.email, members) : null;
+  const inviteEmailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(invite.email.trim());
+
+  const handleInvite = async () => {
+    setSending(true);
+    setSuccess('');
+    const { error, accepted } = await inviteAdmin(invite);
+    setSending(false);
+    if (!error) {
+      setSuccess(accepted
+        ? `${invite.email.trim()} already had an account and now has access. We sent them a sign-in link.`
+        : `Invitation sent to ${invite.email.trim()}.`);
+      setInvite(EMPTY_INVITE);
+      setInviteOpen(false);
+    }
+  };
+
+  const handleRoleChange = async (member: AdminTeamMember, role: AdminRole) => {
+    if (role === member.role) return;
+    setBusyId(member.id);
+    setSuccess('');
+    const { error } = await changeRole(member.id, role);
+    setBusyId(null);
+    if (!error) setSuccess(`${member.email} is now ${ROLE_LABELS[role].toLowerCase()}.`);
+  };
+
+  const handleToggleActive = async (member: AdminTeamMember) => {
+    if (member.is_active && !confirm(`Deactivate ${member.email}? They will be signed out and lose access to the panel.`)) {
+      return;
+    }
+    setBusyId(member.id);
+    setSuccess('');
+    const { error } = member.is_active ? await deactivate(member.id) : await reactivate(member.id);
+    setBusyId(null);
+    if (!error) setSuccess(`${member.email} has been ${member.is_active ? 'deactivated' : 'reactivated'}.`);
+  };
+
+  const handleResend = async (id: string) => {
+    const invitation = invitations.find(i => i.id === id);
+    if (!invitation) return;
+    setBusyId(id);
+    setSuccess('');
+    const { error } = await resendInvitation(invitation);
+    setBusyId(null);
+    if (!error) setSuccess(`Invitation re-sent to ${invitation.email}.`);
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this invitation?')) return;
+    setBusyId(id);
+    setSuccess('');
+    const { error } = await revokeInvitation(id);
+    setBusyId(null);
+    if (!error) setSuccess('Invitation revoked.');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Admin Team</h1>
+          <p className="text-muted-foreground">
+            Invite admins, change their roles and remove access
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={refetch} disabled={loading}>
+            <RefreshCw className={loading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+          </Button>
+          <Button onClick={() => setInviteOpen(true)}>
+            <MailPlus className="mr-2 h-4 w-4" />
+            Invite Admin
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert variant="default">
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Admins</CardTitle>
+          <CardDescription>Everyone who can sign in to this panel</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading && members.length === 0 ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Admin</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last login</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => {
+                  const busy = busyId === member.id;
+                  const isSelf = member.id === adminUser?.id;
+                  const statusBlocker = getMemberChangeBlocker(
+                    members,
+                    member,
+                    { active: !member.is_active },
+                    adminUser?.id
+                  );
+
+                  return (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {member.full_name || member.email}
+                          {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                        </div>
+                        {member.full_name && (
+                          <div className="text-sm text-muted-foreground">{member.email}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {isSelf || !member.is_active ? (
+                          <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                        ) : (
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => handleRoleChange(member, value as AdminRole)}
+                            disabled={busy}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ROLES.map((role) => (
+                                <SelectItem
+                                  key={role}
+                                  value={role}
+                                  disabled={!!getMemberChangeBlocker(members, member, { role }, adminUser?.id)}
+                                >
+                                  {ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {member.is_active ? (
+                          <Badge variant="default">Active</Badge>
+                        ) : (
+                          <Badge variant="secondary">Deactivated</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {member.last_login ? (
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-muted-foreground"
+                            onClick={() => setHistoryMember(member)}
+                            title="View sign-in history"
+                          >
+                            <History className="mr-1 h-3 w-3" />
+                            {formatDistanceToNow(new Date(member.last_login), { addSuffix: true })}
+                          </Button>
+                        ) : (
+                          'Never'
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!isSelf && (
+                          <Button
+                            variant={member.is_active ? 'outline' : 'default'}
+                            size="sm"
+                            onClick={() => handleToggleActive(member)}
+                            disabled={busy || !!statusBlocker}
+                            title={statusBlocker || undefined}
+                          >
+                            {busy ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : member.is_active ? (
+                              <UserX className="mr-2 h-4 w-4" />
+                            ) : (
+                              <UserCheck className="mr-2 h-4 w-4" />
+                            )}
+                            {member.is_active ? 'Deactivate' : 'Reactivate'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending invitations</CardTitle>
+          <CardDescription>
+            Invitations expire after 7 days. Invitees get access the first time they use the emailed link.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invitations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No pending invitations.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Invited</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => {
+                  const expired = isInvitationExpired(invitation);
+                  const busy = busyId === invitation.id;
+
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell>
+                        <div className="font-medium">{invitation.email}</div>
+                        {invitation.full_name && (
+                          <div className="text-sm text-muted-foreground">{invitation.full_name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{ROLE_LABELS[invitation.role]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(invitation.created_at), { addSuffix: true })}
+                        {invitation.invited_by_email && ` by ${invitation.invited_by_email}`}
+                        {expired && <Badge variant="destructive" className="ml-2">Expired</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {!expired && (
+                          <Button variant="outline" size="sm" onClick={() => handleResend(invitation.id)} disabled={busy}>
+                            <Send className="mr-2 h-4 w-4" />
+                            Resend
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation.id)} disabled={busy}>
+                          <X className="mr-2 h-4 w-4" />
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Invite Dialog */}
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Invite Admin</DialogTitle>
+            <DialogDescription>
+              We'll email a sign-in link. Expired invitations can be sent again.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="name@company.com"
+                value={invite.email}
+                onChange={(e) => setInvite(prev => ({ ...prev, email: e.target.value }))}
+                className="mt-1"
+              />
+              {inviteBlocker && (
+                <p className="text-sm text-destructive mt-1">{inviteBlocker}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="invite-name">Full name (optional)</Label>
+              <Input
+                id="invite-name"
+                value={invite.full_name}
+                onChange={(e) => setInvite(prev => ({ ...prev, full_name: e.target.value }))}
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="invite-role">Role</Label>
+              <Select
+                value={invite.role}
+                onValueChange={(value) => setInvite(prev => ({ ...prev, role: value as AdminRole }))}
+              >
+                <SelectTrigger id="invite-role" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleInvite} disabled={sending || !inviteEmailValid || !!inviteBlocker}>
+              {sending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <Send className="mr-2 h-4 w-4" />
+                  Send Invitation
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Sign-in History Dialog */}
+      <Dialog open={!!historyMember} onOpenChange={(open) => !open && setHistoryMember(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Sign-in history</DialogTitle>
+            <DialogDescription>
+              Most recent sign-ins for {historyMember?.full_name || historyMember?.email}
+            </DialogDescription>
+          </DialogHeader>
+
+          {loginHistory.error && (
+            <Alert variant="destructive">
+              <AlertDescription>{loginHistory.error}</AlertDescription>
+            </Alert>
+          )}
+
+          {loginHistory.loading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+            </div>
+          ) : loginHistory.entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sign-ins recorded yet.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>IP address</TableHead>
+                    <TableHead>Browser</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loginHistory.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(entry.created_at), 'MMM d, yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{entry.ip_address || 'Unknown'}</TableCell>
+                      <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={entry.user_agent || undefined}>
+                        {entry.user_agent || 'Unknown'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
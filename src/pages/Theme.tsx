@@ -3,6 +3,9 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/lib/supabase';
+import { useDualControl } from '@/hooks/useDualControl';
+import { usePermission } from '@/hooks/usePermission';
+import { useCurrentOrganization } from '@/hooks/useCurrentOrganization';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -93,6 +96,9 @@ export default function Theme() {
   const [currentTheme, setCurrentTheme] = useState<any>(null);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const { enabled: dualControl, submitChange } = useDualControl();
+  const canWrite = usePermission('theme.write');
+  const { organizationId, loading: organizationLoading } = useCurrentOrganization();
   // const [isDarkMode, setIsDarkMode] = useState(false);
 
   const form = useForm<ThemeFormData>({
@@ -103,17 +109,22 @@ export default function Theme() {
   // const watchedValues = form.watch();
 
   useEffect(() => {
-    fetchThemeConfig();
-  }, []);
+    if (!organizationLoading) fetchThemeConfig();
+  }, [organizationId, organizationLoading]);
 
   const fetchThemeConfig = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('app_theme')
         .select('*')
-        .eq('is_active', true)
-        .single();
+        .eq('is_active', true);
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+
+      const { data, error } = await query.single();
 
       if (error && error.code !== 'PGRST116') throw error;
       
@@ -145,6 +156,7 @@ export default function Theme() {
   };
 
   const onSubmit = async (data: ThemeFormData) => {
+    if (!canWrite) return;
     console.log('Theme form submitted with data:', data);
     setSaving(true);
     setError('');
@@ -236,9 +248,24 @@ export default function Theme() {
           round: 9999
         },
         is_active: true,
+        ...(organizationId ? { organization_id: organizationId } : {}),
         updated_at: new Date().toISOString(),
       };
 
+      if (dualControl) {
+        const { error } = await submitChange({
+          table: 'app_theme',
+          action: currentTheme ? 'UPDATE' : 'INSERT',
+          recordId: currentTheme?.id,
+          current: currentTheme,
+          proposed: themeData,
+          summary: currentTheme ? 'Update app theme' : 'Create app theme',
+        });
+        if (error) throw new Error(error);
+        setSuccess('Theme changes submitted for approval. They take effect once another super admin approves them.');
+        return;
+      }
+
       if (currentTheme) {
         const { data: updatedData, error } = await supabase
           .from('app_theme')
@@ -744,25 +771,31 @@ export default function Theme() {
                 </Alert>
               )}
 
-              <div className="flex justify-between">
-                <Button type="button" variant="outline" onClick={resetToDefault}>
-                  <RefreshCw className="mr-2 h-4 w-4" />
-                  Reset to Default
-                </Button>
-                <Button type="submit" disabled={saving} size="lg">
-                  {saving ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Saving...
-                    </>
-                  ) : (
-                    <>
-                      <Save className="mr-2 h-4 w-4" />
-                      Save Theme
-                    </>
-                  )}
-                </Button>
-              </div>
+              {!canWrite ? (
+                <Alert variant="default">
+                  <AlertDescription>You have read-only access to the theme.</AlertDescription>
+                </Alert>
+              ) : (
+                <div className="flex justify-between">
+                  <Button type="button" variant="outline" onClick={resetToDefault}>
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Reset to Default
+                  </Button>
+                  <Button type="submit" disabled={saving} size="lg">
+                    {saving ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <Save className="mr-2 h-4 w-4" />
+                        {dualControl ? 'Submit for Approval' : 'Save Theme'}
+                      </>
+                    )}
+                  </Button>
+                </div>
+              )}
             </form>
           </Form>
         </div>
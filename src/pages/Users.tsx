@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useUsers } from '../hooks/useUsers';
+import { usePermissions } from '../hooks/usePermission';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -68,6 +69,7 @@ import {
 export default function UsersPage() {
   const navigate = useNavigate();
   const { users, loading, error, stats, filters, setFilters, exportToCSV, refreshUsers } = useUsers();
+  const { can } = usePermissions();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedUser, setSelectedUser] = useState<any>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
@@ -158,15 +160,17 @@ export default function UsersPage() {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={exportToCSV}
-            disabled={loading || users.length === 0}
-          >
-            <Download className="h-4 w-4 mr-2" />
-            Export CSV
-          </Button>
+          {can('users.export') && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={exportToCSV}
+              disabled={loading || users.length === 0}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          )}
         </div>
       </div>
 
@@ -422,10 +426,12 @@ export default function UsersPage() {
                                 <FileText className="mr-2 h-4 w-4" />
                                 View Applications
                               </DropdownMenuItem>
-                              <DropdownMenuItem onClick={() => handleSendNotification(user)}>
-                                <Bell className="mr-2 h-4 w-4" />
-                                Send Notification
-                              </DropdownMenuItem>
+                              {can('users.notify') && (
+                                <DropdownMenuItem onClick={() => handleSendNotification(user)}>
+                                  <Bell className="mr-2 h-4 w-4" />
+                                  Send Notification
+                                </DropdownMenuItem>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </TableCell>
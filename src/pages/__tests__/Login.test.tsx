@@ -15,8 +15,10 @@ vi.mock('react-router-dom', async () => {
 })
 
 // Mock useAuth
+const mockRecordLogin = vi.fn().mockResolvedValue(undefined)
 vi.mock('@/hooks/useAuth', () => ({
   useAuth: () => ({
+    recordLogin: mockRecordLogin,
     signIn: vi.fn().mockImplementation((email, password) => {
       if (email === 'admin@test.com' && password === 'password123') {
         return Promise.resolve()
@@ -61,6 +63,7 @@ describe('Login Page', () => {
     await waitFor(() => {
       expect(mockNavigate).toHaveBeenCalledWith('/')
     })
+    expect(mockRecordLogin).toHaveBeenCalledTimes(1)
   })
 
   it('should show error on failed login', async () => {
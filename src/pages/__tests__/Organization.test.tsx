@@ -5,6 +5,9 @@ import { supabase } from '@/lib/supabase'
 
 vi.mock('@/lib/supabase')
 
+// Render as a super admin
+vi.mock('@/hooks/useAuth', () => import('@/__tests__/mocks/auth'))
+
 describe('Organization Settings Page', () => {
   const mockConfig = {
     id: 'config-1',
@@ -5,6 +5,9 @@ import { supabase } from '@/lib/supabase'
 
 vi.mock('@/lib/supabase')
 
+// Render as a super admin
+vi.mock('@/hooks/useAuth', () => import('@/__tests__/mocks/auth'))
+
 describe('Products Page - Simple Tests', () => {
   const mockProducts = [
     {
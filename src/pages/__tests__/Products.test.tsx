@@ -5,6 +5,9 @@ import { supabase } from '@/lib/supabase'
 
 vi.mock('@/lib/supabase')
 
+// Render as a super admin
+vi.mock('@/hooks/useAuth', () => import('@/__tests__/mocks/auth'))
+
 describe('Products Management Page', () => {
   const mockProducts = [
     {
@@ -278,16 +281,16 @@ describe('Products Management Page', () => {
     await user.click(saveButton)
 
     await waitFor(() => {
-      const fromMock = vi.mocked(supabase.from).mock.results[0]?.value
-      expect(fromMock?.insert).toHaveBeenCalledWith([
-        expect.objectContaining({
+      expect(supabase.rpc).toHaveBeenCalledWith('create_loan_product', {
+        product: expect.objectContaining({
           name: 'New Product',
           description: 'Test description',
           purpose: 'Testing',
           min_amount: 1000,
           max_amount: 10000,
-        })
-      ])
+        }),
+        documents: [],
+      })
     })
   })
 
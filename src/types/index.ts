@@ -8,6 +8,14 @@ export interface OrganizationConfig {
   support_phone?: string
   terms_url?: string
   privacy_url?: string
+  currency_code?: string
+  currency_symbol?: string
+  // When on, configuration changes need approval by a second super admin
+  dual_control_enabled?: boolean
+  // Admins idle for this long are signed out
+  session_timeout_minutes?: number
+  // Admins and super admins must sign in with an authenticator code
+  require_mfa?: boolean
   created_at: string
   updated_at: string
 }
@@ -39,6 +47,26 @@ export interface AppTheme {
   updated_at: string
 }
 
+export type InterestMethod = 'reducing_balance' | 'flat_rate' | 'balloon'
+
+export type RepaymentFrequency = 'weekly' | 'bi_weekly' | 'monthly'
+
+export type RiskGrade = 'A' | 'B' | 'C' | 'D' | 'E'
+
+// A band of a product with its own price. Unset bounds are open-ended and an
+// empty risk_grades list matches every grade.
+export interface PricingTier {
+  id: string
+  name: string
+  min_amount?: number | null
+  max_amount?: number | null
+  min_term_months?: number | null
+  max_term_months?: number | null
+  risk_grades: RiskGrade[]
+  interest_rate: number
+  processing_fee: number
+}
+
 export interface LoanProduct {
   id: string
   name: string
@@ -49,16 +77,74 @@ export interface LoanProduct {
   min_term_months: number
   max_term_months: number
   interest_rate: number
+  interest_method: InterestMethod
+  repayment_frequency: RepaymentFrequency
   processing_fee: number
   late_payment_fee: number
   grace_period_months: number
-  eligibility_criteria: Record<string, any>
+  eligibility_criteria: EligibilityCriteria | Record<string, never>
+  // Checked in order; the first matching tier overrides interest_rate and processing_fee
+  pricing_tiers?: PricingTier[] | null
   required_documents: string[]
   is_active: boolean
   display_order: number
   icon_name: string
   created_at: string
   updated_at: string
+  // The published version whose terms this row currently carries
+  current_version_id?: string | null
+}
+
+export type ProductVersionStatus = 'draft' | 'published'
+
+// The customer-facing terms a version carries. Operational fields such as
+// is_active and display_order stay on the live row and are not versioned.
+export type ProductTerms = Pick<
+  LoanProduct,
+  | 'name'
+  | 'description'
+  | 'purpose'
+  | 'min_amount'
+  | 'max_amount'
+  | 'min_term_months'
+  | 'max_term_months'
+  | 'interest_rate'
+  | 'interest_method'
+  | 'repayment_frequency'
+  | 'processing_fee'
+  | 'late_payment_fee'
+  | 'grace_period_months'
+  | 'eligibility_criteria'
+  | 'pricing_tiers'
+  | 'required_documents'
+  | 'icon_name'
+>
+
+export interface ProductVersionDocument {
+  document_type_id: string
+  is_mandatory: boolean
+  custom_instructions?: string | null
+  display_order: number
+}
+
+export interface ProductVersionSnapshot extends ProductTerms {
+  documents: ProductVersionDocument[]
+}
+
+export interface LoanProductVersion {
+  id: string
+  loan_product_id: string
+  version_number: number
+  status: ProductVersionStatus
+  snapshot: ProductVersionSnapshot
+  change_note?: string | null
+  // When a published version takes over from the previous one
+  effective_from?: string | null
+  published_at?: string | null
+  published_by?: string | null
+  created_by?: string | null
+  created_at: string
+  updated_at: string
 }
 
 export interface AdminUser {
@@ -70,15 +156,88 @@ export interface AdminUser {
   last_login?: string
 }
 
-export interface ConfigAuditLog {
+export interface AdminTeamMember {
+  id: string
+  email: string
+  full_name: string | null
+  role: AdminUser['role']
+  organization_id: string | null
+  is_active: boolean
+  deactivated_at: string | null
+  last_login: string | null
+  created_at: string
+}
+
+export interface AdminLoginEntry {
   id: string
   admin_user_id: string
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+}
+
+export type AdminInvitationStatus = 'pending' | 'accepted' | 'revoked'
+
+export interface AdminInvitation {
+  id: string
+  email: string
+  full_name: string | null
+  role: AdminUser['role']
+  status: AdminInvitationStatus
+  organization_id: string | null
+  invited_by: string | null
+  invited_by_email: string | null
+  accepted_at: string | null
+  expires_at: string
+  created_at: string
+}
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE'
+
+export interface ConfigAuditLog {
+  id: string
+  user_id: string | null
   table_name: string
-  record_id: string
-  action: 'create' | 'update' | 'delete'
-  old_value?: Record<string, any>
-  new_value?: Record<string, any>
+  record_id: string | null
+  action: AuditAction
+  old_values: Record<string, any> | null
+  new_values: Record<string, any> | null
   created_at: string
+  admin_user?: { email: string; full_name?: string | null } | null
+}
+
+export type ChangeRequestTable =
+  | 'organization_config'
+  | 'app_theme'
+  | 'loan_products'
+  | 'document_types'
+  | 'webhook_integrations'
+
+export type ChangeRequestAction = AuditAction
+
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled'
+
+export interface ConfigChangeRequest {
+  id: string
+  table_name: ChangeRequestTable
+  // Null for inserts until the request is approved
+  record_id: string | null
+  action: ChangeRequestAction
+  summary: string
+  // Only the fields being changed, as they were when the request was made
+  old_values: Record<string, unknown>
+  new_values: Record<string, unknown>
+  // Extra instructions for applying the change, e.g. a product version to publish
+  metadata: Record<string, unknown>
+  status: ChangeRequestStatus
+  requested_by: string
+  requested_by_email?: string | null
+  reviewed_by?: string | null
+  reviewed_by_email?: string | null
+  reviewed_at?: string | null
+  review_comment?: string | null
+  created_at: string
+  updated_at: string
 }
 
 export interface DocumentType {
@@ -106,4 +265,135 @@ export interface LoanProductDocument {
   created_at: string
   updated_at: string
   document_type?: DocumentType
-}
\ No newline at end of file
+}
+
+export interface WorkflowState {
+  key: string
+  label: string
+  variant: 'default' | 'secondary' | 'destructive' | 'outline'
+  is_initial?: boolean
+  is_terminal?: boolean
+}
+
+export interface WorkflowTransition {
+  from: string
+  to: string
+  allowed_roles: AdminUser['role'][]
+  requires_reason: boolean
+  reason_codes: string[]
+}
+
+export interface ApplicationWorkflow {
+  id: string
+  organization_id: string
+  name: string
+  states: WorkflowState[]
+  transitions: WorkflowTransition[]
+  created_at: string
+  updated_at: string
+}
+
+export interface LoanApplicationEvent {
+  id: string
+  loan_application_id: string
+  kind: 'created' | 'status_changed' | 'note' | 'webhook_delivery'
+  actor_id?: string
+  actor_email?: string
+  old_status?: string
+  new_status?: string
+  reason_code?: string
+  note?: string
+  metadata?: Record<string, unknown>
+  created_at: string
+}
+
+export type EligibilityField =
+  | 'monthly_income'
+  | 'employment_status'
+  | 'age'
+  | 'kyc_verified'
+  | 'prior_applications'
+
+export type EligibilityOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'not_in'
+
+export interface EligibilityCondition {
+  type: 'condition'
+  id: string
+  field: EligibilityField
+  operator: EligibilityOperator
+  value: number | string | boolean | string[]
+}
+
+export interface EligibilityGroup {
+  type: 'group'
+  id: string
+  combinator: 'and' | 'or'
+  rules: EligibilityRule[]
+}
+
+export type EligibilityRule = EligibilityCondition | EligibilityGroup
+
+export interface EligibilityCriteria {
+  version: 1
+  root: EligibilityGroup
+}
+
+export interface WebhookSigningSecret {
+  id: string
+  integration_id: string
+  secret: string
+  // null for the current secret; end of the grace period once rotated out
+  expires_at: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export type WebhookEventType =
+  | 'application.created'
+  | 'application.status_changed'
+  | 'user.kyc_verified'
+  | 'product.published'
+
+export interface WebhookEventCondition {
+  // A key of the event payload, e.g. 'amount' or 'new_status'
+  field: string
+  operator: EligibilityOperator
+  value: number | string | string[]
+}
+
+export interface WebhookEventSubscription {
+  id: string
+  integration_id: string
+  event_type: WebhookEventType
+  // Every condition must match; an empty list matches every event
+  conditions: WebhookEventCondition[]
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// A webhook_logs row that failed after its last retry, from the
+// webhook_dead_letters view
+export interface WebhookDeadLetter {
+  id: string
+  integration_id: string
+  integration_name: string
+  integration_active: boolean
+  organization_id: string | null
+  loan_application_id: string | null
+  event_type: WebhookEventType | null
+  request_url: string
+  request_method: string
+  request_body: unknown
+  response_status: number | null
+  error_message: string | null
+  retry_count: number
+  // Set on deliveries queued by a replay
+  replay_of: string | null
+  // null while open
+  resolution: 'replayed' | 'resolved' | null
+  resolution_note: string | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+}
@@ -0,0 +1,34 @@
+-- The dashboard activity feed listens for new rows in these tables
+DO $$
+DECLARE
+  feed_table TEXT;
+BEGIN
+  FOREACH feed_table IN ARRAY ARRAY[
+    'config_audit_log',
+    'loan_applications',
+    'loan_application_events',
+    'webhook_logs'
+  ] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = feed_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', feed_table);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Paging the feed reads each source newest first
+CREATE INDEX IF NOT EXISTS idx_loan_applications_created_at
+  ON public.loan_applications(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_loan_application_events_created_at
+  ON public.loan_application_events(created_at DESC)
+  WHERE kind = 'status_changed';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_failed
+  ON public.webhook_logs(created_at DESC)
+  WHERE status = 'failed';
@@ -0,0 +1,37 @@
+-- Organization policy requiring TOTP multi-factor authentication for admins
+ALTER TABLE public.organization_config
+  ADD COLUMN IF NOT EXISTS require_mfa BOOLEAN NOT NULL DEFAULT false;
+
+-- Super admins work across organizations, so any organization turning the
+-- policy on applies to them. Viewers are never required to enroll.
+CREATE OR REPLACE FUNCTION admin_mfa_required()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.admin_users a
+    JOIN public.organization_config c
+      ON c.require_mfa AND (a.role = 'super_admin' OR c.id = a.organization_id)
+    WHERE a.id = auth.uid()
+      AND a.role IN ('super_admin', 'admin')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- True for borrowers and for admins the policy does not cover. Enrolled admins
+-- must also have verified a code in this session (aal2 in the JWT).
+CREATE OR REPLACE FUNCTION admin_mfa_satisfied()
+RETURNS BOOLEAN AS $$
+  SELECT NOT admin_mfa_required()
+    OR COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2';
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The panel keeps unverified sessions away from every page, but borrower PII
+-- is also refused by the database in case the client check is bypassed
+CREATE POLICY "Admins need MFA when their organization requires it"
+  ON public.loan_applications AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_mfa_satisfied())
+  WITH CHECK (admin_mfa_satisfied());
+
+CREATE POLICY "Admins need MFA when their organization requires it"
+  ON public.profiles AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_mfa_satisfied())
+  WITH CHECK (admin_mfa_satisfied());
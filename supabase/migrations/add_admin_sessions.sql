@@ -0,0 +1,73 @@
+-- Sign-in tracking and the idle timeout for admin sessions
+ALTER TABLE public.organization_config
+  ADD COLUMN IF NOT EXISTS session_timeout_minutes INTEGER NOT NULL DEFAULT 30
+    CHECK (session_timeout_minutes BETWEEN 5 AND 480);
+
+CREATE TABLE IF NOT EXISTS public.admin_login_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_user_id UUID NOT NULL REFERENCES public.admin_users(id) ON DELETE CASCADE,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_login_history_admin
+  ON public.admin_login_history(admin_user_id, created_at DESC);
+
+ALTER TABLE public.admin_login_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by record_admin_login()
+CREATE POLICY "Admins can view their own sign-ins"
+  ON public.admin_login_history
+  FOR SELECT
+  USING (admin_user_id = auth.uid());
+
+CREATE POLICY "Super admins can view all sign-ins"
+  ON public.admin_login_history
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role = 'super_admin' AND is_active
+    )
+  );
+
+CREATE POLICY "Deactivated admins have no access"
+  ON public.admin_login_history AS RESTRICTIVE FOR ALL TO authenticated
+  USING (NOT is_deactivated_admin());
+
+-- Called by the panel once a sign-in is complete. Admins with an
+-- authenticator must have passed the MFA challenge first (an aal2 session),
+-- so a correct password alone is not recorded as a sign-in. The client
+-- address comes from the headers PostgREST forwards; the first
+-- X-Forwarded-For entry is the browser, later ones are proxies.
+CREATE OR REPLACE FUNCTION record_admin_login(user_agent TEXT DEFAULT NULL)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  headers JSON := NULLIF(current_setting('request.headers', true), '')::json;
+  client_ip TEXT;
+  signed_in_at TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.admin_users WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can record a sign-in';
+  END IF;
+
+  IF COALESCE(auth.jwt()->>'aal', 'aal1') <> 'aal2' AND EXISTS (
+    SELECT 1 FROM auth.mfa_factors WHERE user_id = auth.uid() AND status = 'verified'
+  ) THEN
+    RAISE EXCEPTION 'Verify your authenticator code before the sign-in is recorded';
+  END IF;
+
+  client_ip := NULLIF(trim(split_part(
+    COALESCE(headers->>'x-forwarded-for', headers->>'x-real-ip', ''),
+    ',', 1
+  )), '');
+
+  UPDATE public.admin_users SET last_login = signed_in_at WHERE id = auth.uid();
+
+  INSERT INTO public.admin_login_history (admin_user_id, ip_address, user_agent, created_at)
+  VALUES (auth.uid(), client_ip, left(record_admin_login.user_agent, 512), signed_in_at);
+
+  RETURN signed_in_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
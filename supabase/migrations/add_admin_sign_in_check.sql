@@ -0,0 +1,29 @@
+-- Deterministic admin check for sign-in. It runs as the definer, so the
+-- answer does not depend on admin_users RLS having caught up with the new
+-- session, and it tells "not an admin" apart from "deactivated".
+-- Permissions are derived from the role in src/lib/permissions.ts.
+CREATE OR REPLACE FUNCTION get_admin_sign_in_status()
+RETURNS JSON AS $$
+DECLARE
+  admin RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('status', 'not_admin');
+  END IF;
+
+  SELECT id, email, full_name, role, organization_id, is_active, last_login, created_at
+  INTO admin
+  FROM public.admin_users
+  WHERE id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('status', 'not_admin');
+  END IF;
+
+  IF admin.is_active = false THEN
+    RETURN json_build_object('status', 'deactivated');
+  END IF;
+
+  RETURN json_build_object('status', 'active', 'admin', row_to_json(admin));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,300 @@
+-- Admin team management: invitations, role changes and deactivation
+ALTER TABLE public.admin_users
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.admin_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  full_name TEXT,
+  role TEXT NOT NULL CHECK (role IN ('super_admin', 'admin', 'viewer')) DEFAULT 'admin',
+  status TEXT NOT NULL CHECK (status IN ('pending', 'accepted', 'revoked')) DEFAULT 'pending',
+  invited_by UUID REFERENCES public.admin_users(id),
+  invited_by_email TEXT,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT (timezone('utc'::text, now()) + INTERVAL '7 days') NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- One open invitation per address; re-inviting replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_invitations_pending_email
+  ON public.admin_invitations(lower(email))
+  WHERE status = 'pending';
+
+ALTER TABLE public.admin_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view invitations"
+  ON public.admin_invitations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role = 'super_admin' AND is_active
+    )
+  );
+
+CREATE POLICY "Super admins can revoke invitations"
+  ON public.admin_invitations
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role = 'super_admin' AND is_active
+    )
+  )
+  WITH CHECK (status = 'revoked');
+
+-- Never leave the panel without an active super admin. Locking the current
+-- super admins serialises concurrent demotions so both cannot pass the check.
+CREATE OR REPLACE FUNCTION protect_last_super_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'super_admin' AND OLD.is_active
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'super_admin' OR NOT NEW.is_active) THEN
+    PERFORM 1 FROM public.admin_users
+      WHERE role = 'super_admin' AND is_active
+      FOR UPDATE;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE role = 'super_admin' AND is_active AND id <> OLD.id
+    ) THEN
+      RAISE EXCEPTION 'At least one active super admin is required';
+    END IF;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_last_super_admin
+  BEFORE UPDATE OR DELETE ON public.admin_users
+  FOR EACH ROW EXECUTE FUNCTION protect_last_super_admin();
+
+CREATE OR REPLACE FUNCTION assert_super_admin()
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE id = auth.uid() AND role = 'super_admin' AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Only super admins can manage the admin team';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Turn a pending invitation into an admin_users row for the given auth user
+CREATE OR REPLACE FUNCTION accept_admin_invitation(user_id UUID, user_email TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  invitation public.admin_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO invitation
+    FROM public.admin_invitations
+    WHERE lower(email) = lower(user_email)
+      AND status = 'pending'
+      AND expires_at > now()
+    FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.admin_users (id, email, full_name, role, organization_id)
+  VALUES (
+    user_id,
+    user_email,
+    invitation.full_name,
+    invitation.role,
+    (SELECT organization_id FROM public.admin_users WHERE id = invitation.invited_by)
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  UPDATE public.admin_invitations
+    SET status = 'accepted', accepted_at = now()
+    WHERE id = invitation.id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Invitees without an account get one from the invitation email. The
+-- invitation is only accepted once the address is confirmed, so signing up
+-- with someone else's email does not make you an admin.
+CREATE OR REPLACE FUNCTION handle_invited_auth_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.email_confirmed_at IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.email_confirmed_at IS NULL OR OLD.email IS DISTINCT FROM NEW.email) THEN
+    PERFORM public.accept_admin_invitation(NEW.id, NEW.email);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_accept_invitation ON auth.users;
+DROP TRIGGER IF EXISTS on_auth_user_confirmed_accept_invitation ON auth.users;
+CREATE TRIGGER on_auth_user_confirmed_accept_invitation
+  AFTER INSERT OR UPDATE OF email, email_confirmed_at ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_invited_auth_user();
+
+-- Record an invitation. The panel then sends the sign-in email through
+-- Supabase auth; people who already have a confirmed account are added
+-- straight away.
+CREATE OR REPLACE FUNCTION invite_admin(
+  invite_email TEXT,
+  invite_role TEXT DEFAULT 'admin',
+  invite_name TEXT DEFAULT NULL
+)
+RETURNS public.admin_invitations AS $$
+DECLARE
+  existing public.admin_users%ROWTYPE;
+  invitation public.admin_invitations%ROWTYPE;
+  auth_user_id UUID;
+BEGIN
+  PERFORM public.assert_super_admin();
+
+  invite_email := lower(trim(invite_email));
+
+  SELECT * INTO existing FROM public.admin_users WHERE lower(email) = invite_email;
+  IF FOUND THEN
+    IF existing.is_active THEN
+      RAISE EXCEPTION '% is already an admin', invite_email;
+    END IF;
+    RAISE EXCEPTION '% has been deactivated; reactivate them instead', invite_email;
+  END IF;
+
+  UPDATE public.admin_invitations
+    SET status = 'revoked'
+    WHERE lower(email) = invite_email AND status = 'pending';
+
+  INSERT INTO public.admin_invitations (email, full_name, role, invited_by, invited_by_email)
+  VALUES (
+    invite_email,
+    NULLIF(trim(invite_name), ''),
+    invite_role,
+    auth.uid(),
+    (SELECT email FROM public.admin_users WHERE id = auth.uid())
+  )
+  RETURNING * INTO invitation;
+
+  SELECT id INTO auth_user_id FROM auth.users
+    WHERE lower(email) = invite_email AND email_confirmed_at IS NOT NULL;
+  IF auth_user_id IS NOT NULL THEN
+    PERFORM public.accept_admin_invitation(auth_user_id, invite_email);
+    SELECT * INTO invitation FROM public.admin_invitations WHERE id = invitation.id;
+  END IF;
+
+  RETURN invitation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION set_admin_role(target_id UUID, new_role TEXT)
+RETURNS public.admin_users AS $$
+DECLARE
+  updated public.admin_users%ROWTYPE;
+BEGIN
+  PERFORM public.assert_super_admin();
+
+  IF target_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own role';
+  END IF;
+
+  IF new_role IS NULL OR new_role NOT IN ('super_admin', 'admin', 'viewer') THEN
+    RAISE EXCEPTION 'Unknown role %', new_role;
+  END IF;
+
+  UPDATE public.admin_users
+    SET role = new_role
+    WHERE id = target_id
+    RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Admin % not found', target_id;
+  END IF;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deactivation also ends the admin's sessions so they cannot refresh. The
+-- auth user is not banned: a ban makes Supabase reject the password before
+-- get_admin_sign_in_status() can report the account as deactivated.
+CREATE OR REPLACE FUNCTION set_admin_active(target_id UUID, active BOOLEAN)
+RETURNS public.admin_users AS $$
+DECLARE
+  updated public.admin_users%ROWTYPE;
+BEGIN
+  PERFORM public.assert_super_admin();
+
+  IF target_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  UPDATE public.admin_users
+    SET is_active = active,
+        deactivated_at = CASE WHEN active THEN NULL ELSE now() END
+    WHERE id = target_id
+    RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Admin % not found', target_id;
+  END IF;
+
+  IF NOT active THEN
+    DELETE FROM auth.sessions WHERE user_id = target_id;
+  END IF;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Earlier versions of set_admin_active() banned deactivated admins
+UPDATE auth.users
+  SET banned_until = NULL
+  WHERE banned_until = 'infinity'::timestamptz
+    AND id IN (SELECT id FROM public.admin_users WHERE NOT is_active);
+
+-- A deactivated admin's access token stays valid until it expires, and the
+-- existing policies only ask whether an admin row exists. These restrictive
+-- policies are ANDed with them, so the token stops working straight away.
+-- Mobile app users have no admin row and are not affected.
+CREATE OR REPLACE FUNCTION is_deactivated_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE id = auth.uid() AND NOT is_active
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+DO $$
+DECLARE
+  admin_table TEXT;
+BEGIN
+  FOREACH admin_table IN ARRAY ARRAY[
+    'admin_users',
+    'admin_invitations',
+    'config_audit_log',
+    'config_change_requests',
+    'organization_config',
+    'app_theme',
+    'document_types',
+    'application_workflows',
+    'loan_products',
+    'loan_product_documents',
+    'loan_product_versions',
+    'loan_applications',
+    'loan_application_events',
+    'webhook_integrations',
+    'webhook_field_mappings',
+    'webhook_logs'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Deactivated admins have no access" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated USING (NOT is_deactivated_admin())',
+      admin_table
+    );
+  END LOOP;
+END $$;
+
+-- Only the trigger and invite_admin may accept invitations on someone's behalf
+REVOKE EXECUTE ON FUNCTION accept_admin_invitation(UUID, TEXT) FROM PUBLIC, authenticated, anon;
@@ -0,0 +1,128 @@
+-- Per-organization application status workflow (states, transitions, roles, reason codes)
+CREATE TABLE IF NOT EXISTS public.application_workflows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organization_config(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'Default workflow',
+  states JSONB NOT NULL DEFAULT '[]'::jsonb,
+  transitions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE(organization_id)
+);
+
+-- Record why an application last changed status
+ALTER TABLE public.loan_applications
+  ADD COLUMN IF NOT EXISTS status_reason_code TEXT,
+  ADD COLUMN IF NOT EXISTS status_note TEXT;
+
+-- Statuses are now defined by the workflow, not a fixed list
+ALTER TABLE public.loan_applications
+  DROP CONSTRAINT IF EXISTS loan_applications_status_check;
+
+-- Enable RLS
+ALTER TABLE public.application_workflows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view application workflows"
+  ON public.application_workflows
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Super admins can manage application workflows"
+  ON public.application_workflows
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role = 'super_admin'
+    )
+  );
+
+-- Reject status changes made by admins that the workflow does not allow
+CREATE OR REPLACE FUNCTION enforce_application_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  admin_record public.admin_users%ROWTYPE;
+  workflow_record public.application_workflows%ROWTYPE;
+  transition JSONB;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO admin_record FROM public.admin_users WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO workflow_record
+  FROM public.application_workflows
+  WHERE organization_id IS NOT DISTINCT FROM admin_record.organization_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT t INTO transition
+  FROM jsonb_array_elements(workflow_record.transitions) AS t
+  WHERE t->>'from' = OLD.status AND t->>'to' = NEW.status
+  LIMIT 1;
+
+  IF transition IS NULL THEN
+    RAISE EXCEPTION 'Status transition from % to % is not allowed', OLD.status, NEW.status;
+  END IF;
+
+  IF NOT (transition->'allowed_roles') ? admin_record.role THEN
+    RAISE EXCEPTION 'Role % may not move applications from % to %', admin_record.role, OLD.status, NEW.status;
+  END IF;
+
+  IF (transition->>'requires_reason')::boolean AND NEW.status_reason_code IS NULL THEN
+    RAISE EXCEPTION 'A reason code is required to move applications from % to %', OLD.status, NEW.status;
+  END IF;
+
+  -- A transition that lists reason codes only accepts those codes
+  IF NEW.status_reason_code IS NOT NULL
+    AND jsonb_array_length(COALESCE(transition->'reason_codes', '[]'::jsonb)) > 0
+    AND NOT (transition->'reason_codes') ? NEW.status_reason_code THEN
+    RAISE EXCEPTION 'Reason code % is not allowed when moving applications from % to %',
+      NEW.status_reason_code, OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_loan_application_status_transition
+  BEFORE UPDATE OF status ON public.loan_applications
+  FOR EACH ROW EXECUTE FUNCTION enforce_application_status_transition();
+
+-- Add triggers for audit logging
+CREATE TRIGGER audit_application_workflows
+  AFTER INSERT OR UPDATE OR DELETE ON public.application_workflows
+  FOR EACH ROW EXECUTE FUNCTION log_config_change();
+
+CREATE TRIGGER update_application_workflows_updated_at
+  BEFORE UPDATE ON public.application_workflows
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed every organization with the workflow the admin panel used before
+INSERT INTO public.application_workflows (organization_id, states, transitions)
+SELECT
+  id,
+  '[
+    {"key": "pending", "label": "Pending", "variant": "secondary", "is_initial": true},
+    {"key": "approved", "label": "Approved", "variant": "secondary"},
+    {"key": "rejected", "label": "Rejected", "variant": "destructive", "is_terminal": true},
+    {"key": "disbursed", "label": "Disbursed", "variant": "default", "is_terminal": true}
+  ]'::jsonb,
+  '[
+    {"from": "pending", "to": "approved", "allowed_roles": ["super_admin", "admin"], "requires_reason": false, "reason_codes": []},
+    {"from": "pending", "to": "rejected", "allowed_roles": ["super_admin", "admin"], "requires_reason": true, "reason_codes": ["insufficient_income", "failed_kyc", "incomplete_documents", "policy_exclusion", "other"]},
+    {"from": "approved", "to": "disbursed", "allowed_roles": ["super_admin", "admin"], "requires_reason": false, "reason_codes": []},
+    {"from": "approved", "to": "rejected", "allowed_roles": ["super_admin"], "requires_reason": true, "reason_codes": ["applicant_withdrew", "fraud_suspected", "other"]}
+  ]'::jsonb
+FROM public.organization_config
+ON CONFLICT (organization_id) DO NOTHING;
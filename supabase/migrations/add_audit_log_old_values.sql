@@ -0,0 +1,39 @@
+-- Record the previous row on updates so the audit log viewer can show a
+-- field-level diff. Entries logged before this migration only have new_values.
+CREATE OR REPLACE FUNCTION log_config_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.config_audit_log (
+    user_id,
+    action,
+    table_name,
+    record_id,
+    old_values,
+    new_values
+  ) VALUES (
+    auth.uid(),
+    TG_OP,
+    TG_TABLE_NAME,
+    COALESCE(NEW.id, OLD.id),
+    CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN row_to_json(OLD) ELSE NULL END,
+    CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN row_to_json(NEW) ELSE NULL END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Webhook integrations are configuration too
+CREATE TRIGGER audit_webhook_integrations
+  AFTER INSERT OR UPDATE OR DELETE ON public.webhook_integrations
+  FOR EACH ROW EXECUTE FUNCTION log_config_change();
+
+-- Filters used by the audit log viewer
+CREATE INDEX IF NOT EXISTS idx_config_audit_log_created_at
+  ON public.config_audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_config_audit_log_table
+  ON public.config_audit_log(table_name, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_config_audit_log_user
+  ON public.config_audit_log(user_id, created_at DESC);
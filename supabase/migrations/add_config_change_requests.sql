@@ -0,0 +1,325 @@
+-- Optional maker-checker (dual control) for configuration changes. When it is
+-- on, admins submit change requests and a different super admin approves them
+-- through review_config_change(), which is the only path that writes the
+-- protected tables.
+ALTER TABLE public.organization_config
+  ADD COLUMN IF NOT EXISTS dual_control_enabled BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.config_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL CHECK (table_name IN (
+    'organization_config',
+    'app_theme',
+    'loan_products',
+    'document_types',
+    'webhook_integrations'
+  )),
+  record_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  summary TEXT NOT NULL,
+  -- Only the fields that change; old_values is the whole row for deletes
+  old_values JSONB NOT NULL DEFAULT '{}'::jsonb,
+  new_values JSONB NOT NULL DEFAULT '{}'::jsonb,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  requested_by UUID NOT NULL DEFAULT auth.uid() REFERENCES public.admin_users(id),
+  requested_by_email TEXT,
+  reviewed_by UUID REFERENCES public.admin_users(id),
+  reviewed_by_email TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CHECK (action = 'INSERT' OR record_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_config_change_requests_status
+  ON public.config_change_requests(status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_config_change_requests_record
+  ON public.config_change_requests(table_name, record_id);
+
+-- Enable RLS
+ALTER TABLE public.config_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view change requests"
+  ON public.config_change_requests
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can submit change requests"
+  ON public.config_change_requests
+  FOR INSERT
+  WITH CHECK (
+    status = 'pending' AND
+    requested_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+    )
+  );
+
+-- Reviews go through review_config_change(); requesters may only withdraw
+CREATE POLICY "Requesters can withdraw pending change requests"
+  ON public.config_change_requests
+  FOR UPDATE
+  USING (requested_by = auth.uid() AND status = 'pending')
+  WITH CHECK (requested_by = auth.uid() AND status = 'cancelled');
+
+-- Stamp who asked and who reviewed, so the inbox does not need admin_users access
+CREATE OR REPLACE FUNCTION set_change_request_emails()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT email INTO NEW.requested_by_email
+      FROM public.admin_users WHERE id = NEW.requested_by;
+  ELSIF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Change request % has already been resolved', OLD.id;
+  ELSIF NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by THEN
+    SELECT email INTO NEW.reviewed_by_email
+      FROM public.admin_users WHERE id = NEW.reviewed_by;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_config_change_request_emails
+  BEFORE INSERT OR UPDATE ON public.config_change_requests
+  FOR EACH ROW EXECUTE FUNCTION set_change_request_emails();
+
+CREATE TRIGGER update_config_change_requests_updated_at
+  BEFORE UPDATE ON public.config_change_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_config_change_requests
+  AFTER INSERT OR UPDATE OR DELETE ON public.config_change_requests
+  FOR EACH ROW EXECUTE FUNCTION log_config_change();
+
+-- Block direct writes from signed-in admins while dual control is on.
+-- Service-role and scheduled jobs (no auth.uid()) are not affected, nor is
+-- reordering, which only moves display_order.
+CREATE OR REPLACE FUNCTION enforce_dual_control()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.applying_change_request', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Turning dual control on is a direct change, but only for super admins
+  IF TG_TABLE_NAME = 'organization_config' AND TG_OP = 'UPDATE'
+    AND NEW.dual_control_enabled AND NOT OLD.dual_control_enabled
+    AND NOT EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role = 'super_admin'
+    ) THEN
+    RAISE EXCEPTION 'Only super admins can turn on dual control';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.organization_config WHERE dual_control_enabled) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND to_jsonb(NEW) - ARRAY['display_order', 'updated_at'] = to_jsonb(OLD) - ARRAY['display_order', 'updated_at'] THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Dual control is on: changes to % must be submitted for approval', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_dual_control_organization_config
+  BEFORE INSERT OR UPDATE OR DELETE ON public.organization_config
+  FOR EACH ROW EXECUTE FUNCTION enforce_dual_control();
+
+CREATE TRIGGER enforce_dual_control_app_theme
+  BEFORE INSERT OR UPDATE OR DELETE ON public.app_theme
+  FOR EACH ROW EXECUTE FUNCTION enforce_dual_control();
+
+CREATE TRIGGER enforce_dual_control_loan_products
+  BEFORE INSERT OR UPDATE OR DELETE ON public.loan_products
+  FOR EACH ROW EXECUTE FUNCTION enforce_dual_control();
+
+CREATE TRIGGER enforce_dual_control_document_types
+  BEFORE INSERT OR UPDATE OR DELETE ON public.document_types
+  FOR EACH ROW EXECUTE FUNCTION enforce_dual_control();
+
+CREATE TRIGGER enforce_dual_control_webhook_integrations
+  BEFORE INSERT OR UPDATE OR DELETE ON public.webhook_integrations
+  FOR EACH ROW EXECUTE FUNCTION enforce_dual_control();
+
+-- Product versions have no dual control trigger of their own, and a
+-- future-dated version goes live from the cron job, where there is no
+-- auth.uid(). Publishing is where the approval has to be required.
+CREATE OR REPLACE FUNCTION assert_can_publish_product(product_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can publish product versions';
+  END IF;
+
+  IF current_setting('app.applying_change_request', true) IS DISTINCT FROM 'on'
+    AND EXISTS (SELECT 1 FROM public.organization_config WHERE dual_control_enabled) THEN
+    RAISE EXCEPTION 'Dual control is on: publishing a product version must be submitted for approval';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Approve (and apply) or reject a pending change request
+CREATE OR REPLACE FUNCTION review_config_change(
+  request_id UUID,
+  approve BOOLEAN,
+  comment TEXT DEFAULT NULL
+)
+RETURNS public.config_change_requests AS $$
+DECLARE
+  req public.config_change_requests%ROWTYPE;
+  current_row JSONB;
+  columns TEXT;
+  source_columns TEXT;
+  new_record_id UUID;
+  version_id UUID;
+BEGIN
+  SELECT * INTO req
+    FROM public.config_change_requests
+    WHERE id = review_config_change.request_id
+    FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request % not found', review_config_change.request_id;
+  END IF;
+
+  IF req.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been resolved';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE id = auth.uid() AND role = 'super_admin'
+  ) THEN
+    RAISE EXCEPTION 'Only super admins can review changes';
+  END IF;
+
+  IF req.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'A different super admin must review your own request';
+  END IF;
+
+  IF NOT approve AND COALESCE(trim(comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required to reject a change';
+  END IF;
+
+  IF approve THEN
+    PERFORM set_config('app.applying_change_request', 'on', true);
+
+    IF req.metadata ? 'publish_version_id' THEN
+      -- Publishing a product draft; the draft must be what was reviewed
+      IF NOT EXISTS (
+        SELECT 1 FROM public.loan_product_versions
+        WHERE id = (req.metadata->>'publish_version_id')::UUID
+          AND status = 'draft'
+          AND updated_at = (req.metadata->>'draft_updated_at')::TIMESTAMP WITH TIME ZONE
+      ) THEN
+        RAISE EXCEPTION 'The draft has changed since this request was submitted';
+      END IF;
+
+      PERFORM publish_product_version(
+        (req.metadata->>'publish_version_id')::UUID,
+        NULLIF(req.metadata->>'effective_from', '')::TIMESTAMP WITH TIME ZONE
+      );
+    ELSIF req.action = 'INSERT' THEN
+      SELECT string_agg(format('%I', key), ', '), string_agg(format('r.%I', key), ', ')
+        INTO columns, source_columns
+        FROM jsonb_object_keys(req.new_values) AS key;
+
+      EXECUTE format(
+        'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1) r RETURNING id',
+        req.table_name, columns, source_columns, req.table_name
+      ) INTO new_record_id USING req.new_values;
+      req.record_id := new_record_id;
+
+      -- A new product also needs its document requirements and version 1
+      IF req.table_name = 'loan_products' THEN
+        INSERT INTO public.loan_product_documents (
+          loan_product_id,
+          document_type_id,
+          is_mandatory,
+          custom_instructions,
+          display_order
+        )
+        SELECT new_record_id, d.document_type_id, d.is_mandatory, d.custom_instructions, d.display_order
+        FROM jsonb_to_recordset(COALESCE(req.metadata->'documents', '[]'::jsonb)) AS d(
+          document_type_id UUID,
+          is_mandatory BOOLEAN,
+          custom_instructions TEXT,
+          display_order INTEGER
+        );
+
+        INSERT INTO public.loan_product_versions (loan_product_id, status, snapshot, change_note, created_by)
+        SELECT
+          p.id,
+          'draft',
+          (to_jsonb(p) - ARRAY['id', 'is_active', 'display_order', 'created_at', 'updated_at', 'current_version_id'])
+            || jsonb_build_object('documents', COALESCE(req.metadata->'documents', '[]'::jsonb)),
+          'Initial version',
+          req.requested_by
+        FROM public.loan_products p
+        WHERE p.id = new_record_id
+        RETURNING id INTO version_id;
+
+        PERFORM publish_product_version(version_id, NULL);
+      END IF;
+    ELSE
+      EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1', req.table_name)
+        INTO current_row USING req.record_id;
+
+      IF current_row IS NULL THEN
+        RAISE EXCEPTION 'The record no longer exists';
+      END IF;
+
+      -- Someone else changed the same fields after the request was made
+      IF EXISTS (
+        SELECT 1 FROM jsonb_each(req.old_values) o
+        WHERE o.key NOT IN ('created_at', 'updated_at')
+          AND current_row->o.key IS DISTINCT FROM o.value
+      ) THEN
+        RAISE EXCEPTION 'The record has changed since this request was submitted';
+      END IF;
+
+      IF req.action = 'DELETE' THEN
+        EXECUTE format('DELETE FROM public.%I WHERE id = $1', req.table_name)
+          USING req.record_id;
+      ELSE
+        SELECT string_agg(format('%I', key), ', '), string_agg(format('r.%I', key), ', ')
+          INTO columns, source_columns
+          FROM jsonb_object_keys(req.new_values) AS key;
+
+        EXECUTE format(
+          'UPDATE public.%I t SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1) r), updated_at = timezone(''utc''::text, now()) WHERE t.id = $2',
+          req.table_name, columns, source_columns, req.table_name
+        ) USING req.new_values, req.record_id;
+      END IF;
+    END IF;
+
+    PERFORM set_config('app.applying_change_request', 'off', true);
+  END IF;
+
+  UPDATE public.config_change_requests SET
+    status = CASE WHEN approve THEN 'approved' ELSE 'rejected' END,
+    record_id = req.record_id,
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    review_comment = NULLIF(trim(comment), '')
+  WHERE id = req.id
+  RETURNING * INTO req;
+
+  RETURN req;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,124 @@
+-- History of everything that happens to a loan application
+CREATE TABLE IF NOT EXISTS public.loan_application_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_application_id UUID REFERENCES public.loan_applications(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT CHECK (kind IN ('created', 'status_changed', 'note', 'webhook_delivery')) NOT NULL,
+  actor_id UUID REFERENCES public.admin_users(id),
+  actor_email TEXT,
+  old_status TEXT,
+  new_status TEXT,
+  reason_code TEXT,
+  note TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Add indexes for performance
+CREATE INDEX idx_loan_application_events_application ON public.loan_application_events(loan_application_id, created_at);
+CREATE INDEX idx_loan_application_events_kind ON public.loan_application_events(kind);
+
+-- Enable RLS
+ALTER TABLE public.loan_application_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view application events"
+  ON public.loan_application_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid()
+    )
+  );
+
+-- Events are append-only and must be attributed to the admin writing them
+CREATE POLICY "Admins can insert their own application events"
+  ON public.loan_application_events
+  FOR INSERT
+  WITH CHECK (
+    actor_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+    )
+  );
+
+-- Record submissions made from the mobile app
+CREATE OR REPLACE FUNCTION log_loan_application_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.loan_application_events (loan_application_id, kind, new_status)
+  VALUES (NEW.id, 'created', NEW.status);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER log_loan_application_created
+  AFTER INSERT ON public.loan_applications
+  FOR EACH ROW EXECUTE FUNCTION log_loan_application_created();
+
+-- Record status changes in the same transaction as the update. The actor is
+-- the admin making the change, or nobody when the mobile app or SQL changes it.
+CREATE OR REPLACE FUNCTION log_loan_application_status_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.loan_application_events (
+    loan_application_id, kind, actor_id, actor_email, old_status, new_status, reason_code, note
+  )
+  VALUES (
+    NEW.id,
+    'status_changed',
+    (SELECT id FROM public.admin_users WHERE id = auth.uid()),
+    (SELECT email FROM public.admin_users WHERE id = auth.uid()),
+    OLD.status,
+    NEW.status,
+    NEW.status_reason_code,
+    NEW.status_note
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER log_loan_application_status_changed
+  AFTER UPDATE OF status ON public.loan_applications
+  FOR EACH ROW EXECUTE FUNCTION log_loan_application_status_changed();
+
+-- Record webhook deliveries for an application as they are logged
+CREATE OR REPLACE FUNCTION log_loan_application_webhook_delivery()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.loan_application_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.loan_application_events (loan_application_id, kind, metadata)
+  VALUES (
+    NEW.loan_application_id,
+    'webhook_delivery',
+    jsonb_build_object(
+      'webhook_log_id', NEW.id,
+      'integration_id', NEW.integration_id,
+      'integration_name', (SELECT name FROM public.webhook_integrations WHERE id = NEW.integration_id),
+      'status', NEW.status,
+      'response_status', NEW.response_status,
+      'retry_count', NEW.retry_count
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER log_loan_application_webhook_delivery
+  AFTER INSERT OR UPDATE OF status ON public.webhook_logs
+  FOR EACH ROW EXECUTE FUNCTION log_loan_application_webhook_delivery();
+
+-- Backfill a submission event for applications created before this migration
+INSERT INTO public.loan_application_events (loan_application_id, kind, new_status, created_at)
+SELECT id, 'created', 'pending', created_at
+FROM public.loan_applications;
@@ -0,0 +1,459 @@
+-- Multi-organization tenancy. Each organization_config row is a lender brand;
+-- configuration and applications belong to exactly one of them. Super admins
+-- work across every organization, other admins only see their own.
+
+-- Tables that did not carry an organization yet
+ALTER TABLE public.loan_products
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organization_config(id) ON DELETE CASCADE;
+
+ALTER TABLE public.webhook_integrations
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organization_config(id) ON DELETE CASCADE;
+
+ALTER TABLE public.loan_applications
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organization_config(id);
+
+ALTER TABLE public.config_change_requests
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organization_config(id) ON DELETE CASCADE;
+
+ALTER TABLE public.config_audit_log
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organization_config(id) ON DELETE SET NULL;
+
+ALTER TABLE public.admin_invitations
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organization_config(id) ON DELETE CASCADE;
+
+-- Existing single-tenant data belongs to the original organization
+DO $$
+DECLARE
+  first_org UUID;
+  audited_table TEXT;
+BEGIN
+  SELECT id INTO first_org FROM public.organization_config ORDER BY created_at LIMIT 1;
+  IF first_org IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.admin_users SET organization_id = first_org WHERE organization_id IS NULL;
+  UPDATE public.app_theme SET organization_id = first_org WHERE organization_id IS NULL;
+  UPDATE public.document_types SET organization_id = first_org WHERE organization_id IS NULL;
+  UPDATE public.application_workflows SET organization_id = first_org WHERE organization_id IS NULL;
+  UPDATE public.loan_products SET organization_id = first_org WHERE organization_id IS NULL;
+  UPDATE public.webhook_integrations SET organization_id = first_org WHERE organization_id IS NULL;
+  UPDATE public.config_change_requests SET organization_id = first_org WHERE organization_id IS NULL;
+  UPDATE public.admin_invitations SET organization_id = first_org WHERE organization_id IS NULL;
+  UPDATE public.loan_applications a
+    SET organization_id = COALESCE(p.organization_id, first_org)
+    FROM public.loan_products p
+    WHERE a.organization_id IS NULL AND p.id = a.loan_product_id;
+  UPDATE public.loan_applications SET organization_id = first_org WHERE organization_id IS NULL;
+
+  -- Audit entries (including those written by the updates above) take the
+  -- organization of the record they describe. Entries for records that no
+  -- longer exist fall back to the original organization.
+  UPDATE public.config_audit_log SET organization_id = record_id
+    WHERE organization_id IS NULL
+      AND table_name = 'organization_config'
+      AND record_id IN (SELECT id FROM public.organization_config);
+  FOR audited_table IN
+    SELECT DISTINCT l.table_name
+    FROM public.config_audit_log l
+    JOIN information_schema.columns c
+      ON c.table_schema = 'public' AND c.table_name = l.table_name AND c.column_name = 'organization_id'
+    WHERE l.organization_id IS NULL
+  LOOP
+    EXECUTE format(
+      'UPDATE public.config_audit_log l SET organization_id = r.organization_id
+       FROM public.%I r
+       WHERE l.organization_id IS NULL AND l.table_name = %L AND r.id = l.record_id',
+      audited_table,
+      audited_table
+    );
+  END LOOP;
+  UPDATE public.config_audit_log SET organization_id = first_org WHERE organization_id IS NULL;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_loan_products_organization ON public.loan_products(organization_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_integrations_organization ON public.webhook_integrations(organization_id);
+CREATE INDEX IF NOT EXISTS idx_loan_applications_organization
+  ON public.loan_applications(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_config_change_requests_organization
+  ON public.config_change_requests(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_config_audit_log_organization
+  ON public.config_audit_log(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_users_organization ON public.admin_users(organization_id);
+
+-- Applications come from the mobile app, which only knows the product
+CREATE OR REPLACE FUNCTION set_application_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.organization_id IS NULL AND NEW.loan_product_id IS NOT NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+      FROM public.loan_products WHERE id = NEW.loan_product_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_loan_application_organization
+  BEFORE INSERT ON public.loan_applications
+  FOR EACH ROW EXECUTE FUNCTION set_application_organization();
+
+-- True for active super admins, for active admins of the given organization,
+-- and for signed-in users who are not admins at all (mobile app borrowers),
+-- whose access is decided by the existing policies.
+CREATE OR REPLACE FUNCTION admin_can_access_organization(org_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM public.admin_users WHERE id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid()
+        AND is_active
+        AND (role = 'super_admin' OR organization_id = org_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Restrictive policies are ANDed with the existing ones, so they only narrow
+-- what an admin can reach to their organization
+CREATE POLICY "Admins only reach their organization"
+  ON public.organization_config AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(id))
+  WITH CHECK (admin_can_access_organization(id));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.app_theme AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(organization_id))
+  WITH CHECK (admin_can_access_organization(organization_id));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.document_types AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(organization_id))
+  WITH CHECK (admin_can_access_organization(organization_id));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.application_workflows AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(organization_id))
+  WITH CHECK (admin_can_access_organization(organization_id));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.loan_products AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(organization_id))
+  WITH CHECK (admin_can_access_organization(organization_id));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.webhook_integrations AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(organization_id))
+  WITH CHECK (admin_can_access_organization(organization_id));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.loan_applications AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(organization_id))
+  WITH CHECK (admin_can_access_organization(organization_id));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.config_change_requests AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(organization_id))
+  WITH CHECK (admin_can_access_organization(organization_id));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.config_audit_log AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (admin_can_access_organization(organization_id));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.admin_invitations AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(organization_id))
+  WITH CHECK (admin_can_access_organization(organization_id));
+
+-- Child tables follow their parent row
+CREATE POLICY "Admins only reach their organization"
+  ON public.loan_product_versions AS RESTRICTIVE FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.loan_products p
+    WHERE p.id = loan_product_id AND admin_can_access_organization(p.organization_id)
+  ));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.loan_product_documents AS RESTRICTIVE FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.loan_products p
+    WHERE p.id = loan_product_id AND admin_can_access_organization(p.organization_id)
+  ));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.webhook_field_mappings AS RESTRICTIVE FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.webhook_integrations w
+    WHERE w.id = integration_id AND admin_can_access_organization(w.organization_id)
+  ));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.webhook_logs AS RESTRICTIVE FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.webhook_integrations w
+    WHERE w.id = integration_id AND admin_can_access_organization(w.organization_id)
+  ));
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.loan_application_events AS RESTRICTIVE FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.loan_applications a
+    WHERE a.id = loan_application_id AND admin_can_access_organization(a.organization_id)
+  ));
+
+-- Admins of an organization can see each other; super admins already see everyone
+CREATE OR REPLACE FUNCTION current_admin_organization()
+RETURNS UUID AS $$
+  SELECT organization_id FROM public.admin_users WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Admins can view their organization's admins"
+  ON public.admin_users
+  FOR SELECT
+  USING (organization_id = current_admin_organization());
+
+-- Audit entries remember which organization the row belonged to
+CREATE OR REPLACE FUNCTION log_config_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+BEGIN
+  INSERT INTO public.config_audit_log (
+    user_id,
+    action,
+    table_name,
+    record_id,
+    organization_id,
+    old_values,
+    new_values
+  ) VALUES (
+    auth.uid(),
+    TG_OP,
+    TG_TABLE_NAME,
+    COALESCE(NEW.id, OLD.id),
+    CASE WHEN TG_TABLE_NAME = 'organization_config'
+      THEN (changed->>'id')::uuid
+      ELSE (changed->>'organization_id')::uuid
+    END,
+    CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN row_to_json(OLD) ELSE NULL END,
+    CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN row_to_json(NEW) ELSE NULL END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Dual control is an organization setting, so check the row's own organization
+CREATE OR REPLACE FUNCTION enforce_dual_control()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+  org_id UUID;
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.applying_change_request', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Turning dual control on is a direct change, but only for super admins
+  IF TG_TABLE_NAME = 'organization_config' AND TG_OP = 'UPDATE'
+    AND NEW.dual_control_enabled AND NOT OLD.dual_control_enabled
+    AND NOT EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role = 'super_admin'
+    ) THEN
+    RAISE EXCEPTION 'Only super admins can turn on dual control';
+  END IF;
+
+  org_id := CASE WHEN TG_TABLE_NAME = 'organization_config'
+    THEN (changed->>'id')::uuid
+    ELSE (changed->>'organization_id')::uuid
+  END;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_config
+    WHERE dual_control_enabled AND id = org_id
+  ) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND to_jsonb(NEW) - ARRAY['display_order', 'updated_at'] = to_jsonb(OLD) - ARRAY['display_order', 'updated_at'] THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Dual control is on: changes to % must be submitted for approval', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Publishing checks the product's organization: its admins only, and its own
+-- dual control setting
+CREATE OR REPLACE FUNCTION assert_can_publish_product(product_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  org_id UUID;
+BEGIN
+  SELECT p.organization_id INTO org_id
+    FROM public.loan_products p
+    WHERE p.id = assert_can_publish_product.product_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE id = auth.uid() AND role IN ('super_admin', 'admin') AND is_active
+  ) OR NOT admin_can_access_organization(org_id) THEN
+    RAISE EXCEPTION 'Only admins of this organization can publish its product versions';
+  END IF;
+
+  IF current_setting('app.applying_change_request', true) IS DISTINCT FROM 'on'
+    AND EXISTS (
+      SELECT 1 FROM public.organization_config
+      WHERE dual_control_enabled AND id = org_id
+    ) THEN
+    RAISE EXCEPTION 'Dual control is on: publishing a product version must be submitted for approval';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Invitations now name the organization the new admin joins
+DROP FUNCTION IF EXISTS invite_admin(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION invite_admin(
+  invite_email TEXT,
+  invite_role TEXT DEFAULT 'admin',
+  invite_name TEXT DEFAULT NULL,
+  invite_organization UUID DEFAULT NULL
+)
+RETURNS public.admin_invitations AS $$
+DECLARE
+  existing public.admin_users%ROWTYPE;
+  invitation public.admin_invitations%ROWTYPE;
+  auth_user_id UUID;
+BEGIN
+  PERFORM public.assert_super_admin();
+
+  invite_email := lower(trim(invite_email));
+
+  SELECT * INTO existing FROM public.admin_users WHERE lower(email) = invite_email;
+  IF FOUND THEN
+    IF existing.is_active THEN
+      RAISE EXCEPTION '% is already an admin', invite_email;
+    END IF;
+    RAISE EXCEPTION '% has been deactivated; reactivate them instead', invite_email;
+  END IF;
+
+  UPDATE public.admin_invitations
+    SET status = 'revoked'
+    WHERE lower(email) = invite_email AND status = 'pending';
+
+  INSERT INTO public.admin_invitations (email, full_name, role, organization_id, invited_by, invited_by_email)
+  VALUES (
+    invite_email,
+    NULLIF(trim(invite_name), ''),
+    invite_role,
+    COALESCE(invite_organization, (SELECT organization_id FROM public.admin_users WHERE id = auth.uid())),
+    auth.uid(),
+    (SELECT email FROM public.admin_users WHERE id = auth.uid())
+  )
+  RETURNING * INTO invitation;
+
+  SELECT id INTO auth_user_id FROM auth.users
+    WHERE lower(email) = invite_email AND email_confirmed_at IS NOT NULL;
+  IF auth_user_id IS NOT NULL THEN
+    PERFORM public.accept_admin_invitation(auth_user_id, invite_email);
+    SELECT * INTO invitation FROM public.admin_invitations WHERE id = invitation.id;
+  END IF;
+
+  RETURN invitation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION accept_admin_invitation(user_id UUID, user_email TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  invitation public.admin_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO invitation
+    FROM public.admin_invitations
+    WHERE lower(email) = lower(user_email)
+      AND status = 'pending'
+      AND expires_at > now()
+    FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.admin_users (id, email, full_name, role, organization_id)
+  VALUES (user_id, user_email, invitation.full_name, invitation.role, invitation.organization_id)
+  ON CONFLICT (id) DO NOTHING;
+
+  UPDATE public.admin_invitations
+    SET status = 'accepted', accepted_at = now()
+    WHERE id = invitation.id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create a new lender brand, copying branding, the active theme and the
+-- application workflow from an existing organization when one is given
+CREATE OR REPLACE FUNCTION create_organization(org_name TEXT, template_id UUID DEFAULT NULL)
+RETURNS public.organization_config AS $$
+DECLARE
+  created public.organization_config%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE id = auth.uid() AND role = 'super_admin' AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Only super admins can create organizations';
+  END IF;
+
+  IF COALESCE(trim(org_name), '') = '' THEN
+    RAISE EXCEPTION 'An organization name is required';
+  END IF;
+
+  IF template_id IS NULL THEN
+    INSERT INTO public.organization_config (organization_name)
+    VALUES (trim(org_name))
+    RETURNING * INTO created;
+  ELSE
+    INSERT INTO public.organization_config
+    SELECT (jsonb_populate_record(
+      NULL::public.organization_config,
+      to_jsonb(template) - ARRAY['id', 'logo_url', 'created_at', 'updated_at']
+        || jsonb_build_object(
+          'id', gen_random_uuid(),
+          'organization_name', trim(org_name),
+          'dual_control_enabled', false,
+          'created_at', now(),
+          'updated_at', now()
+        )
+    )).*
+    FROM public.organization_config template
+    WHERE template.id = template_id
+    RETURNING * INTO created;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Organization % not found', template_id;
+    END IF;
+
+    INSERT INTO public.app_theme
+    SELECT (jsonb_populate_record(
+      NULL::public.app_theme,
+      to_jsonb(theme) || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'organization_id', created.id,
+        'created_at', now(),
+        'updated_at', now()
+      )
+    )).*
+    FROM public.app_theme theme
+    WHERE theme.organization_id = template_id AND theme.is_active;
+
+    INSERT INTO public.application_workflows (organization_id, name, states, transitions)
+    SELECT created.id, name, states, transitions
+    FROM public.application_workflows
+    WHERE organization_id = template_id;
+  END IF;
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
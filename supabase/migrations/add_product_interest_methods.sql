@@ -0,0 +1,13 @@
+-- How a product's interest rate is applied and how often borrowers repay
+ALTER TABLE public.loan_products
+  ADD COLUMN IF NOT EXISTS interest_method TEXT NOT NULL DEFAULT 'reducing_balance'
+    CHECK (interest_method IN ('reducing_balance', 'flat_rate', 'balloon')),
+  ADD COLUMN IF NOT EXISTS repayment_frequency TEXT NOT NULL DEFAULT 'monthly'
+    CHECK (repayment_frequency IN ('weekly', 'bi_weekly', 'monthly'));
+
+-- Applications keep the pricing method they were quoted, like interest_rate
+ALTER TABLE public.loan_applications
+  ADD COLUMN IF NOT EXISTS interest_method TEXT NOT NULL DEFAULT 'reducing_balance'
+    CHECK (interest_method IN ('reducing_balance', 'flat_rate', 'balloon')),
+  ADD COLUMN IF NOT EXISTS repayment_frequency TEXT NOT NULL DEFAULT 'monthly'
+    CHECK (repayment_frequency IN ('weekly', 'bi_weekly', 'monthly'));
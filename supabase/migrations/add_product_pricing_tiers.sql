@@ -0,0 +1,13 @@
+-- Pricing tiers override a product's interest_rate and processing_fee for
+-- applications in a given amount band, term band or risk grade. Stored as an
+-- ordered JSON array; the first matching tier wins (see src/lib/pricing.ts).
+ALTER TABLE public.loan_products
+  ADD COLUMN IF NOT EXISTS pricing_tiers JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Link applications to the product they were priced against and record the
+-- applicant's risk grade so the review screen can resolve the tier
+ALTER TABLE public.loan_applications
+  ADD COLUMN IF NOT EXISTS loan_product_id UUID REFERENCES public.loan_products(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS risk_grade TEXT CHECK (risk_grade IN ('A', 'B', 'C', 'D', 'E'));
+
+CREATE INDEX IF NOT EXISTS idx_loan_applications_product ON public.loan_applications(loan_product_id);
@@ -0,0 +1,394 @@
+-- Versioned product terms. The loan_products row stays what the mobile app
+-- reads; admin edits are saved as draft versions and copied onto the row
+-- when published and effective.
+CREATE TABLE IF NOT EXISTS public.loan_product_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_product_id UUID NOT NULL REFERENCES public.loan_products(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  snapshot JSONB NOT NULL,
+  change_note TEXT,
+  effective_from TIMESTAMP WITH TIME ZONE,
+  published_at TIMESTAMP WITH TIME ZONE,
+  published_by UUID REFERENCES public.admin_users(id),
+  created_by UUID REFERENCES public.admin_users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE(loan_product_id, version_number)
+);
+
+-- At most one open draft per product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_product_versions_draft
+  ON public.loan_product_versions(loan_product_id)
+  WHERE status = 'draft';
+
+CREATE INDEX IF NOT EXISTS idx_loan_product_versions_effective
+  ON public.loan_product_versions(loan_product_id, effective_from DESC)
+  WHERE status = 'published';
+
+ALTER TABLE public.loan_products
+  ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES public.loan_product_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.loan_applications
+  ADD COLUMN IF NOT EXISTS loan_product_version_id UUID REFERENCES public.loan_product_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_loan_applications_product_version
+  ON public.loan_applications(loan_product_version_id);
+
+-- Enable RLS
+ALTER TABLE public.loan_product_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view product versions"
+  ON public.loan_product_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid()
+    )
+  );
+
+-- Publishing goes through publish_product_version(), so clients only ever
+-- write drafts
+CREATE POLICY "Admins can create product drafts"
+  ON public.loan_product_versions
+  FOR INSERT
+  WITH CHECK (
+    status = 'draft' AND
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can update product drafts"
+  ON public.loan_product_versions
+  FOR UPDATE
+  USING (
+    status = 'draft' AND
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (status = 'draft');
+
+CREATE POLICY "Admins can discard product drafts"
+  ON public.loan_product_versions
+  FOR DELETE
+  USING (
+    status = 'draft' AND
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+    )
+  );
+
+-- Number versions 1, 2, 3… per product
+CREATE OR REPLACE FUNCTION assign_product_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT COALESCE(MAX(version_number), 0) + 1
+    INTO NEW.version_number
+    FROM public.loan_product_versions
+    WHERE loan_product_id = NEW.loan_product_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_loan_product_version_number
+  BEFORE INSERT ON public.loan_product_versions
+  FOR EACH ROW EXECUTE FUNCTION assign_product_version_number();
+
+-- Published versions are the record of what borrowers were offered
+CREATE OR REPLACE FUNCTION protect_published_product_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'published' THEN
+    RAISE EXCEPTION 'Published product versions cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_published_loan_product_version
+  BEFORE UPDATE ON public.loan_product_versions
+  FOR EACH ROW EXECUTE FUNCTION protect_published_product_version();
+
+CREATE TRIGGER update_loan_product_versions_updated_at
+  BEFORE UPDATE ON public.loan_product_versions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_loan_product_versions
+  AFTER INSERT OR UPDATE OR DELETE ON public.loan_product_versions
+  FOR EACH ROW EXECUTE FUNCTION log_config_change();
+
+-- Copy a version's terms and document requirements onto the live product
+CREATE OR REPLACE FUNCTION apply_product_version(p_version_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v public.loan_product_versions%ROWTYPE;
+  terms public.loan_products%ROWTYPE;
+BEGIN
+  SELECT * INTO v FROM public.loan_product_versions WHERE id = p_version_id;
+
+  -- Drafts have not been reviewed or published
+  IF NOT FOUND OR v.status <> 'published' THEN
+    RAISE EXCEPTION 'Product version % is not published', p_version_id;
+  END IF;
+
+  terms := jsonb_populate_record(NULL::public.loan_products, v.snapshot);
+
+  UPDATE public.loan_products SET
+    name = terms.name,
+    description = terms.description,
+    purpose = terms.purpose,
+    min_amount = terms.min_amount,
+    max_amount = terms.max_amount,
+    min_term_months = terms.min_term_months,
+    max_term_months = terms.max_term_months,
+    interest_rate = terms.interest_rate,
+    interest_method = terms.interest_method,
+    repayment_frequency = terms.repayment_frequency,
+    processing_fee = terms.processing_fee,
+    late_payment_fee = terms.late_payment_fee,
+    grace_period_months = terms.grace_period_months,
+    eligibility_criteria = terms.eligibility_criteria,
+    pricing_tiers = terms.pricing_tiers,
+    required_documents = terms.required_documents,
+    icon_name = terms.icon_name,
+    current_version_id = v.id,
+    updated_at = timezone('utc'::text, now())
+  WHERE id = v.loan_product_id;
+
+  DELETE FROM public.loan_product_documents WHERE loan_product_id = v.loan_product_id;
+
+  INSERT INTO public.loan_product_documents (
+    loan_product_id,
+    document_type_id,
+    is_mandatory,
+    custom_instructions,
+    display_order
+  )
+  SELECT v.loan_product_id, d.document_type_id, d.is_mandatory, d.custom_instructions, d.display_order
+  FROM jsonb_to_recordset(COALESCE(v.snapshot->'documents', '[]'::jsonb)) AS d(
+    document_type_id UUID,
+    is_mandatory BOOLEAN,
+    custom_instructions TEXT,
+    display_order INTEGER
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Apply every published version whose effective date has arrived. Publishing
+-- calls this directly; the cron job below makes future-dated versions go live
+-- on time.
+CREATE OR REPLACE FUNCTION apply_due_product_versions()
+RETURNS INTEGER AS $$
+DECLARE
+  due RECORD;
+  applied INTEGER := 0;
+BEGIN
+  FOR due IN
+    SELECT DISTINCT ON (v.loan_product_id) v.id, v.loan_product_id
+    FROM public.loan_product_versions v
+    WHERE v.status = 'published' AND v.effective_from <= now()
+    ORDER BY v.loan_product_id, v.effective_from DESC, v.version_number DESC
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.loan_products
+      WHERE id = due.loan_product_id AND current_version_id = due.id
+    ) THEN
+      PERFORM apply_product_version(due.id);
+      applied := applied + 1;
+    END IF;
+  END LOOP;
+  RETURN applied;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Who may publish a product's versions. Later migrations add the rules for
+-- dual control and organizations here, so publish_product_version() keeps a
+-- single definition.
+CREATE OR REPLACE FUNCTION assert_can_publish_product(product_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can publish product versions';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION publish_product_version(
+  version_id UUID,
+  effective_from TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.loan_product_versions AS $$
+DECLARE
+  published public.loan_product_versions%ROWTYPE;
+  product_id UUID;
+BEGIN
+  SELECT v.loan_product_id INTO product_id
+    FROM public.loan_product_versions v
+    WHERE v.id = publish_product_version.version_id;
+
+  PERFORM assert_can_publish_product(product_id);
+
+  UPDATE public.loan_product_versions v SET
+    status = 'published',
+    -- A date in the past means "now"; history is not rewritten
+    effective_from = GREATEST(COALESCE(publish_product_version.effective_from, now()), now()),
+    published_at = now(),
+    published_by = auth.uid()
+  WHERE v.id = publish_product_version.version_id AND v.status = 'draft'
+  RETURNING * INTO published;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product version % is not a draft', publish_product_version.version_id;
+  END IF;
+
+  PERFORM apply_due_product_versions();
+  RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Going live only happens through publish_product_version() and the cron job
+REVOKE EXECUTE ON FUNCTION apply_product_version(UUID) FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION apply_due_product_versions() FROM PUBLIC, authenticated, anon;
+
+-- Future-dated versions go live within five minutes of their effective date.
+-- Scheduling under the same name again replaces the job.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'apply-product-versions',
+  '*/5 * * * *',
+  'SELECT public.apply_due_product_versions()'
+);
+
+-- Create a product, its document requirements and a published version 1 in
+-- one transaction. Runs with the caller's rights, so row level security and
+-- dual control apply exactly as they do to direct writes.
+CREATE OR REPLACE FUNCTION create_loan_product(
+  product JSONB,
+  documents JSONB DEFAULT '[]'::jsonb
+)
+RETURNS public.loan_products AS $$
+DECLARE
+  columns TEXT;
+  source_columns TEXT;
+  created public.loan_products%ROWTYPE;
+  version_id UUID;
+BEGIN
+  SELECT string_agg(format('%I', key), ', '), string_agg(format('r.%I', key), ', ')
+    INTO columns, source_columns
+    FROM jsonb_object_keys(product - ARRAY['id', 'current_version_id']) AS key;
+
+  EXECUTE format(
+    'INSERT INTO public.loan_products (%s) SELECT %s FROM jsonb_populate_record(NULL::public.loan_products, $1) r RETURNING *',
+    columns, source_columns
+  ) INTO created USING product;
+
+  INSERT INTO public.loan_product_documents (
+    loan_product_id,
+    document_type_id,
+    is_mandatory,
+    custom_instructions,
+    display_order
+  )
+  SELECT created.id, d.document_type_id, d.is_mandatory, d.custom_instructions, d.display_order
+  FROM jsonb_to_recordset(COALESCE(create_loan_product.documents, '[]'::jsonb)) AS d(
+    document_type_id UUID,
+    is_mandatory BOOLEAN,
+    custom_instructions TEXT,
+    display_order INTEGER
+  );
+
+  INSERT INTO public.loan_product_versions (loan_product_id, status, snapshot, change_note, created_by)
+  VALUES (
+    created.id,
+    'draft',
+    (to_jsonb(created) - ARRAY['id', 'is_active', 'display_order', 'created_at', 'updated_at', 'current_version_id'])
+      || jsonb_build_object('documents', COALESCE(create_loan_product.documents, '[]'::jsonb)),
+    'Initial version',
+    auth.uid()
+  )
+  RETURNING id INTO version_id;
+
+  PERFORM publish_product_version(version_id, NULL);
+
+  SELECT * INTO created FROM public.loan_products WHERE id = created.id;
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record the version in effect when an application is submitted
+CREATE OR REPLACE FUNCTION set_application_product_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.loan_product_id IS NOT NULL AND NEW.loan_product_version_id IS NULL THEN
+    SELECT v.id INTO NEW.loan_product_version_id
+    FROM public.loan_product_versions v
+    WHERE v.loan_product_id = NEW.loan_product_id
+      AND v.status = 'published'
+      AND v.effective_from <= now()
+    ORDER BY v.effective_from DESC, v.version_number DESC
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_loan_application_product_version
+  BEFORE INSERT ON public.loan_applications
+  FOR EACH ROW EXECUTE FUNCTION set_application_product_version();
+
+-- Existing products start at version 1 with their current terms
+INSERT INTO public.loan_product_versions (
+  loan_product_id,
+  version_number,
+  status,
+  snapshot,
+  change_note,
+  effective_from,
+  published_at
+)
+SELECT
+  p.id,
+  1,
+  'published',
+  (to_jsonb(p) - ARRAY['id', 'is_active', 'display_order', 'created_at', 'updated_at', 'current_version_id'])
+    || jsonb_build_object('documents', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'document_type_id', d.document_type_id,
+        'is_mandatory', d.is_mandatory,
+        'custom_instructions', d.custom_instructions,
+        'display_order', d.display_order
+      ) ORDER BY d.display_order)
+      FROM public.loan_product_documents d
+      WHERE d.loan_product_id = p.id
+    ), '[]'::jsonb)),
+  'Initial version',
+  p.created_at,
+  p.created_at
+FROM public.loan_products p
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.loan_product_versions v WHERE v.loan_product_id = p.id
+);
+
+UPDATE public.loan_products p
+SET current_version_id = v.id
+FROM public.loan_product_versions v
+WHERE v.loan_product_id = p.id
+  AND v.version_number = 1
+  AND p.current_version_id IS NULL;
+
+UPDATE public.loan_applications a
+SET loan_product_version_id = v.id
+FROM public.loan_product_versions v
+WHERE v.loan_product_id = a.loan_product_id
+  AND v.version_number = 1
+  AND a.loan_product_version_id IS NULL;
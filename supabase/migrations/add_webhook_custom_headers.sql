@@ -0,0 +1,9 @@
+-- Custom request headers; values of the listed names are masked in the panel
+-- like the API key. Header values may hold {{placeholders}} that the sender
+-- fills in for each delivery.
+ALTER TABLE public.webhook_integrations
+  ADD COLUMN IF NOT EXISTS secret_headers TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.webhook_integrations
+SET headers = '{"Content-Type": "application/json"}'::jsonb
+WHERE headers IS NULL;
@@ -0,0 +1,143 @@
+-- Dead-letter queue for webhook deliveries: failures that used up every retry
+-- stay listed until they are replayed or marked resolved with a note.
+ALTER TABLE public.webhook_logs
+  ADD COLUMN IF NOT EXISTS replay_of UUID REFERENCES public.webhook_logs(id) ON DELETE SET NULL,
+  -- 'original' resends request_body as stored; 'rerender' builds it again
+  ADD COLUMN IF NOT EXISTS replay_payload TEXT
+    CHECK (replay_payload IN ('original', 'rerender')),
+  ADD COLUMN IF NOT EXISTS resolution TEXT
+    CHECK (resolution IN ('replayed', 'resolved')),
+  ADD COLUMN IF NOT EXISTS resolution_note TEXT
+    CHECK (char_length(resolution_note) <= 1000),
+  ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_failed_by_integration
+  ON public.webhook_logs(integration_id, created_at DESC)
+  WHERE status = 'failed';
+
+-- Runs with the caller's permissions, so webhook_logs policies still apply
+CREATE OR REPLACE VIEW public.webhook_dead_letters
+WITH (security_invoker = true) AS
+SELECT
+  l.*,
+  w.name AS integration_name,
+  w.organization_id,
+  w.is_active AS integration_active
+FROM public.webhook_logs l
+JOIN public.webhook_integrations w ON w.id = l.integration_id
+WHERE l.status = 'failed'
+  AND l.retry_count >= w.retry_attempts;
+
+CREATE OR REPLACE FUNCTION assert_can_recover_deliveries()
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE id = auth.uid() AND role IN ('super_admin', 'admin') AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Only admins can replay or resolve webhook deliveries';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Queues a new pending delivery for each open dead letter and marks the
+-- originals replayed. Nothing in this repository sends pending rows; they
+-- wait for the separately deployed sender. Returns how many were queued.
+-- Only dead letters are replayed, as in webhook_dead_letters: deliveries
+-- still being retried, already closed or whose integration is inactive are
+-- skipped.
+CREATE OR REPLACE FUNCTION replay_webhook_deliveries(
+  log_ids UUID[],
+  use_original_payload BOOLEAN DEFAULT true,
+  note TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  queued INTEGER;
+BEGIN
+  PERFORM public.assert_can_recover_deliveries();
+
+  WITH targets AS (
+    SELECT l.*, w.webhook_url AS current_url, w.method AS current_method
+    FROM public.webhook_logs l
+    JOIN public.webhook_integrations w ON w.id = l.integration_id
+    WHERE l.id = ANY(log_ids)
+      AND l.status = 'failed'
+      AND l.retry_count >= w.retry_attempts
+      AND l.resolution IS NULL
+      AND w.is_active
+      AND admin_can_access_organization(w.organization_id)
+    FOR UPDATE OF l
+  ), replays AS (
+    INSERT INTO public.webhook_logs (
+      integration_id,
+      loan_application_id,
+      event_id,
+      event_type,
+      request_url,
+      request_method,
+      request_body,
+      status,
+      retry_count,
+      replay_of,
+      replay_payload
+    )
+    SELECT
+      t.integration_id,
+      t.loan_application_id,
+      t.event_id,
+      t.event_type,
+      t.current_url,
+      t.current_method,
+      CASE WHEN use_original_payload THEN t.request_body END,
+      'pending',
+      0,
+      t.id,
+      CASE WHEN use_original_payload THEN 'original' ELSE 'rerender' END
+    FROM targets t
+    RETURNING replay_of
+  )
+  UPDATE public.webhook_logs
+  SET resolution = 'replayed',
+      resolution_note = NULLIF(btrim(note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id IN (SELECT replay_of FROM replays);
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Closes dead letters that were handled outside the system, e.g. the partner
+-- entered the application by hand. A note is required. Deliveries still being
+-- retried are skipped, since they may yet succeed.
+CREATE OR REPLACE FUNCTION resolve_webhook_deliveries(log_ids UUID[], note TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  resolved INTEGER;
+BEGIN
+  PERFORM public.assert_can_recover_deliveries();
+
+  IF note IS NULL OR btrim(note) = '' THEN
+    RAISE EXCEPTION 'A note is required to resolve a delivery';
+  END IF;
+
+  UPDATE public.webhook_logs l
+  SET resolution = 'resolved',
+      resolution_note = btrim(note),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  FROM public.webhook_integrations w
+  WHERE w.id = l.integration_id
+    AND l.id = ANY(log_ids)
+    AND l.status = 'failed'
+    AND l.retry_count >= w.retry_attempts
+    AND l.resolution IS NULL
+    AND admin_can_access_organization(w.organization_id);
+
+  GET DIAGNOSTICS resolved = ROW_COUNT;
+  RETURN resolved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,302 @@
+-- Integrations subscribe to events; matching events enqueue a pending
+-- delivery in webhook_logs. Nothing in this repository sends those rows:
+-- delivery depends on the send-loan-webhook edge function, which is deployed
+-- separately. Without it queued deliveries stay pending.
+CREATE TABLE IF NOT EXISTS public.webhook_event_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  integration_id UUID NOT NULL REFERENCES public.webhook_integrations(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'application.created',
+    'application.status_changed',
+    'user.kyc_verified',
+    'product.published'
+  )),
+  -- [{"field": "amount", "operator": "gte", "value": 5000}, ...]; all must match
+  conditions JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(conditions) = 'array'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE(integration_id, event_type)
+);
+
+-- Every event is kept, subscribed or not, so deliveries can be traced back
+CREATE TABLE IF NOT EXISTS public.webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organization_config(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  loan_application_id UUID REFERENCES public.loan_applications(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.webhook_logs
+  ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES public.webhook_events(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS event_type TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_event_subscriptions_event
+  ON public.webhook_event_subscriptions(event_type) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_webhook_events_organization
+  ON public.webhook_events(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_pending
+  ON public.webhook_logs(created_at) WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE public.webhook_event_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view event subscriptions"
+  ON public.webhook_event_subscriptions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage event subscriptions"
+  ON public.webhook_event_subscriptions
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.webhook_event_subscriptions AS RESTRICTIVE FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.webhook_integrations w
+    WHERE w.id = integration_id AND admin_can_access_organization(w.organization_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.webhook_integrations w
+    WHERE w.id = integration_id AND admin_can_access_organization(w.organization_id)
+  ));
+
+-- Events are only written by the triggers below
+CREATE POLICY "Admins can view webhook events"
+  ON public.webhook_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.webhook_events AS RESTRICTIVE FOR ALL TO authenticated
+  USING (admin_can_access_organization(organization_id));
+
+CREATE TRIGGER update_webhook_event_subscriptions_updated_at
+  BEFORE UPDATE ON public.webhook_event_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Same rules as matchesEventConditions() in src/lib/webhookEvents.ts
+CREATE OR REPLACE FUNCTION webhook_event_matches(conditions JSONB, payload JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  condition JSONB;
+  actual JSONB;
+  expected JSONB;
+BEGIN
+  FOR condition IN SELECT * FROM jsonb_array_elements(COALESCE(conditions, '[]'::jsonb)) LOOP
+    actual := payload -> (condition->>'field');
+    expected := condition -> 'value';
+
+    -- A value the event does not carry fails any condition on it
+    IF actual IS NULL OR jsonb_typeof(actual) = 'null' THEN
+      RETURN FALSE;
+    END IF;
+
+    IF condition->>'operator' IN ('gt', 'gte', 'lt', 'lte') THEN
+      IF jsonb_typeof(actual) <> 'number' OR jsonb_typeof(expected) <> 'number' THEN
+        RETURN FALSE;
+      END IF;
+    END IF;
+
+    IF NOT COALESCE(CASE condition->>'operator'
+      WHEN 'eq' THEN actual = expected
+      WHEN 'neq' THEN actual <> expected
+      WHEN 'gt' THEN (actual #>> '{}')::NUMERIC > (expected #>> '{}')::NUMERIC
+      WHEN 'gte' THEN (actual #>> '{}')::NUMERIC >= (expected #>> '{}')::NUMERIC
+      WHEN 'lt' THEN (actual #>> '{}')::NUMERIC < (expected #>> '{}')::NUMERIC
+      WHEN 'lte' THEN (actual #>> '{}')::NUMERIC <= (expected #>> '{}')::NUMERIC
+      -- Lists compare as text, so 12 matches both 12 and "12" like the preview
+      WHEN 'in' THEN jsonb_typeof(expected) = 'array'
+        AND (actual #>> '{}') IN (SELECT jsonb_array_elements_text(expected))
+      WHEN 'not_in' THEN jsonb_typeof(expected) = 'array'
+        AND (actual #>> '{}') NOT IN (SELECT jsonb_array_elements_text(expected))
+    END, FALSE) THEN
+      RETURN FALSE;
+    END IF;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Records the event and queues one pending delivery per active integration
+-- in the organization whose subscription matches it. It only queues; the
+-- out-of-repo sender delivers the rows.
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+  event_type TEXT,
+  event_organization UUID,
+  payload JSONB,
+  event_application UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_event_id UUID;
+BEGIN
+  INSERT INTO public.webhook_events (organization_id, event_type, loan_application_id, payload)
+  VALUES (event_organization, enqueue_webhook_event.event_type, event_application, enqueue_webhook_event.payload)
+  RETURNING id INTO new_event_id;
+
+  INSERT INTO public.webhook_logs (
+    integration_id,
+    loan_application_id,
+    event_id,
+    event_type,
+    request_url,
+    request_method,
+    status,
+    retry_count
+  )
+  SELECT w.id, event_application, new_event_id, s.event_type, w.webhook_url, w.method, 'pending', 0
+  FROM public.webhook_event_subscriptions s
+  JOIN public.webhook_integrations w ON w.id = s.integration_id
+  WHERE s.event_type = enqueue_webhook_event.event_type
+    AND s.is_active
+    AND w.is_active
+    AND w.organization_id IS NOT DISTINCT FROM event_organization
+    AND public.webhook_event_matches(s.conditions, enqueue_webhook_event.payload);
+
+  RETURN new_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION webhook_application_payload(app public.loan_applications)
+RETURNS JSONB AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'application_id', app.id,
+    'user_id', app.user_id,
+    'loan_product_id', app.loan_product_id,
+    'status', app.status,
+    'amount', app.amount,
+    'term_months', app.term_months,
+    'purpose', app.purpose
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION emit_application_created_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.enqueue_webhook_event(
+    'application.created',
+    NEW.organization_id,
+    public.webhook_application_payload(NEW),
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER emit_loan_application_created_event
+  AFTER INSERT ON public.loan_applications
+  FOR EACH ROW EXECUTE FUNCTION emit_application_created_event();
+
+CREATE OR REPLACE FUNCTION emit_application_status_changed_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.enqueue_webhook_event(
+    'application.status_changed',
+    NEW.organization_id,
+    public.webhook_application_payload(NEW) || jsonb_build_object(
+      'old_status', OLD.status,
+      'new_status', NEW.status,
+      'reason_code', NEW.status_reason_code
+    ),
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER emit_loan_application_status_changed_event
+  AFTER UPDATE OF status ON public.loan_applications
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION emit_application_status_changed_event();
+
+-- Borrowers are not tied to one organization, so the event goes to each
+-- organization the borrower has applied to
+CREATE OR REPLACE FUNCTION emit_user_kyc_verified_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  org UUID;
+BEGIN
+  FOR org IN
+    SELECT DISTINCT organization_id FROM public.loan_applications WHERE user_id = NEW.id
+  LOOP
+    PERFORM public.enqueue_webhook_event(
+      'user.kyc_verified',
+      org,
+      jsonb_build_object(
+        'user_id', NEW.id,
+        'full_name', NEW.full_name,
+        'phone_number', NEW.phone_number
+      )
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER emit_profile_kyc_verified_event
+  AFTER UPDATE OF kyc_verified ON public.profiles
+  FOR EACH ROW
+  WHEN (NEW.kyc_verified AND OLD.kyc_verified IS DISTINCT FROM TRUE)
+  EXECUTE FUNCTION emit_user_kyc_verified_event();
+
+-- A version is live once apply_product_version() points the product at it,
+-- which for future-dated versions is when apply_due_product_versions() runs
+CREATE OR REPLACE FUNCTION emit_product_published_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.enqueue_webhook_event(
+    'product.published',
+    NEW.organization_id,
+    jsonb_build_object(
+      'product_id', NEW.id,
+      'name', NEW.name,
+      'version_id', NEW.current_version_id,
+      'version_number', (
+        SELECT version_number FROM public.loan_product_versions WHERE id = NEW.current_version_id
+      ),
+      'interest_rate', NEW.interest_rate,
+      'min_amount', NEW.min_amount,
+      'max_amount', NEW.max_amount,
+      'is_active', NEW.is_active
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER emit_loan_product_published_event
+  AFTER UPDATE OF current_version_id ON public.loan_products
+  FOR EACH ROW
+  WHEN (NEW.current_version_id IS NOT NULL AND OLD.current_version_id IS DISTINCT FROM NEW.current_version_id)
+  EXECUTE FUNCTION emit_product_published_event();
+
@@ -0,0 +1,15 @@
+-- Field mappings can write to nested target paths (applicant.name.first,
+-- items[0].amount) and convert values to an explicit output type. Existing
+-- mappings keep sending values as stored.
+ALTER TABLE public.webhook_field_mappings
+  ADD COLUMN IF NOT EXISTS output_type TEXT NOT NULL DEFAULT 'auto'
+    CHECK (output_type IN ('auto', 'string', 'integer', 'decimal', 'boolean', 'date', 'datetime', 'enum')),
+  ADD COLUMN IF NOT EXISTS output_options JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(output_options) = 'object');
+
+-- Dotted names with [n] list positions; overlapping paths are checked by the
+-- admin before a mapping is saved. NOT VALID so existing rows with other
+-- names keep working until they are edited.
+ALTER TABLE public.webhook_field_mappings
+  ADD CONSTRAINT webhook_field_mappings_target_path
+    CHECK (target_field ~ '^[A-Za-z_][A-Za-z0-9_-]*(\.[A-Za-z_][A-Za-z0-9_-]*|\[[0-9]+\])*$') NOT VALID;
@@ -0,0 +1,13 @@
+-- Integrations either build a flat object from their field mappings or render
+-- a template. The template is kept when switching back to mappings.
+ALTER TABLE public.webhook_integrations
+  ADD COLUMN IF NOT EXISTS payload_mode TEXT NOT NULL DEFAULT 'mapping'
+    CHECK (payload_mode IN ('mapping', 'template')),
+  ADD COLUMN IF NOT EXISTS payload_format TEXT NOT NULL DEFAULT 'json'
+    CHECK (payload_format IN ('json', 'xml', 'form')),
+  ADD COLUMN IF NOT EXISTS payload_template TEXT
+    CHECK (char_length(payload_template) <= 20000);
+
+ALTER TABLE public.webhook_integrations
+  ADD CONSTRAINT webhook_integrations_template_present
+    CHECK (payload_mode = 'mapping' OR payload_template IS NOT NULL);
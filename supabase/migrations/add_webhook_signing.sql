@@ -0,0 +1,132 @@
+-- HMAC signing secrets for webhook deliveries, with rotation grace periods
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.webhook_signing_secrets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  integration_id UUID NOT NULL REFERENCES public.webhook_integrations(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL DEFAULT ('whsec_' || encode(gen_random_bytes(32), 'hex')),
+  -- NULL while current; set to the end of the grace period when rotated out
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_signing_secrets_integration
+  ON public.webhook_signing_secrets(integration_id, created_at DESC);
+
+ALTER TABLE public.webhook_signing_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Viewers cannot open the Integrations page, so they do not see secrets either.
+-- Rows are only written by the functions below.
+CREATE POLICY "Admins can view signing secrets"
+  ON public.webhook_signing_secrets
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id = auth.uid() AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins only reach their organization"
+  ON public.webhook_signing_secrets AS RESTRICTIVE FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.webhook_integrations w
+    WHERE w.id = integration_id AND admin_can_access_organization(w.organization_id)
+  ));
+
+-- Every integration signs from the start
+CREATE OR REPLACE FUNCTION create_initial_signing_secret()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.webhook_signing_secrets (integration_id, created_by)
+  VALUES (NEW.id, auth.uid());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS create_webhook_signing_secret ON public.webhook_integrations;
+CREATE TRIGGER create_webhook_signing_secret
+  AFTER INSERT ON public.webhook_integrations
+  FOR EACH ROW EXECUTE FUNCTION create_initial_signing_secret();
+
+INSERT INTO public.webhook_signing_secrets (integration_id)
+SELECT w.id FROM public.webhook_integrations w
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.webhook_signing_secrets s WHERE s.integration_id = w.id
+);
+
+CREATE OR REPLACE FUNCTION assert_can_manage_integration(target_integration UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE id = auth.uid() AND role IN ('super_admin', 'admin') AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Only admins can manage webhook signing secrets';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.webhook_integrations
+    WHERE id = target_integration AND admin_can_access_organization(organization_id)
+  ) THEN
+    RAISE EXCEPTION 'Integration not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Issues a new secret. Secrets still signing keep doing so until the grace
+-- period ends, so receivers can switch over without rejecting deliveries.
+CREATE OR REPLACE FUNCTION rotate_webhook_secret(
+  target_integration UUID,
+  grace_period_hours INTEGER DEFAULT 24
+)
+RETURNS public.webhook_signing_secrets AS $$
+DECLARE
+  new_secret public.webhook_signing_secrets;
+  grace_ends TIMESTAMP WITH TIME ZONE;
+BEGIN
+  PERFORM public.assert_can_manage_integration(target_integration);
+
+  IF grace_period_hours < 0 OR grace_period_hours > 168 THEN
+    RAISE EXCEPTION 'Grace period must be between 0 and 168 hours';
+  END IF;
+
+  grace_ends := now() + make_interval(hours => grace_period_hours);
+
+  UPDATE public.webhook_signing_secrets
+  SET expires_at = LEAST(COALESCE(expires_at, grace_ends), grace_ends)
+  WHERE integration_id = target_integration
+    AND (expires_at IS NULL OR expires_at > now());
+
+  INSERT INTO public.webhook_signing_secrets (integration_id, created_by)
+  VALUES (target_integration, auth.uid())
+  RETURNING * INTO new_secret;
+
+  RETURN new_secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Ends a previous secret's grace period early, e.g. once the receiver has
+-- switched or if the old secret leaked. The current secret cannot be expired.
+CREATE OR REPLACE FUNCTION expire_webhook_secret(target_secret UUID)
+RETURNS VOID AS $$
+DECLARE
+  secret_row public.webhook_signing_secrets;
+BEGIN
+  SELECT * INTO secret_row FROM public.webhook_signing_secrets WHERE id = target_secret;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Signing secret not found';
+  END IF;
+
+  PERFORM public.assert_can_manage_integration(secret_row.integration_id);
+
+  IF secret_row.expires_at IS NULL THEN
+    RAISE EXCEPTION 'Rotate the current secret instead of expiring it';
+  END IF;
+
+  UPDATE public.webhook_signing_secrets
+  SET expires_at = now()
+  WHERE id = target_secret AND expires_at > now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
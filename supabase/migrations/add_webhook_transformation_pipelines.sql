@@ -0,0 +1,13 @@
+-- Field mappings run a list of transformation steps instead of a single
+-- transformation. Steps are {"name": ..., "params": {...}, "values": [...]}.
+ALTER TABLE public.webhook_field_mappings
+  ADD COLUMN IF NOT EXISTS transformations JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(transformations) = 'array' AND jsonb_array_length(transformations) <= 10);
+
+-- Carry existing single transformations over. The transformation column is
+-- kept for senders that have not been updated and is cleared on edit.
+UPDATE public.webhook_field_mappings
+SET transformations = jsonb_build_array(jsonb_build_object('name', transformation))
+WHERE transformation IS NOT NULL
+  AND transformation <> 'none'
+  AND transformations = '[]'::jsonb;